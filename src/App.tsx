@@ -5,7 +5,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { Routes, Route, useLocation } from "react-router-dom";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ItineraryProvider } from "@/contexts/ItineraryContext";
 import { PWAUpdatePrompt } from "@/components/PWAUpdatePrompt";
+import { useGeofenceTracking } from "@/hooks/useGeofenceTracking";
 
 // Eager load Index for fastest FCP on main route
 import Index from "./pages/Index";
@@ -18,6 +20,7 @@ const Settings = lazy(() => import("./pages/Settings"));
 const Favorites = lazy(() => import("./pages/Favorites"));
 const Social = lazy(() => import("./pages/Social"));
 const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
+const MerchantPortal = lazy(() => import("./pages/MerchantPortal"));
 const PrivacyPolicy = lazy(() => import("./pages/PrivacyPolicy"));
 const TermsOfService = lazy(() => import("./pages/TermsOfService"));
 const VerificationSuccess = lazy(() => import("./pages/VerificationSuccess"));
@@ -44,38 +47,48 @@ const PageTracker = memo(function PageTracker() {
   return null;
 });
 
+// Runs geofence tracking app-wide so deal alerts fire on any route
+const GeofenceTracker = memo(function GeofenceTracker() {
+  useGeofenceTracking();
+  return null;
+});
+
 const App = () => (
   <ErrorBoundary>
     <AuthProvider>
-      <TooltipProvider>
-        <div className="app-wrapper">
-          <Toaster />
-          <Sonner />
-          <PWAUpdatePrompt />
-          <PageTracker />
+      <ItineraryProvider>
+        <TooltipProvider>
+          <div className="app-wrapper">
+            <Toaster />
+            <Sonner />
+            <PWAUpdatePrompt />
+            <PageTracker />
+            <GeofenceTracker />
           
           
-          <Suspense fallback={null}>
-            <Routes>
-              {/* Main route - eagerly loaded for fastest render */}
-              <Route path="/" element={<Index />} />
+            <Suspense fallback={null}>
+              <Routes>
+                {/* Main route - eagerly loaded for fastest render */}
+                <Route path="/" element={<Index />} />
               
-              {/* Other routes - lazy loaded */}
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/onboarding" element={<Onboarding />} />
-              <Route path="/profile" element={<Profile />} />
-              <Route path="/settings" element={<Settings />} />
-              <Route path="/favorites" element={<Favorites />} />
-              <Route path="/social" element={<Social />} />
-              <Route path="/admin" element={<AdminDashboard />} />
-              <Route path="/verification-success" element={<VerificationSuccess />} />
-              <Route path="/privacy-policy" element={<PrivacyPolicy />} />
-              <Route path="/terms-of-service" element={<TermsOfService />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Suspense>
-        </div>
-      </TooltipProvider>
+                {/* Other routes - lazy loaded */}
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/onboarding" element={<Onboarding />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/favorites" element={<Favorites />} />
+                <Route path="/social" element={<Social />} />
+                <Route path="/admin" element={<AdminDashboard />} />
+                <Route path="/merchant" element={<MerchantPortal />} />
+                <Route path="/verification-success" element={<VerificationSuccess />} />
+                <Route path="/privacy-policy" element={<PrivacyPolicy />} />
+                <Route path="/terms-of-service" element={<TermsOfService />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Suspense>
+          </div>
+        </TooltipProvider>
+      </ItineraryProvider>
     </AuthProvider>
   </ErrorBoundary>
 );
@@ -1,4 +1,4 @@
-import { useEffect, useState, memo, useCallback } from "react";
+import { useEffect, useState, memo, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Clock, MapPin, TrendingUp, ChevronDown, ChevronUp, Heart, Share2, Sparkles } from "lucide-react";
 import { Button } from "./ui/button";
@@ -8,6 +8,8 @@ import { toast } from "sonner";
 import type { City } from "@/types/cities";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
 import { useFavorites } from "@/hooks/useFavorites";
+import type { Json } from "@/integrations/supabase/types";
+import { DEVICE_TIMEZONE, getDealLiveStatus, getNextDealTransition, getTransitionDelay, isDealLive } from "@/lib/deal-schedule";
 import { shareDeal } from "@/utils/shareUtils";
 import { glideHaptic } from "@/lib/haptics";
 import { cn } from "@/lib/utils";
@@ -44,7 +46,10 @@ interface Deal {
   description: string;
   venue_name: string;
   deal_type: string;
+  starts_at: string;
   expires_at: string;
+  active_days: number[] | null;
+  schedule: Json | null;
   image_url: string | null;
   website_url: string | null;
   neighborhood_id: string | null;
@@ -62,6 +67,10 @@ export const ActiveDeals = memo(({ selectedCity }: ActiveDealsProps) => {
   const [user, setUser] = useState<any>(null);
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [preferenceFilterEnabled, setPreferenceFilterEnabled] = useState(true);
+  // Next time a deal window opens or closes - the list is reloaded then
+  const [nextTransition, setNextTransition] = useState<Date | null>(null);
+  // Latest loadActiveDeals, for the transition timer
+  const loadActiveDealsRef = useRef<() => void>(() => {});
   const [isOpen, setIsOpen] = useState(() => {
     const saved = localStorage.getItem('activeDealsOpen');
     return saved !== null ? JSON.parse(saved) : false;
@@ -127,6 +136,12 @@ export const ActiveDeals = memo(({ selectedCity }: ActiveDealsProps) => {
     localStorage.setItem('activeDealsOpen', JSON.stringify(isOpen));
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!nextTransition) return;
+    const timer = setTimeout(() => loadActiveDealsRef.current(), getTransitionDelay(nextTransition));
+    return () => clearTimeout(timer);
+  }, [nextTransition]);
+
   useEffect(() => {
     loadActiveDeals();
     
@@ -185,13 +200,19 @@ export const ActiveDeals = memo(({ selectedCity }: ActiveDealsProps) => {
         .limit(20);
 
       if (error) throw error;
-      setDeals(data || []);
+
+      // The query only bounds the date range; happy-hour windows and holiday closures are checked here
+      const now = new Date();
+      const candidates = data || [];
+      setDeals(candidates.filter((deal) => isDealLive(deal, now, DEVICE_TIMEZONE)));
+      setNextTransition(getNextDealTransition(candidates, now, DEVICE_TIMEZONE));
     } catch (error) {
       console.error('Error loading deals:', error);
     } finally {
       setLoading(false);
     }
   };
+  loadActiveDealsRef.current = loadActiveDeals;
 
   // Calculate distance between two coordinates in km using Haversine formula
   const getDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
@@ -219,10 +240,11 @@ export const ActiveDeals = memo(({ selectedCity }: ActiveDealsProps) => {
     }
   };
 
-  const getTimeRemaining = (expiresAt: string) => {
+  // Counts down to the end of the current window (e.g. 7pm for a happy hour), else to expiry
+  const getTimeRemaining = (deal: Deal) => {
     const now = new Date();
-    const expires = new Date(expiresAt);
-    const diff = expires.getTime() - now.getTime();
+    const ends = getDealLiveStatus(deal, now, DEVICE_TIMEZONE).endsAt ?? new Date(deal.expires_at);
+    const diff = ends.getTime() - now.getTime();
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
     
@@ -370,7 +392,7 @@ export const ActiveDeals = memo(({ selectedCity }: ActiveDealsProps) => {
                     
                     <div className="flex items-center gap-1 text-xs text-primary font-medium flex-shrink-0">
                       <Clock className="w-3 h-3" />
-                      <span>{getTimeRemaining(deal.expires_at)}</span>
+                      <span>{getTimeRemaining(deal)}</span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,82 @@
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { Clock } from "lucide-react";
+import { useBusynessForecast, type BusynessForecastTarget } from "@/hooks/useBusynessForecast";
+
+interface BusynessForecastChartProps {
+  target: BusynessForecastTarget | null;
+  hours?: number;
+}
+
+const formatHour = (hour: number) => {
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}${suffix}`;
+};
+
+export const BusynessForecastChart = ({ target, hours = 12 }: BusynessForecastChartProps) => {
+  const { forecast, loading, error } = useBusynessForecast(target, hours);
+
+  if (!target || error) return null;
+
+  if (loading && !forecast) {
+    return <div className="h-24 rounded-lg sm:rounded-xl bg-muted/50 animate-pulse" />;
+  }
+
+  if (!forecast) return null;
+
+  if (forecast.insufficient_data) {
+    return (
+      <div className="bg-muted/50 rounded-lg sm:rounded-xl p-2.5 sm:p-3 flex items-center gap-2 text-muted-foreground">
+        <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+        <span className="text-[10px] sm:text-xs">Not enough visits yet to predict busy times</span>
+      </div>
+    );
+  }
+
+  const data = forecast.forecast.map((point, index) => ({
+    label: index === 0 ? 'Now' : formatHour(point.hour_of_day),
+    busyness: point.busyness,
+  }));
+
+  return (
+    <div className="bg-muted/50 rounded-lg sm:rounded-xl p-2.5 sm:p-3">
+      <div className="flex items-center justify-between mb-1.5">
+        <div className="flex items-center gap-1.5 text-foreground">
+          <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+          <span className="text-xs sm:text-sm font-semibold">Predicted busyness</span>
+        </div>
+        {forecast.peak && forecast.peak.busyness > 0 && (
+          <span className="text-[10px] sm:text-xs text-muted-foreground">
+            Busiest around {formatHour(forecast.peak.hour_of_day)}
+          </span>
+        )}
+      </div>
+      <ResponsiveContainer width="100%" height={72}>
+        <BarChart data={data} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+          <XAxis
+            dataKey="label"
+            interval={2}
+            tickLine={false}
+            axisLine={false}
+            tick={{ fontSize: 9, fill: 'hsl(var(--muted-foreground))' }}
+          />
+          <Tooltip
+            cursor={{ fill: 'hsl(var(--muted))' }}
+            formatter={(value: number) => [`${value}%`, 'Busyness']}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '12px'
+            }}
+          />
+          <Bar dataKey="busyness" radius={[3, 3, 0, 0]}>
+            {data.map((point, index) => (
+              <Cell key={point.label + index} fill={index === 0 ? 'hsl(var(--primary))' : 'hsl(var(--primary) / 0.45)'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { memo, useState, useEffect, useCallback } from "react";
-import { Clock, MapPin, Share2, Heart, X, ExternalLink, Navigation } from "lucide-react";
+import { Clock, MapPin, Share2, Heart, X, ExternalLink, Navigation, ListPlus, ListChecks, TicketCheck } from "lucide-react";
 import { Button } from "./ui/button";
 import { OptimizedImage } from "./ui/optimized-image";
 import { toast } from "sonner";
@@ -7,6 +7,12 @@ import { shareDeal } from "@/utils/shareUtils";
 import { useFavorites } from "@/hooks/useFavorites";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { BusynessForecastChart } from "./BusynessForecastChart";
+import { DealRedemptionDialog } from "./DealRedemptionDialog";
+import { useItinerary } from "@/hooks/useItinerary";
+import { dealToStop } from "@/lib/itinerary";
+import type { LatLng } from "@/lib/routing";
+import type { Json } from "@/integrations/supabase/types";
 
 // Defer haptics import - only loaded when user interacts
 const triggerHaptic = async () => {
@@ -30,6 +36,9 @@ interface Deal {
   image_url: string | null;
   website_url: string | null;
   active_days?: number[] | null;
+  schedule?: Json | null;
+  neighborhood_id?: string | null;
+  canonical_venue_id?: string | null;
   neighborhoods?: {
     id: string;
     name: string;
@@ -42,9 +51,10 @@ interface Deal {
 interface DealDetailCardProps {
   deal: Deal;
   onClose: () => void;
+  location?: LatLng | null; // Where the deal is drawn; enables adding it to a night-out plan
 }
 
-export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
+export const DealDetailCard = memo(({ deal, onClose, location }: DealDetailCardProps) => {
   const [user, setUser] = useState<any>(null);
   
   useEffect(() => {
@@ -62,6 +72,25 @@ export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
   const { isFavorite, toggleFavorite } = useFavorites(user?.id);
   const isFav = isFavorite(deal.id);
 
+  const [redeemOpen, setRedeemOpen] = useState(false);
+
+  // Counts toward the venue's reach in the merchant portal
+  useEffect(() => {
+    supabase.rpc('record_deal_view', { _deal_id: deal.id }).then(({ error }) => {
+      if (error) console.error('Error recording deal view:', error);
+    });
+  }, [deal.id]);
+
+  const { hasStop, addStop, setPlannerOpen } = useItinerary();
+  const inPlan = hasStop(`deal:${deal.id}`);
+
+  const neighborhoodId = deal.neighborhood_id ?? deal.neighborhoods?.id;
+  const forecastTarget = deal.canonical_venue_id
+    ? { venueId: deal.canonical_venue_id }
+    : neighborhoodId
+      ? { neighborhoodId }
+      : null;
+
   const handleShare = async () => {
     await triggerHaptic();
     
@@ -111,6 +140,26 @@ export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
     window.open(mapsUrl, "_blank");
   };
 
+  const handleAddToPlan = async () => {
+    if (!location) return;
+    await triggerHaptic();
+    if (inPlan) {
+      onClose();
+      setPlannerOpen(true);
+      return;
+    }
+    addStop(dealToStop(deal, location));
+  };
+
+  const handleRedeem = async () => {
+    await triggerHaptic();
+    if (!user) {
+      toast.error("Sign in required", { description: "Please sign in to redeem deals" });
+      return;
+    }
+    setRedeemOpen(true);
+  };
+
   const handleViewWebsite = () => {
     if (deal.website_url) {
       window.open(deal.website_url, "_blank");
@@ -263,6 +312,17 @@ export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
           </div>
         </div>
 
+        {/* Busyness Forecast - the venue's own curve when known, otherwise the neighborhood's */}
+        <BusynessForecastChart target={forecastTarget} />
+
+        <Button
+          onClick={handleRedeem}
+          className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90 text-primary-foreground font-semibold py-6 rounded-xl"
+        >
+          <TicketCheck className="w-4 h-4 mr-2" />
+          Redeem Now
+        </Button>
+
         {/* Action Buttons */}
         <div className="grid grid-cols-2 gap-3">
           <Button
@@ -282,6 +342,17 @@ export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
           </Button>
         </div>
 
+        {location && (
+          <Button
+            onClick={handleAddToPlan}
+            variant="outline"
+            className="w-full border-border/60 hover:border-primary/60 hover:bg-primary/5 font-semibold rounded-xl"
+          >
+            {inPlan ? <ListChecks className="w-4 h-4 mr-2" /> : <ListPlus className="w-4 h-4 mr-2" />}
+            {inPlan ? "In Your Plan" : "Add to Plan"}
+          </Button>
+        )}
+
         {/* Website Link */}
         {deal.website_url && (
           <Button
@@ -294,6 +365,8 @@ export const DealDetailCard = memo(({ deal, onClose }: DealDetailCardProps) => {
           </Button>
         )}
       </div>
+
+      <DealRedemptionDialog deal={deal} open={redeemOpen} onOpenChange={setRedeemOpen} />
     </div>
   );
 });
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { CheckCircle2, Loader2, RefreshCw, TicketCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useDealRedemption } from "@/hooks/useDealRedemption";
+
+interface DealRedemptionDialogProps {
+  deal: { id: string; title: string; venue_name: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// "ABCD EFGH" is easier to read out at the counter
+const formatCode = (code: string) => `${code.slice(0, 4)} ${code.slice(4)}`;
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const DealRedemptionDialog = ({ deal, open, onOpenChange }: DealRedemptionDialogProps) => {
+  const { redemption, claiming, error, claim } = useDealRedemption(deal.id);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Claims when the dialog opens and again when it switches to another deal (the hook clears
+  // the previous deal's code). An expired code is renewed from the button, and a refused claim
+  // keeps its error until then rather than retrying.
+  useEffect(() => {
+    if (open && !redemption && !error) claim();
+  }, [open, redemption, error, claim]);
+
+  const waiting = open && redemption?.status === 'claimed';
+
+  useEffect(() => {
+    if (!waiting) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const remainingMs = redemption ? new Date(redemption.expires_at).getTime() - now : 0;
+  const expired = redemption?.status === 'claimed' && remainingMs <= 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[380px]">
+        <DialogHeader>
+          <DialogTitle>Redeem deal</DialogTitle>
+          <DialogDescription>
+            {deal.title} · {deal.venue_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {claiming && !redemption ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : redemption?.status === 'redeemed' ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <CheckCircle2 className="w-14 h-14 text-green-500" />
+            <p className="text-lg font-bold text-foreground">Redeemed</p>
+            <p className="text-sm text-muted-foreground">Enjoy! The venue has confirmed your code.</p>
+          </div>
+        ) : redemption ? (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <div className={expired ? "opacity-30" : undefined}>
+              <div className="bg-white p-3 rounded-xl">
+                <QRCodeSVG value={redemption.token} size={200} level="M" />
+              </div>
+            </div>
+            <p className="font-mono text-3xl font-bold tracking-widest text-foreground" aria-label="Redemption code">
+              {formatCode(redemption.code)}
+            </p>
+            {expired ? (
+              <Button onClick={claim} disabled={claiming} className="w-full">
+                <RefreshCw className={claiming ? "w-4 h-4 mr-2 animate-spin" : "w-4 h-4 mr-2"} />
+                Get a new code
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Show this to staff · expires in {formatCountdown(remainingMs)}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <TicketCheck className="w-12 h-12 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">{error ?? 'Failed to get a redemption code'}</p>
+            <Button variant="outline" onClick={claim} disabled={claiming}>
+              Try again
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import { GripVertical } from "lucide-react";
+import type { MapboxGLModule } from "@/lib/mapbox-loader";
+import { useMapLayer, type MapLayerHost } from "./map/useMapLayer";
+import { densityLayer, type DensityLayerData } from "./map/layers";
+
+// Divider position limits, in percent of the map width
+const MIN_SPLIT = 5;
+const MAX_SPLIT = 95;
+const KEYBOARD_STEP = 5;
+
+interface DensityCompareSplitProps {
+  // Main map - shows snapshot A and drives the camera
+  map: MapboxGL.Map | null;
+  mapboxgl: MapboxGLModule | null;
+  styleUrl: string;
+  // Snapshot B, drawn on a second map revealed right of the divider
+  data: DensityLayerData | null;
+  labelA: string;
+  labelB: string;
+  isMobile: boolean;
+}
+
+/**
+ * Swipe comparison for the density heatmap. A second, non-interactive map is stacked over the
+ * main one and clipped at the divider; it follows every camera move of the main map, so
+ * pan and zoom stay in sync while both sides can show different data.
+ */
+export const DensityCompareSplit = ({ map, mapboxgl, styleUrl, data, labelA, labelB, isMobile }: DensityCompareSplitProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [overlay, setOverlay] = useState<MapboxGL.Map | null>(null);
+  const [overlayLoaded, setOverlayLoaded] = useState(false);
+  const [split, setSplit] = useState(50);
+  const draggingRef = useRef(false);
+
+  useEffect(() => {
+    if (!map || !mapboxgl || !containerRef.current) return;
+
+    const instance = new mapboxgl.Map({
+      container: containerRef.current,
+      style: styleUrl,
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+      projection: map.getProjection(),
+      interactive: false,
+      attributionControl: false,
+      trackResize: false,
+      fadeDuration: 0,
+    });
+
+    const syncCamera = () => {
+      instance.jumpTo({
+        center: map.getCenter(),
+        zoom: map.getZoom(),
+        bearing: map.getBearing(),
+        pitch: map.getPitch(),
+      });
+    };
+    const syncSize = () => instance.resize();
+
+    instance.once('load', () => setOverlayLoaded(true));
+    map.on('move', syncCamera);
+    map.on('resize', syncSize);
+    setOverlay(instance);
+
+    return () => {
+      map.off('move', syncCamera);
+      map.off('resize', syncSize);
+      instance.remove();
+      setOverlay(null);
+      setOverlayLoaded(false);
+    };
+    // A style change rebuilds the overlay; the density layer is added again once it loads
+  }, [map, mapboxgl, styleUrl]);
+
+  const host = useMemo<MapLayerHost>(() => ({
+    map: overlay,
+    mapboxgl,
+    mapLoaded: overlayLoaded,
+    isMobile,
+    reduceMotion: true,
+  }), [overlay, mapboxgl, overlayLoaded, isMobile]);
+
+  useMapLayer(host, densityLayer, data);
+
+  const moveDivider = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const percent = ((clientX - rect.left) / rect.width) * 100;
+    setSplit(Math.min(MAX_SPLIT, Math.max(MIN_SPLIT, percent)));
+  };
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        className="absolute inset-0 z-[5] pointer-events-none"
+        style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+        aria-hidden="true"
+      />
+
+      <div
+        className="absolute inset-y-0 z-[6] w-0.5 bg-white/80 shadow-[0_0_8px_rgba(0,0,0,0.5)] pointer-events-none"
+        style={{ left: `${split}%` }}
+      />
+
+      <div
+        className="absolute z-[6] -translate-x-1/2 -translate-y-1/2"
+        style={{ left: `${split}%`, top: '50%' }}
+      >
+        <span className="absolute right-full top-1/2 -translate-y-1/2 mr-2 px-2 py-0.5 rounded-full bg-card/95 border border-border text-[10px] font-semibold text-foreground shadow whitespace-nowrap">
+          A · {labelA}
+        </span>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Compare divider"
+          aria-valuemin={MIN_SPLIT}
+          aria-valuemax={MAX_SPLIT}
+          aria-valuenow={Math.round(split)}
+          className="w-8 h-8 rounded-full bg-card border border-border shadow-lg flex items-center justify-center cursor-ew-resize touch-none focus:outline-none focus:ring-2 focus:ring-primary"
+          onPointerDown={(e) => {
+            draggingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+          }}
+          onPointerMove={(e) => {
+            if (draggingRef.current) moveDivider(e.clientX);
+          }}
+          onPointerUp={(e) => {
+            draggingRef.current = false;
+            e.currentTarget.releasePointerCapture(e.pointerId);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowLeft') setSplit((value) => Math.max(MIN_SPLIT, value - KEYBOARD_STEP));
+            if (e.key === 'ArrowRight') setSplit((value) => Math.min(MAX_SPLIT, value + KEYBOARD_STEP));
+          }}
+        >
+          <GripVertical className="w-4 h-4 text-foreground" />
+        </div>
+        <span className="absolute left-full top-1/2 -translate-y-1/2 ml-2 px-2 py-0.5 rounded-full bg-card/95 border border-border text-[10px] font-semibold text-foreground shadow whitespace-nowrap">
+          B · {labelB}
+        </span>
+      </div>
+    </>
+  );
+};
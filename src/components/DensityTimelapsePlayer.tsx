@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import { Play, Pause, Download, X, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { triggerHaptic } from "@/lib/haptics";
+import {
+  formatTimelapseTime,
+  getSupportedVideoMimeType,
+  getTimelapseRangeLabel,
+  interpolateDensityFrames,
+  recordTimelapseVideo,
+  type DensityFrame,
+  type TimelapseRange,
+} from "@/lib/density-timelapse";
+import { DENSITY_SOURCE_ID } from "./map/layers";
+
+// At 1x a day plays in 12 seconds
+const HOURS_PER_SECOND = 2;
+const SPEEDS = [1, 2, 4];
+// The map is redrawn at most this often while playing
+const MIN_REDRAW_MS = 50;
+
+const EXPORT_FPS = 12;
+
+const RANGE_OPTIONS: TimelapseRange[] = [
+  { kind: 'day', daysAgo: 0 },
+  { kind: 'day', daysAgo: 1 },
+  ...Array.from({ length: 5 }, (_, i): TimelapseRange => ({ kind: 'day', daysAgo: i + 2 })),
+  { kind: 'week' },
+];
+
+const rangeToValue = (range: TimelapseRange) => (range.kind === 'week' ? 'week' : `day-${range.daysAgo}`);
+const valueToRange = (value: string): TimelapseRange =>
+  value === 'week' ? { kind: 'week' } : { kind: 'day', daysAgo: parseInt(value.replace('day-', ''), 10) };
+
+interface DensityTimelapsePlayerProps {
+  map: MapboxGL.Map | null;
+  frames: DensityFrame[];
+  loading: boolean;
+  error: string | null;
+  range: TimelapseRange;
+  onRangeChange: (range: TimelapseRange) => void;
+  onRetry: () => void;
+  onClose: () => void;
+  isMobile: boolean;
+}
+
+export const DensityTimelapsePlayer = ({
+  map,
+  frames,
+  loading,
+  error,
+  range,
+  onRangeChange,
+  onRetry,
+  onClose,
+  isMobile,
+}: DensityTimelapsePlayerProps) => {
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const lastFrame = Math.max(0, frames.length - 1);
+  const exporting = exportProgress !== null;
+
+  const renderPosition = useCallback((value: number) => {
+    const source = map?.getSource(DENSITY_SOURCE_ID) as MapboxGL.GeoJSONSource | undefined;
+    source?.setData(interpolateDensityFrames(frames, value) as GeoJSON.FeatureCollection);
+  }, [map, frames]);
+
+  // New frames (range or viewport change) start from the beginning
+  useEffect(() => {
+    setPosition(0);
+  }, [frames]);
+
+  useEffect(() => {
+    if (!exporting) renderPosition(position);
+  }, [position, renderPosition, exporting]);
+
+  useEffect(() => {
+    if (!playing || lastFrame === 0) return;
+
+    let animationFrame: number;
+    let previous = performance.now();
+
+    const tick = (now: number) => {
+      const elapsed = now - previous;
+      if (elapsed >= MIN_REDRAW_MS) {
+        previous = now;
+        setPosition((current) => {
+          const next = current + (elapsed / 1000) * HOURS_PER_SECOND * speed;
+          // Loop back to the start after the last frame
+          return next > lastFrame ? 0 : next;
+        });
+      }
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [playing, speed, lastFrame]);
+
+  useEffect(() => {
+    return () => exportAbortRef.current?.abort();
+  }, []);
+
+  const handleExport = async () => {
+    if (!map || frames.length < 2) return;
+
+    triggerHaptic('medium');
+    setPlaying(false);
+    setExportProgress(0);
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const label = getTimelapseRangeLabel(range);
+
+    try {
+      const blob = await recordTimelapseVideo({
+        map,
+        frameCount: frames.length,
+        // A week has 7x the frames, so it gets fewer video frames per hour
+        stepsPerFrame: range.kind === 'week' ? 2 : 6,
+        fps: EXPORT_FPS,
+        renderPosition,
+        drawOverlay: (ctx, value) => {
+          const scale = ctx.canvas.width / (map.getCanvas().clientWidth || ctx.canvas.width);
+          const text = formatTimelapseTime(frames, value);
+          ctx.save();
+          ctx.font = `600 ${Math.round(16 * scale)}px system-ui, sans-serif`;
+          const padding = 10 * scale;
+          const width = ctx.measureText(text).width + padding * 2;
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+          ctx.fillRect(padding, padding, width, 32 * scale);
+          ctx.fillStyle = '#ffffff';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(text, padding * 2, padding + 16 * scale);
+          ctx.restore();
+        },
+        onProgress: setExportProgress,
+        signal: controller.signal,
+      });
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `heatmap-timelapse-${label.toLowerCase().replace(/\s+/g, '-')}.webm`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success('Time-lapse video saved');
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Error exporting time-lapse:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to export time-lapse');
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+      renderPosition(position);
+    }
+  };
+
+  const canExport = frames.length > 1 && !loading && getSupportedVideoMimeType() !== null;
+
+  return (
+    <>
+      {/* Timestamp - Top center over the map */}
+      {frames.length > 0 && (
+        <div
+          className={`${isMobile ? 'fixed' : 'absolute'} left-1/2 -translate-x-1/2 z-30 bg-card/95 backdrop-blur-xl rounded-full border border-border shadow-lg px-3 py-1.5`}
+          style={{ top: isMobile ? 'calc(env(safe-area-inset-top, 0px) + 70px)' : '80px' }}
+          aria-live="off"
+        >
+          <span className="text-xs font-bold text-foreground tabular-nums">{formatTimelapseTime(frames, position)}</span>
+        </div>
+      )}
+
+      {/* Playback controls - Bottom center */}
+      <div
+        className={`${isMobile ? 'fixed' : 'absolute'} left-1/2 -translate-x-1/2 z-30 w-[min(92vw,420px)] bg-card/95 backdrop-blur-xl rounded-xl border border-border shadow-lg p-2.5 space-y-2`}
+        style={{ bottom: isMobile ? 'var(--map-fixed-bottom)' : 'var(--map-ui-inset-bottom)' }}
+        role="group"
+        aria-label="Heatmap time-lapse"
+      >
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="default"
+            className="h-8 w-8 p-0 rounded-full"
+            disabled={frames.length < 2 || exporting}
+            onClick={() => {
+              triggerHaptic('light');
+              setPlaying(!playing);
+            }}
+            aria-label={playing ? 'Pause time-lapse' : 'Play time-lapse'}
+          >
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+
+          <Select value={rangeToValue(range)} onValueChange={(v) => onRangeChange(valueToRange(v))} disabled={exporting}>
+            <SelectTrigger className="h-8 text-[10px] bg-background/80 flex-1" aria-label="Time-lapse range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={rangeToValue(option)} value={rangeToValue(option)}>
+                  {getTimelapseRangeLabel(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 px-2 text-[10px] font-semibold tabular-nums"
+            disabled={exporting}
+            onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+            aria-label={`Playback speed ${speed}x`}
+          >
+            {speed}x
+          </Button>
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 w-8 p-0"
+            disabled={!canExport || exporting}
+            onClick={handleExport}
+            aria-label="Export time-lapse as video"
+            title={getSupportedVideoMimeType() ? 'Export as WebM video' : 'Video export is not supported in this browser'}
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={() => {
+              exportAbortRef.current?.abort();
+              onClose();
+            }}
+            aria-label="Close time-lapse"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {error ? (
+          <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
+            <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
+            <span className="text-destructive truncate">{error}</span>
+            <Button onClick={onRetry} variant="ghost" size="sm" className="h-6 text-xs px-2 ml-auto">
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <input
+            type="range"
+            min={0}
+            max={lastFrame}
+            step={0.01}
+            value={position}
+            disabled={frames.length < 2 || exporting}
+            onChange={(e) => {
+              setPlaying(false);
+              setPosition(parseFloat(e.target.value));
+            }}
+            className="path-flow-slider w-full"
+            aria-label="Time-lapse position"
+            aria-valuetext={formatTimelapseTime(frames, position)}
+          />
+        )}
+
+        <div className="flex items-center justify-between text-[9px] text-muted-foreground">
+          {loading ? (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2 h-2 border border-primary border-t-transparent rounded-full animate-spin" />
+              Loading frames...
+            </span>
+          ) : exporting ? (
+            <span>Recording video... {Math.round((exportProgress ?? 0) * 100)}%</span>
+          ) : (
+            <span>{frames.length} hourly frames</span>
+          )}
+          {frames.length > 0 && <span>{formatTimelapseTime(frames, lastFrame)}</span>}
+        </div>
+      </div>
+    </>
+  );
+};
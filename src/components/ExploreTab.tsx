@@ -1,16 +1,18 @@
-import { useState, useEffect, useCallback, memo, lazy, Suspense } from "react";
+import { useState, useEffect, useCallback, useMemo, memo, lazy, Suspense } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Input } from "./ui/input";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { OptimizedImage } from "./ui/optimized-image";
 import { VirtualList } from "./ui/virtual-list";
-import { Search, MapPin, Clock, TrendingUp, Filter, X, Navigation, Heart, Sparkles } from "lucide-react";
+import { Search, MapPin, Clock, TrendingUp, Filter, X, Navigation, Heart, Sparkles, ArrowUpDown } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "./ui/button";
 import { EmptyState } from "./EmptyState";
 import { calculateDistance, getDynamicRadius, formatDistance } from "@/utils/geospatialUtils";
 import { useFavorites } from "@/hooks/useFavorites";
+import { useTravelTimes, type TravelTimeTarget } from "@/hooks/useTravelTimes";
+import { formatTravelTime, TRAVEL_MODES, TRAVEL_MODE_LABELS, type TravelMode } from "@/lib/routing";
 
 import type { User } from "@supabase/supabase-js";
 
@@ -72,24 +74,48 @@ interface Deal {
   description: string;
   venue_name: string;
   deal_type: string;
+  starts_at: string;
   expires_at: string;
+  active_days: number[] | null;
   image_url: string | null;
   website_url: string | null;
   neighborhood_id: string | null;
+  canonical_venue_id?: string | null;
   neighborhoods?: {
     id: string;
     name: string;
     center_lat: number;
     center_lng: number;
   };
+  canonical_venue?: {
+    lat: number | null;
+    lng: number | null;
+  } | null;
   distance?: number; // Distance from user in km
 }
 
 interface ExploreTabProps {
   onVenueSelect?: (venueName: string) => void;
+  mapboxToken?: string; // Enables road-network travel times; straight-line estimates otherwise
 }
 
-export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
+type DealSort = 'distance' | 'travel_time';
+
+// Travel times are fetched for the nearest deals only; the rest keep distance order
+const MAX_TRAVEL_TIME_DEALS = 72;
+
+// Where a deal is: its linked venue, or its neighborhood center
+const getDealLocation = (deal: Deal) => {
+  if (deal.canonical_venue?.lat != null && deal.canonical_venue.lng != null) {
+    return { lat: deal.canonical_venue.lat, lng: deal.canonical_venue.lng };
+  }
+  if (deal.neighborhoods) {
+    return { lat: deal.neighborhoods.center_lat, lng: deal.neighborhoods.center_lng };
+  }
+  return null;
+};
+
+export const ExploreTab = ({ onVenueSelect, mapboxToken }: ExploreTabProps) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [deals, setDeals] = useState<Deal[]>([]);
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
@@ -102,9 +128,42 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [preferenceFilterEnabled, setPreferenceFilterEnabled] = useState(true);
+  const [sortBy, setSortBy] = useState<DealSort>('distance');
+  const [travelMode, setTravelMode] = useState<TravelMode>('walking');
   
   const { isFavorite, toggleFavorite } = useFavorites(user?.id);
 
+  const travelTimeTargets = useMemo(() => {
+    const targets: TravelTimeTarget[] = [];
+    for (const deal of filteredDeals.slice(0, MAX_TRAVEL_TIME_DEALS)) {
+      const location = getDealLocation(deal);
+      if (location) targets.push({ id: deal.id, ...location });
+    }
+    return targets;
+  }, [filteredDeals]);
+
+  const { travelTimes, loading: travelTimesLoading } = useTravelTimes({
+    origin: userLocation,
+    targets: travelTimeTargets,
+    mode: travelMode,
+    mapboxToken,
+    enabled: sortBy === 'travel_time',
+  });
+
+  // Deals without a travel time keep their distance order after the timed ones
+  const displayedDeals = useMemo(() => {
+    if (sortBy !== 'travel_time' || travelTimes.size === 0) return filteredDeals;
+    return filteredDeals
+      .map((deal, index) => ({ deal, index, minutes: travelTimes.get(deal.id) }))
+      .sort((a, b) => {
+        if (a.minutes === undefined && b.minutes === undefined) return a.index - b.index;
+        if (a.minutes === undefined) return 1;
+        if (b.minutes === undefined) return -1;
+        return a.minutes - b.minutes || a.index - b.index;
+      })
+      .map(({ deal }) => deal);
+  }, [filteredDeals, sortBy, travelTimes]);
+
   const loadUserPreferences = useCallback(async (userId: string) => {
     try {
       const { data, error } = await supabase
@@ -197,6 +256,10 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
             name,
             center_lat,
             center_lng
+          ),
+          canonical_venue:venues!deals_canonical_venue_id_fkey (
+            lat,
+            lng
           )
         `)
         .eq('active', true)
@@ -384,7 +447,7 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
         <Suspense fallback={null}>
           <Sheet open={!!selectedDeal} onOpenChange={(open) => !open && handleCloseDealCard()}>
             <SheetContent side="bottom" className="h-auto max-h-[90vh] p-0 rounded-t-2xl overflow-auto">
-              <DealDetailCard deal={selectedDeal} onClose={handleCloseDealCard} />
+              <DealDetailCard deal={selectedDeal} onClose={handleCloseDealCard} location={getDealLocation(selectedDeal)} />
             </SheetContent>
           </Sheet>
         </Suspense>
@@ -467,6 +530,47 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
         </div>
       )}
 
+      {/* Sort - travel time needs the user's location */}
+      {userLocation && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium text-foreground">Sort by</span>
+          <Badge
+            variant={sortBy === 'distance' ? "default" : "outline"}
+            className="cursor-pointer hover-scale"
+            onClick={() => setSortBy('distance')}
+          >
+            Distance
+          </Badge>
+          <Badge
+            variant={sortBy === 'travel_time' ? "default" : "outline"}
+            className="cursor-pointer hover-scale"
+            onClick={() => setSortBy('travel_time')}
+          >
+            Travel time
+          </Badge>
+          {sortBy === 'travel_time' && (
+            <div className="flex items-center gap-1 ml-auto" role="group" aria-label="Travel mode">
+              {TRAVEL_MODES.map((mode) => (
+                <Button
+                  key={mode}
+                  variant={travelMode === mode ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setTravelMode(mode)}
+                  aria-pressed={travelMode === mode}
+                >
+                  {TRAVEL_MODE_LABELS[mode]}
+                </Button>
+              ))}
+              {travelTimesLoading && (
+                <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-3 gap-3">
         <Card className="p-4 text-center bg-card/90 backdrop-blur-sm hover-scale shadow-none">
@@ -534,7 +638,7 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
       {/* Deals Grid - Uses virtual scrolling for large lists */}
       {!isLoading && filteredDeals.length > 0 && (
         <VirtualList
-          items={filteredDeals}
+          items={displayedDeals}
           estimateSize={112}
           overscan={3}
           className="max-h-[60vh]"
@@ -608,7 +712,11 @@ export const ExploreTab = ({ onVenueSelect }: ExploreTabProps) => {
                     </div>
                     
                     <div className="flex items-center gap-2 flex-shrink-0">
-                      {deal.distance !== undefined && (
+                      {sortBy === 'travel_time' && travelTimes.has(deal.id) ? (
+                        <span className="text-accent font-medium">
+                          {formatTravelTime(travelTimes.get(deal.id)!, travelMode)}
+                        </span>
+                      ) : deal.distance !== undefined && (
                         <span className="text-accent font-medium">
                           {formatDistance(deal.distance)}
                         </span>
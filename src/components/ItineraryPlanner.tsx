@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, Clock, Crosshair, ListOrdered, Navigation, Plus, Share2, Trash2, UserPlus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useItinerary, type ItinerarySummary } from "@/hooks/useItinerary";
+import { getCurrentPosition } from "@/lib/geofence-tracker";
+import { triggerHaptic } from "@/lib/haptics";
+import type { ItineraryPlan, PlannedStop } from "@/lib/itinerary";
+import { formatTravelTime, TRAVEL_MODES, TRAVEL_MODE_LABELS, type TravelMode } from "@/lib/routing";
+import { shareItinerary } from "@/utils/shareUtils";
+
+interface ItineraryPlannerProps {
+  plan: ItineraryPlan | null;
+  loading: boolean;
+  error: string | null;
+  onClose: () => void;
+}
+
+const STAY_OPTIONS = [30, 45, 60, 90, 120, 180];
+
+const GOOGLE_TRAVEL_MODES: Record<TravelMode, string> = {
+  walking: 'walking',
+  cycling: 'bicycling',
+  driving: 'driving',
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const ItineraryPlanner = ({ plan, loading, error, onClose }: ItineraryPlannerProps) => {
+  const {
+    draft,
+    members,
+    isOwner,
+    isMember,
+    saving,
+    origin,
+    setOrigin,
+    removeStop,
+    setStayMinutes,
+    setTitle,
+    setStartAt,
+    setTravelMode,
+    startNew,
+    save,
+    load,
+    listItineraries,
+    join,
+    leave,
+  } = useItinerary();
+  const [savedPlans, setSavedPlans] = useState<ItinerarySummary[]>([]);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    listItineraries().then(setSavedPlans);
+  }, [listItineraries, draft.id]);
+
+  // Suggested order once travel times are in, the order stops were added until then
+  const rows: (Omit<PlannedStop, 'travelMinutes' | 'arrival' | 'departure'> & {
+    travelMinutes: number | null;
+    arrival: Date | null;
+  })[] = plan?.stops.length === draft.stops.length
+    ? plan.stops
+    : draft.stops.map((stop) => ({ stop, travelMinutes: null, arrival: null, waitMinutes: 0, issue: null }));
+
+  const handleUseLocation = async () => {
+    try {
+      setLocating(true);
+      const position = await getCurrentPosition();
+      setOrigin({ lat: position.latitude, lng: position.longitude });
+    } catch (err) {
+      console.error('Error getting location for itinerary:', err);
+      toast.error("Couldn't get your location");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleShare = async () => {
+    triggerHaptic('light');
+    const id = isOwner ? await save(plan, { share: true }) : draft.id;
+    if (!id) return;
+
+    const result = await shareItinerary({ id, title: draft.title });
+    if (result.success && result.method === "clipboard") {
+      toast.success("Link copied!", {
+        description: "Connections can open it to join",
+      });
+    } else if (!result.success && result.method === "clipboard") {
+      toast.error("Couldn't share", {
+        description: "Please try again",
+      });
+    }
+  };
+
+  const handleOpenDirections = () => {
+    const points = rows.map(({ stop }) => `${stop.lat},${stop.lng}`);
+    const destination = points.pop();
+    if (!destination) return;
+    const waypoints = points.length ? `&waypoints=${encodeURIComponent(points.join('|'))}` : '';
+    window.open(
+      `https://www.google.com/maps/dir/?api=1&destination=${destination}${waypoints}&travelmode=${GOOGLE_TRAVEL_MODES[draft.travelMode]}`,
+      '_blank'
+    );
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          {isOwner ? (
+            <Input
+              value={draft.title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={80}
+              className="text-lg font-bold h-10"
+              aria-label="Plan name"
+            />
+          ) : (
+            <h2 className="text-lg font-bold text-foreground truncate">{draft.title}</h2>
+          )}
+          <p className="text-xs text-muted-foreground mt-1">
+            {isOwner ? 'Add venues and deals - we suggest the order' : "A connection's plan"}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close planner">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-xs font-semibold text-muted-foreground">Start</span>
+          <Input
+            type="datetime-local"
+            value={toLocalInputValue(draft.startAt)}
+            onChange={(e) => e.target.value && setStartAt(new Date(e.target.value).toISOString())}
+            disabled={!isOwner}
+            className="h-9 text-sm"
+          />
+        </label>
+        <div className="space-y-1">
+          <span className="text-xs font-semibold text-muted-foreground">Getting around</span>
+          <div className="grid grid-cols-3 gap-1" role="group" aria-label="Travel mode">
+            {TRAVEL_MODES.map((mode) => (
+              <Button
+                key={mode}
+                onClick={() => setTravelMode(mode)}
+                variant={draft.travelMode === mode ? "default" : "outline"}
+                size="sm"
+                className="h-9 px-0 text-xs"
+                disabled={!isOwner}
+                aria-pressed={draft.travelMode === mode}
+              >
+                {TRAVEL_MODE_LABELS[mode]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        {origin ? (
+          <span className="text-muted-foreground">Starting from your location</span>
+        ) : (
+          <span className="text-muted-foreground">Starting at the first stop</span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => (origin ? setOrigin(null) : handleUseLocation())}
+          disabled={locating}
+        >
+          <Crosshair className="w-3.5 h-3.5 mr-1" />
+          {origin ? 'Clear' : locating ? 'Locating...' : 'Use my location'}
+        </Button>
+      </div>
+
+      {draft.stops.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <ListOrdered className="w-8 h-8 mx-auto mb-2 opacity-60" />
+          <p className="text-sm">No stops yet</p>
+          <p className="text-xs mt-1">Tap "Add to Plan" on a venue or deal</p>
+        </div>
+      ) : (
+        <ol className="space-y-2" aria-label="Stops in suggested order">
+          {rows.map(({ stop, travelMinutes, arrival, waitMinutes, issue }, i) => (
+            <li key={stop.key} className="rounded-xl border border-border bg-card/60 p-3">
+              {travelMinutes !== null && (i > 0 || origin) && (
+                <p className="text-[10px] text-muted-foreground mb-1.5">
+                  {formatTravelTime(travelMinutes, draft.travelMode)}
+                  {waitMinutes > 0 && ` · ${waitMinutes} min wait`}
+                </p>
+              )}
+              <div className="flex items-start gap-3">
+                <div className="w-7 h-7 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold flex-shrink-0">
+                  {i + 1}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm font-semibold text-foreground truncate">{stop.name}</p>
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <Badge variant="outline" className="text-[10px] capitalize">{stop.kind}</Badge>
+                    {arrival && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Clock className="w-3 h-3" />
+                        {formatClock(arrival)}
+                      </span>
+                    )}
+                    {issue && (
+                      <Badge variant="destructive" className="text-[10px]">{issue}</Badge>
+                    )}
+                  </div>
+                </div>
+                {isOwner && (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={String(stop.stayMinutes)}
+                      onValueChange={(value) => setStayMinutes(stop.key, Number(value))}
+                    >
+                      <SelectTrigger className="h-8 w-[76px] text-xs" aria-label={`Time at ${stop.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STAY_OPTIONS.map((minutes) => (
+                          <SelectItem key={minutes} value={String(minutes)} className="text-xs">
+                            {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeStop(stop.key)}
+                      aria-label={`Remove ${stop.name}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {loading && (
+        <p className="text-xs text-muted-foreground">Working out travel times...</p>
+      )}
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
+          <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
+          <span className="text-destructive">{error}</span>
+        </div>
+      )}
+      {plan?.finishesAt && plan.stops.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Wraps up around {formatClock(plan.finishesAt)}
+          {plan.unavailableCount > 0 && ` · ${plan.unavailableCount} stop${plan.unavailableCount === 1 ? '' : 's'} won't be open`}
+        </p>
+      )}
+
+      {draft.id && (members.length > 0 || !isOwner) && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Users className="w-3.5 h-3.5" />
+          {members.length > 0
+            ? `Going: ${members.map((member) => member.displayName ?? 'A connection').join(', ')}`
+            : 'Nobody has joined yet'}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {isOwner ? (
+          <Button onClick={() => save(plan)} disabled={saving || draft.stops.length === 0}>
+            {saving ? 'Saving...' : draft.id ? 'Save Changes' : 'Save Plan'}
+          </Button>
+        ) : isMember ? (
+          <Button variant="outline" onClick={leave}>Leave Plan</Button>
+        ) : (
+          <Button onClick={join}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Join
+          </Button>
+        )}
+        <Button variant="outline" onClick={handleShare} disabled={saving || draft.stops.length === 0}>
+          <Share2 className="w-4 h-4 mr-2" />
+          Share
+        </Button>
+        <Button variant="outline" onClick={handleOpenDirections} disabled={draft.stops.length === 0}>
+          <Navigation className="w-4 h-4 mr-2" />
+          Directions
+        </Button>
+        <Button variant="ghost" onClick={startNew}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Plan
+        </Button>
+      </div>
+
+      {savedPlans.length > 0 && (
+        <div className="space-y-1.5 pt-2 border-t border-border/50">
+          <p className="text-xs font-semibold text-muted-foreground">Your plans</p>
+          {savedPlans.map((saved) => (
+            <button
+              key={saved.id}
+              onClick={() => load(saved.id)}
+              className={`w-full flex items-center justify-between rounded-lg px-3 py-2 text-left text-sm hover:bg-muted/60 ${
+                saved.id === draft.id ? 'bg-muted/60' : ''
+              }`}
+            >
+              <span className="truncate">{saved.title}</span>
+              <span className="text-xs text-muted-foreground flex-shrink-0 ml-2">
+                {new Date(saved.startAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                {!saved.isOwner && ' · joined'}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { memo, useState, useEffect } from "react";
-import { MapPin, Users, Star, TrendingUp, X, Share2 } from "lucide-react";
+import { MapPin, Users, Star, TrendingUp, TrendingDown, X, Share2, CheckCircle2, ListPlus, ListChecks } from "lucide-react";
 import { Button } from "./ui/button";
 import { OptimizedImage } from "./ui/optimized-image";
 import { glideHaptic } from "@/lib/haptics";
@@ -8,6 +8,10 @@ import { supabase } from "@/integrations/supabase/client";
 import type { Venue } from "./MapboxHeatmap";
 import { UpgradePrompt, useFeatureAccess } from "./UpgradePrompt";
 import { shareVenue } from "@/utils/shareUtils";
+import { getCurrentPosition } from "@/lib/geofence-tracker";
+import { BusynessForecastChart } from "./BusynessForecastChart";
+import { useItinerary } from "@/hooks/useItinerary";
+import { venueToStop } from "@/lib/itinerary";
 
 interface JetCardProps {
   venue: Venue;
@@ -18,7 +22,10 @@ interface JetCardProps {
 export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps) => {
   const [user, setUser] = useState<any>(null);
   const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
+  const [checkingIn, setCheckingIn] = useState(false);
   const { canAccessSocialFeatures } = useFeatureAccess();
+  const { hasStop, addStop, setPlannerOpen } = useItinerary();
+  const inPlan = hasStop(`venue:${venue.id}`);
   
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -78,7 +85,46 @@ export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps)
   };
 
 
+  const handleAddToPlan = async () => {
+    await glideHaptic();
+    if (inPlan) {
+      setPlannerOpen(true);
+      return;
+    }
+    addStop(venueToStop(venue));
+  };
+
+  const handleCheckIn = async () => {
+    if (!venue.canonicalVenueId) return;
+
+    setCheckingIn(true);
+    try {
+      await glideHaptic();
+      // The server verifies the user is actually at the venue
+      const position = await getCurrentPosition();
+      const { error } = await supabase.rpc('check_in_venue', {
+        _venue_id: venue.canonicalVenueId,
+        _lat: position.latitude,
+        _lng: position.longitude,
+      });
+      if (error) throw error;
+
+      toast.success("Checked in!", {
+        description: `Thanks for letting others know how ${venue.name} is looking`,
+      });
+    } catch (error) {
+      console.error("Check-in error:", error);
+      toast.error("Couldn't check in", {
+        description: (error as { message?: string })?.message || "Please try again",
+      });
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
   const activityLevel = getActivityLevel(venue.activity);
+  const TrendIcon = venue.activityTrend === 'falling' ? TrendingDown : TrendingUp;
+  const canCheckIn = !!user && !!venue.canonicalVenueId;
 
   return (
     <article 
@@ -148,8 +194,10 @@ export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps)
         {/* Stats Grid */}
         <div className="grid grid-cols-3 gap-2 sm:gap-2.5">
           <div className="bg-muted/50 rounded-lg sm:rounded-xl p-2 sm:p-3 text-center">
-            <TrendingUp className={`w-4 h-4 sm:w-5 sm:h-5 mx-auto mb-0.5 sm:mb-1 ${activityLevel.color}`} />
-            <p className="text-[9px] sm:text-[10px] text-muted-foreground">Status</p>
+            <TrendIcon className={`w-4 h-4 sm:w-5 sm:h-5 mx-auto mb-0.5 sm:mb-1 ${activityLevel.color}`} />
+            <p className="text-[9px] sm:text-[10px] text-muted-foreground">
+              {venue.activityTrend === 'rising' ? 'Filling up' : venue.activityTrend === 'falling' ? 'Emptying' : 'Status'}
+            </p>
             <p className="text-xs sm:text-sm font-bold text-foreground">{activityLevel.label.split(" ")[1]}</p>
           </div>
           
@@ -166,8 +214,13 @@ export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps)
           </div>
         </div>
 
+        {/* Busyness Forecast */}
+        {venue.canonicalVenueId && (
+          <BusynessForecastChart target={{ venueId: venue.canonicalVenueId }} />
+        )}
+
         {/* Action Buttons */}
-        <div className="grid grid-cols-2 gap-2 sm:gap-3" role="group" aria-label="Venue actions">
+        <div className={`grid ${canCheckIn ? 'grid-cols-3' : 'grid-cols-2'} gap-2 sm:gap-3`} role="group" aria-label="Venue actions">
           <Button 
             onClick={handleShare}
             variant="outline"
@@ -177,6 +230,18 @@ export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps)
             <Share2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" aria-hidden="true" />
             Share
           </Button>
+          {canCheckIn && (
+            <Button
+              onClick={handleCheckIn}
+              variant="outline"
+              disabled={checkingIn}
+              className="w-full border-border/60 hover:border-primary/60 hover:bg-primary/5 font-semibold h-10 sm:h-12 text-xs sm:text-sm rounded-lg sm:rounded-xl transition-all duration-300 focus-visible:ring-2 focus-visible:ring-primary"
+              aria-label={`Check in at ${venue.name}`}
+            >
+              <CheckCircle2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" aria-hidden="true" />
+              {checkingIn ? 'Checking...' : 'Check In'}
+            </Button>
+          )}
           <Button 
             onClick={handleGetDirections}
             className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90 text-primary-foreground font-semibold h-10 sm:h-12 text-xs sm:text-sm rounded-lg sm:rounded-xl shadow-[var(--shadow-glow)] transition-all duration-300 focus-visible:ring-2 focus-visible:ring-primary"
@@ -185,6 +250,16 @@ export const JetCard = memo(({ venue, onGetDirections, onClose }: JetCardProps)
             Get Directions
           </Button>
         </div>
+
+        <Button
+          onClick={handleAddToPlan}
+          variant="ghost"
+          className="w-full h-9 sm:h-10 text-xs sm:text-sm font-semibold text-primary hover:text-primary/80 rounded-lg sm:rounded-xl"
+          aria-label={inPlan ? `Open your plan with ${venue.name}` : `Add ${venue.name} to your plan`}
+        >
+          {inPlan ? <ListChecks className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" aria-hidden="true" /> : <ListPlus className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" aria-hidden="true" />}
+          {inPlan ? "In Your Plan" : "Add to Night Plan"}
+        </Button>
       </div>
 
       <UpgradePrompt
@@ -1,88 +1,63 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useMemo, lazy, Suspense } from "react";
 import { storeLastKnownLocation } from "@/lib/tile-prefetch";
 import type * as MapboxGL from "mapbox-gl";
+import { loadMapboxGL, resetMapboxLoader, type MapboxGLModule } from "@/lib/mapbox-loader";
 
-// Type alias for the mapbox-gl default export
-type MapboxGLModule = typeof import("mapbox-gl").default;
-
-// In production, mapbox-gl is loaded from CDN as window.mapboxgl
-// In development, we use the npm package for HMR
-let mapboxglModule: MapboxGLModule | null = null;
-let mapboxLoadPromise: Promise<MapboxGLModule> | null = null;
-
-// CDN load timeout - wait for CDN script to load before falling back
-const CDN_LOAD_TIMEOUT = 8000; // 8 seconds
-
-// Wait for CDN mapbox-gl to be available with timeout
-const waitForCDNMapbox = (): Promise<MapboxGLModule | null> => {
-  return new Promise((resolve) => {
-    // Check immediately
-    if (typeof window !== 'undefined' && (window as any).mapboxgl) {
-      resolve((window as any).mapboxgl);
-      return;
-    }
-    
-    // Poll every 100ms for up to CDN_LOAD_TIMEOUT
-    const startTime = Date.now();
-    const checkInterval = setInterval(() => {
-      if (typeof window !== 'undefined' && (window as any).mapboxgl) {
-        clearInterval(checkInterval);
-        resolve((window as any).mapboxgl);
-      } else if (Date.now() - startTime > CDN_LOAD_TIMEOUT) {
-        clearInterval(checkInterval);
-        console.warn('MapboxHeatmap: CDN load timeout, falling back to bundled version');
-        resolve(null);
-      }
-    }, 100);
-  });
-};
-
-const loadMapboxGL = async (): Promise<MapboxGLModule> => {
-  if (mapboxglModule) return mapboxglModule;
-  
-  if (!mapboxLoadPromise) {
-    mapboxLoadPromise = (async () => {
-      // First, try to use CDN version (production)
-      const cdnMapbox = await waitForCDNMapbox();
-      if (cdnMapbox) {
-        console.log('MapboxHeatmap: Using CDN mapbox-gl');
-        mapboxglModule = cdnMapbox;
-        return mapboxglModule;
-      }
-      
-      // Fallback to dynamic import (development or if CDN fails)
-      console.log('MapboxHeatmap: Loading mapbox-gl via import');
-      try {
-        const m = await import("mapbox-gl");
-        // Also load the CSS in dev
-        await import("mapbox-gl/dist/mapbox-gl.css");
-        mapboxglModule = m.default;
-        return m.default;
-      } catch (importError) {
-        console.error('MapboxHeatmap: Failed to import mapbox-gl:', importError);
-        throw new Error('Failed to load map library. Please check your connection and refresh.');
-      }
-    })();
-  }
-  return mapboxLoadPromise;
-};
-import { MapPin, TrendingUp, Layers, X, AlertCircle, Route, ChevronDown, ChevronUp, PanelRightClose, PanelRightOpen } from "lucide-react";
+import { MapPin, TrendingUp, Layers, X, AlertCircle, Route, ChevronDown, ChevronUp, PanelRightClose, PanelRightOpen, Tag, Timer, ListOrdered } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { useLocationDensity } from "@/hooks/useLocationDensity";
+import { useLocationDensity, type DensityTimeFilter, type ViewportBounds } from "@/hooks/useLocationDensity";
 import { useMovementPaths } from "@/hooks/useMovementPaths";
+import { useDensityTimelapse } from "@/hooks/useDensityTimelapse";
+import { useMapDeals, type MapDeal } from "@/hooks/useMapDeals";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useIsochrones } from "@/hooks/useIsochrones";
+import { useItinerary } from "@/hooks/useItinerary";
+import type { LatLng, TravelMode } from "@/lib/routing";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { triggerHaptic } from "@/lib/haptics";
 import { Button } from "./ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Select, SelectContent, SelectItem, SelectTrigger } from "./ui/select";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
 
 import { CITIES, type City, getDistanceKm, getNearestCity, getCitiesSortedByDistance, kmToMiles } from "@/types/cities";
 import { getCachedReverseGeocode, type GeocodedLocation } from "@/utils/reverseGeocode";
-import locationPuckIcon from "@/assets/location-puck.png";
 
 // Re-export Venue type for backwards compatibility
 export type { Venue } from "@/types/venue";
 import type { Venue } from "@/types/venue";
+import type { TimelapseRange } from "@/lib/density-timelapse";
+import {
+  buildDensityDelta,
+  compareDensityStats,
+  DEFAULT_DENSITY_COMPARISON,
+  describeDensityWindow,
+  toDensityFilters,
+  type DensityComparison,
+} from "@/lib/density-compare";
+import { DensityTimelapsePlayer } from "./DensityTimelapsePlayer";
+import { DensityCompareSplit } from "./DensityCompareSplit";
+import { useMapLayer, type MapLayerHost } from "./map/useMapLayer";
+import { getActiveLegendLayer } from "./map/registry";
+import {
+  dealLayer,
+  DEFAULT_DEAL_MAP_FILTERS,
+  densityDeltaLayer,
+  densityLayer,
+  filterMapDeals,
+  isochroneLayer,
+  itineraryLayer,
+  movementPathsLayer,
+  PATH_FREQUENCY_FLOOR,
+  userLocationLayer,
+  venueLayer,
+  type DealMapFilters,
+  type ItineraryLayerData,
+} from "./map/layers";
+
+// Lazy load Sheet and DealDetailCard - only needed when a deal pin is tapped
+const Sheet = lazy(() => import("./ui/sheet").then(m => ({ default: m.Sheet })));
+const SheetContent = lazy(() => import("./ui/sheet").then(m => ({ default: m.SheetContent })));
+const DealDetailCard = lazy(() => import("./DealDetailCard").then(m => ({ default: m.DealDetailCard })));
 
 interface MapboxHeatmapProps {
   onVenueSelect: (venue: Venue) => void;
@@ -96,20 +71,34 @@ interface MapboxHeatmapProps {
   selectedVenue?: Venue | null;
   resetUIKey?: number; // Incremented when tab changes to reset collapsed UI state
   isTokenLoading?: boolean; // True while the mapbox token is being fetched
+  onViewportChange?: (viewport: { bounds: ViewportBounds; zoom: number }) => void; // Called after the map settles on a new viewport
+  hasMoreVenues?: boolean; // True when venue discovery has another page for the current area
+  onLoadMoreVenues?: () => void;
+  itineraryRoute?: ItineraryLayerData | null; // Planned night-out stops in suggested order
 }
 
-const getActivityColor = (activity: number) => {
-  // Brighter, more saturated colors for better visibility on dark map
-  if (activity >= 80) return "hsl(0, 100%, 65%)"; // hot red - bright coral
-  if (activity >= 60) return "hsl(45, 100%, 60%)"; // warm yellow-orange 
-  return "hsl(200, 100%, 65%)"; // cool blue - vibrant sky blue
+const MAP_STYLE_URLS: Record<'light' | 'dark' | 'streets' | 'satellite', string> = {
+  light: 'mapbox://styles/mapbox/light-v11',
+  dark: 'mapbox://styles/mapbox/dark-v11',
+  streets: 'mapbox://styles/mapbox/streets-v12',
+  satellite: 'mapbox://styles/mapbox/satellite-streets-v12',
 };
 
-// Get glow color for markers based on activity
-const getActivityGlow = (activity: number) => {
-  if (activity >= 80) return "rgba(255, 100, 100, 0.6)"; // red glow
-  if (activity >= 60) return "rgba(255, 200, 50, 0.5)"; // warm glow
-  return "rgba(100, 180, 255, 0.5)"; // blue glow
+// Visible bounds (padded so edge cells are ready before they scroll into view) and
+// zoom used to pick the density cell resolution and tiles
+const getDensityViewport = (mapInstance: MapboxGL.Map): { bounds: ViewportBounds; zoom: number } => {
+  const b = mapInstance.getBounds();
+  const padLat = (b.getNorth() - b.getSouth()) * 0.2;
+  const padLng = (b.getEast() - b.getWest()) * 0.2;
+  return {
+    bounds: {
+      west: Math.max(-180, b.getWest() - padLng),
+      south: Math.max(-90, b.getSouth() - padLat),
+      east: Math.min(180, b.getEast() + padLng),
+      north: Math.min(90, b.getNorth() + padLat),
+    },
+    zoom: Math.floor(mapInstance.getZoom()),
+  };
 };
 
 // Platform detection for optimized settings
@@ -157,7 +146,7 @@ const getPlatformSettings = (isMobile: boolean) => {
   };
 };
 
-export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity, onCityChange, onNearestCityDetected, onDetectedLocationNameChange, isLoadingVenues = false, selectedVenue, resetUIKey, isTokenLoading = false }: MapboxHeatmapProps) => {
+export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity, onCityChange, onNearestCityDetected, onDetectedLocationNameChange, isLoadingVenues = false, selectedVenue, resetUIKey, isTokenLoading = false, onViewportChange, hasMoreVenues = false, onLoadMoreVenues, itineraryRoute = null }: MapboxHeatmapProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<MapboxGL.Map | null>(null);
   const mapboxglRef = useRef<MapboxGLModule | null>(null);
@@ -167,11 +156,8 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
   const [tileProgress, setTileProgress] = useState(0);
   const [mapError, setMapError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
-  const userMarker = useRef<MapboxGL.Marker | null>(null);
   const markersRef = useRef<MapboxGL.Marker[]>([]);
-  const dealMarkersRef = useRef<MapboxGL.Marker[]>([]);
   const geolocateControlRef = useRef<MapboxGL.GeolocateControl | null>(null);
-  const flowAnimationRef = useRef<number | null>(null);
   const isMobile = useIsMobile();
   const initStartTime = useRef<number>(0);
   const platformSettings = useRef(getPlatformSettings(isMobile));
@@ -203,9 +189,19 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
   
   // Density heatmap state
   const [showDensityLayer, setShowDensityLayer] = useState(false);
-  const [timeFilter, setTimeFilter] = useState<'all' | 'today' | 'this_week' | 'this_hour'>('all');
+  const [timeFilter, setTimeFilter] = useState<DensityTimeFilter>('all');
   const [hourFilter, setHourFilter] = useState<number | undefined>();
   const [dayFilter, setDayFilter] = useState<number | undefined>();
+  // Hours ahead to forecast, or null for the regular filters
+  const [forecastHoursAhead, setForecastHoursAhead] = useState<number | null>(null);
+  const [densityViewport, setDensityViewport] = useState<{ bounds: ViewportBounds; zoom: number } | null>(null);
+  // Two density windows (A and B) side by side or as a change map, or null when off
+  const [densityComparison, setDensityComparison] = useState<DensityComparison | null>(null);
+
+  // Share the settled viewport so venue discovery can follow it
+  useEffect(() => {
+    if (densityViewport) onViewportChange?.(densityViewport);
+  }, [densityViewport, onViewportChange]);
   // Auto-detect time of day based on local time
   const getTimeOfDayPreset = (): 'dawn' | 'day' | 'dusk' | 'night' => {
     const hour = new Date().getHours();
@@ -221,10 +217,26 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
   
   // Time-lapse mode state
   const [timelapseMode, setTimelapseMode] = useState(false);
+  const [timelapseRange, setTimelapseRange] = useState<TimelapseRange>({ kind: 'day', daysAgo: 0 });
   
   // Movement paths state
   const [showMovementPaths, setShowMovementPaths] = useState(false);
   const [pathTimeFilter, setPathTimeFilter] = useState<'all' | 'today' | 'this_week' | 'this_hour'>('all');
+
+  // Deals overlay state
+  const [showDeals, setShowDeals] = useState(false);
+  const [dealFilters, setDealFilters] = useState<DealMapFilters>(DEFAULT_DEAL_MAP_FILTERS);
+  const [selectedDeal, setSelectedDeal] = useState<MapDeal | null>(null);
+  const [userId, setUserId] = useState<string | undefined>();
+
+  // Night-out plan - the route itself comes in through itineraryRoute
+  const { draft: itinerary, setPlannerOpen } = useItinerary();
+
+  // Travel-time overlay state
+  const [showIsochrones, setShowIsochrones] = useState(false);
+  const [travelMode, setTravelMode] = useState<TravelMode>('walking');
+  // Map center when the overlay was turned on, used until the user's location is known
+  const [isochroneCenter, setIsochroneCenter] = useState<LatLng | null>(null);
   
   // CLS fix: Defer layer controls render until map is loaded
   // This ensures controls appear immediately after map is ready, not a fixed delay
@@ -237,8 +249,7 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
       return () => clearTimeout(timer);
     }
   }, [mapLoaded]);
-  const [minPathFrequency, setMinPathFrequency] = useState(2);
-  const [isTabVisible, setIsTabVisible] = useState(!document.hidden);
+  const [minPathFrequency, setMinPathFrequency] = useState(PATH_FREQUENCY_FLOOR);
   
   // Controls visibility state - collapsed by default for maximum map visibility
   const [controlsCollapsed, setControlsCollapsed] = useState(true);
@@ -246,6 +257,7 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
   
   // User location state
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [userLocationTracking, setUserLocationTracking] = useState(false);
   const [detectedCity, setDetectedCity] = useState<City | null>(null); // Nearest predefined city for filtering
   const [detectedLocationName, setDetectedLocationName] = useState<string | null>(null); // Actual city name from reverse geocoding
   const [isUsingCurrentLocation, setIsUsingCurrentLocation] = useState(true); // Default to current location
@@ -270,19 +282,43 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
     }
   }, [resetUIKey]);
 
-  // Track tab visibility to pause animations when hidden (battery optimization)
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      setIsTabVisible(!document.hidden);
-    };
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, []);
   
+  // Forecast mode shows the usual crowd for that hour of the week across all history.
+  // The density endpoint filters on UTC hours and weekdays.
+  const forecastTime = forecastHoursAhead !== null ? new Date(Date.now() + forecastHoursAhead * 60 * 60 * 1000) : null;
+
+  // While comparing, the regular snapshot becomes window A
   const { densityData, loading: densityLoading, error: densityError, refresh: refreshDensity } = useLocationDensity({
-    timeFilter,
-    hourOfDay: timelapseMode ? undefined : hourFilter,
-    dayOfWeek: dayFilter,
+    ...(densityComparison
+      ? toDensityFilters(densityComparison.a)
+      : {
+          timeFilter: forecastTime ? 'all' : timeFilter,
+          hourOfDay: forecastTime ? forecastTime.getUTCHours() : timelapseMode ? undefined : hourFilter,
+          dayOfWeek: forecastTime ? forecastTime.getUTCDay() : dayFilter,
+        }),
+    bounds: densityViewport?.bounds,
+    zoom: densityViewport?.zoom,
+  });
+
+  const { densityData: compareDensityData, loading: compareDensityLoading } = useLocationDensity(
+    {
+      ...(densityComparison ? toDensityFilters(densityComparison.b) : {}),
+      bounds: densityViewport?.bounds,
+      zoom: densityViewport?.zoom,
+    },
+    { enabled: showDensityLayer && densityComparison !== null, realtimeChannel: 'location-density-compare-updates' }
+  );
+  const comparing = showDensityLayer && densityComparison !== null;
+
+  const {
+    frames: timelapseFrames,
+    loading: timelapseLoading,
+    error: timelapseError,
+    refresh: refreshTimelapse,
+  } = useDensityTimelapse({
+    range: timelapseMode ? timelapseRange : null,
+    bounds: densityViewport?.bounds,
+    zoom: densityViewport?.zoom,
   });
 
   const { pathData, loading: pathsLoading, error: pathsError, refresh: refreshPaths } = useMovementPaths({
@@ -290,6 +326,35 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
     minFrequency: minPathFrequency,
   });
 
+  const { isochrones, loading: isochronesLoading, error: isochronesError } = useIsochrones({
+    origin: userLocation ?? isochroneCenter,
+    mode: travelMode,
+    mapboxToken,
+    enabled: showIsochrones,
+  });
+
+  const { deals: mapDeals, loading: dealsLoading, error: dealsError, refresh: refreshDeals } = useMapDeals(showDeals);
+  const { favorites } = useFavorites(showDeals ? userId : undefined);
+
+  // Favorites chip needs the signed-in user
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user?.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user?.id);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const dealTypes = useMemo(() => [...new Set(mapDeals.map((deal) => deal.deal_type))].sort(), [mapDeals]);
+  const filteredMapDeals = useMemo(
+    () => filterMapDeals(mapDeals, dealFilters, new Set(favorites.map((favorite) => favorite.deal_id))),
+    [mapDeals, dealFilters, favorites]
+  );
+
   // Handle map resize on viewport changes - optimized for all mobile devices
   useEffect(() => {
     let resizeTimeout: ReturnType<typeof setTimeout>;
@@ -502,96 +567,9 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
         geolocateControlRef.current = geolocateControl;
         map.current.addControl(geolocateControl, "top-right");
         
-        // Create custom marker element for user location
-        const createUserMarker = () => {
-          const el = document.createElement('div');
-          el.className = 'user-location-marker';
-          el.style.width = '64px';
-          el.style.height = '64px';
-          el.style.display = 'flex';
-          el.style.alignItems = 'center';
-          el.style.justifyContent = 'center';
-          el.style.position = 'relative';
-          // Note: No CSS transition on transform - Mapbox handles marker positioning
-          // and transitions would cause visual lag during map pan/zoom
-          
-          // Glassmorphic puck container - visible frosted glass circle
-          const glassPuck = document.createElement('div');
-          glassPuck.style.position = 'absolute';
-          glassPuck.style.width = '100%';
-          glassPuck.style.height = '100%';
-          glassPuck.style.borderRadius = '50%';
-          glassPuck.style.overflow = 'hidden';
-          glassPuck.style.background = 'linear-gradient(135deg, rgba(255, 255, 255, 0.15) 0%, rgba(255, 255, 255, 0.05) 100%)';
-          glassPuck.style.backdropFilter = 'blur(12px) saturate(180%)';
-          (glassPuck.style as any).WebkitBackdropFilter = 'blur(12px) saturate(180%)';
-          glassPuck.style.border = '1px solid rgba(255, 255, 255, 0.2)';
-          glassPuck.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.2), 0 0 20px rgba(255, 69, 58, 0.3)';
-          glassPuck.style.display = 'flex';
-          glassPuck.style.alignItems = 'center';
-          glassPuck.style.justifyContent = 'center';
-          
-          const img = document.createElement('img');
-          img.src = locationPuckIcon;
-          img.width = 32;
-          img.height = 32;
-          img.style.width = '70%';
-          img.style.height = '70%';
-          img.style.objectFit = 'contain';
-          img.style.filter = 'drop-shadow(0 2px 8px rgba(0, 0, 0, 0.5))';
-          
-          glassPuck.appendChild(img);
-          el.appendChild(glassPuck);
-          return el;
-        };
-        
         // Track if this is the initial geolocate (for auto-centering on load)
         let isInitialGeolocate = true;
         
-        // Store current marker position for smooth interpolation
-        let currentMarkerPos: { lng: number; lat: number } | null = null;
-        let animationFrameId: number | null = null;
-        
-        // Smooth position interpolation function
-        const animateMarkerTo = (targetLng: number, targetLat: number, duration: number = 300) => {
-          if (!userMarker.current || !currentMarkerPos) {
-            // First position - set immediately
-            currentMarkerPos = { lng: targetLng, lat: targetLat };
-            userMarker.current?.setLngLat([targetLng, targetLat]);
-            return;
-          }
-          
-          // Cancel any existing animation
-          if (animationFrameId) {
-            cancelAnimationFrame(animationFrameId);
-          }
-          
-          const startPos = { ...currentMarkerPos };
-          const startTime = performance.now();
-          
-          const animate = (currentTime: number) => {
-            const elapsed = currentTime - startTime;
-            const progress = Math.min(elapsed / duration, 1);
-            
-            // Ease-out cubic for smooth deceleration
-            const easeOut = 1 - Math.pow(1 - progress, 3);
-            
-            const lng = startPos.lng + (targetLng - startPos.lng) * easeOut;
-            const lat = startPos.lat + (targetLat - startPos.lat) * easeOut;
-            
-            userMarker.current?.setLngLat([lng, lat]);
-            currentMarkerPos = { lng, lat };
-            
-            if (progress < 1) {
-              animationFrameId = requestAnimationFrame(animate);
-            } else {
-              animationFrameId = null;
-            }
-          };
-          
-          animationFrameId = requestAnimationFrame(animate);
-        };
-        
         // Listen for geolocate events to update city and marker
         geolocateControl.on('geolocate', async (e: any) => {
           const { longitude, latitude } = e.coords;
@@ -635,27 +613,13 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
             isInitialGeolocate = false;
           }
           
-          // Create or update user marker with smooth interpolation
-          if (!userMarker.current && map.current && mapboxglRef.current) {
-            userMarker.current = new mapboxglRef.current.Marker({
-              element: createUserMarker(),
-              anchor: 'bottom'
-            })
-              .setLngLat([longitude, latitude])
-              .addTo(map.current);
-            currentMarkerPos = { lng: longitude, lat: latitude };
-          } else if (userMarker.current) {
-            // Smoothly animate to new position
-            animateMarkerTo(longitude, latitude, 400);
-          }
+          // Show the location puck (see userLocationLayer)
+          setUserLocationTracking(true);
         });
         
-        // Remove marker when tracking stops
+        // Hide the location puck when tracking stops
         geolocateControl.on('trackuserlocationend', () => {
-          if (userMarker.current) {
-            userMarker.current.remove();
-            userMarker.current = null;
-          }
+          setUserLocationTracking(false);
         });
 
         // Helper to finalize map loading state - called as early as possible for fast LCP
@@ -735,6 +699,24 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
           setTileProgress(100);
         });
 
+        // Keep the density request scoped to the visible viewport
+        const updateDensityViewport = () => {
+          if (!map.current) return;
+          const next = getDensityViewport(map.current);
+          setDensityViewport((prev) =>
+            prev &&
+            prev.zoom === next.zoom &&
+            prev.bounds.west === next.bounds.west &&
+            prev.bounds.south === next.bounds.south &&
+            prev.bounds.east === next.bounds.east &&
+            prev.bounds.north === next.bounds.north
+              ? prev
+              : next
+          );
+        };
+        map.current.on('moveend', updateDensityViewport);
+        map.current.once('load', updateDensityViewport);
+
         // Add error handler with retry tracking
         let errorCount = 0;
         const maxErrors = 5;
@@ -822,11 +804,7 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
     function cleanupMap() {
       setMapLoaded(false);
       setMapError(null);
-      if (userMarker.current) {
-        userMarker.current.remove();
-      }
       markersRef.current.forEach((marker) => marker.remove());
-      dealMarkersRef.current.forEach((marker) => marker.remove());
       map.current?.remove();
       map.current = null;
     }
@@ -849,15 +827,8 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
   // Handle map style changes
   useEffect(() => {
     if (!map.current || !mapLoaded) return;
-    
-    const styleUrls: Record<string, string> = {
-      'light': 'mapbox://styles/mapbox/light-v11',
-      'dark': 'mapbox://styles/mapbox/dark-v11',
-      'streets': 'mapbox://styles/mapbox/streets-v12',
-      'satellite': 'mapbox://styles/mapbox/satellite-streets-v12'
-    };
-    
-    map.current.setStyle(styleUrls[mapStyle]);
+
+    map.current.setStyle(MAP_STYLE_URLS[mapStyle]);
   }, [mapStyle, mapLoaded]);
 
   // Handle dynamic lighting preset changes with smooth animated transitions
@@ -1009,521 +980,6 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
     }
   }, [show3DTerrain, mapLoaded, isMobile]);
 
-  // Add/update density heatmap layer with lazy loading
-  useEffect(() => {
-    const activeData = densityData;
-      
-    if (!map.current || !mapLoaded || !activeData) return;
-
-    const sourceId = 'location-density';
-    const layerId = 'location-density-heat';
-    const pointLayerId = `${layerId}-point`;
-    const glowLayerId = `${layerId}-glow`;
-
-    try {
-      // Remove existing layers and source if they exist - check style is loaded first
-      if (map.current?.style?.loaded()) {
-        [glowLayerId, pointLayerId, layerId].forEach(id => {
-          if (map.current?.getLayer(id)) {
-            map.current.removeLayer(id);
-          }
-        });
-        if (map.current?.getSource(sourceId)) {
-          map.current.removeSource(sourceId);
-        }
-      }
-    } catch (error) {
-      console.error('Error removing existing layers:', error);
-      return;
-    }
-
-    if (!showDensityLayer) return;
-
-    // Add density data source
-    map.current.addSource(sourceId, {
-      type: 'geojson',
-      data: activeData.geojson,
-    });
-
-    // Add enhanced heatmap layer with glow effect
-    map.current.addLayer({
-      id: layerId,
-      type: 'heatmap',
-      source: sourceId,
-      paint: {
-        // Enhanced weight calculation with exponential curve
-        'heatmap-weight': [
-          'interpolate',
-          ['exponential', 1.5],
-          ['get', 'density'],
-          0, 0,
-          5, 0.5,
-          10, 1,
-        ],
-        // Dynamic intensity based on zoom with higher peak
-        'heatmap-intensity': [
-          'interpolate',
-          ['exponential', 2],
-          ['zoom'],
-          0, 2,
-          9, 3,
-          15, 5,
-        ],
-        // Enhanced vibrant color ramp with smooth gradients
-        'heatmap-color': [
-          'interpolate',
-          ['linear'],
-          ['heatmap-density'],
-          0, 'rgba(0, 0, 0, 0)',              // transparent
-          0.1, 'rgba(65, 105, 225, 0.6)',     // royal blue with glow
-          0.2, 'rgba(0, 191, 255, 0.8)',      // deep sky blue
-          0.3, 'rgba(0, 255, 127, 0.85)',     // spring green
-          0.4, 'rgba(50, 205, 50, 0.9)',      // lime green
-          0.5, 'rgba(255, 255, 0, 0.95)',     // yellow
-          0.6, 'rgba(255, 215, 0, 0.95)',     // gold
-          0.7, 'rgba(255, 165, 0, 1)',        // orange
-          0.8, 'rgba(255, 69, 0, 1)',         // orange-red
-          0.9, 'rgba(255, 0, 0, 1)',          // red
-          1, 'rgba(139, 0, 0, 1)',            // dark red
-        ],
-        // Adaptive radius for better visualization at all zoom levels
-        'heatmap-radius': [
-          'interpolate',
-          ['exponential', 1.8],
-          ['zoom'],
-          0, 20,
-          9, 50,
-          12, 70,
-          15, 100,
-        ],
-        // Smooth opacity curve for better blending
-        'heatmap-opacity': [
-          'interpolate',
-          ['linear'],
-          ['zoom'],
-          7, 0.95,
-          12, 0.9,
-          15, 0.85,
-        ],
-        'heatmap-opacity-transition': {
-          duration: 1000,
-          delay: 0
-        }
-      },
-    });
-
-    // Add enhanced circle layer for detailed view with pulsing animation
-    map.current.addLayer({
-      id: `${layerId}-point`,
-      type: 'circle',
-      source: sourceId,
-      minzoom: 13,
-      paint: {
-        // Dynamic radius based on density with exponential scaling
-        'circle-radius': [
-          'interpolate',
-          ['exponential', 1.5],
-          ['get', 'density'],
-          0, 5,
-          5, 12,
-          10, 25,
-        ],
-        // Vibrant color gradient matching heatmap
-        'circle-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'density'],
-          0, 'rgb(65, 105, 225)',
-          3, 'rgb(0, 255, 127)',
-          6, 'rgb(255, 215, 0)',
-          8, 'rgb(255, 69, 0)',
-          10, 'rgb(139, 0, 0)',
-        ],
-        'circle-opacity': 0.7,
-        'circle-blur': 0.3,
-        'circle-stroke-width': 2,
-        'circle-stroke-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'density'],
-          0, 'rgba(255, 255, 255, 0.6)',
-          10, 'rgba(255, 255, 255, 0.9)',
-        ],
-        'circle-stroke-opacity': 0.8,
-        'circle-opacity-transition': {
-          duration: 1000,
-          delay: 100
-        }
-      },
-    });
-
-    // Add outer glow layer for enhanced visual effect
-    map.current.addLayer({
-      id: `${layerId}-glow`,
-      type: 'circle',
-      source: sourceId,
-      minzoom: 13,
-      paint: {
-        'circle-radius': [
-          'interpolate',
-          ['exponential', 1.5],
-          ['get', 'density'],
-          0, 10,
-          5, 20,
-          10, 40,
-        ],
-        'circle-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'density'],
-          0, 'rgba(65, 105, 225, 0.3)',
-          5, 'rgba(255, 215, 0, 0.4)',
-          10, 'rgba(255, 0, 0, 0.5)',
-        ],
-        'circle-opacity': 0.3,
-        'circle-blur': 1,
-        'circle-opacity-transition': {
-          duration: 1000,
-          delay: 200
-        }
-      },
-    });
-
-    console.log('Density heatmap layer added with', activeData.stats.grid_cells, 'points');
-  }, [mapLoaded, densityData, showDensityLayer, timelapseMode]);
-
-  // Add/update movement paths layer with animated flow
-  useEffect(() => {
-    // Cancel any existing animation
-    if (flowAnimationRef.current) {
-      cancelAnimationFrame(flowAnimationRef.current);
-      flowAnimationRef.current = null;
-    }
-
-    if (!map.current || !mapLoaded || !pathData) return;
-
-    const sourceId = 'movement-paths';
-    const lineLayerId = 'movement-paths-line';
-    const glowLayerId = 'movement-paths-glow';
-    const arrowLayerId = 'movement-paths-arrows';
-    const particleLayerId = 'movement-paths-particles';
-
-    try {
-      // Remove existing layers and source if they exist - check style is loaded first
-      if (map.current?.style?.loaded()) {
-        [particleLayerId, arrowLayerId, glowLayerId, lineLayerId].forEach(id => {
-          if (map.current?.getLayer(id)) {
-            map.current.removeLayer(id);
-          }
-        });
-        if (map.current?.getSource(sourceId)) {
-          map.current.removeSource(sourceId);
-        }
-        if (map.current?.getSource(`${sourceId}-particles`)) {
-          map.current.removeSource(`${sourceId}-particles`);
-        }
-      }
-    } catch (error) {
-      console.error('Error removing existing movement path layers:', error);
-      return;
-    }
-
-    if (!showMovementPaths) return;
-
-    // Add movement paths source
-    map.current.addSource(sourceId, {
-      type: 'geojson',
-      data: pathData.geojson,
-      lineMetrics: true,
-    });
-
-    // Add glow effect layer (behind main line)
-    map.current.addLayer({
-      id: glowLayerId,
-      type: 'line',
-      source: sourceId,
-      layout: {
-        'line-join': 'round',
-        'line-cap': 'round',
-      },
-      paint: {
-        'line-width': [
-          'interpolate',
-          ['exponential', 1.5],
-          ['get', 'frequency'],
-          1, 8,
-          5, 14,
-          10, 22,
-          20, 30,
-        ],
-        'line-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'frequency'],
-          1, 'rgba(100, 200, 255, 0.3)',
-          5, 'rgba(0, 255, 255, 0.35)',
-          10, 'rgba(255, 200, 0, 0.4)',
-          15, 'rgba(255, 100, 0, 0.45)',
-          20, 'rgba(255, 0, 100, 0.5)',
-        ],
-        'line-blur': 4,
-        'line-opacity': 0.6,
-      },
-    });
-
-    // Add main animated flow line layer
-    map.current.addLayer({
-      id: lineLayerId,
-      type: 'line',
-      source: sourceId,
-      layout: {
-        'line-join': 'round',
-        'line-cap': 'round',
-      },
-      paint: {
-        'line-width': [
-          'interpolate',
-          ['exponential', 1.5],
-          ['get', 'frequency'],
-          1, 3,
-          5, 6,
-          10, 10,
-          20, 14,
-        ],
-        'line-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'frequency'],
-          1, 'rgb(100, 200, 255)',
-          5, 'rgb(0, 255, 255)',
-          10, 'rgb(255, 200, 0)',
-          15, 'rgb(255, 100, 0)',
-          20, 'rgb(255, 0, 100)',
-        ],
-        'line-opacity': 0.9,
-        'line-dasharray': [0, 4, 3],
-      },
-    });
-
-    // Add arrow icon if not exists
-    if (!map.current.hasImage('flow-arrow')) {
-      const size = 48;
-      const arrowCanvas = document.createElement('canvas');
-      arrowCanvas.width = size;
-      arrowCanvas.height = size;
-      const ctx = arrowCanvas.getContext('2d')!;
-
-      // Create gradient for arrow
-      const gradient = ctx.createLinearGradient(0, 0, size, 0);
-      gradient.addColorStop(0, 'rgba(255, 255, 255, 0.4)');
-      gradient.addColorStop(0.5, 'rgba(255, 255, 255, 1)');
-      gradient.addColorStop(1, 'rgba(255, 255, 255, 0.4)');
-
-      // Draw arrow/chevron shape
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.moveTo(size * 0.2, size * 0.3);
-      ctx.lineTo(size * 0.6, size * 0.5);
-      ctx.lineTo(size * 0.2, size * 0.7);
-      ctx.lineTo(size * 0.35, size * 0.5);
-      ctx.closePath();
-      ctx.fill();
-
-      // Add outer glow
-      ctx.shadowColor = 'rgba(255, 255, 255, 0.8)';
-      ctx.shadowBlur = 8;
-      ctx.fill();
-
-      map.current.addImage('flow-arrow', {
-        width: size,
-        height: size,
-        data: ctx.getImageData(0, 0, size, size).data as any,
-      });
-    }
-
-    // Add animated arrow symbols for direction
-    map.current.addLayer({
-      id: arrowLayerId,
-      type: 'symbol',
-      source: sourceId,
-      layout: {
-        'symbol-placement': 'line',
-        'symbol-spacing': 40,
-        'icon-image': 'flow-arrow',
-        'icon-size': [
-          'interpolate',
-          ['linear'],
-          ['get', 'frequency'],
-          1, 0.6,
-          10, 0.9,
-          20, 1.2,
-        ],
-        'icon-rotate': 90,
-        'icon-rotation-alignment': 'map',
-        'icon-allow-overlap': true,
-        'icon-ignore-placement': true,
-      },
-      paint: {
-        'icon-opacity': 0.85,
-      },
-    });
-
-    // Create animated particle points along paths
-    const createParticleData = (offset: number) => {
-      const particles: GeoJSON.Feature<GeoJSON.Point>[] = [];
-      
-      pathData.geojson.features.forEach((feature: any) => {
-        if (feature.geometry.type === 'LineString') {
-          const coords = feature.geometry.coordinates;
-          const frequency = feature.properties?.frequency || 1;
-          
-          // Create multiple particles per path based on frequency
-          const numParticles = Math.min(Math.ceil(frequency / 3), 5);
-          
-          for (let p = 0; p < numParticles; p++) {
-            // Calculate position along the line with offset
-            const t = ((offset / 100) + (p / numParticles)) % 1;
-            
-            if (coords.length >= 2) {
-              const segmentCount = coords.length - 1;
-              const segmentIndex = Math.floor(t * segmentCount);
-              const segmentT = (t * segmentCount) - segmentIndex;
-              
-              const start = coords[Math.min(segmentIndex, coords.length - 2)];
-              const end = coords[Math.min(segmentIndex + 1, coords.length - 1)];
-              
-              const lng = start[0] + (end[0] - start[0]) * segmentT;
-              const lat = start[1] + (end[1] - start[1]) * segmentT;
-              
-              particles.push({
-                type: 'Feature',
-                geometry: {
-                  type: 'Point',
-                  coordinates: [lng, lat],
-                },
-                properties: {
-                  frequency,
-                  particleIndex: p,
-                },
-              });
-            }
-          }
-        }
-      });
-      
-      return {
-        type: 'FeatureCollection' as const,
-        features: particles,
-      };
-    };
-
-    // Add particle source
-    map.current.addSource(`${sourceId}-particles`, {
-      type: 'geojson',
-      data: createParticleData(0),
-    });
-
-    // Add particle layer
-    map.current.addLayer({
-      id: particleLayerId,
-      type: 'circle',
-      source: `${sourceId}-particles`,
-      paint: {
-        'circle-radius': [
-          'interpolate',
-          ['linear'],
-          ['get', 'frequency'],
-          1, 4,
-          10, 7,
-          20, 10,
-        ],
-        'circle-color': [
-          'interpolate',
-          ['linear'],
-          ['get', 'frequency'],
-          1, 'rgb(150, 220, 255)',
-          5, 'rgb(100, 255, 255)',
-          10, 'rgb(255, 230, 100)',
-          15, 'rgb(255, 150, 50)',
-          20, 'rgb(255, 80, 150)',
-        ],
-        'circle-opacity': 0.9,
-        'circle-blur': 0.3,
-        'circle-stroke-width': 2,
-        'circle-stroke-color': 'rgba(255, 255, 255, 0.8)',
-      },
-    });
-
-    // Animate the dash array and particles for continuous flow effect
-    const dashArraySequence = [
-      [0, 4, 3],
-      [0.5, 4, 2.5],
-      [1, 4, 2],
-      [1.5, 4, 1.5],
-      [2, 4, 1],
-      [2.5, 4, 0.5],
-      [3, 4, 0],
-      [0, 0.5, 3, 3.5],
-      [0, 1, 3, 3],
-      [0, 1.5, 3, 2.5],
-      [0, 2, 3, 2],
-      [0, 2.5, 3, 1.5],
-      [0, 3, 3, 1],
-      [0, 3.5, 3, 0.5],
-    ];
-
-    let step = 0;
-    let particleOffset = 0;
-    let lastTime = performance.now();
-
-    const animateFlow = (currentTime: number) => {
-      // Stop animation if not visible, low power mode, or paths disabled
-      if (!map.current || !showMovementPaths || document.hidden || platformSettings.current.hasReducedMotion || platformSettings.current.isLowPowerMode) {
-        flowAnimationRef.current = null;
-        return;
-      }
-
-      const deltaTime = currentTime - lastTime;
-      
-      // Update dash animation every ~80ms
-      if (deltaTime > 80) {
-        step = (step + 1) % dashArraySequence.length;
-        
-        if (map.current.getLayer(lineLayerId)) {
-          map.current.setPaintProperty(
-            lineLayerId,
-            'line-dasharray',
-            dashArraySequence[step]
-          );
-        }
-
-        // Update particle positions
-        particleOffset = (particleOffset + 2) % 100;
-        const particleSource = map.current.getSource(`${sourceId}-particles`) as mapboxgl.GeoJSONSource;
-        if (particleSource) {
-          particleSource.setData(createParticleData(particleOffset));
-        }
-
-        lastTime = currentTime;
-      }
-
-      flowAnimationRef.current = requestAnimationFrame(animateFlow);
-    };
-
-    flowAnimationRef.current = requestAnimationFrame(animateFlow);
-
-    console.log('Movement paths layer added with', pathData.stats.total_paths, 'paths and animated particles');
-
-    // Cleanup animation on unmount
-    return () => {
-      if (flowAnimationRef.current) {
-        cancelAnimationFrame(flowAnimationRef.current);
-        flowAnimationRef.current = null;
-      }
-    };
-  }, [mapLoaded, pathData, showMovementPaths]);
-
-
   // Skeleton marker positions (static positions around the city center for loading state)
   const skeletonMarkerPositions = [
     { lat: selectedCity.lat + 0.008, lng: selectedCity.lng - 0.012 },
@@ -1534,8 +990,8 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
     { lat: selectedCity.lat - 0.015, lng: selectedCity.lng + 0.003 },
   ];
 
-  // Optimized marker updates with throttling
-  const updateMarkers = () => {
+  // Placeholder pins while the first venues load - real venues are map layers
+  const updateSkeletonMarkers = () => {
     if (!map.current || !mapLoaded) return;
 
     const mapInstance = map.current;
@@ -1613,420 +1069,58 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
 
         markersRef.current.push(marker);
       });
-      return;
     }
-
-    // Calculate distances between venues to detect clusters
-    const getDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-      return Math.sqrt(Math.pow(lat2 - lat1, 2) + Math.pow(lng2 - lng1, 2));
-    };
-
-    // Add venue markers
-    venues.forEach((venue, index) => {
-      // Guard against map becoming null during iteration
-      if (!mapInstance) return;
-      
-      const color = getActivityColor(venue.activity);
-
-      // Check proximity to other venues
-      let nearbyCount = 0;
-      venues.forEach((otherVenue, otherIndex) => {
-        if (index !== otherIndex) {
-          const distance = getDistance(venue.lat, venue.lng, otherVenue.lat, otherVenue.lng);
-          if (distance < 0.001) nearbyCount++; // Very close proximity
-        }
-      });
-
-      // Adjust size based on proximity - slightly smaller for clustered areas
-      const proximityFactor = nearbyCount > 0 ? Math.max(0.85, 1 - (nearbyCount * 0.04)) : 1;
-      const activitySizeFactor = venue.activity >= 80 ? 1.15 : venue.activity >= 60 ? 1.08 : 1;
-      // Increased minimum size for better visibility
-      const markerSize = Math.max(32, Math.min(38, baseSize * 0.8)) * proximityFactor * activitySizeFactor;
-      const markerHeight = markerSize * 1.35;
-      const glowColor = getActivityGlow(venue.activity);
-
-      // Create teardrop marker element with entrance animation
-      const staggerDelay = (index % 30) * 30;
-      const el = document.createElement("div");
-      el.className = "venue-marker";
-      el.style.cssText = `
-        display: flex;
-        flex-direction: column;
-        align-items: center;
-        cursor: pointer;
-        will-change: opacity;
-        opacity: 0;
-        animation: markerFadeIn 0.4s ease-out ${staggerDelay}ms forwards;
-        background: transparent;
-      `;
-
-      // Determine pulse animation speed based on activity level
-      // Disable pulse for reduced motion/low power mode
-      const shouldAnimate = platformSettings.current.markerAnimation && isTabVisible;
-      const pulseSpeed = venue.activity >= 80 ? '1.5s' : venue.activity >= 60 ? '2.5s' : '4s';
-      const pulseOpacity = venue.activity >= 80 ? '0.8' : venue.activity >= 60 ? '0.5' : '0.3';
-      
-      // Create teardrop pin container
-      const pinEl = document.createElement('div');
-      pinEl.style.cssText = `
-        width: ${markerSize}px;
-        height: ${markerHeight}px;
-        position: relative;
-        transition: transform 0.2s ease;
-        background: transparent;
-      `;
-
-      // Create animated gradient ring (behind teardrop) - with activity-based color
-      // Only animate if not in low power/reduced motion mode
-      const ringEl = document.createElement('div');
-      const ringSize = markerSize + 10;
-      ringEl.style.cssText = `
-        position: absolute;
-        top: ${(markerSize - ringSize) / 2}px;
-        left: ${(markerSize - ringSize) / 2}px;
-        width: ${ringSize}px;
-        height: ${ringSize}px;
-        border-radius: 50% 50% 50% 0;
-        transform: rotate(-45deg);
-        transform-origin: center center;
-        background: transparent;
-        border: 2px solid ${color};
-        opacity: ${pulseOpacity};
-        ${shouldAnimate ? `animation: markerRingPulse ${pulseSpeed} ease-in-out infinite;` : ''}
-      `;
-
-      // Create teardrop shape - simplified without backdrop-filter to avoid rendering artifacts
-      const teardropEl = document.createElement('div');
-      const isDarkTheme = document.documentElement.classList.contains('dark');
-      teardropEl.style.cssText = `
-        position: absolute;
-        top: 0;
-        left: 0;
-        width: ${markerSize}px;
-        height: ${markerSize}px;
-        background: ${isDarkTheme 
-          ? 'linear-gradient(145deg, #3a3a45, #25252d)' 
-          : 'linear-gradient(145deg, #ffffff, #f0f0f5)'};
-        border-radius: 50% 50% 50% 0;
-        transform: rotate(-45deg);
-        transform-origin: center center;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        border: 2px solid ${color};
-        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
-      `;
-      
-      // Add inner icon/dot to indicate activity level
-      const innerDot = document.createElement('div');
-      const dotSize = markerSize * 0.35;
-      innerDot.style.cssText = `
-        position: absolute;
-        top: 50%;
-        left: 50%;
-        transform: translate(-50%, -50%) rotate(45deg);
-        width: ${dotSize}px;
-        height: ${dotSize}px;
-        border-radius: 50%;
-        background: ${color};
-      `;
-      teardropEl.appendChild(innerDot);
-
-      pinEl.appendChild(ringEl);
-      pinEl.appendChild(teardropEl);
-      el.appendChild(pinEl);
-
-      // Hover effects - scale and enhanced shadow
-      el.addEventListener("mouseenter", () => {
-        el.style.zIndex = "100";
-        pinEl.style.transform = "scale(1.15)";
-        teardropEl.style.boxShadow = `0 6px 16px rgba(0, 0, 0, 0.4)`;
-        ringEl.style.opacity = '1';
-      });
-
-      el.addEventListener("mouseleave", () => {
-        el.style.zIndex = "";
-        pinEl.style.transform = "scale(1)";
-        teardropEl.style.boxShadow = `0 4px 12px rgba(0, 0, 0, 0.3)`;
-        ringEl.style.opacity = pulseOpacity;
-      });
-
-      // Create marker with bottom anchor for teardrop (pin point at GPS location)
-      if (!mapboxglRef.current) return;
-      const marker = new mapboxglRef.current.Marker({
-        element: el,
-        anchor: 'bottom'
-      })
-        .setLngLat([venue.lng, venue.lat])
-        .addTo(mapInstance);
-
-      // Create popup for the venue with enhanced information
-      const addressHTML = venue.address 
-        ? `<p style="margin: 4px 0 8px 0; font-size: ${isMobile ? '11px' : '12px'}; color: rgba(255, 255, 255, 0.65); line-height: 1.4;">${venue.address}</p>`
-        : '';
-        
-      const googleRatingHTML = venue.googleRating 
-        ? `<div style="display: flex; align-items: center; gap: 6px; margin-top: 8px;">
-             <span style="color: #FFD700; font-size: ${isMobile ? '14px' : '16px'};">★</span>
-             <span style="font-size: ${isMobile ? '13px' : '14px'}; font-weight: 700; color: white;">${venue.googleRating.toFixed(1)}</span>
-             <span style="font-size: ${isMobile ? '11px' : '12px'}; color: rgba(255, 255, 255, 0.6);">(${venue.googleTotalRatings?.toLocaleString() || 0} reviews)</span>
-           </div>`
-        : '';
-      
-      const isOpenHTML = venue.isOpen !== null && venue.isOpen !== undefined
-        ? `<div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid rgba(255, 255, 255, 0.12);">
-             <span style="display: inline-flex; align-items: center; gap: 6px;">
-               <span style="display: inline-block; width: ${isMobile ? '10px' : '12px'}; height: ${isMobile ? '10px' : '12px'}; border-radius: 50%; background: ${venue.isOpen ? '#22c55e' : '#ef4444'}; box-shadow: 0 0 8px ${venue.isOpen ? '#22c55e' : '#ef4444'};"></span>
-               <span style="font-size: ${isMobile ? '12px' : '14px'}; font-weight: 700; color: ${venue.isOpen ? '#22c55e' : '#ef4444'};">${venue.isOpen ? 'Open Now' : 'Closed'}</span>
-             </span>
-           </div>`
-        : '';
-
-      const popup = new mapboxglRef.current.Popup({
-        offset: isMobile ? 20 : 28,
-        closeButton: true,
-        closeOnClick: true,
-        maxWidth: isMobile ? '280px' : '320px',
-        className: 'venue-popup'
-      }).setHTML(`
-        <div style="padding: ${isMobile ? '12px' : '16px'};">
-          <h4 style="margin: 0 0 6px 0; font-size: ${isMobile ? '15px' : '17px'}; font-weight: 700; color: white; line-height: 1.3;">${venue.name}</h4>
-          <p style="margin: 0 0 8px 0; font-size: ${isMobile ? '12px' : '13px'}; color: rgba(255, 255, 255, 0.75); font-weight: 500;">${venue.category}</p>
-          ${addressHTML}
-          <div style="display: flex; align-items: center; gap: 6px; margin-top: 8px; padding-top: 8px; border-top: 1px solid rgba(255, 255, 255, 0.1);">
-            <div style="width: ${isMobile ? '10px' : '12px'}; height: ${isMobile ? '10px' : '12px'}; border-radius: 50%; background: ${color}; box-shadow: 0 0 8px ${color};"></div>
-            <span style="font-size: ${isMobile ? '12px' : '14px'}; font-weight: 700; color: white;">${venue.activity}% Active</span>
-          </div>
-          ${googleRatingHTML}
-          ${isOpenHTML}
-        </div>
-      `);
-
-      // Attach popup to marker
-      marker.setPopup(popup);
-
-      // Handle click on the marker element
-      el.addEventListener("click", (e) => {
-        e.stopPropagation();
-        
-        // Haptic feedback for venue selection
-        triggerHaptic('medium');
-        
-        // Open venue card
-        onVenueSelect(venue);
-        
-        // Show popup
-        popup.addTo(mapInstance);
-      });
-
-      markersRef.current.push(marker);
-    });
-    
     }); // Close requestAnimationFrame
   };
 
-  // Call updateMarkers on initial load and when venues change
   useEffect(() => {
-    updateMarkers();
+    updateSkeletonMarkers();
   }, [venues, mapLoaded, isLoadingVenues, selectedCity]);
 
-  // Add heatmap blend layer for clustering visualization at low zoom levels
-  useEffect(() => {
-    if (!map.current || !mapLoaded || venues.length === 0) return;
-
-    const mapInstance = map.current;
-    const sourceId = 'venue-heatmap-source';
-    const heatmapLayerId = 'venue-heatmap-layer';
-
-    // Wait for style to be loaded before modifying sources/layers
-    if (!mapInstance.isStyleLoaded()) {
-      return;
-    }
-
-    // Remove existing layers and source if they exist
-    try {
-      if (mapInstance.getLayer(heatmapLayerId)) {
-        mapInstance.removeLayer(heatmapLayerId);
-      }
-      if (mapInstance.getSource(sourceId)) {
-        mapInstance.removeSource(sourceId);
-      }
-    } catch (e) {
-      console.warn('[Heatmap] Error cleaning up existing source/layer:', e);
-    }
-
-    // Create GeoJSON data from venues with activity as weight
-    const geojsonData: GeoJSON.FeatureCollection = {
-      type: 'FeatureCollection',
-      features: venues.map(venue => ({
-        type: 'Feature',
-        properties: {
-          activity: venue.activity,
-          name: venue.name
-        },
-        geometry: {
-          type: 'Point',
-          coordinates: [venue.lng, venue.lat]
-        }
-      }))
-    };
-
-    // Add source - check again that it doesn't exist
-    try {
-      if (!mapInstance.getSource(sourceId)) {
-        mapInstance.addSource(sourceId, {
-          type: 'geojson',
-          data: geojsonData
-        });
-      } else {
-        // Update existing source data
-        const source = mapInstance.getSource(sourceId) as mapboxgl.GeoJSONSource;
-        source.setData(geojsonData);
-      }
-    } catch (e) {
-      console.warn('[Heatmap] Error adding source:', e);
-      return;
-    }
-
-    // Add heatmap layer that fades out at higher zoom levels
-    try {
-      if (!mapInstance.getLayer(heatmapLayerId)) {
-        mapInstance.addLayer({
-          id: heatmapLayerId,
-          type: 'heatmap',
-          source: sourceId,
-          maxzoom: 15,
-          paint: {
-            // Weight based on activity level
-            'heatmap-weight': [
-              'interpolate',
-              ['linear'],
-              ['get', 'activity'],
-              0, 0.1,
-              50, 0.5,
-              80, 0.8,
-              100, 1
-            ],
-            // Intensity increases with zoom
-            'heatmap-intensity': [
-              'interpolate',
-              ['linear'],
-              ['zoom'],
-              8, 0.6,
-              12, 1,
-              15, 1.5
-            ],
-            // Color gradient - matches app theme (orange/red primary)
-            'heatmap-color': [
-              'interpolate',
-              ['linear'],
-              ['heatmap-density'],
-              0, 'rgba(0, 0, 0, 0)',
-              0.1, 'rgba(255, 140, 0, 0.15)',
-              0.3, 'rgba(255, 100, 50, 0.3)',
-              0.5, 'rgba(255, 69, 58, 0.45)',
-              0.7, 'rgba(255, 45, 85, 0.6)',
-              0.9, 'rgba(200, 50, 120, 0.75)',
-              1, 'rgba(150, 50, 150, 0.9)'
-            ],
-            // Radius increases at lower zoom, decreases when zoomed in
-            'heatmap-radius': [
-              'interpolate',
-              ['linear'],
-              ['zoom'],
-              8, 30,
-              12, 20,
-              15, 10
-            ],
-            // Fade out opacity as zoom increases (individual markers take over)
-            'heatmap-opacity': [
-              'interpolate',
-              ['linear'],
-              ['zoom'],
-              10, 0.8,
-              13, 0.4,
-              15, 0
-            ]
-          }
-        }, 'waterway-label'); // Insert below labels
-      }
-    } catch (e) {
-      console.warn('[Heatmap] Error adding layer:', e);
-    }
-
-    return () => {
-      // Check style is loaded before cleanup to prevent "getOwnLayer" errors
-      if (mapInstance.style?.loaded()) {
-        if (mapInstance.getLayer(heatmapLayerId)) {
-          mapInstance.removeLayer(heatmapLayerId);
-        }
-        if (mapInstance.getSource(sourceId)) {
-          mapInstance.removeSource(sourceId);
-        }
-      }
-    };
-  }, [venues, mapLoaded]);
-
-  // Add smooth zoom and pan transitions
-  useEffect(() => {
-    if (!map.current || !mapLoaded) return;
-
-    const mapInstance = map.current;
-    
-    // Smooth resize during zoom with staggered animation
-    const handleZoom = () => {
-      const currentZoom = mapInstance.getZoom();
-      
-      let zoomFactor: number;
-      if (currentZoom < 8) {
-        zoomFactor = Math.max(0.3, currentZoom / 20);
-      } else if (currentZoom < 12) {
-        zoomFactor = 0.4 + ((currentZoom - 8) / 4) * 0.4;
-      } else {
-        zoomFactor = 0.8 + Math.min(0.5, (currentZoom - 12) / 8);
-      }
-      
-      const newBaseSize = 36 * zoomFactor;
-      
-      markersRef.current.forEach((marker, index) => {
-        const el = marker.getElement();
-        if (el) {
-          // Add staggered delay for smoother animation
-          const delay = (index % 20) * 10; // Stagger in groups
-          setTimeout(() => {
-            const orbEl = el.querySelector('div') as HTMLElement;
-            if (orbEl) {
-              // Update orb size
-              orbEl.style.width = `${newBaseSize}px`;
-              orbEl.style.height = `${newBaseSize}px`;
-              
-              // Update core size
-              const coreEl = orbEl.querySelector('div:not([style*="position: absolute"])') as HTMLElement;
-              if (coreEl && !coreEl.style.position?.includes('absolute')) {
-                const coreSize = newBaseSize * 0.55;
-                coreEl.style.width = `${coreSize}px`;
-                coreEl.style.height = `${coreSize}px`;
-                
-                const svg = coreEl.querySelector('svg');
-                if (svg) {
-                  svg.setAttribute('width', `${coreSize * 0.55}`);
-                  svg.setAttribute('height', `${coreSize * 0.55}`);
-                }
-              }
-            }
-          }, delay);
-        }
-      });
-    };
-
-    // Removed fade effect during panning - markers now stay fully visible and anchored
-
-    mapInstance.on('zoom', handleZoom);
-    
-    return () => {
-      mapInstance.off('zoom', handleZoom);
-    };
-  }, [mapLoaded, venues]);
+  // Overlays are layer plugins (see ./map/layers) - this component only decides what they show
+  const layerHost = useMemo<MapLayerHost>(() => ({
+    map: map.current,
+    mapboxgl: mapboxglRef.current,
+    mapLoaded,
+    isMobile,
+    reduceMotion: !platformSettings.current.markerAnimation,
+  }), [mapLoaded, isMobile]);
+
+  const densityLayerData = useMemo(
+    () => (densityData ? { geojson: densityData.geojson, timelapse: timelapseMode } : null),
+    [densityData, timelapseMode]
+  );
+  const compareLayerData = useMemo(
+    () => (compareDensityData ? { geojson: compareDensityData.geojson, timelapse: false } : null),
+    [compareDensityData]
+  );
+  const densityDelta = useMemo(
+    () => (comparing && densityComparison?.view === 'delta' && densityData && compareDensityData
+      ? buildDensityDelta(densityData, compareDensityData)
+      : null),
+    [comparing, densityComparison?.view, densityData, compareDensityData]
+  );
+  const showDensityDelta = comparing && densityComparison?.view === 'delta';
+  const venueLayerData = useMemo(() => ({ venues, onVenueSelect }), [venues, onVenueSelect]);
+  const dealLayerData = useMemo(() => ({ deals: filteredMapDeals, onDealSelect: setSelectedDeal }), [filteredMapDeals]);
+
+  useMapLayer(layerHost, isochroneLayer, isochrones, showIsochrones);
+  useMapLayer(layerHost, densityLayer, densityLayerData, showDensityLayer && !showDensityDelta);
+  useMapLayer(layerHost, densityDeltaLayer, densityDelta, showDensityDelta);
+  useMapLayer(layerHost, movementPathsLayer, pathData, showMovementPaths);
+  useMapLayer(layerHost, venueLayer, venueLayerData);
+  useMapLayer(layerHost, itineraryLayer, itineraryRoute);
+  useMapLayer(layerHost, dealLayer, dealLayerData, showDeals);
+  useMapLayer(layerHost, userLocationLayer, userLocationTracking ? userLocation : null);
+
+  const ActiveLegend = getActiveLegendLayer([
+    ...(showDensityLayer ? [showDensityDelta ? densityDeltaLayer.id : densityLayer.id] : []),
+    ...(showMovementPaths ? [movementPathsLayer.id] : []),
+    ...(showDeals ? [dealLayer.id] : []),
+    ...(showIsochrones ? [isochroneLayer.id] : []),
+    ...(itineraryRoute ? [itineraryLayer.id] : []),
+    venueLayer.id,
+  ])?.Legend;
 
   // Update map view when selected city changes
   useEffect(() => {
@@ -2039,14 +1133,8 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
       duration: 2000,
       essential: true
     });
-    
-    // Update markers after city change animation completes
-    setTimeout(() => {
-      updateMarkers();
-    }, 2100);
   }, [selectedCity, mapLoaded, isMobile]);
 
-  // Deal markers removed - no longer displaying colored circles on map
 
   return (
     <div 
@@ -2092,7 +1180,7 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
                   setMapInitializing(true);
                   setTileProgress(0);
                   // Reset the module promise to force a fresh load attempt
-                  mapboxLoadPromise = null;
+                  resetMapboxLoader();
                   setRetryCount(c => c + 1);
                 }}
                 className="gap-2 flex-1"
@@ -2131,6 +1219,19 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
         }}
       />
 
+      {/* Compare split view - snapshot B on a synced map right of the divider */}
+      {comparing && densityComparison.view === 'split' && mapLoaded && (
+        <DensityCompareSplit
+          map={map.current}
+          mapboxgl={mapboxglRef.current}
+          styleUrl={MAP_STYLE_URLS[mapStyle]}
+          data={compareLayerData}
+          labelA={describeDensityWindow(densityComparison.a)}
+          labelB={describeDensityWindow(densityComparison.b)}
+          isMobile={isMobile}
+        />
+      )}
+
       {/* City Selector with Current Location option - responsive for all devices */}
       {/* City Selector - CLS fix: Defer render until after initial paint */}
       {controlsReady && (
@@ -2356,7 +1457,10 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
                 setTimeFilter('all');
                 setHourFilter(undefined);
                 setDayFilter(undefined);
+                setForecastHoursAhead(null);
               }
+              setTimelapseMode(false);
+              setDensityComparison(null);
             }}
             variant={showDensityLayer ? "default" : "outline"}
             size="sm"
@@ -2370,6 +1474,58 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
             {showDensityLayer ? "Heat On" : "Heat Off"}
           </Button>
 
+          {/* Deals Button - appears above Heat visually due to flex-col-reverse */}
+          <Button
+            onClick={() => { triggerHaptic('medium'); setShowDeals(!showDeals); }}
+            variant={showDeals ? "default" : "outline"}
+            size="sm"
+            className={`w-full h-12 text-sm font-semibold rounded-xl shadow-lg transition-all duration-200 active:scale-95 touch-manipulation ${
+              showDeals 
+                ? 'bg-primary text-primary-foreground shadow-primary/30' 
+                : 'bg-card/95 backdrop-blur-xl text-foreground border-border'
+            }`}
+          >
+            <Tag className="w-4.5 h-4.5 mr-2" />
+            {showDeals ? "Deals On" : "Deals Off"}
+          </Button>
+
+          {/* Reach Button - travel-time areas, appears above Deals visually */}
+          <Button
+            onClick={() => {
+              triggerHaptic('medium');
+              if (!showIsochrones && map.current) {
+                const center = map.current.getCenter();
+                setIsochroneCenter({ lat: center.lat, lng: center.lng });
+              }
+              setShowIsochrones(!showIsochrones);
+            }}
+            variant={showIsochrones ? "default" : "outline"}
+            size="sm"
+            className={`w-full h-12 text-sm font-semibold rounded-xl shadow-lg transition-all duration-200 active:scale-95 touch-manipulation ${
+              showIsochrones 
+                ? 'bg-primary text-primary-foreground shadow-primary/30' 
+                : 'bg-card/95 backdrop-blur-xl text-foreground border-border'
+            }`}
+          >
+            <Timer className="w-4.5 h-4.5 mr-2" />
+            {showIsochrones ? "Reach On" : "Reach Off"}
+          </Button>
+
+          {/* Plan Button - opens the night-out planner, appears above Reach visually */}
+          <Button
+            onClick={() => { triggerHaptic('medium'); setPlannerOpen(true); }}
+            variant={itinerary.stops.length > 0 ? "default" : "outline"}
+            size="sm"
+            className={`w-full h-12 text-sm font-semibold rounded-xl shadow-lg transition-all duration-200 active:scale-95 touch-manipulation ${
+              itinerary.stops.length > 0
+                ? 'bg-primary text-primary-foreground shadow-primary/30' 
+                : 'bg-card/95 backdrop-blur-xl text-foreground border-border'
+            }`}
+          >
+            <ListOrdered className="w-4.5 h-4.5 mr-2" />
+            {itinerary.stops.length > 0 ? `Plan (${itinerary.stops.length})` : "Plan"}
+          </Button>
+
           {/* Mobile Path Filter Controls - Show when Paths layer is active */}
           <div 
             className={`overflow-hidden transition-all duration-200 ${
@@ -2379,123 +1535,91 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
             }`}
             style={{ contain: 'strict' }}
           >
-            <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2.5 shadow-lg space-y-2.5">
-              <div className="flex items-center justify-between text-xs font-semibold text-muted-foreground">
-                <span>Flow Filters</span>
-                {pathsLoading && (
-                  <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                )}
-              </div>
-
-              {/* Error UI */}
-              {pathsError && (
-                <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
-                  <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
-                  <span className="text-destructive truncate">Load failed</span>
-                  <Button onClick={refreshPaths} variant="ghost" size="sm" className="h-6 text-xs px-2 ml-auto">
-                    Retry
-                  </Button>
-                </div>
-              )}
-
-              {/* Time filter */}
-              <Select value={pathTimeFilter} onValueChange={(v: any) => setPathTimeFilter(v)}>
-                <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter paths by time period">
-                  <SelectValue placeholder="Time" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Time</SelectItem>
-                  <SelectItem value="today">Today</SelectItem>
-                  <SelectItem value="this_week">This Week</SelectItem>
-                  <SelectItem value="this_hour">This Hour</SelectItem>
-                </SelectContent>
-              </Select>
-
-              {/* Frequency slider */}
-              <div className="space-y-1">
-                <div className="flex items-center justify-between text-[10px]">
-                  <label htmlFor="path-frequency-slider" className="text-muted-foreground">Min. Frequency</label>
-                  <span className="font-semibold text-primary" aria-live="polite">{minPathFrequency}</span>
-                </div>
-                <input
-                  id="path-frequency-slider"
-                  type="range"
-                  min="1"
-                  max="10"
-                  value={minPathFrequency}
-                  onChange={(e) => setMinPathFrequency(parseInt(e.target.value))}
-                  className="path-flow-slider w-full"
-                  aria-label={`Minimum path frequency: ${minPathFrequency}`}
-                  aria-valuemin={1}
-                  aria-valuemax={10}
-                  aria-valuenow={minPathFrequency}
-                />
-              </div>
-
-              {/* Stats */}
-              {pathData && (
-                <div className="flex items-center gap-2 text-[9px] text-muted-foreground pt-1 border-t border-border/30">
-                  <span>{pathData.stats.total_paths} paths</span>
-                  <span>•</span>
-                  <span>{pathData.stats.unique_users} users</span>
-                </div>
-              )}
-            </div>
+            <movementPathsLayer.Controls
+              timeFilter={pathTimeFilter}
+              onTimeFilterChange={setPathTimeFilter}
+              minFrequency={minPathFrequency}
+              onMinFrequencyChange={setMinPathFrequency}
+              loading={pathsLoading}
+              error={pathsError}
+              onRetry={refreshPaths}
+              stats={pathData?.stats}
+            />
           </div>
 
           {/* Mobile Filter Controls - Show when Heat layer is active */}
           <div 
             className={`overflow-hidden transition-all duration-200 ${
               showDensityLayer 
-                ? 'max-h-[280px]' 
+                ? densityComparison ? 'max-h-[760px]' : 'max-h-[400px]'
                 : 'max-h-0'
             }`}
             style={{ contain: 'strict' }}
           >
-            <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2 shadow-lg space-y-2">
-              {/* Filters */}
-              <div className="space-y-2 animate-fade-in">
-                <Select value={timeFilter} onValueChange={(v: any) => setTimeFilter(v)}>
-                  <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by time period">
-                    <SelectValue placeholder="Time" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Time</SelectItem>
-                    <SelectItem value="today">Today</SelectItem>
-                    <SelectItem value="this_week">This Week</SelectItem>
-                    <SelectItem value="this_hour">This Hour</SelectItem>
-                  </SelectContent>
-                </Select>
-
-                <Select value={hourFilter?.toString() || "all"} onValueChange={(v) => setHourFilter(v === "all" ? undefined : parseInt(v))}>
-                  <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by hour of day">
-                    <SelectValue placeholder="Hour" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Hours</SelectItem>
-                    {Array.from({ length: 24 }, (_, i) => (
-                      <SelectItem key={i} value={i.toString()}>{i}:00</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                <Select value={dayFilter?.toString() || "all"} onValueChange={(v) => setDayFilter(v === "all" ? undefined : parseInt(v))}>
-                  <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by day of week">
-                    <SelectValue placeholder="Day" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Days</SelectItem>
-                    <SelectItem value="0">Sun</SelectItem>
-                    <SelectItem value="1">Mon</SelectItem>
-                    <SelectItem value="2">Tue</SelectItem>
-                    <SelectItem value="3">Wed</SelectItem>
-                    <SelectItem value="4">Thu</SelectItem>
-                    <SelectItem value="5">Fri</SelectItem>
-                    <SelectItem value="6">Sat</SelectItem>
-                  </SelectContent>
-                </Select>
+            <densityLayer.Controls
+              timeFilter={timeFilter}
+              onTimeFilterChange={setTimeFilter}
+              hourFilter={hourFilter}
+              onHourFilterChange={setHourFilter}
+              dayFilter={dayFilter}
+              onDayFilterChange={setDayFilter}
+              timelapseMode={timelapseMode}
+              onTimelapseModeChange={setTimelapseMode}
+              forecastHoursAhead={forecastHoursAhead}
+              onForecastHoursAheadChange={setForecastHoursAhead}
+              compareMode={densityComparison !== null}
+              onCompareModeChange={(value) => {
+                setDensityComparison(value ? DEFAULT_DENSITY_COMPARISON : null);
+                if (value) {
+                  setTimelapseMode(false);
+                  setForecastHoursAhead(null);
+                }
+              }}
+            />
+            {densityComparison && (
+              <div className="mt-2">
+                <densityDeltaLayer.Controls comparison={densityComparison} onComparisonChange={setDensityComparison} />
               </div>
-            </div>
+            )}
+          </div>
+
+          {/* Deal Filter Chips - Show when Deals layer is active */}
+          <div 
+            className={`overflow-hidden transition-all duration-200 ${
+              showDeals 
+                ? 'max-h-[240px]' 
+                : 'max-h-0'
+            }`}
+            style={{ contain: 'strict' }}
+          >
+            <dealLayer.Controls
+              availableTypes={dealTypes}
+              filters={dealFilters}
+              onFiltersChange={setDealFilters}
+              canFilterFavorites={userId !== undefined}
+              shownCount={filteredMapDeals.length}
+              loading={dealsLoading}
+              error={dealsError}
+              onRetry={refreshDeals}
+            />
+          </div>
+
+          {/* Travel Mode Controls - Show when Reach layer is active */}
+          <div 
+            className={`overflow-hidden transition-all duration-200 ${
+              showIsochrones 
+                ? 'max-h-[200px]' 
+                : 'max-h-0'
+            }`}
+            style={{ contain: 'strict' }}
+          >
+            <isochroneLayer.Controls
+              mode={travelMode}
+              onModeChange={setTravelMode}
+              fromUserLocation={userLocation !== null}
+              loading={isochronesLoading}
+              error={isochronesError}
+            />
           </div>
         </div>
       )}
@@ -2544,7 +1668,31 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
           <div className="flex flex-col gap-1.5">
             <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Live Stats</p>
             
-            {showDensityLayer && densityData && (
+            {comparing && densityData && compareDensityData && (
+              <div className="flex flex-col gap-1">
+                <div className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-2 text-[9px] text-muted-foreground">
+                  <span />
+                  <span className="text-right">A</span>
+                  <span className="text-right">B</span>
+                  <span className="text-right">Δ</span>
+                  {compareDensityStats(densityData.stats, compareDensityData.stats).map(({ label, a, b, change }) => (
+                    <div key={label} className="contents">
+                      <span className="text-[10px]">{label}</span>
+                      <span className="text-xs font-bold text-foreground text-right">{a}</span>
+                      <span className="text-xs font-bold text-foreground text-right">{b}</span>
+                      <span className={`text-[10px] font-semibold text-right ${change === null || change === 0 ? 'text-muted-foreground' : change > 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                        {change === null ? '–' : `${change > 0 ? '+' : ''}${Math.round(change * 100)}%`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[9px] text-muted-foreground">
+                  A: {describeDensityWindow(densityComparison.a)} · B: {describeDensityWindow(densityComparison.b)}
+                </p>
+              </div>
+            )}
+
+            {showDensityLayer && !comparing && densityData && (
               <div className="flex flex-col gap-1">
                 <div className="flex items-center justify-between gap-3">
                   <span className="text-[10px] text-muted-foreground">Hotspots</span>
@@ -2566,11 +1714,11 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
             {showMovementPaths && pathData && (
               <div className="flex flex-col gap-1">
                 <div className="flex items-center justify-between gap-3">
-                  <span className="text-[10px] text-muted-foreground">Active Paths</span>
+                  <span className="text-[10px] text-muted-foreground">Active Flows</span>
                   <span className="text-xs font-bold text-primary">{pathData.stats.total_paths}</span>
                 </div>
                 <div className="flex items-center justify-between gap-3">
-                  <span className="text-[10px] text-muted-foreground">Movements</span>
+                  <span className="text-[10px] text-muted-foreground">Trips</span>
                   <span className="text-xs font-bold text-foreground">{pathData.stats.total_movements}</span>
                 </div>
                 {pathData.stats.unique_users > 0 && (
@@ -2589,7 +1737,7 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
             )}
             
             {/* Loading indicator */}
-            {(densityLoading || pathsLoading) && (
+            {(densityLoading || pathsLoading || (comparing && compareDensityLoading)) && (
               <div className="flex items-center gap-1.5 pt-1 border-t border-border/50">
                 <div className="w-2 h-2 border border-primary border-t-transparent rounded-full animate-spin" />
                 <span className="text-[9px] text-muted-foreground">Updating...</span>
@@ -2599,6 +1747,53 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
         </div>
       )}
 
+      {/* Deal Detail Sheet - lazy loaded when a deal pin is tapped */}
+      {selectedDeal && (
+        <Suspense fallback={null}>
+          <Sheet open={!!selectedDeal} onOpenChange={(open) => !open && setSelectedDeal(null)}>
+            <SheetContent side="bottom" className="h-auto max-h-[90vh] p-0 rounded-t-2xl overflow-auto">
+              <DealDetailCard deal={selectedDeal} onClose={() => setSelectedDeal(null)} location={selectedDeal} />
+            </SheetContent>
+          </Sheet>
+        </Suspense>
+      )}
+
+      {/* Time-lapse player - replaces the venue pager while active */}
+      {timelapseMode && showDensityLayer && mapLoaded && (
+        <DensityTimelapsePlayer
+          map={map.current}
+          frames={timelapseFrames}
+          loading={timelapseLoading}
+          error={timelapseError}
+          range={timelapseRange}
+          onRangeChange={setTimelapseRange}
+          onRetry={refreshTimelapse}
+          onClose={() => setTimelapseMode(false)}
+          isMobile={isMobile}
+        />
+      )}
+
+      {/* Load more venues - Bottom center, only when discovery has another page */}
+      {hasMoreVenues && onLoadMoreVenues && mapLoaded && !timelapseMode && (
+        <div
+          className={`${isMobile ? 'fixed' : 'absolute'} left-1/2 -translate-x-1/2 z-30`}
+          style={{ bottom: isMobile ? 'var(--map-fixed-bottom)' : 'var(--map-ui-inset-bottom)' }}
+        >
+          <Button
+            size="sm"
+            variant="secondary"
+            className="rounded-full shadow-lg bg-card/95 backdrop-blur-xl border border-border"
+            disabled={isLoadingVenues}
+            onClick={() => {
+              triggerHaptic('light');
+              onLoadMoreVenues();
+            }}
+          >
+            {isLoadingVenues ? 'Loading...' : 'Load more venues'}
+          </Button>
+        </div>
+      )}
+
       {/* Enhanced Legend - Bottom left, responsive for all devices, collapsible on mobile */}
       {/* CRITICAL: Uses only opacity transition to avoid CLS - no translate animations */}
       <div 
@@ -2638,64 +1833,13 @@ export const MapboxHeatmap = ({ onVenueSelect, venues, mapboxToken, selectedCity
               </div>
             )}
             
-            {showMovementPaths ? (
-              <>
-                <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1.5 sm:mb-2">User Flow Paths</p>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-1.5 sm:gap-2">
-                  <div className="w-20 sm:w-24 md:w-32 h-3.5 sm:h-4 md:h-5 rounded-md shadow-inner" style={{
-                    background: 'linear-gradient(to right, rgb(100, 200, 255), rgb(0, 255, 255), rgb(255, 200, 0), rgb(255, 100, 0), rgb(255, 0, 100))',
-                    border: '1px solid rgba(255, 255, 255, 0.2)'
-                  }} />
-                  <div className="flex justify-between w-full text-[9px] sm:text-[10px] md:text-xs text-muted-foreground font-medium">
-                    <span>Less Traffic</span>
-                    <span>High Traffic</span>
-                  </div>
-                </div>
-              </>
-            ) : showDensityLayer ? (
-              <>
-                <div className="flex items-center gap-1.5 sm:gap-2 mb-1.5 sm:mb-2">
-                  <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground">
-                    User Density Heatmap
-                  </p>
-                </div>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-1.5 sm:gap-2">
-                  <div className="w-20 sm:w-24 md:w-32 h-3.5 sm:h-4 md:h-5 rounded-md shadow-inner" style={{
-                    background: 'linear-gradient(to right, rgba(65, 105, 225, 0.8), rgb(0, 255, 127), rgb(255, 255, 0), rgb(255, 165, 0), rgb(255, 0, 0), rgb(139, 0, 0))',
-                    border: '1px solid rgba(255, 255, 255, 0.2)'
-                  }} />
-                  <div className="flex justify-between w-full text-[9px] sm:text-[10px] md:text-xs text-muted-foreground font-medium">
-                    <span>Low</span>
-                    <span>Medium</span>
-                    <span>High</span>
-                  </div>
-                </div>
-              </>
-            ) : (
-              <div className="flex flex-col gap-1 sm:gap-0">
-                <p className="text-[9px] sm:text-xs md:text-sm font-semibold text-muted-foreground mb-1 sm:mb-1.5 md:mb-2">Activity</p>
-                <div className="flex flex-col gap-1 sm:flex-row sm:gap-2 md:gap-3">
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(0, 85%, 55%)' }} />
-                    <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Hot</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(45, 100%, 55%)' }} />
-                    <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Warm</span>
-                  </div>
-                  <div className="flex items-center gap-1.5">
-                    <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(210, 100%, 55%)' }} />
-                    <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Cool</span>
-                  </div>
-                </div>
-              </div>
-            )}
+            {ActiveLegend && <ActiveLegend />}
           </>
         )}
       </div>
 
       {/* Enhanced Heatmap Loading Overlay */}
-      {showDensityLayer && densityLoading && (
+      {showDensityLayer && (densityLoading || (comparing && compareDensityLoading)) && (
         <div 
           className="absolute inset-0 flex items-center justify-center bg-background/30 backdrop-blur-md z-20"
           style={{
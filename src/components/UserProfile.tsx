@@ -6,13 +6,14 @@ import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { Card } from "./ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
-import { Camera, Loader2, User, Settings, Edit2, X, Instagram, Twitter, Facebook, Linkedin, Video, Shield, LogOut } from "lucide-react";
+import { Camera, Loader2, User, Settings, Edit2, X, Instagram, Twitter, Facebook, Linkedin, Video, Shield, Store, LogOut } from "lucide-react";
 import { ThemeToggle } from "./ThemeToggle";
 import { Separator } from "./ui/separator";
 import { Label } from "./ui/label";
 import { toast } from "sonner";
 import { z } from "zod";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { useIsMerchant } from "@/hooks/useIsMerchant";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -64,6 +65,7 @@ interface Profile {
 export const UserProfile = () => {
   const navigate = useNavigate();
   const { isAdmin } = useIsAdmin();
+  const { isMerchant } = useIsMerchant();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [displayName, setDisplayName] = useState("");
   const [bio, setBio] = useState("");
@@ -637,6 +639,17 @@ export const UserProfile = () => {
             </Button>
           )}
 
+          {isMerchant && (
+            <Button
+              onClick={() => navigate('/merchant')}
+              variant="outline"
+              className="w-full"
+            >
+              <Store className="w-4 h-4 mr-2" />
+              Merchant Portal
+            </Button>
+          )}
+
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button
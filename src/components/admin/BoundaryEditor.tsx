@@ -0,0 +1,397 @@
+import { useEffect, useRef, useState } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import { loadMapboxGL } from "@/lib/mapbox-loader";
+import { useMapboxToken } from "@/hooks/useMapboxToken";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Pencil, Check, Trash2 } from "lucide-react";
+import { closestPointOnSegment, type LatLng, type NamedBoundary } from "@/utils/polygonUtils";
+
+type EditorMode = 'draw' | 'edit';
+
+interface BoundaryEditorProps {
+  value: LatLng[];
+  onChange: (points: LatLng[]) => void;
+  otherNeighborhoods: NamedBoundary[];
+  center: { lat: number; lng: number };
+}
+
+// Screen-space distance within which a vertex snaps to another neighborhood's edge or corner
+const SNAP_DISTANCE_PX = 12;
+
+// Clicking this close to the first vertex closes the ring while drawing
+const CLOSE_RING_DISTANCE_PX = 12;
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+const toLngLat = ([lat, lng]: LatLng): [number, number] => [lng, lat];
+
+const buildShape = (points: LatLng[], mode: EditorMode): GeoJSON.FeatureCollection => {
+  if (points.length === 0) return EMPTY_COLLECTION;
+  const coordinates = points.map(toLngLat);
+
+  if (mode === 'edit' && points.length >= 3) {
+    return {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] } }],
+    };
+  }
+  return {
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } }],
+  };
+};
+
+const buildVertices = (points: LatLng[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: points.map((point, index) => ({
+    type: 'Feature',
+    properties: { index, first: index === 0 },
+    geometry: { type: 'Point', coordinates: toLngLat(point) },
+  })),
+});
+
+// Midpoint handles split the edge they sit on when clicked
+const buildMidpoints = (points: LatLng[], mode: EditorMode): GeoJSON.FeatureCollection => {
+  if (mode !== 'edit' || points.length < 3) return EMPTY_COLLECTION;
+  return {
+    type: 'FeatureCollection',
+    features: points.map(([lat, lng], index) => {
+      const [nextLat, nextLng] = points[(index + 1) % points.length];
+      return {
+        type: 'Feature',
+        properties: { index },
+        geometry: { type: 'Point', coordinates: [(lng + nextLng) / 2, (lat + nextLat) / 2] },
+      };
+    }),
+  };
+};
+
+const buildOthers = (others: NamedBoundary[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: others
+    .filter((other) => other.points.length >= 3)
+    .map((other) => {
+      const coordinates = other.points.map(toLngLat);
+      return {
+        type: 'Feature',
+        properties: { name: other.name },
+        geometry: { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] },
+      };
+    }),
+});
+
+/**
+ * Interactive neighborhood boundary editor.
+ * Draw: click to add vertices, click the first vertex to close the ring.
+ * Edit: drag vertices, click an edge handle to split it, double-click a vertex to merge its edges.
+ */
+export const BoundaryEditor = ({ value, onChange, otherNeighborhoods, center }: BoundaryEditorProps) => {
+  const { token, loading: tokenLoading, error: tokenError } = useMapboxToken();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapboxGL.Map | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  const [mapError, setMapError] = useState<string | null>(null);
+  const [mode, setMode] = useState<EditorMode>(value.length >= 3 ? 'edit' : 'draw');
+  const [snapEnabled, setSnapEnabled] = useState(true);
+
+  // Map handlers are registered once, so they read the latest props through refs
+  const pointsRef = useRef(value);
+  const modeRef = useRef(mode);
+  const snapRef = useRef(snapEnabled);
+  const othersRef = useRef(otherNeighborhoods);
+  const onChangeRef = useRef(onChange);
+  pointsRef.current = value;
+  modeRef.current = mode;
+  snapRef.current = snapEnabled;
+  othersRef.current = otherNeighborhoods;
+  onChangeRef.current = onChange;
+
+  const initialCenterRef = useRef(center);
+
+  useEffect(() => {
+    if (!token || !containerRef.current) return;
+
+    let cancelled = false;
+    let map: MapboxGL.Map | null = null;
+
+    const renderPoints = (points: LatLng[]) => {
+      if (!map) return;
+      (map.getSource('boundary-shape') as MapboxGL.GeoJSONSource | undefined)?.setData(buildShape(points, modeRef.current));
+      (map.getSource('boundary-vertices') as MapboxGL.GeoJSONSource | undefined)?.setData(buildVertices(points));
+      (map.getSource('boundary-midpoints') as MapboxGL.GeoJSONSource | undefined)?.setData(buildMidpoints(points, modeRef.current));
+    };
+
+    // Snap to the nearest corner of another neighborhood first, then to the nearest point on one of its edges
+    const snapPoint = (lngLat: MapboxGL.LngLat): LatLng => {
+      const raw: LatLng = [lngLat.lat, lngLat.lng];
+      if (!map || !snapRef.current) return raw;
+
+      const target = map.project(lngLat);
+      let bestVertex: { distance: number; point: LatLng } | null = null;
+      let bestEdge: { distance: number; point: [number, number] } | null = null;
+
+      for (const other of othersRef.current) {
+        const projected = other.points.map((point) => map!.project(toLngLat(point)));
+        for (let i = 0; i < projected.length; i++) {
+          const pixel = projected[i];
+          const distance = Math.hypot(pixel.x - target.x, pixel.y - target.y);
+          if (distance <= SNAP_DISTANCE_PX && (!bestVertex || distance < bestVertex.distance)) {
+            bestVertex = { distance, point: other.points[i] };
+          }
+
+          const next = projected[(i + 1) % projected.length];
+          const closest = closestPointOnSegment([target.x, target.y], [pixel.x, pixel.y], [next.x, next.y]);
+          const edgeDistance = Math.hypot(closest[0] - target.x, closest[1] - target.y);
+          if (edgeDistance <= SNAP_DISTANCE_PX && (!bestEdge || edgeDistance < bestEdge.distance)) {
+            bestEdge = { distance: edgeDistance, point: closest };
+          }
+        }
+      }
+
+      if (bestVertex) return [...bestVertex.point];
+      if (bestEdge) {
+        const snapped = map.unproject(bestEdge.point);
+        return [snapped.lat, snapped.lng];
+      }
+      return raw;
+    };
+
+    loadMapboxGL()
+      .then((mapboxgl) => {
+        if (cancelled || !containerRef.current) return;
+
+        mapboxgl.accessToken = token;
+        const initial = pointsRef.current;
+        map = new mapboxgl.Map({
+          container: containerRef.current,
+          style: 'mapbox://styles/mapbox/streets-v12',
+          center: [initialCenterRef.current.lng || -80.8431, initialCenterRef.current.lat || 35.2271],
+          zoom: 13,
+        });
+        mapRef.current = map;
+        map.doubleClickZoom.disable();
+
+        if (initial.length >= 2) {
+          const bounds = new mapboxgl.LngLatBounds();
+          initial.forEach((point) => bounds.extend(toLngLat(point)));
+          map.fitBounds(bounds, { padding: 40, duration: 0 });
+        }
+
+        map.on('load', () => {
+          if (!map) return;
+
+          map.addSource('other-neighborhoods', { type: 'geojson', data: buildOthers(othersRef.current) });
+          map.addSource('boundary-shape', { type: 'geojson', data: EMPTY_COLLECTION });
+          map.addSource('boundary-midpoints', { type: 'geojson', data: EMPTY_COLLECTION });
+          map.addSource('boundary-vertices', { type: 'geojson', data: EMPTY_COLLECTION });
+
+          map.addLayer({
+            id: 'other-neighborhoods-fill',
+            type: 'fill',
+            source: 'other-neighborhoods',
+            paint: { 'fill-color': '#64748b', 'fill-opacity': 0.15 },
+          });
+          map.addLayer({
+            id: 'other-neighborhoods-line',
+            type: 'line',
+            source: 'other-neighborhoods',
+            paint: { 'line-color': '#64748b', 'line-width': 1.5, 'line-dasharray': [2, 2] },
+          });
+          map.addLayer({
+            id: 'boundary-fill',
+            type: 'fill',
+            source: 'boundary-shape',
+            filter: ['==', ['geometry-type'], 'Polygon'],
+            paint: { 'fill-color': '#ff6b35', 'fill-opacity': 0.2 },
+          });
+          map.addLayer({
+            id: 'boundary-line',
+            type: 'line',
+            source: 'boundary-shape',
+            paint: { 'line-color': '#ff6b35', 'line-width': 2.5 },
+          });
+          map.addLayer({
+            id: 'boundary-midpoints',
+            type: 'circle',
+            source: 'boundary-midpoints',
+            paint: {
+              'circle-radius': 4,
+              'circle-color': '#ffffff',
+              'circle-opacity': 0.8,
+              'circle-stroke-color': '#ff6b35',
+              'circle-stroke-width': 1,
+            },
+          });
+          map.addLayer({
+            id: 'boundary-vertices',
+            type: 'circle',
+            source: 'boundary-vertices',
+            paint: {
+              'circle-radius': ['case', ['get', 'first'], 7, 6],
+              'circle-color': ['case', ['get', 'first'], '#ff6b35', '#ffffff'],
+              'circle-stroke-color': '#ff6b35',
+              'circle-stroke-width': 2,
+            },
+          });
+
+          renderPoints(pointsRef.current);
+          setMapReady(true);
+        });
+
+        // Draw mode: add a vertex per click, or close the ring on the first vertex
+        map.on('click', (e) => {
+          if (!map || modeRef.current !== 'draw') return;
+          const points = pointsRef.current;
+
+          if (points.length >= 3) {
+            const first = map.project(toLngLat(points[0]));
+            if (Math.hypot(first.x - e.point.x, first.y - e.point.y) <= CLOSE_RING_DISTANCE_PX) {
+              setMode('edit');
+              return;
+            }
+          }
+          onChangeRef.current([...points, snapPoint(e.lngLat)]);
+        });
+
+        // Edit mode: drag a vertex, committing the new ring on release
+        map.on('mousedown', 'boundary-vertices', (e) => {
+          if (!map || modeRef.current !== 'edit' || !e.features?.length) return;
+          e.preventDefault();
+
+          const index = Number(e.features[0].properties?.index);
+          let draft: LatLng[] | null = null;
+          map.getCanvas().style.cursor = 'grabbing';
+          map.dragPan.disable();
+
+          const onMove = (moveEvent: MapboxGL.MapMouseEvent) => {
+            draft = [...pointsRef.current];
+            draft[index] = snapPoint(moveEvent.lngLat);
+            renderPoints(draft);
+          };
+
+          map.on('mousemove', onMove);
+          map.once('mouseup', () => {
+            if (!map) return;
+            map.off('mousemove', onMove);
+            map.dragPan.enable();
+            map.getCanvas().style.cursor = '';
+            if (draft) onChangeRef.current(draft);
+          });
+        });
+
+        // Split: clicking an edge handle inserts a vertex there
+        map.on('click', 'boundary-midpoints', (e) => {
+          if (modeRef.current !== 'edit' || !e.features?.length) return;
+          const index = Number(e.features[0].properties?.index);
+          const points = [...pointsRef.current];
+          points.splice(index + 1, 0, [e.lngLat.lat, e.lngLat.lng]);
+          onChangeRef.current(points);
+        });
+
+        // Merge: double-clicking a vertex removes it, joining its two edges into one
+        map.on('dblclick', 'boundary-vertices', (e) => {
+          if (modeRef.current !== 'edit' || !e.features?.length || pointsRef.current.length <= 3) return;
+          const index = Number(e.features[0].properties?.index);
+          onChangeRef.current(pointsRef.current.filter((_, i) => i !== index));
+        });
+
+        map.on('mouseenter', 'boundary-vertices', () => {
+          if (map && modeRef.current === 'edit') map.getCanvas().style.cursor = 'move';
+        });
+        map.on('mouseenter', 'boundary-midpoints', () => {
+          if (map) map.getCanvas().style.cursor = 'pointer';
+        });
+        map.on('mouseleave', 'boundary-vertices', () => {
+          if (map) map.getCanvas().style.cursor = modeRef.current === 'draw' ? 'crosshair' : '';
+        });
+        map.on('mouseleave', 'boundary-midpoints', () => {
+          if (map) map.getCanvas().style.cursor = modeRef.current === 'draw' ? 'crosshair' : '';
+        });
+      })
+      .catch((error) => {
+        console.error('BoundaryEditor: failed to load map', error);
+        setMapError(error instanceof Error ? error.message : 'Failed to load map');
+      });
+
+    return () => {
+      cancelled = true;
+      setMapReady(false);
+      map?.remove();
+      mapRef.current = null;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    (map.getSource('boundary-shape') as MapboxGL.GeoJSONSource | undefined)?.setData(buildShape(value, mode));
+    (map.getSource('boundary-vertices') as MapboxGL.GeoJSONSource | undefined)?.setData(buildVertices(value));
+    (map.getSource('boundary-midpoints') as MapboxGL.GeoJSONSource | undefined)?.setData(buildMidpoints(value, mode));
+    map.getCanvas().style.cursor = mode === 'draw' ? 'crosshair' : '';
+  }, [value, mode, mapReady]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    (map.getSource('other-neighborhoods') as MapboxGL.GeoJSONSource | undefined)?.setData(buildOthers(otherNeighborhoods));
+  }, [otherNeighborhoods, mapReady]);
+
+  const handleRedraw = () => {
+    onChange([]);
+    setMode('draw');
+  };
+
+  const errorMessage = tokenError || mapError;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {mode === 'draw' ? (
+            <Button type="button" size="sm" onClick={() => setMode('edit')} disabled={value.length < 3}>
+              <Check className="w-4 h-4 mr-1" />
+              Finish
+            </Button>
+          ) : (
+            <Button type="button" size="sm" variant="outline" onClick={handleRedraw}>
+              <Pencil className="w-4 h-4 mr-1" />
+              Redraw
+            </Button>
+          )}
+          {mode === 'draw' && value.length > 0 && (
+            <Button type="button" size="sm" variant="outline" onClick={() => onChange(value.slice(0, -1))}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Undo point
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="boundary-snap" checked={snapEnabled} onCheckedChange={setSnapEnabled} />
+          <Label htmlFor="boundary-snap" className="text-sm">Snap to neighbors</Label>
+        </div>
+      </div>
+
+      <div className="relative h-80 rounded-md overflow-hidden border border-border">
+        <div ref={containerRef} className="absolute inset-0" />
+        {(tokenLoading || (!mapReady && !errorMessage)) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+        {errorMessage && (
+          <div className="absolute inset-0 flex items-center justify-center bg-muted p-4 text-sm text-destructive">
+            {errorMessage}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {mode === 'draw'
+          ? 'Click to add points. Click the first point to close the boundary.'
+          : 'Drag points to move them. Click an edge handle to split it. Double-click a point to merge its edges.'}
+      </p>
+    </div>
+  );
+};
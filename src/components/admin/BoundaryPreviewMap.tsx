@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import { loadMapboxGL, type MapboxGLModule } from "@/lib/mapbox-loader";
+import { useMapboxToken } from "@/hooks/useMapboxToken";
+import { Loader2 } from "lucide-react";
+import type { LatLng } from "@/utils/polygonUtils";
+
+export interface PreviewBoundary {
+  name: string;
+  points: LatLng[];
+  // Drives the polygon color - see STATUS_COLORS
+  status: 'new' | 'update' | 'skip' | 'invalid';
+}
+
+const STATUS_COLORS: Record<PreviewBoundary['status'], string> = {
+  new: '#22c55e',
+  update: '#f59e0b',
+  skip: '#64748b',
+  invalid: '#ef4444',
+};
+
+const buildCollection = (boundaries: PreviewBoundary[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: boundaries
+    .filter((boundary) => boundary.points.length >= 3)
+    .map((boundary) => {
+      const coordinates = boundary.points.map(([lat, lng]) => [lng, lat]);
+      return {
+        type: 'Feature',
+        properties: { name: boundary.name, color: STATUS_COLORS[boundary.status] },
+        geometry: { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] },
+      };
+    }),
+});
+
+/**
+ * Read-only map of imported boundaries, colored by what the import will do with each one
+ */
+export const BoundaryPreviewMap = ({ boundaries }: { boundaries: PreviewBoundary[] }) => {
+  const { token } = useMapboxToken();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapboxGL.Map | null>(null);
+  const mapboxRef = useRef<MapboxGLModule | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  useEffect(() => {
+    if (!token || !containerRef.current) return;
+
+    let cancelled = false;
+    let map: MapboxGL.Map | null = null;
+
+    loadMapboxGL()
+      .then((mapboxgl) => {
+        if (cancelled || !containerRef.current) return;
+
+        mapboxgl.accessToken = token;
+        mapboxRef.current = mapboxgl;
+        map = new mapboxgl.Map({
+          container: containerRef.current,
+          style: 'mapbox://styles/mapbox/light-v11',
+          center: [-80.8431, 35.2271],
+          zoom: 10,
+        });
+        mapRef.current = map;
+
+        map.on('load', () => {
+          if (!map) return;
+          map.addSource('import-preview', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+          map.addLayer({
+            id: 'import-preview-fill',
+            type: 'fill',
+            source: 'import-preview',
+            paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.25 },
+          });
+          map.addLayer({
+            id: 'import-preview-line',
+            type: 'line',
+            source: 'import-preview',
+            paint: { 'line-color': ['get', 'color'], 'line-width': 2 },
+          });
+          map.addLayer({
+            id: 'import-preview-label',
+            type: 'symbol',
+            source: 'import-preview',
+            layout: { 'text-field': ['get', 'name'], 'text-size': 11 },
+            paint: { 'text-color': '#1f2937', 'text-halo-color': '#ffffff', 'text-halo-width': 1 },
+          });
+          setMapReady(true);
+        });
+      })
+      .catch((error) => {
+        console.error('BoundaryPreviewMap: failed to load map', error);
+      });
+
+    return () => {
+      cancelled = true;
+      setMapReady(false);
+      map?.remove();
+      mapRef.current = null;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const mapboxgl = mapboxRef.current;
+    if (!map || !mapboxgl || !mapReady) return;
+
+    (map.getSource('import-preview') as MapboxGL.GeoJSONSource | undefined)?.setData(buildCollection(boundaries));
+
+    const bounds = new mapboxgl.LngLatBounds();
+    boundaries.forEach((boundary) => boundary.points.forEach(([lat, lng]) => bounds.extend([lng, lat])));
+    if (!bounds.isEmpty()) {
+      map.fitBounds(bounds, { padding: 30, duration: 0 });
+    }
+  }, [boundaries, mapReady]);
+
+  return (
+    <div className="relative h-64 rounded-md overflow-hidden border border-border">
+      <div ref={containerRef} className="absolute inset-0" />
+      {!mapReady && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted/50">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,45 +7,67 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { z } from "zod";
-import type { Database } from "@/integrations/supabase/types";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { DEVICE_TIMEZONE, parseDealSchedule, type DealSchedule } from "@/lib/deal-schedule";
+import { dealSchema } from "@/lib/deal-validation";
+import { DealScheduleEditor } from "./DealScheduleEditor";
 
 type Deal = Database['public']['Tables']['deals']['Row'];
+type Venue = Database['public']['Tables']['venues']['Row'];
 
-const dealSchema = z.object({
-  title: z.string().min(1).max(200),
-  description: z.string().min(1).max(1000),
-  venue_name: z.string().min(1).max(200),
-  venue_id: z.string().min(1).max(200),
-  deal_type: z.string().min(1).max(100),
-  website_url: z.string().url().optional().or(z.literal('')),
-  image_url: z.string().url().optional().or(z.literal('')),
-});
+export type OwnedVenue = Pick<Venue, 'id' | 'name' | 'address' | 'google_place_id'>;
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Empty number inputs mean "no limit"
+const parseOptionalInt = (value: string) => (value === '' ? null : parseInt(value, 10));
+
+// No windows means the deal runs all day, so nothing is stored
+const toStoredSchedule = (schedule: DealSchedule): Json | null => {
+  if (schedule.windows.length === 0) return null;
+  const stored = parseDealSchedule(schedule);
+  if (!stored) throw new Error('Invalid deal schedule');
+  return stored as unknown as Json;
+};
 
 interface DealFormProps {
   deal?: Deal | null;
+  // Merchants pick one of their own venues instead of typing venue details
+  venues?: OwnedVenue[];
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
+export const DealForm = ({ deal, venues, onClose, onSuccess }: DealFormProps) => {
+  const [uploading, setUploading] = useState(false);
   const [formData, setFormData] = useState({
     title: deal?.title || '',
     description: deal?.description || '',
     venue_name: deal?.venue_name || '',
     venue_id: deal?.venue_id || '',
+    venue_address: deal?.venue_address || '',
+    canonical_venue_id: deal?.canonical_venue_id ?? null,
     deal_type: deal?.deal_type || '',
     website_url: deal?.website_url || '',
     image_url: deal?.image_url || '',
     active: deal?.active ?? true,
     starts_at: deal?.starts_at || new Date().toISOString(),
     expires_at: deal?.expires_at || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    redemption_limit_per_user: deal ? deal.redemption_limit_per_user : 1,
+    redemption_limit: deal?.redemption_limit ?? null,
+    schedule: parseDealSchedule(deal?.schedule) ?? { timezone: DEVICE_TIMEZONE, windows: [], exceptions: [] },
   });
 
   const saveMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const validatedData = dealSchema.parse(data);
+      const schedule = toStoredSchedule(data.schedule);
+      // Row-level security only lets merchants write deals linked to a venue they own
+      const venueLink = venues
+        ? { canonical_venue_id: data.canonical_venue_id, venue_address: data.venue_address || null }
+        : {};
       
       if (deal) {
         const { error } = await supabase
@@ -55,12 +77,16 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
             description: validatedData.description,
             venue_name: validatedData.venue_name,
             venue_id: validatedData.venue_id,
+            ...venueLink,
             deal_type: validatedData.deal_type,
             website_url: validatedData.website_url || null,
             image_url: validatedData.image_url || null,
             starts_at: data.starts_at,
             expires_at: data.expires_at,
             active: data.active,
+            redemption_limit_per_user: validatedData.redemption_limit_per_user,
+            redemption_limit: validatedData.redemption_limit,
+            schedule,
           })
           .eq('id', deal.id);
         
@@ -73,12 +99,16 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
             description: validatedData.description,
             venue_name: validatedData.venue_name,
             venue_id: validatedData.venue_id,
+            ...venueLink,
             deal_type: validatedData.deal_type,
             website_url: validatedData.website_url || null,
             image_url: validatedData.image_url || null,
             starts_at: data.starts_at,
             expires_at: data.expires_at,
             active: data.active,
+            redemption_limit_per_user: validatedData.redemption_limit_per_user,
+            redemption_limit: validatedData.redemption_limit,
+            schedule,
           }]);
         
         if (error) throw error;
@@ -96,9 +126,60 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (venues && !formData.canonical_venue_id) {
+      toast.error('Choose a venue');
+      return;
+    }
     saveMutation.mutate(formData);
   };
 
+  const handleVenueChange = (venueId: string) => {
+    const venue = venues?.find((v) => v.id === venueId);
+    if (!venue) return;
+    setFormData({
+      ...formData,
+      canonical_venue_id: venue.id,
+      venue_id: venue.google_place_id ?? venue.id,
+      venue_name: venue.name,
+      venue_address: venue.address ?? '',
+    });
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast.error('Image must be under 5MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      // Merchants may only write under their own folder
+      const folder = venues ? `merchants/${user.id}` : 'deals';
+      const fileName = `${folder}/${crypto.randomUUID()}.${file.name.split('.').pop()}`;
+      const { error: uploadError } = await supabase.storage.from('deal-images').upload(fileName, file);
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from('deal-images').getPublicUrl(fileName);
+      setFormData((current) => ({ ...current, image_url: publicUrl }));
+      toast.success('Image uploaded');
+    } catch (error) {
+      console.error('Error uploading deal image:', error);
+      toast.error('Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -128,29 +209,47 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          {venues ? (
             <div>
-              <Label htmlFor="venue_name">Venue Name</Label>
-              <Input
-                id="venue_name"
-                value={formData.venue_name}
-                onChange={(e) => setFormData({ ...formData, venue_name: e.target.value })}
-                maxLength={200}
-                required
-              />
+              <Label htmlFor="venue">Venue</Label>
+              <Select value={formData.canonical_venue_id ?? undefined} onValueChange={handleVenueChange}>
+                <SelectTrigger id="venue">
+                  <SelectValue placeholder="Choose one of your venues" />
+                </SelectTrigger>
+                <SelectContent>
+                  {venues.map((venue) => (
+                    <SelectItem key={venue.id} value={venue.id}>
+                      {venue.name}{venue.address ? ` · ${venue.address}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="venue_name">Venue Name</Label>
+                <Input
+                  id="venue_name"
+                  value={formData.venue_name}
+                  onChange={(e) => setFormData({ ...formData, venue_name: e.target.value })}
+                  maxLength={200}
+                  required
+                />
+              </div>
 
-            <div>
-              <Label htmlFor="venue_id">Venue ID</Label>
-              <Input
-                id="venue_id"
-                value={formData.venue_id}
-                onChange={(e) => setFormData({ ...formData, venue_id: e.target.value })}
-                maxLength={200}
-                required
-              />
+              <div>
+                <Label htmlFor="venue_id">Venue ID</Label>
+                <Input
+                  id="venue_id"
+                  value={formData.venue_id}
+                  onChange={(e) => setFormData({ ...formData, venue_id: e.target.value })}
+                  maxLength={200}
+                  required
+                />
+              </div>
             </div>
-          </div>
+          )}
 
           <div>
             <Label htmlFor="deal_type">Deal Type</Label>
@@ -182,8 +281,53 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
               value={formData.image_url}
               onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
             />
+            <div className="mt-2 flex items-center gap-3">
+              <Input
+                id="image_file"
+                type="file"
+                accept="image/*"
+                onChange={handleImageUpload}
+                disabled={uploading}
+                className="max-w-xs"
+              />
+              {uploading && <span className="text-sm text-muted-foreground">Uploading...</span>}
+            </div>
+            {formData.image_url && (
+              <img src={formData.image_url} alt="" className="mt-2 h-24 rounded-md object-cover" />
+            )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="redemption_limit_per_user">Redemptions per user</Label>
+              <Input
+                id="redemption_limit_per_user"
+                type="number"
+                min={1}
+                value={formData.redemption_limit_per_user ?? ''}
+                onChange={(e) => setFormData({ ...formData, redemption_limit_per_user: parseOptionalInt(e.target.value) })}
+                placeholder="Unlimited"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="redemption_limit">Total redemptions</Label>
+              <Input
+                id="redemption_limit"
+                type="number"
+                min={1}
+                value={formData.redemption_limit ?? ''}
+                onChange={(e) => setFormData({ ...formData, redemption_limit: parseOptionalInt(e.target.value) })}
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          <DealScheduleEditor
+            value={formData.schedule}
+            onChange={(schedule) => setFormData({ ...formData, schedule })}
+          />
+
           <div className="flex items-center space-x-2">
             <Switch
               id="active"
@@ -194,7 +338,7 @@ export const DealForm = ({ deal, onClose, onSuccess }: DealFormProps) => {
           </div>
 
           <div className="flex gap-2 pt-4">
-            <Button type="submit" disabled={saveMutation.isPending}>
+            <Button type="submit" disabled={saveMutation.isPending || uploading}>
               {saveMutation.isPending ? 'Saving...' : 'Save'}
             </Button>
             <Button type="button" variant="outline" onClick={onClose}>
@@ -0,0 +1,276 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  buildImportRows,
+  parseDealFile,
+  toVenueLookups,
+  type ConflictMode,
+  type DealImportStatus,
+  type PreparedDeal,
+  type VenueMatch,
+} from "@/lib/deal-import";
+import type { Database } from "@/integrations/supabase/types";
+
+type Deal = Database['public']['Tables']['deals']['Row'];
+
+const STATUS_LABELS: Record<DealImportStatus, string> = {
+  new: 'new',
+  update: 'update',
+  unchanged: 'unchanged',
+  skip: 'skipped',
+  invalid: 'invalid',
+};
+
+interface DealImportDialogProps {
+  existingDeals: Deal[];
+  onImported: () => void;
+}
+
+export const DealImportDialog = ({ existingDeals, onImported }: DealImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [deals, setDeals] = useState<PreparedDeal[]>([]);
+  const [venueMatches, setVenueMatches] = useState<(VenueMatch | null)[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('skip');
+
+  const { data: neighborhoods } = useQuery({
+    queryKey: ['import-neighborhoods'],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('neighborhoods')
+        .select('id, name, slug');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const rows = useMemo(
+    () => buildImportRows(deals, {
+      venueMatches,
+      neighborhoods: neighborhoods ?? [],
+      existingDeals,
+      conflictMode,
+    }),
+    [deals, venueMatches, neighborhoods, existingDeals, conflictMode]
+  );
+
+  const counts = useMemo(
+    () => rows.reduce(
+      (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+      { new: 0, update: 0, unchanged: 0, skip: 0, invalid: 0 } as Record<DealImportStatus, number>
+    ),
+    [rows]
+  );
+
+  const reset = () => {
+    setDeals([]);
+    setVenueMatches([]);
+    setFileName('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    let parsed: PreparedDeal[];
+    try {
+      parsed = parseDealFile(file.name, await file.text());
+    } catch (error) {
+      console.error('Import parse error:', error);
+      toast.error('Could not read file. Use a CSV with a header row or a JSON array of deals.');
+      return;
+    }
+    if (parsed.length === 0) {
+      toast.error('No deals found in file');
+      return;
+    }
+
+    // Look venues up before showing the preview so each row says whether it links or creates one
+    setIsResolving(true);
+    try {
+      const { data, error } = await supabase.rpc('match_venues', { _venues: toVenueLookups(parsed) });
+      if (error) throw error;
+
+      const matches: (VenueMatch | null)[] = parsed.map(() => null);
+      for (const match of data ?? []) {
+        if (match.venue_id) matches[match.idx] = match;
+      }
+
+      setDeals(parsed);
+      setVenueMatches(matches);
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Venue lookup error:', error);
+      toast.error('Failed to look up venues');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const records = rows
+        .filter((row) => row.status === 'new' || row.status === 'update')
+        .map((row) => row.record!);
+      if (records.length === 0) return 0;
+
+      // One statement, so a failing row leaves nothing half-imported
+      const { error } = await supabase.from('deals').upsert(records);
+
+      if (error) throw error;
+      return records.length;
+    },
+    onSuccess: (written) => {
+      toast.success(`Imported ${written} ${written === 1 ? 'deal' : 'deals'}`);
+      reset();
+      setOpen(false);
+      onImported();
+    },
+    onError: (error) => {
+      toast.error('Failed to import deals');
+      console.error('Import error:', error);
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Deals</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with a header row or a JSON array. Columns: title, description, venue_name,
+            deal_type, and optionally id, venue_id, venue_address, neighborhood, starts_at, expires_at,
+            active_days, active, image_url, website_url.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} disabled={isResolving} />
+
+          {isResolving && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Matching venues...
+            </div>
+          )}
+
+          {deals.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {deals.length} deals in {fileName}
+              </p>
+
+              <div>
+                <Label htmlFor="deal-import-conflicts" className="text-xs text-muted-foreground">Existing deals</Label>
+                <Select value={conflictMode} onValueChange={(value) => setConflictMode(value as ConflictMode)}>
+                  <SelectTrigger id="deal-import-conflicts">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip existing deals</SelectItem>
+                    <SelectItem value="update">Update existing deals</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge className="bg-green-500/15 text-green-700 hover:bg-green-500/15">{counts.new} new</Badge>
+                <Badge className="bg-amber-500/15 text-amber-700 hover:bg-amber-500/15">{counts.update} update</Badge>
+                <Badge variant="secondary">{counts.unchanged} unchanged</Badge>
+                <Badge variant="secondary">{counts.skip} skipped</Badge>
+                <Badge variant="destructive">{counts.invalid} invalid</Badge>
+              </div>
+
+              <div className="max-h-80 overflow-y-auto rounded-md border border-border divide-y divide-border text-sm">
+                {rows.map((row) => (
+                  <div key={row.line} className="px-3 py-2 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          <span className="text-muted-foreground mr-2">#{row.line}</span>
+                          {row.title}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {row.venueName || '—'}
+                          {row.venueName && ` · ${row.venue === 'existing' ? 'existing venue' : 'new venue'}`}
+                          {row.neighborhoodName && ` · ${row.neighborhoodName}`}
+                          {row.dealType && ` · type "${row.dealType.from}" → ${row.dealType.to}`}
+                        </div>
+                      </div>
+                      <span className={`text-xs flex-shrink-0 ${row.status === 'invalid' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                    </div>
+
+                    {row.errors.length > 0 && (
+                      <ul className="text-xs text-destructive list-disc pl-5">
+                        {row.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {row.changes.length > 0 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5">
+                        {row.changes.map((change) => (
+                          <li key={change.field} className="truncate">
+                            <span className="font-medium text-foreground">{change.field}</span>: {' '}
+                            <span className="line-through">{change.from}</span> → {change.to}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={importMutation.isPending || isResolving || counts.new + counts.update === 0}
+          >
+            {importMutation.isPending ? 'Importing...' : `Import ${counts.new + counts.update}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
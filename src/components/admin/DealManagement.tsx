@@ -2,10 +2,22 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { Plus, Edit, Trash2, Loader2, Ban, CheckCircle2 } from "lucide-react";
 import { toast } from "sonner";
 import { DealForm } from "./DealForm";
+import { DealImportDialog } from "./DealImportDialog";
 import type { Database } from "@/integrations/supabase/types";
 
 type Deal = Database['public']['Tables']['deals']['Row'];
@@ -13,6 +25,8 @@ type Deal = Database['public']['Tables']['deals']['Row'];
 export const DealManagement = () => {
   const [isCreating, setIsCreating] = useState(false);
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
+  const [rejectingDeal, setRejectingDeal] = useState<Deal | null>(null);
+  const [rejectionNote, setRejectionNote] = useState('');
   const queryClient = useQueryClient();
 
   const { data: deals, isLoading } = useQuery({
@@ -47,6 +61,32 @@ export const DealManagement = () => {
     },
   });
 
+  // Merchants are notified of the decision; rejected deals are kept switched off
+  const moderateMutation = useMutation({
+    mutationFn: async ({ dealId, decision, note }: { dealId: string; decision: 'approved' | 'rejected'; note: string | null }) => {
+      const { error } = await supabase
+        .from('deals')
+        .update({
+          moderation_status: decision,
+          moderation_note: note,
+          active: decision === 'approved',
+        })
+        .eq('id', dealId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-deals'] });
+      setRejectingDeal(null);
+      setRejectionNote('');
+      toast.success(decision === 'approved' ? 'Deal approved' : 'Deal rejected');
+    },
+    onError: (error) => {
+      toast.error('Failed to update deal');
+      console.error('Moderation error:', error);
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex justify-center p-12">
@@ -79,10 +119,16 @@ export const DealManagement = () => {
           <h2 className="text-2xl font-bold text-foreground">Deals</h2>
           <p className="text-muted-foreground">Manage platform deals</p>
         </div>
-        <Button onClick={() => setIsCreating(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          Create Deal
-        </Button>
+        <div className="flex gap-2">
+          <DealImportDialog
+            existingDeals={deals ?? []}
+            onImported={() => queryClient.invalidateQueries({ queryKey: ['admin-deals'] })}
+          />
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Deal
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-4">
@@ -95,6 +141,27 @@ export const DealManagement = () => {
                   <CardDescription>{deal.venue_name}</CardDescription>
                 </div>
                 <div className="flex gap-2">
+                  {deal.moderation_status === 'rejected' ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => moderateMutation.mutate({ dealId: deal.id, decision: 'approved', note: null })}
+                      disabled={moderateMutation.isPending || Boolean(deal.deleted_at)}
+                      title="Approve"
+                    >
+                      <CheckCircle2 className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRejectingDeal(deal)}
+                      disabled={moderateMutation.isPending || Boolean(deal.deleted_at)}
+                      title="Reject"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -121,9 +188,18 @@ export const DealManagement = () => {
               <div className="mt-1 text-sm">
                 <span className="font-medium">Status:</span>{' '}
                 <span className={deal.active ? 'text-green-600' : 'text-red-600'}>
-                  {deal.active ? 'Active' : 'Inactive'}
+                  {deal.deleted_at
+                    ? 'Deleted by merchant'
+                    : deal.moderation_status === 'rejected'
+                      ? 'Rejected'
+                      : deal.active ? 'Active' : 'Inactive'}
                 </span>
               </div>
+              {deal.moderation_status === 'rejected' && deal.moderation_note && (
+                <div className="mt-1 text-sm text-muted-foreground">
+                  <span className="font-medium">Reason:</span> {deal.moderation_note}
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
@@ -136,6 +212,35 @@ export const DealManagement = () => {
           </Card>
         )}
       </div>
+
+      <AlertDialog open={Boolean(rejectingDeal)} onOpenChange={(open) => !open && setRejectingDeal(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject deal</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rejectingDeal?.title} will be taken down. The reason is sent to the venue's merchant system.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={rejectionNote}
+            onChange={(e) => setRejectionNote(e.target.value)}
+            placeholder="Reason (optional)"
+            maxLength={500}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rejectingDeal && moderateMutation.mutate({
+                dealId: rejectingDeal.id,
+                decision: 'rejected',
+                note: rejectionNote.trim() || null,
+              })}
+            >
+              Reject
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
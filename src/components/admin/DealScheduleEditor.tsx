@@ -0,0 +1,200 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CITIES } from "@/types/cities";
+import { describeDealSchedule, type DealSchedule, type DealScheduleException, type DealScheduleWindow } from "@/lib/deal-schedule";
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const NEW_WINDOW: DealScheduleWindow = { days: [1, 2, 3, 4, 5], start: '16:00', end: '19:00' };
+
+const CITY_TIMEZONES = [...new Set(CITIES.map((city) => city.timezone))];
+
+interface DealScheduleEditorProps {
+  value: DealSchedule;
+  onChange: (value: DealSchedule) => void;
+}
+
+/**
+ * Recurring time windows (e.g. a weekday happy hour) plus per-date exceptions for holidays.
+ * With no windows the deal is live all day on every day between its start and expiry.
+ */
+export const DealScheduleEditor = ({ value, onChange }: DealScheduleEditorProps) => {
+  const exceptions = value.exceptions ?? [];
+  const timezones = CITY_TIMEZONES.includes(value.timezone) ? CITY_TIMEZONES : [value.timezone, ...CITY_TIMEZONES];
+
+  const updateWindow = (index: number, patch: Partial<DealScheduleWindow>) => {
+    onChange({ ...value, windows: value.windows.map((window, i) => (i === index ? { ...window, ...patch } : window)) });
+  };
+
+  const updateException = (index: number, patch: Partial<DealScheduleException>) => {
+    onChange({ ...value, exceptions: exceptions.map((exception, i) => (i === index ? { ...exception, ...patch } : exception)) });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>Schedule</Label>
+          <p className="text-sm text-muted-foreground">
+            {value.windows.length > 0 ? describeDealSchedule(value).join(' · ') : 'All day, every day'}
+          </p>
+        </div>
+        <Select value={value.timezone} onValueChange={(timezone) => onChange({ ...value, timezone })}>
+          <SelectTrigger className="w-56" aria-label="Schedule timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timezones.map((timezone) => (
+              <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        {value.windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              variant="outline"
+              value={window.days.map(String)}
+              onValueChange={(days) => {
+                // At least one day has to stay selected
+                if (days.length > 0) updateWindow(index, { days: days.map(Number).sort((a, b) => a - b) });
+              }}
+            >
+              {WEEKDAY_INITIALS.map((initial, day) => (
+                <ToggleGroupItem key={day} value={String(day)} aria-label={WEEKDAY_NAMES[day]} className="w-8 px-0">
+                  {initial}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Input
+              type="time"
+              className="w-28"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              aria-label="Window start"
+              required
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-28"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              aria-label="Window end"
+              required
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...value, windows: value.windows.filter((_, i) => i !== index) })}
+              aria-label="Remove time window"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          An end time before the start runs past midnight. Equal start and end times cover the whole day.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, windows: [...value.windows, NEW_WINDOW] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add time window
+        </Button>
+      </div>
+
+      {value.windows.length > 0 && (
+        <div className="space-y-3">
+          <Label>Holiday exceptions</Label>
+          {exceptions.map((exception, index) => {
+            const closed = exception.windows.length === 0;
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={exception.date}
+                  onChange={(e) => updateException(index, { date: e.target.value })}
+                  aria-label="Exception date"
+                  required
+                />
+                <Input
+                  className="w-36"
+                  value={exception.label ?? ''}
+                  onChange={(e) => updateException(index, { label: e.target.value || undefined })}
+                  placeholder="e.g., Christmas"
+                  maxLength={100}
+                  aria-label="Exception label"
+                />
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`exception-closed-${index}`}
+                    checked={closed}
+                    onCheckedChange={(checked) =>
+                      updateException(index, { windows: checked ? [] : [{ start: NEW_WINDOW.start, end: NEW_WINDOW.end }] })
+                    }
+                  />
+                  <Label htmlFor={`exception-closed-${index}`}>Closed</Label>
+                </div>
+                {!closed && (
+                  <>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={exception.windows[0].start}
+                      onChange={(e) => updateException(index, { windows: [{ ...exception.windows[0], start: e.target.value }] })}
+                      aria-label="Exception start"
+                      required
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={exception.windows[0].end}
+                      onChange={(e) => updateException(index, { windows: [{ ...exception.windows[0], end: e.target.value }] })}
+                      aria-label="Exception end"
+                      required
+                    />
+                  </>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange({ ...value, exceptions: exceptions.filter((_, i) => i !== index) })}
+                  aria-label="Remove exception"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, exceptions: [...exceptions, { date: '', windows: [] }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add exception
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
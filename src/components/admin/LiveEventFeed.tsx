@@ -3,12 +3,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Activity, Star, Share2, MessageSquare, Users, MapPin, Search } from "lucide-react";
+import { Activity, Star, Share2, MessageSquare, Users, MapPin, Search, TicketCheck } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 interface LiveEvent {
   id: string;
-  type: 'favorite' | 'share' | 'review' | 'connection' | 'location' | 'search';
+  type: 'favorite' | 'share' | 'redemption' | 'review' | 'connection' | 'location' | 'search';
   message: string;
   timestamp: Date;
   data?: Record<string, unknown>;
@@ -17,6 +17,7 @@ interface LiveEvent {
 const eventConfig = {
   favorite: { icon: Star, color: 'bg-yellow-500/20 text-yellow-400', label: 'Favorite' },
   share: { icon: Share2, color: 'bg-blue-500/20 text-blue-400', label: 'Share' },
+  redemption: { icon: TicketCheck, color: 'bg-emerald-500/20 text-emerald-400', label: 'Redemption' },
   review: { icon: MessageSquare, color: 'bg-green-500/20 text-green-400', label: 'Review' },
   connection: { icon: Users, color: 'bg-purple-500/20 text-purple-400', label: 'Connection' },
   location: { icon: MapPin, color: 'bg-orange-500/20 text-orange-400', label: 'Location' },
@@ -83,6 +84,39 @@ export const LiveEventFeed = () => {
       )
       .subscribe();
 
+    // Subscribe to deal_redemptions changes
+    const redemptionsChannel = supabase
+      .channel('redemptions-changes')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'deal_redemptions' },
+        (payload) => {
+          addEvent({
+            id: payload.new.id,
+            type: 'redemption',
+            message: 'Deal code claimed',
+            timestamp: new Date(payload.new.claimed_at),
+            data: payload.new
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'deal_redemptions' },
+        (payload) => {
+          if (payload.new.status === 'redeemed') {
+            addEvent({
+              id: `${payload.new.id}-redeemed`,
+              type: 'redemption',
+              message: 'Deal redeemed at venue',
+              timestamp: new Date(payload.new.redeemed_at),
+              data: payload.new
+            });
+          }
+        }
+      )
+      .subscribe();
+
     // Subscribe to venue_reviews changes
     const reviewsChannel = supabase
       .channel('reviews-changes')
@@ -173,6 +207,7 @@ export const LiveEventFeed = () => {
     return () => {
       supabase.removeChannel(favoritesChannel);
       supabase.removeChannel(sharesChannel);
+      supabase.removeChannel(redemptionsChannel);
       supabase.removeChannel(reviewsChannel);
       supabase.removeChannel(connectionsChannel);
       supabase.removeChannel(searchChannel);
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,8 @@ import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { z } from "zod";
 import type { Database } from "@/integrations/supabase/types";
+import { BoundaryEditor } from "./BoundaryEditor";
+import { getPolygonCentroid, parseBoundaryPoints, validateBoundary, type LatLng } from "@/utils/polygonUtils";
 
 type Neighborhood = Database['public']['Tables']['neighborhoods']['Row'];
 
@@ -19,15 +21,25 @@ const neighborhoodSchema = z.object({
   description: z.string().max(1000).optional(),
   center_lat: z.number().min(-90).max(90),
   center_lng: z.number().min(-180).max(180),
+  dwell_minutes: z.number().int().positive().nullable(),
+  notification_cooldown_minutes: z.number().int().min(0),
+  reentry_suppression_minutes: z.number().int().min(0),
+  quiet_hours_start: z.number().int().min(0).max(23).nullable(),
+  quiet_hours_end: z.number().int().min(0).max(23).nullable(),
 });
 
+// Empty number inputs mean "not set"
+const parseOptionalInt = (value: string) => (value === '' ? null : parseInt(value, 10));
+
 interface NeighborhoodFormProps {
   neighborhood?: Neighborhood | null;
+  // All neighborhoods, used for snapping and overlap checks against the active ones
+  neighborhoods?: Neighborhood[];
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: NeighborhoodFormProps) => {
+export const NeighborhoodForm = ({ neighborhood, neighborhoods = [], onClose, onSuccess }: NeighborhoodFormProps) => {
   const [formData, setFormData] = useState({
     name: neighborhood?.name || '',
     slug: neighborhood?.slug || '',
@@ -35,9 +47,37 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
     center_lat: neighborhood ? Number(neighborhood.center_lat) : 0,
     center_lng: neighborhood ? Number(neighborhood.center_lng) : 0,
     active: neighborhood?.active ?? true,
-    boundary_points: neighborhood?.boundary_points || [],
+    boundary_points: parseBoundaryPoints(neighborhood?.boundary_points),
+    dwell_minutes: neighborhood ? neighborhood.dwell_minutes : 20,
+    notification_cooldown_minutes: neighborhood?.notification_cooldown_minutes ?? 60,
+    reentry_suppression_minutes: neighborhood?.reentry_suppression_minutes ?? 30,
+    quiet_hours_start: neighborhood?.quiet_hours_start ?? null,
+    quiet_hours_end: neighborhood?.quiet_hours_end ?? null,
   });
 
+  const otherBoundaries = useMemo(
+    () =>
+      neighborhoods
+        .filter((other) => other.active && other.id !== neighborhood?.id)
+        .map((other) => ({ name: other.name, points: parseBoundaryPoints(other.boundary_points) })),
+    [neighborhoods, neighborhood?.id]
+  );
+
+  const boundaryErrors = useMemo(
+    () => validateBoundary(formData.boundary_points, otherBoundaries),
+    [formData.boundary_points, otherBoundaries]
+  );
+
+  // The center follows the drawn boundary
+  const handleBoundaryChange = (points: LatLng[]) => {
+    const centroid = getPolygonCentroid(points);
+    setFormData((current) => ({
+      ...current,
+      boundary_points: points,
+      ...(centroid && { center_lat: centroid.lat, center_lng: centroid.lng }),
+    }));
+  };
+
   const saveMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const validatedData = neighborhoodSchema.parse(data);
@@ -53,6 +93,11 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
             center_lng: validatedData.center_lng,
             boundary_points: data.boundary_points,
             active: data.active,
+            dwell_minutes: validatedData.dwell_minutes,
+            notification_cooldown_minutes: validatedData.notification_cooldown_minutes,
+            reentry_suppression_minutes: validatedData.reentry_suppression_minutes,
+            quiet_hours_start: validatedData.quiet_hours_start,
+            quiet_hours_end: validatedData.quiet_hours_end,
           })
           .eq('id', neighborhood.id);
         
@@ -68,6 +113,11 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
             center_lng: validatedData.center_lng,
             boundary_points: data.boundary_points,
             active: data.active,
+            dwell_minutes: validatedData.dwell_minutes,
+            notification_cooldown_minutes: validatedData.notification_cooldown_minutes,
+            reentry_suppression_minutes: validatedData.reentry_suppression_minutes,
+            quiet_hours_start: validatedData.quiet_hours_start,
+            quiet_hours_end: validatedData.quiet_hours_end,
           }]);
         
         if (error) throw error;
@@ -85,6 +135,10 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (boundaryErrors.length > 0) {
+      toast.error(boundaryErrors[0]);
+      return;
+    }
     saveMutation.mutate(formData);
   };
 
@@ -128,6 +182,23 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Boundary</Label>
+            <BoundaryEditor
+              value={formData.boundary_points}
+              onChange={handleBoundaryChange}
+              otherNeighborhoods={otherBoundaries}
+              center={{ lat: formData.center_lat, lng: formData.center_lng }}
+            />
+            {boundaryErrors.length > 0 && (
+              <ul className="text-sm text-destructive space-y-0.5">
+                {boundaryErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <Label htmlFor="center_lat">Center Latitude</Label>
@@ -136,7 +207,7 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
                 type="number"
                 step="0.000001"
                 value={formData.center_lat}
-                onChange={(e) => setFormData({ ...formData, center_lat: parseFloat(e.target.value) })}
+                readOnly
                 required
               />
             </div>
@@ -148,12 +219,77 @@ export const NeighborhoodForm = ({ neighborhood, onClose, onSuccess }: Neighborh
                 type="number"
                 step="0.000001"
                 value={formData.center_lng}
-                onChange={(e) => setFormData({ ...formData, center_lng: parseFloat(e.target.value) })}
+                readOnly
                 required
               />
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Geofence Alerts</Label>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="dwell_minutes" className="text-xs text-muted-foreground">Dwell after (min)</Label>
+                <Input
+                  id="dwell_minutes"
+                  type="number"
+                  min={1}
+                  value={formData.dwell_minutes ?? ''}
+                  onChange={(e) => setFormData({ ...formData, dwell_minutes: parseOptionalInt(e.target.value) })}
+                  placeholder="Off"
+                />
+              </div>
+              <div>
+                <Label htmlFor="notification_cooldown_minutes" className="text-xs text-muted-foreground">Cooldown (min)</Label>
+                <Input
+                  id="notification_cooldown_minutes"
+                  type="number"
+                  min={0}
+                  value={formData.notification_cooldown_minutes}
+                  onChange={(e) => setFormData({ ...formData, notification_cooldown_minutes: parseOptionalInt(e.target.value) ?? 0 })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="reentry_suppression_minutes" className="text-xs text-muted-foreground">Re-entry quiet (min)</Label>
+                <Input
+                  id="reentry_suppression_minutes"
+                  type="number"
+                  min={0}
+                  value={formData.reentry_suppression_minutes}
+                  onChange={(e) => setFormData({ ...formData, reentry_suppression_minutes: parseOptionalInt(e.target.value) ?? 0 })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="quiet_hours_start" className="text-xs text-muted-foreground">Quiet hours from (0-23)</Label>
+                <Input
+                  id="quiet_hours_start"
+                  type="number"
+                  min={0}
+                  max={23}
+                  value={formData.quiet_hours_start ?? ''}
+                  onChange={(e) => setFormData({ ...formData, quiet_hours_start: parseOptionalInt(e.target.value) })}
+                  placeholder="None"
+                />
+              </div>
+              <div>
+                <Label htmlFor="quiet_hours_end" className="text-xs text-muted-foreground">Quiet hours until (0-23)</Label>
+                <Input
+                  id="quiet_hours_end"
+                  type="number"
+                  min={0}
+                  max={23}
+                  value={formData.quiet_hours_end ?? ''}
+                  onChange={(e) => setFormData({ ...formData, quiet_hours_end: parseOptionalInt(e.target.value) })}
+                  placeholder="None"
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="flex items-center space-x-2">
             <Switch
               id="active"
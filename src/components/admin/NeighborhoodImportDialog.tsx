@@ -0,0 +1,285 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { BoundaryPreviewMap, type PreviewBoundary } from "./BoundaryPreviewMap";
+import { parseBoundaryFile, slugify, type ImportedBoundary } from "@/utils/boundaryFormats";
+import { getPolygonCentroid, parseBoundaryPoints, validateBoundary, type NamedBoundary } from "@/utils/polygonUtils";
+
+type Neighborhood = Database['public']['Tables']['neighborhoods']['Row'];
+
+type ConflictMode = 'skip' | 'update';
+
+// Select value meaning "no source property"
+const NONE = '__none__';
+
+interface ImportRow extends PreviewBoundary {
+  slug: string;
+  description: string | null;
+  problem?: string;
+}
+
+interface NeighborhoodImportDialogProps {
+  // Existing neighborhoods: slugs decide skip/update, active boundaries are checked for overlaps
+  neighborhoods: Neighborhood[];
+  onImported: () => void;
+}
+
+// First property key that looks like it holds the given field
+const guessKey = (keys: string[], candidates: string[]) =>
+  keys.find((key) => candidates.includes(key.toLowerCase())) ?? NONE;
+
+export const NeighborhoodImportDialog = ({ neighborhoods, onImported }: NeighborhoodImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [boundaries, setBoundaries] = useState<ImportedBoundary[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [nameKey, setNameKey] = useState(NONE);
+  const [slugKey, setSlugKey] = useState(NONE);
+  const [descriptionKey, setDescriptionKey] = useState(NONE);
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('skip');
+
+  const propertyKeys = useMemo(
+    () => [...new Set(boundaries.flatMap((boundary) => Object.keys(boundary.properties)))].sort(),
+    [boundaries]
+  );
+
+  const rows = useMemo<ImportRow[]>(() => {
+    const existing = new Set(neighborhoods.map((neighborhood) => neighborhood.slug));
+    const seen = new Set<string>();
+
+    const mapped = boundaries.map((boundary) => {
+      const name = nameKey === NONE ? '' : boundary.properties[nameKey]?.trim() ?? '';
+      const slug = slugify(slugKey === NONE ? name : boundary.properties[slugKey] ?? '');
+      const description = descriptionKey === NONE ? null : boundary.properties[descriptionKey] ?? null;
+      return { name, slug, description, points: boundary.points };
+    });
+
+    // Boundaries an update replaces are checked in their new shape only
+    const replaced = new Set(conflictMode === 'update' ? mapped.map((row) => row.slug) : []);
+    const others: NamedBoundary[] = neighborhoods
+      .filter((neighborhood) => neighborhood.active && !replaced.has(neighborhood.slug))
+      .map((neighborhood) => ({ name: neighborhood.name, points: parseBoundaryPoints(neighborhood.boundary_points) }));
+
+    return mapped.map(({ name, slug, description, points }) => {
+      const skipped = existing.has(slug) && conflictMode === 'skip';
+
+      let problem: string | undefined;
+      if (!name) problem = 'Missing name';
+      else if (!slug) problem = 'Missing slug';
+      else if (seen.has(slug)) problem = 'Duplicate slug in file';
+      else if (!skipped) problem = validateBoundary(points, others)[0];
+      seen.add(slug);
+
+      const status: PreviewBoundary['status'] = problem
+        ? 'invalid'
+        : existing.has(slug)
+          ? conflictMode === 'update' ? 'update' : 'skip'
+          : 'new';
+
+      // Later rows in the file must not overlap the ones that will be written
+      if (status === 'new' || status === 'update') others.push({ name, points });
+
+      return { name: name || '(unnamed)', slug, description, points, status, problem };
+    });
+  }, [boundaries, nameKey, slugKey, descriptionKey, conflictMode, neighborhoods]);
+
+  const counts = useMemo(
+    () => rows.reduce(
+      (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+      { new: 0, update: 0, skip: 0, invalid: 0 } as Record<PreviewBoundary['status'], number>
+    ),
+    [rows]
+  );
+
+  const reset = () => {
+    setBoundaries([]);
+    setFileName('');
+    setNameKey(NONE);
+    setSlugKey(NONE);
+    setDescriptionKey(NONE);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseBoundaryFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        toast.error('No polygons found in file');
+        return;
+      }
+
+      const keys = [...new Set(parsed.flatMap((boundary) => Object.keys(boundary.properties)))];
+      setBoundaries(parsed);
+      setFileName(file.name);
+      setNameKey(guessKey(keys, ['name', 'neighborhood', 'neighbourhood', 'title', 'label']));
+      setSlugKey(guessKey(keys, ['slug']));
+      setDescriptionKey(guessKey(keys, ['description', 'desc']));
+    } catch (error) {
+      console.error('Import parse error:', error);
+      toast.error('Could not read file. Use a GeoJSON FeatureCollection or KML.');
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const toWrite = rows.filter((row) => row.status === 'new' || row.status === 'update');
+      if (toWrite.length === 0) return 0;
+
+      // active is left out so updated neighborhoods keep their current status
+      const records = toWrite.map((row) => {
+        const center = getPolygonCentroid(row.points)!;
+        return {
+          name: row.name,
+          slug: row.slug,
+          description: row.description,
+          boundary_points: row.points,
+          center_lat: center.lat,
+          center_lng: center.lng,
+        };
+      });
+
+      const { error } = await supabase
+        .from('neighborhoods')
+        .upsert(records, { onConflict: 'slug', ignoreDuplicates: conflictMode === 'skip' });
+
+      if (error) throw error;
+      return records.length;
+    },
+    onSuccess: (written) => {
+      toast.success(`Imported ${written} ${written === 1 ? 'neighborhood' : 'neighborhoods'}`);
+      reset();
+      setOpen(false);
+      onImported();
+    },
+    onError: (error) => {
+      toast.error('Failed to import neighborhoods');
+      console.error('Import error:', error);
+    },
+  });
+
+  const renderKeySelect = (id: string, label: string, value: string, onChange: (value: string) => void, noneLabel: string) => (
+    <div>
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{noneLabel}</SelectItem>
+          {propertyKeys.map((key) => (
+            <SelectItem key={key} value={key}>{key}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Neighborhoods</DialogTitle>
+          <DialogDescription>
+            Upload a GeoJSON FeatureCollection or KML file with polygon boundaries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input type="file" accept=".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml" onChange={handleFileChange} />
+
+          {boundaries.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {boundaries.length} polygons in {fileName}
+              </p>
+
+              <div className="grid grid-cols-3 gap-3">
+                {renderKeySelect('import-name-key', 'Name from', nameKey, setNameKey, 'None')}
+                {renderKeySelect('import-slug-key', 'Slug from', slugKey, setSlugKey, 'Generate from name')}
+                {renderKeySelect('import-description-key', 'Description from', descriptionKey, setDescriptionKey, 'None')}
+              </div>
+
+              <div>
+                <Label htmlFor="import-conflicts" className="text-xs text-muted-foreground">Existing slugs</Label>
+                <Select value={conflictMode} onValueChange={(value) => setConflictMode(value as ConflictMode)}>
+                  <SelectTrigger id="import-conflicts">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip existing neighborhoods</SelectItem>
+                    <SelectItem value="update">Update existing boundaries</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <BoundaryPreviewMap boundaries={rows} />
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge className="bg-green-500/15 text-green-700 hover:bg-green-500/15">{counts.new} new</Badge>
+                <Badge className="bg-amber-500/15 text-amber-700 hover:bg-amber-500/15">{counts.update} update</Badge>
+                <Badge variant="secondary">{counts.skip} skipped</Badge>
+                <Badge variant="destructive">{counts.invalid} invalid</Badge>
+              </div>
+
+              <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border text-sm">
+                {rows.map((row, index) => (
+                  <div key={`${row.slug}-${index}`} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{row.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">{row.slug || '—'}</div>
+                    </div>
+                    <span className={`text-xs flex-shrink-0 ${row.status === 'invalid' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                      {row.problem ?? row.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={importMutation.isPending || counts.new + counts.update === 0}
+          >
+            {importMutation.isPending ? 'Importing...' : `Import ${counts.new + counts.update}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,9 +3,11 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { Plus, Edit, Trash2, Loader2, Download } from "lucide-react";
 import { toast } from "sonner";
 import { NeighborhoodForm } from "./NeighborhoodForm";
+import { NeighborhoodImportDialog } from "./NeighborhoodImportDialog";
+import { toGeoJSON } from "@/utils/boundaryFormats";
 import type { Database } from "@/integrations/supabase/types";
 
 type Neighborhood = Database['public']['Tables']['neighborhoods']['Row'];
@@ -47,6 +49,17 @@ export const NeighborhoodManagement = () => {
     },
   });
 
+  const exportNeighborhoods = () => {
+    const collection = toGeoJSON(neighborhoods ?? []);
+    const blob = new Blob([JSON.stringify(collection, null, 2)], { type: "application/geo+json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "neighborhoods.geojson";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center p-12">
@@ -59,6 +72,7 @@ export const NeighborhoodManagement = () => {
     return (
       <NeighborhoodForm
         neighborhood={editingNeighborhood}
+        neighborhoods={neighborhoods ?? []}
         onClose={() => {
           setIsCreating(false);
           setEditingNeighborhood(null);
@@ -79,10 +93,20 @@ export const NeighborhoodManagement = () => {
           <h2 className="text-2xl font-bold text-foreground">Neighborhoods</h2>
           <p className="text-muted-foreground">Manage platform neighborhoods</p>
         </div>
-        <Button onClick={() => setIsCreating(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          Create Neighborhood
-        </Button>
+        <div className="flex gap-2">
+          <NeighborhoodImportDialog
+            neighborhoods={neighborhoods ?? []}
+            onImported={() => queryClient.invalidateQueries({ queryKey: ['admin-neighborhoods'] })}
+          />
+          <Button variant="outline" onClick={exportNeighborhoods} disabled={!neighborhoods?.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Neighborhood
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-4">
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+type ValidationResult =
+  | { status: 'redeemed'; code: string; redeemed_at: string; deal: { id: string | null; title: string | null; venue_name: string | null } }
+  | { status: 'already_redeemed'; redeemed_at: string }
+  | { status: 'not_found' | 'expired' | 'invalid' | 'not_live' };
+
+const FAILURE_MESSAGES: Record<Exclude<ValidationResult['status'], 'redeemed'>, string> = {
+  // Also what another venue's code gets, so codes can't be probed for existence
+  not_found: 'No claim matches this code.',
+  expired: 'This code has expired. Ask the customer to get a new one.',
+  invalid: 'This QR code was not issued by us.',
+  not_live: 'This deal is no longer running.',
+  already_redeemed: 'This code has already been redeemed.',
+};
+
+/**
+ * Staff-side check of a customer's redemption code. Accepts the 8-character code or the
+ * token read from the QR; merchants do the same through the portal.
+ */
+export const RedemptionValidator = () => {
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<ValidationResult | null>(null);
+
+  const validateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      // QR tokens are "<id>.<expiry>.<signature>"; anything else is a typed code
+      const body = value.includes('.') ? { token: value } : { code: value };
+      const { data, error } = await supabase.functions.invoke<ValidationResult>('validate-deal-redemption', { body });
+      if (error) throw error;
+      if (!data) throw new Error('Empty response');
+      return data;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.status === 'redeemed') setInput('');
+    },
+    onError: (error) => {
+      toast.error('Failed to validate code');
+      console.error('Validation error:', error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = input.trim();
+    if (value) validateMutation.mutate(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Validate Redemption</CardTitle>
+        <CardDescription>Enter the customer's code or paste the scanned QR contents</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="redemption-code">Code</Label>
+            <Input
+              id="redemption-code"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="e.g., ABCD EFGH"
+              autoComplete="off"
+              className="font-mono"
+              maxLength={256}
+            />
+          </div>
+          <Button type="submit" disabled={validateMutation.isPending || !input.trim()}>
+            {validateMutation.isPending ? 'Checking...' : 'Redeem'}
+          </Button>
+        </form>
+
+        {result && (result.status === 'redeemed' ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            <AlertTitle>Redeemed</AlertTitle>
+            <AlertDescription>
+              {result.deal.title ?? 'Deal'}{result.deal.venue_name ? ` · ${result.deal.venue_name}` : ''} · code {result.code}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Not redeemed</AlertTitle>
+            <AlertDescription>
+              {FAILURE_MESSAGES[result.status]}
+              {result.status === 'already_redeemed' && ` (${new Date(result.redeemed_at).toLocaleString()})`}
+            </AlertDescription>
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
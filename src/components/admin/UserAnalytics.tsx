@@ -2,7 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { lazy, Suspense } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, MapPin, Bell, TrendingUp, Star, Activity, Eye, Search, Share2 } from "lucide-react";
+import { Users, MapPin, Bell, TrendingUp, Star, Activity, Eye, Search, Share2, TicketCheck } from "lucide-react";
 import { Loader2 } from "lucide-react";
 import { format, subDays } from "date-fns";
 import { LiveEventFeed } from "./LiveEventFeed";
@@ -36,7 +36,8 @@ export const UserAnalytics = () => {
         searchesRes,
         sharesRes,
         reviewsRes,
-        connectionsRes
+        connectionsRes,
+        redemptionsRes
       ] = await Promise.all([
         supabase.from('profiles').select('id', { count: 'exact', head: true }),
         supabase.from('user_locations').select('id', { count: 'exact', head: true }),
@@ -47,7 +48,8 @@ export const UserAnalytics = () => {
         supabase.from('search_history').select('id', { count: 'exact', head: true }),
         supabase.from('deal_shares').select('id', { count: 'exact', head: true }),
         supabase.from('venue_reviews').select('id', { count: 'exact', head: true }),
-        supabase.from('user_connections').select('id', { count: 'exact', head: true })
+        supabase.from('user_connections').select('id', { count: 'exact', head: true }),
+        supabase.from('deal_redemptions').select('id', { count: 'exact', head: true }).eq('status', 'redeemed')
       ]);
 
       const completedOnboarding = profilesRes.data?.filter(p => p.onboarding_completed).length || 0;
@@ -155,6 +157,33 @@ export const UserAnalytics = () => {
         return { date: dateStr, shares, reviews };
       });
 
+      // Redemption funnel (last 7 days) - claims that turned into redemptions, by deal
+      const { data: recentClaims } = await supabase
+        .from('deal_redemptions')
+        .select('deal_id, status, deals(title, venue_name)')
+        .gte('claimed_at', sevenDaysAgo);
+
+      const weeklyClaims = recentClaims?.length || 0;
+      const weeklyRedemptions = recentClaims?.filter(r => r.status === 'redeemed').length || 0;
+
+      const redeemedDealStats = recentClaims?.reduce((acc, claim) => {
+        if (claim.status !== 'redeemed' || !claim.deal_id) return acc;
+        const existing = acc.find(d => d.deal_id === claim.deal_id);
+        if (existing) {
+          existing.count++;
+        } else {
+          acc.push({
+            deal_id: claim.deal_id,
+            title: claim.deals?.title || 'Deleted deal',
+            venue_name: claim.deals?.venue_name || '',
+            count: 1,
+          });
+        }
+        return acc;
+      }, [] as { deal_id: string; title: string; venue_name: string; count: number }[])
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5) || [];
+
       return {
         totalUsers: usersRes.count || 0,
         totalLocations: locationsRes.count || 0,
@@ -164,6 +193,10 @@ export const UserAnalytics = () => {
         totalShares: sharesRes.count || 0,
         totalReviews: reviewsRes.count || 0,
         totalConnections: connectionsRes.count || 0,
+        totalRedemptions: redemptionsRes.count || 0,
+        weeklyClaims,
+        weeklyRedemptions,
+        topRedeemedDeals: redeemedDealStats,
         completedOnboarding,
         activeDeals: activeDealsRes.count || 0,
         userGrowth,
@@ -191,6 +224,10 @@ export const UserAnalytics = () => {
     ? Math.round((data.completedOnboarding / data.totalUsers) * 100)
     : 0;
 
+  const redemptionRate = data?.weeklyClaims
+    ? Math.round((data.weeklyRedemptions / data.weeklyClaims) * 100)
+    : 0;
+
   const cards = [
     {
       title: "Total Users",
@@ -219,6 +256,13 @@ export const UserAnalytics = () => {
       icon: Share2,
       description: "Total deal shares",
       trend: `${weeklyShares} this week`
+    },
+    {
+      title: "Redemptions",
+      value: data?.totalRedemptions || 0,
+      icon: TicketCheck,
+      description: "Codes validated by venues",
+      trend: `${data?.weeklyRedemptions || 0} this week · ${redemptionRate}% of claims`
     }
   ];
 
@@ -233,7 +277,7 @@ export const UserAnalytics = () => {
       <LiveEventFeed />
 
       {/* Key Metrics */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         {cards.map((card) => {
           const Icon = card.icon;
           return (
@@ -350,6 +394,36 @@ export const UserAnalytics = () => {
         </Card>
       </div>
 
+      {/* Redemptions */}
+      <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TicketCheck className="h-5 w-5 text-primary" />
+            Top Redeemed Deals
+          </CardTitle>
+          <CardDescription>
+            {data?.weeklyClaims || 0} codes claimed and {data?.weeklyRedemptions || 0} redeemed this week
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {data?.topRedeemedDeals && data.topRedeemedDeals.length > 0 ? (
+              data.topRedeemedDeals.map((deal) => (
+                <div key={deal.deal_id} className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{deal.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">{deal.venue_name}</p>
+                  </div>
+                  <span className="text-xs text-primary font-semibold ml-2">{deal.count}</span>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No redemptions this week</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Third Row */}
       <div className="grid gap-4 md:grid-cols-2">
         <Card className="bg-card/50 backdrop-blur-sm border-border/50">
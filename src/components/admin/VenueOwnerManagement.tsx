@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Store, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+/**
+ * Links a verified venue owner's account to a venue. The owner gets the merchant role and
+ * can then manage that venue's deals from the merchant portal.
+ */
+export const VenueOwnerManagement = () => {
+  const [search, setSearch] = useState('');
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const queryClient = useQueryClient();
+  const term = search.trim();
+
+  const { data: venues, isFetching } = useQuery({
+    queryKey: ['admin-venue-owners', term],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('venues')
+        .select('id, name, address, owner_id')
+        .ilike('name', `%${term}%`)
+        .order('name')
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: term.length >= 2,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ venueId, email }: { venueId: string; email: string }) => {
+      const { error } = await supabase.rpc('assign_venue_owner', { _venue_id: venueId, _email: email });
+      if (error) throw error;
+    },
+    onSuccess: (_, { venueId, email }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-venue-owners'] });
+      setEmails((current) => ({ ...current, [venueId]: '' }));
+      toast.success(email.trim() ? 'Venue owner assigned' : 'Venue owner removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update venue owner');
+      console.error('Assign owner error:', error);
+    },
+  });
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+            <Store className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Venue Owners</CardTitle>
+            <CardDescription>Give verified owners access to the merchant portal</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="venue-owner-search">Venue</Label>
+          <Input
+            id="venue-owner-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search venues by name"
+          />
+        </div>
+
+        {isFetching && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!isFetching && venues?.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No venues match "{term}"</p>
+        )}
+
+        <div className="space-y-3">
+          {term.length >= 2 && venues?.map((venue) => (
+            <div key={venue.id} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{venue.name}</p>
+                  {venue.address && <p className="text-xs text-muted-foreground truncate">{venue.address}</p>}
+                </div>
+                {venue.owner_id ? <Badge>Claimed</Badge> : <Badge variant="outline">Unclaimed</Badge>}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  value={emails[venue.id] ?? ''}
+                  onChange={(e) => setEmails((current) => ({ ...current, [venue.id]: e.target.value }))}
+                  placeholder="Owner's account email"
+                />
+                <Button
+                  onClick={() => assignMutation.mutate({ venueId: venue.id, email: emails[venue.id] ?? '' })}
+                  disabled={assignMutation.isPending || !emails[venue.id]?.trim()}
+                >
+                  Assign
+                </Button>
+                {venue.owner_id && (
+                  <Button
+                    variant="outline"
+                    onClick={() => assignMutation.mutate({ venueId: venue.id, email: '' })}
+                    disabled={assignMutation.isPending}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,43 @@
+/**
+ * Runs a layer animation on requestAnimationFrame, calling onFrame at most once per intervalMs.
+ * Pauses while the tab is hidden and resumes when it is visible again.
+ * Returns a function that stops it for good.
+ */
+export function startLayerAnimation(onFrame: (now: number) => void, intervalMs: number): () => void {
+  let animationFrame: number | null = null;
+  let lastFrame = 0;
+
+  const tick = (now: number) => {
+    if (now - lastFrame >= intervalMs) {
+      lastFrame = now;
+      onFrame(now);
+    }
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  const start = () => {
+    if (animationFrame === null && !document.hidden) {
+      animationFrame = requestAnimationFrame(tick);
+    }
+  };
+
+  const pause = () => {
+    if (animationFrame !== null) {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = null;
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.hidden) pause();
+    else start();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  start();
+
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    pause();
+  };
+}
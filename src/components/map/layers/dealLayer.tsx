@@ -0,0 +1,346 @@
+import type * as MapboxGL from "mapbox-gl";
+import { AlertCircle, Heart, CalendarCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { triggerHaptic } from "@/lib/haptics";
+import { DEVICE_TIMEZONE, getDealLiveIntervals } from "@/lib/deal-schedule";
+import type { MapDeal } from "@/hooks/useMapDeals";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+const sourceId = 'deals';
+const glowLayerId = 'deal-pins-glow';
+const pinLayerId = 'deal-pins';
+const countdownLayerId = 'deal-pins-countdown';
+
+// Countdown labels and ring colors follow the clock, so features are rebuilt this often
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Time-remaining bands in minutes
+const ENDING_SOON_MINUTES = 60;
+const ENDING_TONIGHT_MINUTES = 180;
+
+export const DEAL_TYPE_COLORS: Record<string, string> = {
+  offer: 'hsl(280, 85%, 65%)',
+  event: 'hsl(330, 90%, 62%)',
+  special: 'hsl(45, 100%, 58%)',
+};
+const OTHER_DEAL_COLOR = 'hsl(160, 80%, 48%)';
+
+export interface DealLayerData {
+  deals: MapDeal[];
+  onDealSelect: (deal: MapDeal) => void;
+}
+
+export interface DealMapFilters {
+  types: string[]; // Empty shows every type
+  activeToday: boolean;
+  favoritesOnly: boolean;
+}
+
+export const DEFAULT_DEAL_MAP_FILTERS: DealMapFilters = { types: [], activeToday: false, favoritesOnly: false };
+
+export interface DealControlsProps {
+  availableTypes: string[];
+  filters: DealMapFilters;
+  onFiltersChange: (filters: DealMapFilters) => void;
+  // Favorites need a signed-in user
+  canFilterFavorites: boolean;
+  shownCount: number;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+}
+
+/**
+ * Deals matching the map filter chips. "Active today" keeps deals with a window still open
+ * or opening before midnight.
+ */
+export function filterMapDeals(deals: MapDeal[], filters: DealMapFilters, favoriteIds: Set<string>, now: Date = new Date()) {
+  const midnight = new Date(now);
+  midnight.setHours(24, 0, 0, 0);
+  return deals.filter((deal) => {
+    if (filters.types.length > 0 && !filters.types.includes(deal.deal_type)) return false;
+    if (filters.activeToday && getDealLiveIntervals(deal, now, midnight, DEVICE_TIMEZONE).length === 0) return false;
+    if (filters.favoritesOnly && !favoriteIds.has(deal.id)) return false;
+    return true;
+  });
+}
+
+const formatTimeLeft = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const formatDealType = (dealType: string) => dealType.charAt(0).toUpperCase() + dealType.slice(1);
+
+function toDealFeatureCollection(deals: MapDeal[], now: number): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  const features: GeoJSON.Feature<GeoJSON.Point>[] = [];
+  for (const deal of deals) {
+    const minutesLeft = Math.floor((new Date(deal.expires_at).getTime() - now) / 60000);
+    // Expired since the last fetch
+    if (minutesLeft < 0) continue;
+
+    features.push({
+      type: 'Feature',
+      properties: {
+        deal_id: deal.id,
+        deal_type: deal.deal_type,
+        minutes_left: minutesLeft,
+        time_left: formatTimeLeft(minutesLeft),
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: [deal.lng, deal.lat],
+      },
+    });
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+const typeColor: MapboxGL.Expression = [
+  'match',
+  ['get', 'deal_type'],
+  ...Object.entries(DEAL_TYPE_COLORS).flat(),
+  OTHER_DEAL_COLOR,
+];
+
+const minutesLeft: MapboxGL.Expression = ['get', 'minutes_left'];
+
+// Red ring in the last hour, amber for the rest of the evening
+const ringColor: MapboxGL.Expression = [
+  'step',
+  minutesLeft,
+  'hsl(0, 90%, 60%)',
+  ENDING_SOON_MINUTES, 'hsl(30, 100%, 55%)',
+  ENDING_TONIGHT_MINUTES, 'rgba(255, 255, 255, 0.9)',
+];
+
+const addDealLayer = ({ map, isMobile, beforeId }: MapLayerContext, data: DealLayerData) => {
+  let current = data;
+  let dealsById = new Map(current.deals.map((deal) => [deal.id, deal]));
+
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data: toDealFeatureCollection(current.deals, Date.now()),
+  });
+
+  // Soft halo behind deals that end within the hour
+  map.addLayer({
+    id: glowLayerId,
+    type: 'circle',
+    source: sourceId,
+    filter: ['<', minutesLeft, ENDING_SOON_MINUTES],
+    paint: {
+      'circle-radius': isMobile ? 16 : 18,
+      'circle-color': 'hsl(0, 90%, 60%)',
+      'circle-opacity': 0.35,
+      'circle-blur': 0.8,
+    },
+  }, beforeId);
+
+  map.addLayer({
+    id: pinLayerId,
+    type: 'circle',
+    source: sourceId,
+    layout: {
+      // Deals ending first draw on top
+      'circle-sort-key': ['-', 0, minutesLeft],
+    },
+    paint: {
+      'circle-radius': isMobile ? 8 : 9,
+      'circle-color': typeColor,
+      'circle-stroke-width': ['step', minutesLeft, 4, ENDING_SOON_MINUTES, 3, ENDING_TONIGHT_MINUTES, 2],
+      'circle-stroke-color': ringColor,
+    },
+  }, beforeId);
+
+  map.addLayer({
+    id: countdownLayerId,
+    type: 'symbol',
+    source: sourceId,
+    minzoom: 12,
+    filter: ['<', minutesLeft, ENDING_TONIGHT_MINUTES],
+    layout: {
+      'text-field': ['get', 'time_left'],
+      'text-font': ['DIN Pro Bold', 'Arial Unicode MS Bold'],
+      'text-size': 11,
+      'text-offset': [0, -1.8],
+      'text-allow-overlap': false,
+    },
+    paint: {
+      'text-color': '#ffffff',
+      'text-halo-color': ringColor,
+      'text-halo-width': 1.5,
+    },
+  }, beforeId);
+
+  const refresh = () => {
+    (map.getSource(sourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(toDealFeatureCollection(current.deals, Date.now()));
+  };
+  const refreshTimer = setInterval(refresh, REFRESH_INTERVAL_MS);
+
+  // Stacked pins (several deals at one neighborhood center) open the one ending first
+  const handleDealClick = (e: MapboxGL.MapLayerMouseEvent) => {
+    const feature = [...(e.features ?? [])].sort(
+      (a, b) => (a.properties?.minutes_left ?? 0) - (b.properties?.minutes_left ?? 0)
+    )[0];
+    const deal = dealsById.get(feature?.properties?.deal_id);
+    if (!deal) return;
+
+    triggerHaptic('medium');
+    current.onDealSelect(deal);
+  };
+  const setPointer = () => { map.getCanvas().style.cursor = 'pointer'; };
+  const clearPointer = () => { map.getCanvas().style.cursor = ''; };
+
+  map.on('click', pinLayerId, handleDealClick);
+  map.on('mouseenter', pinLayerId, setPointer);
+  map.on('mouseleave', pinLayerId, clearPointer);
+
+  return {
+    update: (next: DealLayerData) => {
+      const dealsChanged = next.deals !== current.deals;
+      current = next;
+      if (!dealsChanged) return;
+
+      dealsById = new Map(next.deals.map((deal) => [deal.id, deal]));
+      refresh();
+    },
+    remove: () => {
+      clearInterval(refreshTimer);
+      map.off('click', pinLayerId, handleDealClick);
+      map.off('mouseenter', pinLayerId, setPointer);
+      map.off('mouseleave', pinLayerId, clearPointer);
+      [countdownLayerId, pinLayerId, glowLayerId].forEach(id => {
+        if (map.getLayer(id)) map.removeLayer(id);
+      });
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    },
+  };
+};
+
+const DealLegend = () => (
+  <div className="flex flex-col gap-1 sm:gap-0">
+    <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1 sm:mb-1.5 md:mb-2">Deals</p>
+    <div className="flex flex-wrap gap-x-2 gap-y-1 md:gap-x-3">
+      {[...Object.entries(DEAL_TYPE_COLORS), ['other', OTHER_DEAL_COLOR]].map(([dealType, color]) => (
+        <div key={dealType} className="flex items-center gap-1.5">
+          <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: color }} />
+          <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">{formatDealType(dealType)}</span>
+        </div>
+      ))}
+    </div>
+    <div className="flex items-center gap-1.5 mt-1 sm:mt-1.5">
+      <div className="w-2.5 h-2.5 md:w-3 md:h-3 rounded-full border-2" style={{ borderColor: 'hsl(0, 90%, 60%)' }} />
+      <span className="text-[9px] sm:text-[10px] md:text-xs text-muted-foreground">Ends within the hour</span>
+    </div>
+  </div>
+);
+
+const DealControls = ({
+  availableTypes,
+  filters,
+  onFiltersChange,
+  canFilterFavorites,
+  shownCount,
+  loading,
+  error,
+  onRetry,
+}: DealControlsProps) => {
+  const toggleType = (dealType: string) => {
+    triggerHaptic('light');
+    onFiltersChange({
+      ...filters,
+      types: filters.types.includes(dealType)
+        ? filters.types.filter((t) => t !== dealType)
+        : [...filters.types, dealType],
+    });
+  };
+
+  return (
+    <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2.5 shadow-lg space-y-2.5">
+      <div className="flex items-center justify-between text-xs font-semibold text-muted-foreground">
+        <span>Deal Filters</span>
+        {loading && (
+          <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        )}
+      </div>
+
+      {/* Error UI */}
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
+          <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
+          <span className="text-destructive truncate">Load failed</span>
+          <Button onClick={onRetry} variant="ghost" size="sm" className="h-6 text-xs px-2 ml-auto">
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {/* Type chips */}
+      {availableTypes.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Filter deals by type">
+          {availableTypes.map((dealType) => (
+            <Badge
+              key={dealType}
+              variant={filters.types.includes(dealType) ? "default" : "outline"}
+              className="cursor-pointer text-[10px] px-2 py-0.5"
+              onClick={() => toggleType(dealType)}
+              aria-pressed={filters.types.includes(dealType)}
+            >
+              {formatDealType(dealType)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        <Badge
+          variant={filters.activeToday ? "default" : "outline"}
+          className="cursor-pointer text-[10px] px-2 py-0.5"
+          onClick={() => {
+            triggerHaptic('light');
+            onFiltersChange({ ...filters, activeToday: !filters.activeToday });
+          }}
+          aria-pressed={filters.activeToday}
+        >
+          <CalendarCheck className="w-3 h-3 mr-1" />
+          Today
+        </Badge>
+        <Badge
+          variant={filters.favoritesOnly ? "default" : "outline"}
+          className={`text-[10px] px-2 py-0.5 ${canFilterFavorites ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+          onClick={() => {
+            if (!canFilterFavorites) return;
+            triggerHaptic('light');
+            onFiltersChange({ ...filters, favoritesOnly: !filters.favoritesOnly });
+          }}
+          aria-pressed={filters.favoritesOnly}
+          aria-disabled={!canFilterFavorites}
+          title={canFilterFavorites ? undefined : 'Sign in to filter by favorites'}
+        >
+          <Heart className="w-3 h-3 mr-1" />
+          Favorites
+        </Badge>
+      </div>
+
+      {/* Stats */}
+      <div className="text-[9px] text-muted-foreground pt-1 border-t border-border/30">
+        {shownCount} {shownCount === 1 ? 'deal' : 'deals'} on the map
+      </div>
+    </div>
+  );
+};
+
+export const dealLayer = registerMapLayer({
+  id: 'deals',
+  zIndex: 40,
+  layerIds: [glowLayerId, pinLayerId, countdownLayerId],
+  legendPriority: 15,
+  add: addDealLayer,
+  Legend: DealLegend,
+  Controls: DealControls,
+} satisfies MapLayerPlugin<DealLayerData, DealControlsProps>);
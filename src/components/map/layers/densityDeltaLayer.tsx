@@ -0,0 +1,200 @@
+import type * as MapboxGL from "mapbox-gl";
+import { Columns2, Diff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { triggerHaptic } from "@/lib/haptics";
+import {
+  DENSITY_COMPARE_PRESETS,
+  DENSITY_TIME_FILTER_LABELS,
+  formatHourOfDay,
+  WEEKDAY_LABELS,
+  type DensityComparison,
+  type DensityCompareView,
+  type DensityWindow,
+} from "@/lib/density-compare";
+import type { DensityTimeFilter } from "@/hooks/useLocationDensity";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+const sourceId = 'location-density-delta';
+const layerId = 'location-density-delta';
+
+const FEWER_COLOR = 'rgb(56, 152, 255)';
+const SAME_COLOR = 'rgba(220, 220, 230, 0.6)';
+const MORE_COLOR = 'rgb(255, 72, 48)';
+
+export interface DensityCompareControlsProps {
+  comparison: DensityComparison;
+  onComparisonChange: (value: DensityComparison) => void;
+}
+
+const addDensityDeltaLayer = ({ map, beforeId }: MapLayerContext, data: GeoJSON.FeatureCollection) => {
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data,
+  });
+
+  map.addLayer({
+    id: layerId,
+    type: 'circle',
+    source: sourceId,
+    paint: {
+      // Size follows the absolute change so a big shift in a busy cell outweighs a small one
+      'circle-radius': [
+        'interpolate',
+        ['linear'],
+        ['zoom'],
+        9, ['interpolate', ['linear'], ['get', 'magnitude'], 0, 4, 50, 14],
+        15, ['interpolate', ['linear'], ['get', 'magnitude'], 0, 10, 50, 36],
+      ],
+      'circle-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'change'],
+        -1, FEWER_COLOR,
+        0, SAME_COLOR,
+        1, MORE_COLOR,
+      ],
+      'circle-opacity': ['case', ['==', ['get', 'change'], 0], 0.35, 0.8],
+      'circle-blur': 0.4,
+      'circle-stroke-width': 1,
+      'circle-stroke-color': 'rgba(255, 255, 255, 0.4)',
+    },
+  }, beforeId);
+
+  return {
+    update: (next: GeoJSON.FeatureCollection) => {
+      (map.getSource(sourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(next);
+    },
+    remove: () => {
+      if (map.getLayer(layerId)) map.removeLayer(layerId);
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    },
+  };
+};
+
+const DensityDeltaLegend = () => (
+  <>
+    <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1.5 sm:mb-2">Change from A to B</p>
+    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-1.5 sm:gap-2">
+      <div className="w-20 sm:w-24 md:w-32 h-3.5 sm:h-4 md:h-5 rounded-md shadow-inner" style={{
+        background: `linear-gradient(to right, ${FEWER_COLOR}, ${SAME_COLOR}, ${MORE_COLOR})`,
+        border: '1px solid rgba(255, 255, 255, 0.2)'
+      }} />
+      <div className="flex justify-between w-full text-[9px] sm:text-[10px] md:text-xs text-muted-foreground font-medium">
+        <span>Fewer</span>
+        <span>Same</span>
+        <span>More</span>
+      </div>
+    </div>
+  </>
+);
+
+interface DensityWindowPickerProps {
+  label: string;
+  value: DensityWindow;
+  onChange: (value: DensityWindow) => void;
+}
+
+const DensityWindowPicker = ({ label, value, onChange }: DensityWindowPickerProps) => (
+  <div className="space-y-1">
+    <p className="text-[10px] font-semibold text-muted-foreground">{label}</p>
+    <Select value={value.timeFilter} onValueChange={(v) => onChange({ ...value, timeFilter: v as DensityTimeFilter })}>
+      <SelectTrigger className="h-8 text-[10px] bg-background/80" aria-label={`${label} time period`}>
+        <SelectValue placeholder="Time" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(DENSITY_TIME_FILTER_LABELS) as DensityTimeFilter[]).map((filter) => (
+          <SelectItem key={filter} value={filter}>{DENSITY_TIME_FILTER_LABELS[filter]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <div className="flex gap-1">
+      <Select
+        value={value.dayOfWeek?.toString() ?? "all"}
+        onValueChange={(v) => onChange({ ...value, dayOfWeek: v === "all" ? undefined : parseInt(v) })}
+      >
+        <SelectTrigger className="h-8 text-[10px] bg-background/80" aria-label={`${label} day of week`}>
+          <SelectValue placeholder="Day" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Days</SelectItem>
+          {WEEKDAY_LABELS.map((day, i) => (
+            <SelectItem key={day} value={i.toString()}>{day}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={value.hourOfDay?.toString() ?? "all"}
+        onValueChange={(v) => onChange({ ...value, hourOfDay: v === "all" ? undefined : parseInt(v) })}
+      >
+        <SelectTrigger className="h-8 text-[10px] bg-background/80" aria-label={`${label} hour of day`}>
+          <SelectValue placeholder="Hour" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Hours</SelectItem>
+          {Array.from({ length: 24 }, (_, i) => (
+            <SelectItem key={i} value={i.toString()}>{formatHourOfDay(i)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+const DENSITY_COMPARE_VIEWS: { value: DensityCompareView; label: string; Icon: typeof Columns2 }[] = [
+  { value: 'split', label: 'Split', Icon: Columns2 },
+  { value: 'delta', label: 'Change', Icon: Diff },
+];
+
+const DensityCompareControls = ({ comparison, onComparisonChange }: DensityCompareControlsProps) => (
+  <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2 shadow-lg space-y-2 animate-fade-in">
+    <div className="grid grid-cols-2 gap-1" role="group" aria-label="Compare view">
+      {DENSITY_COMPARE_VIEWS.map(({ value, label, Icon }) => (
+        <Button
+          key={value}
+          onClick={() => {
+            triggerHaptic('light');
+            onComparisonChange({ ...comparison, view: value });
+          }}
+          variant={comparison.view === value ? "default" : "outline"}
+          size="sm"
+          className="h-8 text-[10px] font-semibold"
+          aria-pressed={comparison.view === value}
+        >
+          <Icon className="w-3 h-3 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+
+    <div className="flex flex-wrap gap-1">
+      {DENSITY_COMPARE_PRESETS.map((preset) => (
+        <button
+          key={preset.label}
+          onClick={() => {
+            triggerHaptic('light');
+            onComparisonChange({ ...comparison, a: preset.a, b: preset.b });
+          }}
+          className="px-2 py-0.5 rounded-full border border-border/60 text-[9px] text-muted-foreground hover:text-foreground hover:border-primary/50 transition-colors"
+        >
+          {preset.label}
+        </button>
+      ))}
+    </div>
+
+    <DensityWindowPicker label="A" value={comparison.a} onChange={(a) => onComparisonChange({ ...comparison, a })} />
+    <DensityWindowPicker label="B" value={comparison.b} onChange={(b) => onComparisonChange({ ...comparison, b })} />
+  </div>
+);
+
+export const densityDeltaLayer = registerMapLayer({
+  id: 'density-delta',
+  // Stands in for the density heatmap, so it sits in the same slot
+  zIndex: 12,
+  layerIds: [layerId],
+  legendPriority: 12,
+  add: addDensityDeltaLayer,
+  Legend: DensityDeltaLegend,
+  Controls: DensityCompareControls,
+} satisfies MapLayerPlugin<GeoJSON.FeatureCollection, DensityCompareControlsProps>);
@@ -0,0 +1,369 @@
+import type * as MapboxGL from "mapbox-gl";
+import { GitCompareArrows, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { triggerHaptic } from "@/lib/haptics";
+import type { DensityTimeFilter } from "@/hooks/useLocationDensity";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+// Source the time-lapse player writes its interpolated frames to
+export const DENSITY_SOURCE_ID = 'location-density';
+
+const layerId = 'location-density-heat';
+const pointLayerId = `${layerId}-point`;
+const glowLayerId = `${layerId}-glow`;
+
+export type { DensityTimeFilter };
+
+export interface DensityLayerData {
+  geojson: GeoJSON.FeatureCollection;
+  // While the time-lapse plays it owns the source data, so live updates are held back
+  timelapse: boolean;
+}
+
+export interface DensityControlsProps {
+  timeFilter: DensityTimeFilter;
+  onTimeFilterChange: (value: DensityTimeFilter) => void;
+  hourFilter?: number;
+  onHourFilterChange: (value: number | undefined) => void;
+  dayFilter?: number;
+  onDayFilterChange: (value: number | undefined) => void;
+  timelapseMode: boolean;
+  onTimelapseModeChange: (value: boolean) => void;
+  forecastHoursAhead: number | null;
+  onForecastHoursAheadChange: (value: number | null) => void;
+  // Two windows side by side - the regular filters step aside while it is on
+  compareMode: boolean;
+  onCompareModeChange: (value: boolean) => void;
+}
+
+const addDensityLayer = ({ map, beforeId }: MapLayerContext, data: DensityLayerData) => {
+  const sourceId = DENSITY_SOURCE_ID;
+
+  // Add density data source
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data: data.geojson,
+  });
+
+  // Add enhanced heatmap layer with glow effect
+  map.addLayer({
+    id: layerId,
+    type: 'heatmap',
+    source: sourceId,
+    paint: {
+      // Enhanced weight calculation with exponential curve
+      'heatmap-weight': [
+        'interpolate',
+        ['exponential', 1.5],
+        ['get', 'density'],
+        0, 0,
+        5, 0.5,
+        10, 1,
+      ],
+      // Dynamic intensity based on zoom with higher peak
+      'heatmap-intensity': [
+        'interpolate',
+        ['exponential', 2],
+        ['zoom'],
+        0, 2,
+        9, 3,
+        15, 5,
+      ],
+      // Enhanced vibrant color ramp with smooth gradients
+      'heatmap-color': [
+        'interpolate',
+        ['linear'],
+        ['heatmap-density'],
+        0, 'rgba(0, 0, 0, 0)',              // transparent
+        0.1, 'rgba(65, 105, 225, 0.6)',     // royal blue with glow
+        0.2, 'rgba(0, 191, 255, 0.8)',      // deep sky blue
+        0.3, 'rgba(0, 255, 127, 0.85)',     // spring green
+        0.4, 'rgba(50, 205, 50, 0.9)',      // lime green
+        0.5, 'rgba(255, 255, 0, 0.95)',     // yellow
+        0.6, 'rgba(255, 215, 0, 0.95)',     // gold
+        0.7, 'rgba(255, 165, 0, 1)',        // orange
+        0.8, 'rgba(255, 69, 0, 1)',         // orange-red
+        0.9, 'rgba(255, 0, 0, 1)',          // red
+        1, 'rgba(139, 0, 0, 1)',            // dark red
+      ],
+      // Adaptive radius for better visualization at all zoom levels
+      'heatmap-radius': [
+        'interpolate',
+        ['exponential', 1.8],
+        ['zoom'],
+        0, 20,
+        9, 50,
+        12, 70,
+        15, 100,
+      ],
+      // Smooth opacity curve for better blending
+      'heatmap-opacity': [
+        'interpolate',
+        ['linear'],
+        ['zoom'],
+        7, 0.95,
+        12, 0.9,
+        15, 0.85,
+      ],
+      'heatmap-opacity-transition': {
+        duration: 1000,
+        delay: 0
+      }
+    },
+  }, beforeId);
+
+  // Add enhanced circle layer for detailed view with pulsing animation
+  map.addLayer({
+    id: `${layerId}-point`,
+    type: 'circle',
+    source: sourceId,
+    minzoom: 13,
+    paint: {
+      // Dynamic radius based on density with exponential scaling
+      'circle-radius': [
+        'interpolate',
+        ['exponential', 1.5],
+        ['get', 'density'],
+        0, 5,
+        5, 12,
+        10, 25,
+      ],
+      // Vibrant color gradient matching heatmap
+      'circle-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'density'],
+        0, 'rgb(65, 105, 225)',
+        3, 'rgb(0, 255, 127)',
+        6, 'rgb(255, 215, 0)',
+        8, 'rgb(255, 69, 0)',
+        10, 'rgb(139, 0, 0)',
+      ],
+      'circle-opacity': 0.7,
+      'circle-blur': 0.3,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'density'],
+        0, 'rgba(255, 255, 255, 0.6)',
+        10, 'rgba(255, 255, 255, 0.9)',
+      ],
+      'circle-stroke-opacity': 0.8,
+      'circle-opacity-transition': {
+        duration: 1000,
+        delay: 100
+      }
+    },
+  }, beforeId);
+
+  // Add outer glow layer for enhanced visual effect
+  map.addLayer({
+    id: `${layerId}-glow`,
+    type: 'circle',
+    source: sourceId,
+    minzoom: 13,
+    paint: {
+      'circle-radius': [
+        'interpolate',
+        ['exponential', 1.5],
+        ['get', 'density'],
+        0, 10,
+        5, 20,
+        10, 40,
+      ],
+      'circle-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'density'],
+        0, 'rgba(65, 105, 225, 0.3)',
+        5, 'rgba(255, 215, 0, 0.4)',
+        10, 'rgba(255, 0, 0, 0.5)',
+      ],
+      'circle-opacity': 0.3,
+      'circle-blur': 1,
+      'circle-opacity-transition': {
+        duration: 1000,
+        delay: 200
+      }
+    },
+  }, beforeId);
+
+  return {
+    // Resolution changes while zooming only swap the data - keep the layers to avoid a flash
+    update: (next: DensityLayerData) => {
+      if (next.timelapse) return;
+      (map.getSource(sourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(next.geojson);
+    },
+    remove: () => {
+      [glowLayerId, pointLayerId, layerId].forEach(id => {
+        if (map.getLayer(id)) map.removeLayer(id);
+      });
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    },
+  };
+};
+
+const DensityLegend = () => (
+  <>
+    <div className="flex items-center gap-1.5 sm:gap-2 mb-1.5 sm:mb-2">
+      <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground">
+        User Density Heatmap
+      </p>
+    </div>
+    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-1.5 sm:gap-2">
+      <div className="w-20 sm:w-24 md:w-32 h-3.5 sm:h-4 md:h-5 rounded-md shadow-inner" style={{
+        background: 'linear-gradient(to right, rgba(65, 105, 225, 0.8), rgb(0, 255, 127), rgb(255, 255, 0), rgb(255, 165, 0), rgb(255, 0, 0), rgb(139, 0, 0))',
+        border: '1px solid rgba(255, 255, 255, 0.2)'
+      }} />
+      <div className="flex justify-between w-full text-[9px] sm:text-[10px] md:text-xs text-muted-foreground font-medium">
+        <span>Low</span>
+        <span>Medium</span>
+        <span>High</span>
+      </div>
+    </div>
+  </>
+);
+
+const DensityControls = ({
+  timeFilter,
+  onTimeFilterChange,
+  hourFilter,
+  onHourFilterChange,
+  dayFilter,
+  onDayFilterChange,
+  timelapseMode,
+  onTimelapseModeChange,
+  forecastHoursAhead,
+  onForecastHoursAheadChange,
+  compareMode,
+  onCompareModeChange,
+}: DensityControlsProps) => {
+  const forecastTime = forecastHoursAhead !== null ? new Date(Date.now() + forecastHoursAhead * 60 * 60 * 1000) : null;
+  const filtersLocked = forecastTime !== null || compareMode;
+
+  return (
+    <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2 shadow-lg space-y-2">
+      {/* Filters */}
+      <div className="space-y-2 animate-fade-in">
+        <Select value={timeFilter} onValueChange={(v) => onTimeFilterChange(v as DensityTimeFilter)} disabled={filtersLocked}>
+          <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by time period">
+            <SelectValue placeholder="Time" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Time</SelectItem>
+            <SelectItem value="today">Today</SelectItem>
+            <SelectItem value="this_week">This Week</SelectItem>
+            <SelectItem value="last_week">Last Week</SelectItem>
+            <SelectItem value="this_hour">This Hour</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={hourFilter?.toString() || "all"} onValueChange={(v) => onHourFilterChange(v === "all" ? undefined : parseInt(v))} disabled={filtersLocked}>
+          <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by hour of day">
+            <SelectValue placeholder="Hour" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Hours</SelectItem>
+            {Array.from({ length: 24 }, (_, i) => (
+              <SelectItem key={i} value={i.toString()}>{i}:00</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={dayFilter?.toString() || "all"} onValueChange={(v) => onDayFilterChange(v === "all" ? undefined : parseInt(v))} disabled={filtersLocked}>
+          <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter heatmap by day of week">
+            <SelectValue placeholder="Day" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Days</SelectItem>
+            <SelectItem value="0">Sun</SelectItem>
+            <SelectItem value="1">Mon</SelectItem>
+            <SelectItem value="2">Tue</SelectItem>
+            <SelectItem value="3">Wed</SelectItem>
+            <SelectItem value="4">Thu</SelectItem>
+            <SelectItem value="5">Fri</SelectItem>
+            <SelectItem value="6">Sat</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Time-lapse - replays hourly frames of a recent day or week */}
+        <Button
+          onClick={() => {
+            triggerHaptic('light');
+            onTimelapseModeChange(!timelapseMode);
+          }}
+          variant={timelapseMode ? "default" : "outline"}
+          size="sm"
+          className="w-full h-8 text-[10px] font-semibold"
+          aria-pressed={timelapseMode}
+          disabled={compareMode}
+        >
+          <Play className="w-3 h-3 mr-1.5" />
+          {timelapseMode ? "Time-lapse On" : "Time-lapse"}
+        </Button>
+
+        {/* Compare - two time windows in a split view or as a change map */}
+        <Button
+          onClick={() => {
+            triggerHaptic('light');
+            onCompareModeChange(!compareMode);
+          }}
+          variant={compareMode ? "default" : "outline"}
+          size="sm"
+          className="w-full h-8 text-[10px] font-semibold"
+          aria-pressed={compareMode}
+        >
+          <GitCompareArrows className="w-3 h-3 mr-1.5" />
+          {compareMode ? "Compare On" : "Compare"}
+        </Button>
+
+        {/* Forecast - predicted crowd a few hours from now */}
+        {!compareMode && (
+          <div className="space-y-1 pt-1 border-t border-border/30">
+            <div className="flex items-center justify-between text-[10px]">
+              <button
+                onClick={() => {
+                  triggerHaptic('light');
+                  onForecastHoursAheadChange(forecastHoursAhead === null ? 1 : null);
+                }}
+                className={`font-semibold transition-colors ${forecastTime ? 'text-primary' : 'text-muted-foreground'}`}
+                aria-pressed={forecastTime !== null}
+              >
+                {forecastTime ? 'Forecast On' : 'Forecast Off'}
+              </button>
+              {forecastTime && (
+                <span className="font-semibold text-primary" aria-live="polite">
+                  +{forecastHoursAhead}h · {forecastTime.toLocaleTimeString([], { weekday: 'short', hour: 'numeric' })}
+                </span>
+              )}
+            </div>
+            {forecastHoursAhead !== null && (
+              <input
+                type="range"
+                min={1}
+                max={24}
+                value={forecastHoursAhead}
+                onChange={(e) => onForecastHoursAheadChange(parseInt(e.target.value))}
+                className="path-flow-slider w-full"
+                aria-label={`Forecast ${forecastHoursAhead} hours ahead`}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const densityLayer = registerMapLayer({
+  id: 'density',
+  zIndex: 10,
+  layerIds: [layerId, pointLayerId, glowLayerId],
+  legendPriority: 10,
+  add: addDensityLayer,
+  Legend: DensityLegend,
+  Controls: DensityControls,
+} satisfies MapLayerPlugin<DensityLayerData, DensityControlsProps>);
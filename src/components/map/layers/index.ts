@@ -0,0 +1,9 @@
+// Importing this module registers every layer plugin, bottom to top
+export { isochroneLayer } from "./isochroneLayer";
+export { densityLayer, DENSITY_SOURCE_ID, type DensityLayerData } from "./densityLayer";
+export { densityDeltaLayer } from "./densityDeltaLayer";
+export { movementPathsLayer, PATH_FREQUENCY_FLOOR } from "./movementPathsLayer";
+export { venueLayer } from "./venueLayer";
+export { itineraryLayer, type ItineraryLayerData } from "./itineraryLayer";
+export { dealLayer, DEFAULT_DEAL_MAP_FILTERS, filterMapDeals, type DealMapFilters } from "./dealLayer";
+export { userLocationLayer } from "./userLocationLayer";
@@ -0,0 +1,136 @@
+import type * as MapboxGL from "mapbox-gl";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { triggerHaptic } from "@/lib/haptics";
+import { ISOCHRONE_MINUTES, TRAVEL_MODES, TRAVEL_MODE_LABELS, type IsochroneCollection, type TravelMode } from "@/lib/routing";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+const sourceId = 'isochrones';
+const fillLayerId = 'isochrones-fill';
+const outlineLayerId = 'isochrones-outline';
+
+// Nearest contour first
+const CONTOUR_COLORS = ['hsl(150, 80%, 45%)', 'hsl(50, 100%, 55%)', 'hsl(25, 100%, 55%)'];
+
+const contourColor: MapboxGL.Expression = [
+  'step',
+  ['get', 'minutes'],
+  CONTOUR_COLORS[0],
+  ...ISOCHRONE_MINUTES.slice(1).flatMap((minutes, i) => [minutes, CONTOUR_COLORS[i + 1]]),
+];
+
+export interface IsochroneControlsProps {
+  mode: TravelMode;
+  onModeChange: (mode: TravelMode) => void;
+  // Whether contours start at the user's position or the map center
+  fromUserLocation: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+const addIsochroneLayer = ({ map, beforeId }: MapLayerContext, data: IsochroneCollection) => {
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data,
+  });
+
+  // Contours overlap, so the nearest (drawn last) reads strongest
+  map.addLayer({
+    id: fillLayerId,
+    type: 'fill',
+    source: sourceId,
+    paint: {
+      'fill-color': contourColor,
+      'fill-opacity': 0.15,
+    },
+  }, beforeId);
+
+  map.addLayer({
+    id: outlineLayerId,
+    type: 'line',
+    source: sourceId,
+    layout: {
+      'line-join': 'round',
+    },
+    paint: {
+      'line-color': contourColor,
+      'line-width': 2,
+      'line-opacity': 0.8,
+    },
+  }, beforeId);
+
+  return {
+    update: (next: IsochroneCollection) => {
+      (map.getSource(sourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(next);
+    },
+    remove: () => {
+      [outlineLayerId, fillLayerId].forEach(id => {
+        if (map.getLayer(id)) map.removeLayer(id);
+      });
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    },
+  };
+};
+
+const IsochroneLegend = () => (
+  <>
+    <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1.5 sm:mb-2">Reachable In</p>
+    <div className="flex flex-row gap-2 md:gap-3">
+      {ISOCHRONE_MINUTES.map((minutes, i) => (
+        <div key={minutes} className="flex items-center gap-1.5">
+          <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-sm shadow-sm" style={{ backgroundColor: CONTOUR_COLORS[i] }} />
+          <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">{minutes} min</span>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const IsochroneControls = ({ mode, onModeChange, fromUserLocation, loading, error }: IsochroneControlsProps) => (
+  <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2.5 shadow-lg space-y-2.5">
+    <div className="flex items-center justify-between text-xs font-semibold text-muted-foreground">
+      <span>Travel Time</span>
+      {loading && (
+        <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      )}
+    </div>
+
+    <div className="grid grid-cols-3 gap-1" role="group" aria-label="Travel mode">
+      {TRAVEL_MODES.map((travelMode) => (
+        <Button
+          key={travelMode}
+          onClick={() => { triggerHaptic('light'); onModeChange(travelMode); }}
+          variant={mode === travelMode ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-0 text-[10px]"
+          aria-pressed={mode === travelMode}
+        >
+          {TRAVEL_MODE_LABELS[travelMode]}
+        </Button>
+      ))}
+    </div>
+
+    {error && (
+      <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
+        <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
+        <span className="text-destructive truncate">{error}</span>
+      </div>
+    )}
+
+    <div className="text-[9px] text-muted-foreground pt-1 border-t border-border/30">
+      {fromUserLocation ? 'From your location' : 'From the map center'}
+    </div>
+  </div>
+);
+
+export const isochroneLayer = registerMapLayer({
+  id: 'isochrones',
+  // Area fills go under every other overlay
+  zIndex: 5,
+  layerIds: [fillLayerId, outlineLayerId],
+  legendPriority: 5,
+  add: addIsochroneLayer,
+  Legend: IsochroneLegend,
+  Controls: IsochroneControls,
+} satisfies MapLayerPlugin<IsochroneCollection, IsochroneControlsProps>);
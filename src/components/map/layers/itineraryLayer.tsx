@@ -0,0 +1,132 @@
+import type * as MapboxGL from "mapbox-gl";
+import type { ItineraryPlan } from "@/lib/itinerary";
+import type { LatLng } from "@/lib/routing";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+const sourceId = 'itinerary';
+const routeLayerId = 'itinerary-route';
+const stopLayerId = 'itinerary-stops';
+const labelLayerId = 'itinerary-stop-labels';
+
+const ROUTE_COLOR = 'hsl(200, 95%, 55%)';
+const ISSUE_COLOR = 'hsl(25, 100%, 55%)';
+
+export interface ItineraryLayerData {
+  plan: ItineraryPlan;
+  origin: LatLng | null;
+}
+
+// Legs are drawn as straight lines between stops; the stop order is what matters here
+const toGeoJSON = ({ plan, origin }: ItineraryLayerData): GeoJSON.FeatureCollection => {
+  const path = [...(origin ? [origin] : []), ...plan.stops.map(({ stop }) => stop)];
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...(path.length > 1
+        ? [{
+            type: 'Feature' as const,
+            properties: { kind: 'route' },
+            geometry: { type: 'LineString' as const, coordinates: path.map((point) => [point.lng, point.lat]) },
+          }]
+        : []),
+      ...plan.stops.map(({ stop, issue }, i) => ({
+        type: 'Feature' as const,
+        properties: { kind: 'stop', order: String(i + 1), name: stop.name, has_issue: issue !== null },
+        geometry: { type: 'Point' as const, coordinates: [stop.lng, stop.lat] },
+      })),
+    ],
+  };
+};
+
+const addItineraryLayer = ({ map, beforeId }: MapLayerContext, data: ItineraryLayerData) => {
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data: toGeoJSON(data),
+  });
+
+  map.addLayer({
+    id: routeLayerId,
+    type: 'line',
+    source: sourceId,
+    filter: ['==', ['get', 'kind'], 'route'],
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round',
+    },
+    paint: {
+      'line-color': ROUTE_COLOR,
+      'line-width': ['interpolate', ['linear'], ['zoom'], 10, 2, 16, 5],
+      'line-dasharray': [1.5, 1.5],
+      'line-opacity': 0.9,
+    },
+  }, beforeId);
+
+  map.addLayer({
+    id: stopLayerId,
+    type: 'circle',
+    source: sourceId,
+    filter: ['==', ['get', 'kind'], 'stop'],
+    paint: {
+      'circle-radius': ['interpolate', ['linear'], ['zoom'], 10, 9, 16, 13],
+      'circle-color': ['case', ['get', 'has_issue'], ISSUE_COLOR, ROUTE_COLOR],
+      'circle-stroke-color': '#ffffff',
+      'circle-stroke-width': 2,
+    },
+  }, beforeId);
+
+  map.addLayer({
+    id: labelLayerId,
+    type: 'symbol',
+    source: sourceId,
+    filter: ['==', ['get', 'kind'], 'stop'],
+    layout: {
+      'text-field': ['get', 'order'],
+      'text-font': ['DIN Pro Bold', 'Arial Unicode MS Bold'],
+      'text-size': 12,
+      'text-allow-overlap': true,
+      'text-ignore-placement': true,
+    },
+    paint: {
+      'text-color': '#ffffff',
+    },
+  }, beforeId);
+
+  return {
+    update: (next: ItineraryLayerData) => {
+      (map.getSource(sourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(toGeoJSON(next));
+    },
+    remove: () => {
+      [labelLayerId, stopLayerId, routeLayerId].forEach(id => {
+        if (map.getLayer(id)) map.removeLayer(id);
+      });
+      if (map.getSource(sourceId)) map.removeSource(sourceId);
+    },
+  };
+};
+
+const ItineraryLegend = () => (
+  <>
+    <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1.5 sm:mb-2">Your Plan</p>
+    <div className="flex flex-row gap-2 md:gap-3">
+      <div className="flex items-center gap-1.5">
+        <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: ROUTE_COLOR }} />
+        <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Stop</span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: ISSUE_COLOR }} />
+        <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Timing issue</span>
+      </div>
+    </div>
+  </>
+);
+
+export const itineraryLayer = registerMapLayer({
+  id: 'itinerary',
+  // Above venues so numbered stops stay readable, below deal pins
+  zIndex: 35,
+  layerIds: [routeLayerId, stopLayerId, labelLayerId],
+  legendPriority: 25,
+  add: addItineraryLayer,
+  Legend: ItineraryLegend,
+} satisfies MapLayerPlugin<ItineraryLayerData>);
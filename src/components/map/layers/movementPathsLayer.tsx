@@ -0,0 +1,434 @@
+import type * as MapboxGL from "mapbox-gl";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { triggerHaptic } from "@/lib/haptics";
+import type { MovementPathData } from "@/hooks/useMovementPaths";
+import { startLayerAnimation } from "../animation";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+// get-movement-paths never publishes flows below its k-anonymity floor, so the slider starts there
+export const PATH_FREQUENCY_FLOOR = 5;
+
+const sourceId = 'movement-paths';
+const particleSourceId = `${sourceId}-particles`;
+const lineLayerId = 'movement-paths-line';
+const glowLayerId = 'movement-paths-glow';
+const arrowLayerId = 'movement-paths-arrows';
+const particleLayerId = 'movement-paths-particles';
+
+export type MovementPathTimeFilter = 'all' | 'today' | 'this_week' | 'this_hour';
+
+export interface MovementPathsControlsProps {
+  timeFilter: MovementPathTimeFilter;
+  onTimeFilterChange: (value: MovementPathTimeFilter) => void;
+  minFrequency: number;
+  onMinFrequencyChange: (value: number) => void;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  stats?: MovementPathData['stats'];
+}
+
+const addMovementPathsLayer = ({ map, mapboxgl, isMobile, reduceMotion, beforeId }: MapLayerContext, data: MovementPathData) => {
+  // Add movement paths source
+  map.addSource(sourceId, {
+    type: 'geojson',
+    data: data.geojson,
+    lineMetrics: true,
+  });
+
+  // Add glow effect layer (behind main line)
+  map.addLayer({
+    id: glowLayerId,
+    type: 'line',
+    source: sourceId,
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round',
+    },
+    paint: {
+      'line-width': [
+        'interpolate',
+        ['exponential', 1.5],
+        ['get', 'frequency'],
+        1, 8,
+        5, 14,
+        10, 22,
+        20, 30,
+      ],
+      'line-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'frequency'],
+        1, 'rgba(100, 200, 255, 0.3)',
+        5, 'rgba(0, 255, 255, 0.35)',
+        10, 'rgba(255, 200, 0, 0.4)',
+        15, 'rgba(255, 100, 0, 0.45)',
+        20, 'rgba(255, 0, 100, 0.5)',
+      ],
+      'line-blur': 4,
+      'line-opacity': 0.6,
+    },
+  }, beforeId);
+
+  // Add main animated flow line layer
+  map.addLayer({
+    id: lineLayerId,
+    type: 'line',
+    source: sourceId,
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round',
+    },
+    paint: {
+      'line-width': [
+        'interpolate',
+        ['exponential', 1.5],
+        ['get', 'frequency'],
+        1, 3,
+        5, 6,
+        10, 10,
+        20, 14,
+      ],
+      'line-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'frequency'],
+        1, 'rgb(100, 200, 255)',
+        5, 'rgb(0, 255, 255)',
+        10, 'rgb(255, 200, 0)',
+        15, 'rgb(255, 100, 0)',
+        20, 'rgb(255, 0, 100)',
+      ],
+      'line-opacity': 0.9,
+      'line-dasharray': [0, 4, 3],
+    },
+  }, beforeId);
+
+  // Add arrow icon if not exists
+  if (!map.hasImage('flow-arrow')) {
+    const size = 48;
+    const arrowCanvas = document.createElement('canvas');
+    arrowCanvas.width = size;
+    arrowCanvas.height = size;
+    const ctx = arrowCanvas.getContext('2d')!;
+
+    // Create gradient for arrow
+    const gradient = ctx.createLinearGradient(0, 0, size, 0);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 0.4)');
+    gradient.addColorStop(0.5, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0.4)');
+
+    // Draw arrow/chevron shape
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.moveTo(size * 0.2, size * 0.3);
+    ctx.lineTo(size * 0.6, size * 0.5);
+    ctx.lineTo(size * 0.2, size * 0.7);
+    ctx.lineTo(size * 0.35, size * 0.5);
+    ctx.closePath();
+    ctx.fill();
+
+    // Add outer glow
+    ctx.shadowColor = 'rgba(255, 255, 255, 0.8)';
+    ctx.shadowBlur = 8;
+    ctx.fill();
+
+    map.addImage('flow-arrow', ctx.getImageData(0, 0, size, size));
+  }
+
+  // Add animated arrow symbols for direction
+  map.addLayer({
+    id: arrowLayerId,
+    type: 'symbol',
+    source: sourceId,
+    layout: {
+      'symbol-placement': 'line',
+      'symbol-spacing': 40,
+      'icon-image': 'flow-arrow',
+      'icon-size': [
+        'interpolate',
+        ['linear'],
+        ['get', 'frequency'],
+        1, 0.6,
+        10, 0.9,
+        20, 1.2,
+      ],
+      'icon-rotate': 90,
+      'icon-rotation-alignment': 'map',
+      'icon-allow-overlap': true,
+      'icon-ignore-placement': true,
+    },
+    paint: {
+      'icon-opacity': 0.85,
+    },
+  }, beforeId);
+
+  // Create animated particle points along paths
+  const createParticleData = (offset: number) => {
+    const particles: GeoJSON.Feature<GeoJSON.Point>[] = [];
+    
+    data.geojson.features.forEach((feature: GeoJSON.Feature) => {
+      if (feature.geometry.type === 'LineString') {
+        const coords = feature.geometry.coordinates;
+        const frequency = feature.properties?.frequency || 1;
+        
+        // Create multiple particles per path based on frequency
+        const numParticles = Math.min(Math.ceil(frequency / 3), 5);
+        
+        for (let p = 0; p < numParticles; p++) {
+          // Calculate position along the line with offset
+          const t = ((offset / 100) + (p / numParticles)) % 1;
+          
+          if (coords.length >= 2) {
+            const segmentCount = coords.length - 1;
+            const segmentIndex = Math.floor(t * segmentCount);
+            const segmentT = (t * segmentCount) - segmentIndex;
+            
+            const start = coords[Math.min(segmentIndex, coords.length - 2)];
+            const end = coords[Math.min(segmentIndex + 1, coords.length - 1)];
+            
+            const lng = start[0] + (end[0] - start[0]) * segmentT;
+            const lat = start[1] + (end[1] - start[1]) * segmentT;
+            
+            particles.push({
+              type: 'Feature',
+              geometry: {
+                type: 'Point',
+                coordinates: [lng, lat],
+              },
+              properties: {
+                frequency,
+                particleIndex: p,
+              },
+            });
+          }
+        }
+      }
+    });
+    
+    return {
+      type: 'FeatureCollection' as const,
+      features: particles,
+    };
+  };
+
+  // Add particle source
+  map.addSource(particleSourceId, {
+    type: 'geojson',
+    data: createParticleData(0),
+  });
+
+  // Add particle layer
+  map.addLayer({
+    id: particleLayerId,
+    type: 'circle',
+    source: particleSourceId,
+    paint: {
+      'circle-radius': [
+        'interpolate',
+        ['linear'],
+        ['get', 'frequency'],
+        1, 4,
+        10, 7,
+        20, 10,
+      ],
+      'circle-color': [
+        'interpolate',
+        ['linear'],
+        ['get', 'frequency'],
+        1, 'rgb(150, 220, 255)',
+        5, 'rgb(100, 255, 255)',
+        10, 'rgb(255, 230, 100)',
+        15, 'rgb(255, 150, 50)',
+        20, 'rgb(255, 80, 150)',
+      ],
+      'circle-opacity': 0.9,
+      'circle-blur': 0.3,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': 'rgba(255, 255, 255, 0.8)',
+    },
+  }, beforeId);
+
+  // Animate the dash array and particles for continuous flow effect
+  const dashArraySequence = [
+    [0, 4, 3],
+    [0.5, 4, 2.5],
+    [1, 4, 2],
+    [1.5, 4, 1.5],
+    [2, 4, 1],
+    [2.5, 4, 0.5],
+    [3, 4, 0],
+    [0, 0.5, 3, 3.5],
+    [0, 1, 3, 3],
+    [0, 1.5, 3, 2.5],
+    [0, 2, 3, 2],
+    [0, 2.5, 3, 1.5],
+    [0, 3, 3, 1],
+    [0, 3.5, 3, 0.5],
+  ];
+
+  let step = 0;
+  let particleOffset = 0;
+
+  // Static flows for reduced motion / low power mode
+  const stopAnimation = reduceMotion
+    ? () => {}
+    : startLayerAnimation(() => {
+        step = (step + 1) % dashArraySequence.length;
+
+        if (map.getLayer(lineLayerId)) {
+          map.setPaintProperty(lineLayerId, 'line-dasharray', dashArraySequence[step]);
+        }
+
+        // Update particle positions
+        particleOffset = (particleOffset + 2) % 100;
+        (map.getSource(particleSourceId) as MapboxGL.GeoJSONSource | undefined)?.setData(createParticleData(particleOffset));
+      }, 80);
+
+  // Tap a flow arc to see its origin → destination and trip count
+  const handleFlowClick = (e: MapboxGL.MapLayerMouseEvent) => {
+    const props = e.features?.[0]?.properties;
+    if (!props) return;
+    triggerHaptic('light');
+    new mapboxgl.Popup({
+      closeButton: true,
+      closeOnClick: true,
+      maxWidth: isMobile ? '240px' : '280px',
+      className: 'venue-popup'
+    })
+      .setLngLat(e.lngLat)
+      .setHTML(`
+        <div style="padding: ${isMobile ? '10px' : '12px'};">
+          <p style="margin: 0; font-size: ${isMobile ? '13px' : '14px'}; font-weight: 700; color: white;">${props.origin_name} → ${props.destination_name}</p>
+          <p style="margin: 4px 0 0 0; font-size: ${isMobile ? '12px' : '13px'}; color: rgba(255, 255, 255, 0.75);">${props.frequency} ${props.frequency === 1 ? 'trip' : 'trips'}</p>
+        </div>
+      `)
+      .addTo(map);
+  };
+  const handleFlowEnter = () => { map.getCanvas().style.cursor = 'pointer'; };
+  const handleFlowLeave = () => { map.getCanvas().style.cursor = ''; };
+  map.on('click', glowLayerId, handleFlowClick);
+  map.on('mouseenter', glowLayerId, handleFlowEnter);
+  map.on('mouseleave', glowLayerId, handleFlowLeave);
+
+  console.log('Movement paths layer added with', data.stats.total_paths, 'flows');
+
+  return {
+    remove: () => {
+      stopAnimation();
+      map.off('click', glowLayerId, handleFlowClick);
+      map.off('mouseenter', glowLayerId, handleFlowEnter);
+      map.off('mouseleave', glowLayerId, handleFlowLeave);
+      [particleLayerId, arrowLayerId, lineLayerId, glowLayerId].forEach(id => {
+        if (map.getLayer(id)) map.removeLayer(id);
+      });
+      [particleSourceId, sourceId].forEach(id => {
+        if (map.getSource(id)) map.removeSource(id);
+      });
+    },
+  };
+};
+
+const MovementPathsLegend = () => (
+  <>
+    <p className="text-[10px] sm:text-xs md:text-sm font-semibold text-foreground mb-1.5 sm:mb-2">Neighborhood Trip Flows</p>
+    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-1.5 sm:gap-2">
+      <div className="w-20 sm:w-24 md:w-32 h-3.5 sm:h-4 md:h-5 rounded-md shadow-inner" style={{
+        background: 'linear-gradient(to right, rgb(100, 200, 255), rgb(0, 255, 255), rgb(255, 200, 0), rgb(255, 100, 0), rgb(255, 0, 100))',
+        border: '1px solid rgba(255, 255, 255, 0.2)'
+      }} />
+      <div className="flex justify-between w-full text-[9px] sm:text-[10px] md:text-xs text-muted-foreground font-medium">
+        <span>Less Traffic</span>
+        <span>High Traffic</span>
+      </div>
+    </div>
+  </>
+);
+
+const MovementPathsControls = ({
+  timeFilter,
+  onTimeFilterChange,
+  minFrequency,
+  onMinFrequencyChange,
+  loading,
+  error,
+  onRetry,
+  stats,
+}: MovementPathsControlsProps) => (
+    <div className="bg-card/95 backdrop-blur-xl rounded-xl border border-border p-2.5 shadow-lg space-y-2.5">
+      <div className="flex items-center justify-between text-xs font-semibold text-muted-foreground">
+        <span>Flow Filters</span>
+        {loading && (
+          <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        )}
+      </div>
+
+      {/* Error UI */}
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-lg text-xs">
+          <AlertCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
+          <span className="text-destructive truncate">Load failed</span>
+          <Button onClick={onRetry} variant="ghost" size="sm" className="h-6 text-xs px-2 ml-auto">
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {/* Time filter */}
+      <Select value={timeFilter} onValueChange={(v) => onTimeFilterChange(v as MovementPathTimeFilter)}>
+        <SelectTrigger className="h-8 text-[10px] bg-background/80 transition-all duration-200" aria-label="Filter paths by time period">
+          <SelectValue placeholder="Time" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Time</SelectItem>
+          <SelectItem value="today">Today</SelectItem>
+          <SelectItem value="this_week">This Week</SelectItem>
+          <SelectItem value="this_hour">This Hour</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Frequency slider */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-[10px]">
+          <label htmlFor="path-frequency-slider" className="text-muted-foreground">Min. Trips</label>
+          <span className="font-semibold text-primary" aria-live="polite">{minFrequency}</span>
+        </div>
+        <input
+          id="path-frequency-slider"
+          type="range"
+          min={PATH_FREQUENCY_FLOOR}
+          max={PATH_FREQUENCY_FLOOR + 10}
+          value={minFrequency}
+          onChange={(e) => onMinFrequencyChange(parseInt(e.target.value))}
+          className="path-flow-slider w-full"
+          aria-label={`Minimum trips per flow: ${minFrequency}`}
+          aria-valuemin={PATH_FREQUENCY_FLOOR}
+          aria-valuemax={PATH_FREQUENCY_FLOOR + 10}
+          aria-valuenow={minFrequency}
+        />
+      </div>
+
+      {/* Stats */}
+      {stats && (
+        <div className="flex items-center gap-2 text-[9px] text-muted-foreground pt-1 border-t border-border/30">
+          <span>{stats.total_paths} flows</span>
+          <span>•</span>
+          <span>{stats.unique_users} users</span>
+        </div>
+      )}
+    </div>
+);
+
+export const movementPathsLayer = registerMapLayer({
+  id: 'movement-paths',
+  zIndex: 20,
+  layerIds: [glowLayerId, lineLayerId, arrowLayerId, particleLayerId],
+  // Flows hide most of the map, so their legend wins over the heatmap's
+  legendPriority: 20,
+  add: addMovementPathsLayer,
+  Legend: MovementPathsLegend,
+  Controls: MovementPathsControls,
+} satisfies MapLayerPlugin<MovementPathData, MovementPathsControlsProps>);
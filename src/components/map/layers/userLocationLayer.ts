@@ -0,0 +1,119 @@
+import type * as MapboxGL from "mapbox-gl";
+import locationPuckIcon from "@/assets/location-puck.png";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+export interface UserLocationData {
+  lat: number;
+  lng: number;
+}
+
+// Glassmorphic puck for the user's position (the geolocate control's own dot is hidden)
+const createUserMarkerElement = () => {
+  const el = document.createElement('div');
+  el.className = 'user-location-marker';
+  el.style.width = '64px';
+  el.style.height = '64px';
+  el.style.display = 'flex';
+  el.style.alignItems = 'center';
+  el.style.justifyContent = 'center';
+  el.style.position = 'relative';
+  // Note: No CSS transition on transform - Mapbox handles marker positioning
+  // and transitions would cause visual lag during map pan/zoom
+
+  // Glassmorphic puck container - visible frosted glass circle
+  const glassPuck = document.createElement('div');
+  glassPuck.style.position = 'absolute';
+  glassPuck.style.width = '100%';
+  glassPuck.style.height = '100%';
+  glassPuck.style.borderRadius = '50%';
+  glassPuck.style.overflow = 'hidden';
+  glassPuck.style.background = 'linear-gradient(135deg, rgba(255, 255, 255, 0.15) 0%, rgba(255, 255, 255, 0.05) 100%)';
+  glassPuck.style.backdropFilter = 'blur(12px) saturate(180%)';
+  glassPuck.style.setProperty('-webkit-backdrop-filter', 'blur(12px) saturate(180%)');
+  glassPuck.style.border = '1px solid rgba(255, 255, 255, 0.2)';
+  glassPuck.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.2), 0 0 20px rgba(255, 69, 58, 0.3)';
+  glassPuck.style.display = 'flex';
+  glassPuck.style.alignItems = 'center';
+  glassPuck.style.justifyContent = 'center';
+
+  const img = document.createElement('img');
+  img.src = locationPuckIcon;
+  img.width = 32;
+  img.height = 32;
+  img.style.width = '70%';
+  img.style.height = '70%';
+  img.style.objectFit = 'contain';
+  img.style.filter = 'drop-shadow(0 2px 8px rgba(0, 0, 0, 0.5))';
+
+  glassPuck.appendChild(img);
+  el.appendChild(glassPuck);
+  return el;
+};
+
+const addUserLocationLayer = ({ map, mapboxgl, reduceMotion }: MapLayerContext, data: UserLocationData) => {
+  const marker: MapboxGL.Marker = new mapboxgl.Marker({
+    element: createUserMarkerElement(),
+    anchor: 'bottom'
+  })
+    .setLngLat([data.lng, data.lat])
+    .addTo(map);
+
+  let currentPos = { lng: data.lng, lat: data.lat };
+  let animationFrameId: number | null = null;
+
+  // Smooth position interpolation between location fixes
+  const animateTo = (targetLng: number, targetLat: number, duration: number = 400) => {
+    if (animationFrameId) {
+      cancelAnimationFrame(animationFrameId);
+      animationFrameId = null;
+    }
+
+    if (reduceMotion) {
+      currentPos = { lng: targetLng, lat: targetLat };
+      marker.setLngLat([targetLng, targetLat]);
+      return;
+    }
+
+    const startPos = { ...currentPos };
+    const startTime = performance.now();
+
+    const animate = (currentTime: number) => {
+      const elapsed = currentTime - startTime;
+      const progress = Math.min(elapsed / duration, 1);
+
+      // Ease-out cubic for smooth deceleration
+      const easeOut = 1 - Math.pow(1 - progress, 3);
+
+      const lng = startPos.lng + (targetLng - startPos.lng) * easeOut;
+      const lat = startPos.lat + (targetLat - startPos.lat) * easeOut;
+
+      marker.setLngLat([lng, lat]);
+      currentPos = { lng, lat };
+
+      if (progress < 1) {
+        animationFrameId = requestAnimationFrame(animate);
+      } else {
+        animationFrameId = null;
+      }
+    };
+
+    animationFrameId = requestAnimationFrame(animate);
+  };
+
+  return {
+    update: (next: UserLocationData) => animateTo(next.lng, next.lat),
+    remove: () => {
+      if (animationFrameId) cancelAnimationFrame(animationFrameId);
+      marker.remove();
+    },
+  };
+};
+
+export const userLocationLayer = registerMapLayer({
+  id: 'user-location',
+  // DOM marker - always above the canvas, so it has no Mapbox layers to stack against
+  zIndex: 100,
+  layerIds: [],
+  add: addUserLocationLayer,
+} satisfies MapLayerPlugin<UserLocationData>);
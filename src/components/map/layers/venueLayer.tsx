@@ -0,0 +1,450 @@
+/**
+ * Venue map layers
+ * Venues are drawn from one clustered GeoJSON source instead of a DOM marker per venue,
+ * so the map stays smooth with thousands of them. Clusters carry the summed activity of
+ * their venues; the pulse ring is a circle layer whose radius is driven by a shared clock.
+ * A soft heatmap of the same venues sits below the labels to show busy areas when zoomed out.
+ */
+
+import type * as MapboxGL from "mapbox-gl";
+import { triggerHaptic } from "@/lib/haptics";
+import type { Venue } from "@/types/venue";
+import { startLayerAnimation } from "../animation";
+import { registerMapLayer } from "../registry";
+import type { MapLayerContext, MapLayerPlugin } from "../types";
+
+export const VENUE_SOURCE_ID = 'venues';
+export const VENUE_CLUSTER_LAYER_ID = 'venue-clusters';
+export const VENUE_CLUSTER_COUNT_LAYER_ID = 'venue-cluster-count';
+export const VENUE_PULSE_LAYER_ID = 'venue-pulse';
+export const VENUE_POINT_LAYER_ID = 'venue-points';
+const VENUE_HEATMAP_SOURCE_ID = 'venue-heatmap-source';
+const VENUE_HEATMAP_LAYER_ID = 'venue-heatmap-layer';
+
+export interface VenueLayerData {
+  venues: Venue[];
+  onVenueSelect: (venue: Venue) => void;
+}
+
+const getActivityColor = (activity: number) => {
+  // Brighter, more saturated colors for better visibility on dark map
+  if (activity >= 80) return "hsl(0, 100%, 65%)"; // hot red - bright coral
+  if (activity >= 60) return "hsl(45, 100%, 60%)"; // warm yellow-orange 
+  return "hsl(200, 100%, 65%)"; // cool blue - vibrant sky blue
+};
+
+// Popup shown when a venue is tapped on the map
+const buildVenuePopupHTML = (venue: Venue, isMobile: boolean) => {
+  const color = getActivityColor(venue.activity);
+
+  const addressHTML = venue.address 
+    ? `<p style="margin: 4px 0 8px 0; font-size: ${isMobile ? '11px' : '12px'}; color: rgba(255, 255, 255, 0.65); line-height: 1.4;">${venue.address}</p>`
+    : '';
+    
+  const googleRatingHTML = venue.googleRating 
+    ? `<div style="display: flex; align-items: center; gap: 6px; margin-top: 8px;">
+         <span style="color: #FFD700; font-size: ${isMobile ? '14px' : '16px'};">★</span>
+         <span style="font-size: ${isMobile ? '13px' : '14px'}; font-weight: 700; color: white;">${venue.googleRating.toFixed(1)}</span>
+         <span style="font-size: ${isMobile ? '11px' : '12px'}; color: rgba(255, 255, 255, 0.6);">(${venue.googleTotalRatings?.toLocaleString() || 0} reviews)</span>
+       </div>`
+    : '';
+  
+  const isOpenHTML = venue.isOpen !== null && venue.isOpen !== undefined
+    ? `<div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid rgba(255, 255, 255, 0.12);">
+         <span style="display: inline-flex; align-items: center; gap: 6px;">
+           <span style="display: inline-block; width: ${isMobile ? '10px' : '12px'}; height: ${isMobile ? '10px' : '12px'}; border-radius: 50%; background: ${venue.isOpen ? '#22c55e' : '#ef4444'}; box-shadow: 0 0 8px ${venue.isOpen ? '#22c55e' : '#ef4444'};"></span>
+           <span style="font-size: ${isMobile ? '12px' : '14px'}; font-weight: 700; color: ${venue.isOpen ? '#22c55e' : '#ef4444'};">${venue.isOpen ? 'Open Now' : 'Closed'}</span>
+         </span>
+       </div>`
+    : '';
+
+  const trendHTML = venue.activityTrend && venue.activityTrend !== 'steady'
+    ? `<span style="font-size: ${isMobile ? '11px' : '12px'}; font-weight: 600; color: ${venue.activityTrend === 'rising' ? '#f97316' : '#38bdf8'};">${venue.activityTrend === 'rising' ? '▲ Rising' : '▼ Falling'}</span>`
+    : '';
+
+  return `
+    <div style="padding: ${isMobile ? '12px' : '16px'};">
+      <h4 style="margin: 0 0 6px 0; font-size: ${isMobile ? '15px' : '17px'}; font-weight: 700; color: white; line-height: 1.3;">${venue.name}</h4>
+      <p style="margin: 0 0 8px 0; font-size: ${isMobile ? '12px' : '13px'}; color: rgba(255, 255, 255, 0.75); font-weight: 500;">${venue.category}</p>
+      ${addressHTML}
+      <div style="display: flex; align-items: center; gap: 6px; margin-top: 8px; padding-top: 8px; border-top: 1px solid rgba(255, 255, 255, 0.1);">
+        <div style="width: ${isMobile ? '10px' : '12px'}; height: ${isMobile ? '10px' : '12px'}; border-radius: 50%; background: ${color}; box-shadow: 0 0 8px ${color};"></div>
+        <span style="font-size: ${isMobile ? '12px' : '14px'}; font-weight: 700; color: white;">${venue.activity}% Active</span>
+        ${trendHTML}
+      </div>
+      ${googleRatingHTML}
+      ${isOpenHTML}
+    </div>
+  `;
+};
+
+// Pulse periods per activity band, matching the old marker ring animation
+const PULSE_PERIOD_MS = { hot: 1500, warm: 2500, cool: 4000 };
+
+// Activity of a feature: its own score, or the average of a cluster's venues
+const activityLevel: MapboxGL.Expression = [
+  'case',
+  ['has', 'point_count'],
+  ['/', ['get', 'activity_sum'], ['get', 'point_count']],
+  ['get', 'activity'],
+];
+
+// Same bands as getActivityColor
+const activityColor: MapboxGL.Expression = [
+  'step',
+  activityLevel,
+  'hsl(200, 100%, 65%)',
+  60, 'hsl(45, 100%, 60%)',
+  80, 'hsl(0, 100%, 65%)',
+];
+
+const clusterRadius: MapboxGL.Expression = ['step', ['get', 'point_count'], 16, 10, 20, 50, 26, 200, 32];
+
+// Busier venues get slightly larger dots. Not zoom-dependent: the pulse radius builds on it,
+// and zoom may only drive a top-level interpolation.
+const pointRadius: MapboxGL.Expression = ['step', ['get', 'activity'], 8, 60, 9, 80, 10];
+
+const baseRadius: MapboxGL.Expression = ['case', ['has', 'point_count'], clusterRadius, pointRadius];
+
+function toVenueFeatureCollection(venues: Venue[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: venues.map((venue) => ({
+      type: 'Feature',
+      properties: {
+        venue_id: venue.id,
+        name: venue.name,
+        activity: venue.activity,
+        // Scores backed by little data pulse more faintly so they don't read as confirmed crowds
+        confidence: venue.activityConfidence ?? 1,
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: [venue.lng, venue.lat],
+      },
+    })),
+  };
+}
+
+// Clustered source and its layers
+function addVenueLayers(mapInstance: MapboxGL.Map, data: GeoJSON.FeatureCollection, isDarkTheme: boolean, beforeId?: string) {
+  mapInstance.addSource(VENUE_SOURCE_ID, {
+    type: 'geojson',
+    data,
+    cluster: true,
+    clusterRadius: 50,
+    clusterMaxZoom: 14,
+    clusterProperties: {
+      activity_sum: ['+', ['get', 'activity']],
+    },
+  });
+
+  mapInstance.addLayer({
+    id: VENUE_PULSE_LAYER_ID,
+    type: 'circle',
+    source: VENUE_SOURCE_ID,
+    paint: {
+      'circle-radius': getPulseRadius(0, 0, 0),
+      'circle-color': 'rgba(0, 0, 0, 0)',
+      'circle-stroke-width': 2,
+      'circle-stroke-color': activityColor,
+      'circle-stroke-opacity': getPulseOpacity(0, 0, 0),
+    },
+  }, beforeId);
+
+  mapInstance.addLayer({
+    id: VENUE_CLUSTER_LAYER_ID,
+    type: 'circle',
+    source: VENUE_SOURCE_ID,
+    filter: ['has', 'point_count'],
+    paint: {
+      'circle-radius': clusterRadius,
+      'circle-color': isDarkTheme ? '#2f2f38' : '#ffffff',
+      'circle-stroke-width': 3,
+      'circle-stroke-color': activityColor,
+    },
+  }, beforeId);
+
+  mapInstance.addLayer({
+    id: VENUE_CLUSTER_COUNT_LAYER_ID,
+    type: 'symbol',
+    source: VENUE_SOURCE_ID,
+    filter: ['has', 'point_count'],
+    layout: {
+      'text-field': [
+        'format',
+        ['get', 'point_count_abbreviated'], { 'font-scale': 1 },
+        '\n', {},
+        ['concat', ['to-string', ['round', activityLevel]], '%'], { 'font-scale': 0.75 },
+      ],
+      'text-font': ['DIN Pro Bold', 'Arial Unicode MS Bold'],
+      'text-size': 12,
+      'text-line-height': 1.1,
+      'text-allow-overlap': true,
+    },
+    paint: {
+      'text-color': isDarkTheme ? '#ffffff' : '#1f1f28',
+    },
+  }, beforeId);
+
+  mapInstance.addLayer({
+    id: VENUE_POINT_LAYER_ID,
+    type: 'circle',
+    source: VENUE_SOURCE_ID,
+    filter: ['!', ['has', 'point_count']],
+    paint: {
+      'circle-radius': pointRadius,
+      'circle-color': activityColor,
+      'circle-stroke-width': 2,
+      'circle-stroke-color': isDarkTheme ? '#25252d' : '#ffffff',
+    },
+  }, beforeId);
+}
+
+function removeVenueLayers(mapInstance: MapboxGL.Map) {
+  [VENUE_POINT_LAYER_ID, VENUE_CLUSTER_COUNT_LAYER_ID, VENUE_CLUSTER_LAYER_ID, VENUE_PULSE_LAYER_ID].forEach((id) => {
+    if (mapInstance.getLayer(id)) mapInstance.removeLayer(id);
+  });
+  if (mapInstance.getSource(VENUE_SOURCE_ID)) mapInstance.removeSource(VENUE_SOURCE_ID);
+}
+
+// 0-1 for each band at a point in time; the ring grows and fades once per period
+function getPulsePhases(now: number) {
+  return {
+    hot: (now % PULSE_PERIOD_MS.hot) / PULSE_PERIOD_MS.hot,
+    warm: (now % PULSE_PERIOD_MS.warm) / PULSE_PERIOD_MS.warm,
+    cool: (now % PULSE_PERIOD_MS.cool) / PULSE_PERIOD_MS.cool,
+  };
+}
+
+function getPulseRadius(hot: number, warm: number, cool: number): MapboxGL.Expression {
+  return ['+', baseRadius, 4, ['*', 10, ['step', activityLevel, cool, 60, warm, 80, hot]]];
+}
+
+function getPulseOpacity(hot: number, warm: number, cool: number): MapboxGL.Expression {
+  const strength: MapboxGL.Expression = ['step', activityLevel, 0.3, 60, 0.5, 80, 0.8];
+  const confidence: MapboxGL.Expression = ['case', ['has', 'point_count'], 1, ['+', 0.4, ['*', 0.6, ['get', 'confidence']]]];
+  return ['*', strength, confidence, ['-', 1, ['step', activityLevel, cool, 60, warm, 80, hot]]];
+}
+
+// Advances the pulse ring to the given time
+function updateVenuePulse(mapInstance: MapboxGL.Map, now: number) {
+  if (!mapInstance.getLayer(VENUE_PULSE_LAYER_ID)) return;
+  const { hot, warm, cool } = getPulsePhases(now);
+  mapInstance.setPaintProperty(VENUE_PULSE_LAYER_ID, 'circle-radius', getPulseRadius(hot, warm, cool));
+  mapInstance.setPaintProperty(VENUE_PULSE_LAYER_ID, 'circle-stroke-opacity', getPulseOpacity(hot, warm, cool));
+}
+
+// Static ring for reduced motion / low power mode
+function resetVenuePulse(mapInstance: MapboxGL.Map) {
+  if (!mapInstance.getLayer(VENUE_PULSE_LAYER_ID)) return;
+  mapInstance.setPaintProperty(VENUE_PULSE_LAYER_ID, 'circle-radius', getPulseRadius(0, 0, 0));
+  mapInstance.setPaintProperty(VENUE_PULSE_LAYER_ID, 'circle-stroke-opacity', getPulseOpacity(0, 0, 0));
+}
+
+function toVenueHeatmapCollection(venues: Venue[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: venues.map(venue => ({
+      type: 'Feature',
+      properties: {
+        activity: venue.activity,
+        name: venue.name
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: [venue.lng, venue.lat]
+      }
+    }))
+  };
+}
+
+// Heatmap blend layer that fades out as individual venues take over at higher zoom
+function addVenueHeatmapLayer(map: MapboxGL.Map, venues: Venue[], beforeId?: string) {
+  map.addSource(VENUE_HEATMAP_SOURCE_ID, {
+    type: 'geojson',
+    data: toVenueHeatmapCollection(venues)
+  });
+
+  // Insert below labels
+  map.addLayer({
+    id: VENUE_HEATMAP_LAYER_ID,
+    type: 'heatmap',
+    source: VENUE_HEATMAP_SOURCE_ID,
+    maxzoom: 15,
+    paint: {
+      // Weight based on activity level
+      'heatmap-weight': [
+        'interpolate',
+        ['linear'],
+        ['get', 'activity'],
+        0, 0.1,
+        50, 0.5,
+        80, 0.8,
+        100, 1
+      ],
+      // Intensity increases with zoom
+      'heatmap-intensity': [
+        'interpolate',
+        ['linear'],
+        ['zoom'],
+        8, 0.6,
+        12, 1,
+        15, 1.5
+      ],
+      // Color gradient - matches app theme (orange/red primary)
+      'heatmap-color': [
+        'interpolate',
+        ['linear'],
+        ['heatmap-density'],
+        0, 'rgba(0, 0, 0, 0)',
+        0.1, 'rgba(255, 140, 0, 0.15)',
+        0.3, 'rgba(255, 100, 50, 0.3)',
+        0.5, 'rgba(255, 69, 58, 0.45)',
+        0.7, 'rgba(255, 45, 85, 0.6)',
+        0.9, 'rgba(200, 50, 120, 0.75)',
+        1, 'rgba(150, 50, 150, 0.9)'
+      ],
+      // Radius increases at lower zoom, decreases when zoomed in
+      'heatmap-radius': [
+        'interpolate',
+        ['linear'],
+        ['zoom'],
+        8, 30,
+        12, 20,
+        15, 10
+      ],
+      // Fade out opacity as zoom increases (individual markers take over)
+      'heatmap-opacity': [
+        'interpolate',
+        ['linear'],
+        ['zoom'],
+        10, 0.8,
+        13, 0.4,
+        15, 0
+      ]
+    }
+  }, map.getLayer('waterway-label') ? 'waterway-label' : beforeId);
+}
+
+const addVenueLayer = ({ map, mapboxgl, isMobile, reduceMotion, beforeId }: MapLayerContext, data: VenueLayerData) => {
+  let current = data;
+  let venuesById = new Map(current.venues.map((venue) => [venue.id, venue]));
+  let popup: MapboxGL.Popup | null = null;
+
+  addVenueHeatmapLayer(map, current.venues, beforeId);
+  addVenueLayers(map, toVenueFeatureCollection(current.venues), document.documentElement.classList.contains('dark'), beforeId);
+
+  // Tapping a cluster zooms in until it splits apart
+  const handleClusterClick = (e: MapboxGL.MapLayerMouseEvent) => {
+    const feature = e.features?.[0];
+    const clusterId = feature?.properties?.cluster_id;
+    if (!feature || clusterId === undefined) return;
+
+    triggerHaptic('light');
+    const source = map.getSource(VENUE_SOURCE_ID) as MapboxGL.GeoJSONSource;
+    source.getClusterExpansionZoom(clusterId, (error, zoom) => {
+      if (error || zoom === null || zoom === undefined) return;
+      map.easeTo({
+        center: (feature.geometry as GeoJSON.Point).coordinates as [number, number],
+        zoom,
+        duration: reduceMotion ? 0 : (isMobile ? 1000 : 1500),
+      });
+    });
+  };
+
+  const handleVenueClick = (e: MapboxGL.MapLayerMouseEvent) => {
+    const venue = venuesById.get(e.features?.[0]?.properties?.venue_id);
+    if (!venue) return;
+
+    // Haptic feedback for venue selection
+    triggerHaptic('medium');
+
+    // Open venue card
+    current.onVenueSelect(venue);
+
+    popup?.remove();
+    popup = new mapboxgl.Popup({
+      offset: isMobile ? 14 : 18,
+      closeButton: true,
+      closeOnClick: true,
+      maxWidth: isMobile ? '280px' : '320px',
+      className: 'venue-popup'
+    })
+      .setLngLat([venue.lng, venue.lat])
+      .setHTML(buildVenuePopupHTML(venue, isMobile))
+      .addTo(map);
+  };
+
+  const setPointer = () => { map.getCanvas().style.cursor = 'pointer'; };
+  const clearPointer = () => { map.getCanvas().style.cursor = ''; };
+
+  map.on('click', VENUE_CLUSTER_LAYER_ID, handleClusterClick);
+  map.on('click', VENUE_POINT_LAYER_ID, handleVenueClick);
+  [VENUE_CLUSTER_LAYER_ID, VENUE_POINT_LAYER_ID].forEach((layerId) => {
+    map.on('mouseenter', layerId, setPointer);
+    map.on('mouseleave', layerId, clearPointer);
+  });
+
+  // Pulse ring animation - runs in-layer; ~30fps is plenty for a soft pulse
+  const stopPulse = reduceMotion
+    ? () => {}
+    : startLayerAnimation((now) => updateVenuePulse(map, now), 33);
+  if (reduceMotion) resetVenuePulse(map);
+
+  return {
+    update: (next: VenueLayerData) => {
+      const venuesChanged = next.venues !== current.venues;
+      current = next;
+      if (!venuesChanged) return;
+
+      venuesById = new Map(next.venues.map((venue) => [venue.id, venue]));
+      (map.getSource(VENUE_SOURCE_ID) as MapboxGL.GeoJSONSource | undefined)?.setData(toVenueFeatureCollection(next.venues));
+      (map.getSource(VENUE_HEATMAP_SOURCE_ID) as MapboxGL.GeoJSONSource | undefined)?.setData(toVenueHeatmapCollection(next.venues));
+    },
+    remove: () => {
+      stopPulse();
+      popup?.remove();
+      map.off('click', VENUE_CLUSTER_LAYER_ID, handleClusterClick);
+      map.off('click', VENUE_POINT_LAYER_ID, handleVenueClick);
+      [VENUE_CLUSTER_LAYER_ID, VENUE_POINT_LAYER_ID].forEach((layerId) => {
+        map.off('mouseenter', layerId, setPointer);
+        map.off('mouseleave', layerId, clearPointer);
+      });
+      removeVenueLayers(map);
+      if (map.getLayer(VENUE_HEATMAP_LAYER_ID)) map.removeLayer(VENUE_HEATMAP_LAYER_ID);
+      if (map.getSource(VENUE_HEATMAP_SOURCE_ID)) map.removeSource(VENUE_HEATMAP_SOURCE_ID);
+    },
+  };
+};
+
+const VenueLegend = () => (
+  <div className="flex flex-col gap-1 sm:gap-0">
+    <p className="text-[9px] sm:text-xs md:text-sm font-semibold text-muted-foreground mb-1 sm:mb-1.5 md:mb-2">Activity</p>
+    <div className="flex flex-col gap-1 sm:flex-row sm:gap-2 md:gap-3">
+      <div className="flex items-center gap-1.5">
+        <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(0, 85%, 55%)' }} />
+        <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Hot</span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(45, 100%, 55%)' }} />
+        <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Warm</span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 md:w-3 md:h-3 rounded-full shadow-sm" style={{ backgroundColor: 'hsl(210, 100%, 55%)' }} />
+        <span className="text-[9px] sm:text-[10px] md:text-xs text-foreground">Cool</span>
+      </div>
+    </div>
+  </div>
+);
+
+export const venueLayer = registerMapLayer({
+  id: 'venues',
+  zIndex: 30,
+  // The blend heatmap is left out - it always sits below the basemap labels
+  layerIds: [VENUE_PULSE_LAYER_ID, VENUE_CLUSTER_LAYER_ID, VENUE_CLUSTER_COUNT_LAYER_ID, VENUE_POINT_LAYER_ID],
+  // Shown when no overlay with its own legend is on
+  legendPriority: 0,
+  add: addVenueLayer,
+  Legend: VenueLegend,
+} satisfies MapLayerPlugin<VenueLayerData>);
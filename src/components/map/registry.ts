@@ -0,0 +1,52 @@
+import type * as MapboxGL from "mapbox-gl";
+import type { MapLayerPlugin } from "./types";
+
+/**
+ * Registry of map layer plugins. Layers register themselves when their module loads
+ * (see ./layers), which lets the registry resolve stacking and legends without
+ * MapboxHeatmap knowing about each overlay.
+ */
+
+// What the registry needs to know about a plugin, whatever its data and controls props
+type AnyMapLayerPlugin = Pick<MapLayerPlugin<unknown>, 'id' | 'zIndex' | 'layerIds' | 'legendPriority' | 'Legend'>;
+
+const plugins = new Map<string, AnyMapLayerPlugin>();
+
+export function registerMapLayer<TPlugin extends AnyMapLayerPlugin>(plugin: TPlugin): TPlugin {
+  if (plugins.has(plugin.id)) {
+    console.warn(`[MapLayers] Replacing layer plugin "${plugin.id}"`);
+  }
+  plugins.set(plugin.id, plugin);
+  return plugin;
+}
+
+export function getMapLayer(id: string): AnyMapLayerPlugin | undefined {
+  return plugins.get(id);
+}
+
+// Bottom to top
+export function getMapLayers(): AnyMapLayerPlugin[] {
+  return Array.from(plugins.values()).sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/**
+ * First layer already on the map that belongs to a plugin stacked above this one
+ */
+export function getBeforeLayerId(map: MapboxGL.Map, plugin: AnyMapLayerPlugin): string | undefined {
+  for (const other of getMapLayers()) {
+    if (other.zIndex <= plugin.zIndex) continue;
+    const layerId = other.layerIds.find((id) => map.getLayer(id));
+    if (layerId) return layerId;
+  }
+  return undefined;
+}
+
+/**
+ * Legend of the highest priority enabled layer
+ */
+export function getActiveLegendLayer(enabledIds: string[]): AnyMapLayerPlugin | undefined {
+  return enabledIds
+    .map((id) => plugins.get(id))
+    .filter((plugin): plugin is AnyMapLayerPlugin => Boolean(plugin?.Legend))
+    .sort((a, b) => (b.legendPriority ?? 0) - (a.legendPriority ?? 0))[0];
+}
@@ -0,0 +1,44 @@
+import type { ComponentType } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import type { MapboxGLModule } from "@/lib/mapbox-loader";
+
+/**
+ * Shared map state handed to every layer plugin
+ */
+export interface MapLayerContext {
+  map: MapboxGL.Map;
+  mapboxgl: MapboxGLModule;
+  isMobile: boolean;
+  // Reduced motion / low power mode - plugins skip their animations
+  reduceMotion: boolean;
+  // Existing layer to insert below, so plugins stack in zIndex order whatever order they mount in
+  beforeId?: string;
+}
+
+/**
+ * Live handle for a layer on the map, returned by MapLayerPlugin.add
+ */
+export interface MapLayerInstance<TData> {
+  // New data for a layer that is already on the map. Omit to re-add the layer instead.
+  update?: (data: TData) => void;
+  // Removes sources, layers, listeners and animations. Must tolerate a style switch having
+  // already dropped the sources and layers.
+  remove: () => void;
+}
+
+/**
+ * A map overlay. Plugins own their sources, layers and interactions; MapboxHeatmap only
+ * decides whether they are enabled and what data they get (see useMapLayer).
+ */
+export interface MapLayerPlugin<TData, TControlsProps = Record<string, never>> {
+  id: string;
+  // Stacking order between plugins - higher draws on top
+  zIndex: number;
+  // Mapbox layers the plugin adds, bottom-most first; used to stack other plugins below it
+  layerIds: string[];
+  // When several enabled layers have a legend, the highest priority one is shown
+  legendPriority?: number;
+  add: (ctx: MapLayerContext, data: TData) => MapLayerInstance<TData>;
+  Legend?: ComponentType;
+  Controls?: ComponentType<TControlsProps>;
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import type * as MapboxGL from "mapbox-gl";
+import type { MapboxGLModule } from "@/lib/mapbox-loader";
+import { getBeforeLayerId } from "./registry";
+import type { MapLayerInstance, MapLayerPlugin } from "./types";
+
+export interface MapLayerHost {
+  map: MapboxGL.Map | null;
+  mapboxgl: MapboxGLModule | null;
+  mapLoaded: boolean;
+  isMobile: boolean;
+  reduceMotion: boolean;
+}
+
+/**
+ * Keeps a layer plugin on the map while it is enabled and has data.
+ * Adds it once, pushes data changes through update (or re-adds when the plugin has none),
+ * re-adds it after style switches and removes it when disabled or unmounted.
+ */
+export const useMapLayer = <TData, TControlsProps>(
+  host: MapLayerHost,
+  plugin: MapLayerPlugin<TData, TControlsProps>,
+  data: TData | null | undefined,
+  enabled: boolean = true
+) => {
+  const instanceRef = useRef<MapLayerInstance<TData> | null>(null);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  // Data the layer currently shows, so a fresh mount isn't immediately updated again
+  const shownDataRef = useRef<TData | null>(null);
+
+  const { map, mapboxgl, mapLoaded, isMobile, reduceMotion } = host;
+  const hasData = data !== null && data !== undefined;
+  const active = enabled && hasData && mapLoaded && map !== null && mapboxgl !== null;
+
+  useEffect(() => {
+    if (!active || !map || !mapboxgl) return;
+
+    const mount = () => {
+      instanceRef.current?.remove();
+      instanceRef.current = null;
+      try {
+        shownDataRef.current = dataRef.current as TData;
+        instanceRef.current = plugin.add(
+          { map, mapboxgl, isMobile, reduceMotion, beforeId: getBeforeLayerId(map, plugin) },
+          shownDataRef.current
+        );
+      } catch (error) {
+        console.error(`[MapLayers] Error adding layer "${plugin.id}":`, error);
+      }
+    };
+
+    mount();
+
+    // A style switch drops every source and layer
+    map.on('style.load', mount);
+
+    return () => {
+      map.off('style.load', mount);
+      try {
+        instanceRef.current?.remove();
+      } catch (error) {
+        console.error(`[MapLayers] Error removing layer "${plugin.id}":`, error);
+      }
+      instanceRef.current = null;
+    };
+  }, [active, map, mapboxgl, plugin, isMobile, reduceMotion]);
+
+  useEffect(() => {
+    const instance = instanceRef.current;
+    if (!instance || !map || !mapboxgl || data === null || data === undefined) return;
+    if (data === shownDataRef.current) return;
+    shownDataRef.current = data;
+
+    if (instance.update) {
+      instance.update(data);
+      return;
+    }
+
+    instance.remove();
+    instanceRef.current = plugin.add(
+      { map, mapboxgl, isMobile, reduceMotion, beforeId: getBeforeLayerId(map, plugin) },
+      data
+    );
+    // The mount effect runs first when the map or plugin changes and records the data it showed,
+    // so those changes stop at the check above
+  }, [data, map, mapboxgl, plugin, isMobile, reduceMotion]);
+};
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { DealForm, type OwnedVenue } from "@/components/admin/DealForm";
+import { describeDealSchedule, parseDealSchedule } from "@/lib/deal-schedule";
+import type { Database } from "@/integrations/supabase/types";
+
+type Deal = Database['public']['Tables']['deals']['Row'];
+
+interface MerchantDealsProps {
+  venues: OwnedVenue[];
+}
+
+export const MerchantDeals = ({ venues }: MerchantDealsProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
+  const queryClient = useQueryClient();
+  const venueIds = venues.map((venue) => venue.id);
+
+  const { data: deals, isLoading } = useQuery({
+    queryKey: ['merchant-deals', venueIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deals')
+        .select('*')
+        .in('canonical_venue_id', venueIds)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: venueIds.length > 0,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (dealId: string) => {
+      // Soft delete, so the deal's views and redemptions stay in the performance numbers
+      const { error } = await supabase
+        .from('deals')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', dealId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['merchant-deals'] });
+      toast.success('Deal deleted successfully');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete deal');
+      console.error('Delete error:', error);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isCreating || editingDeal) {
+    return (
+      <DealForm
+        deal={editingDeal}
+        venues={venues}
+        onClose={() => {
+          setIsCreating(false);
+          setEditingDeal(null);
+        }}
+        onSuccess={() => {
+          queryClient.invalidateQueries({ queryKey: ['merchant-deals'] });
+          setIsCreating(false);
+          setEditingDeal(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Deals</h2>
+          <p className="text-muted-foreground">Create and schedule deals for your venues</p>
+        </div>
+        <Button onClick={() => setIsCreating(true)} disabled={venues.length === 0}>
+          <Plus className="w-4 h-4 mr-2" />
+          Create Deal
+        </Button>
+      </div>
+
+      <div className="grid gap-4">
+        {deals?.map((deal) => {
+          const schedule = parseDealSchedule(deal.schedule);
+          return (
+            <Card key={deal.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>{deal.title}</CardTitle>
+                    <CardDescription>{deal.venue_name}</CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingDeal(deal)}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(deal.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">{deal.description}</p>
+                <div className="mt-2 text-sm">
+                  <span className="font-medium">Runs:</span>{' '}
+                  {schedule ? describeDealSchedule(schedule).join('; ') : 'All day'}
+                  {' · until '}{new Date(deal.expires_at).toLocaleDateString()}
+                </div>
+                <div className="mt-1 text-sm">
+                  <span className="font-medium">Status:</span>{' '}
+                  <span className={deal.active ? 'text-green-600' : 'text-red-600'}>
+                    {deal.moderation_status === 'rejected' ? 'Rejected' : deal.active ? 'Active' : 'Inactive'}
+                  </span>
+                </div>
+                {deal.moderation_status === 'rejected' && deal.moderation_note && (
+                  <div className="mt-1 text-sm text-muted-foreground">
+                    <span className="font-medium">Reason:</span> {deal.moderation_note}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {(venues.length === 0 || deals?.length === 0) && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              {venues.length === 0
+                ? 'No venues are linked to your account yet. Contact support to claim your venue.'
+                : 'No deals yet. Create your first deal!'}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
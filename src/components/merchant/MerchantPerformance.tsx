@@ -0,0 +1,163 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, subDays } from "date-fns";
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Eye, Heart, Share2, TicketCheck, Loader2 } from "lucide-react";
+import { DEVICE_TIMEZONE } from "@/lib/deal-schedule";
+
+const RANGE_DAYS = 30;
+
+const METRICS = [
+  { key: 'views', label: 'Views', icon: Eye, color: 'hsl(var(--primary))' },
+  { key: 'favorites', label: 'Favorites', icon: Heart, color: 'hsl(var(--destructive))' },
+  { key: 'shares', label: 'Shares', icon: Share2, color: 'hsl(var(--secondary))' },
+  { key: 'redemptions', label: 'Redemptions', icon: TicketCheck, color: 'hsl(var(--accent))' },
+] as const;
+
+type MetricKey = typeof METRICS[number]['key'];
+type MetricTotals = Record<MetricKey, number>;
+type DayTotals = MetricTotals & { date: string };
+type DealTotals = MetricTotals & { dealId: string; claims: number };
+
+/**
+ * Daily views, favorites, shares and redemptions for the merchant's deals. Only aggregates
+ * come back from the database, so no individual customer is visible here.
+ */
+export const MerchantPerformance = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['merchant-deal-stats'],
+    queryFn: async () => {
+      const { data: rows, error } = await supabase.rpc('get_merchant_deal_stats', {
+        _since: subDays(new Date(), RANGE_DAYS - 1).toISOString(),
+        _timezone: DEVICE_TIMEZONE,
+      });
+      if (error) throw error;
+
+      const dealIds = [...new Set((rows ?? []).map((row) => row.deal_id))];
+      const { data: deals, error: dealsError } = dealIds.length > 0
+        ? await supabase.from('deals').select('id, title').in('id', dealIds)
+        : { data: [], error: null };
+      if (dealsError) throw dealsError;
+
+      return {
+        stats: rows ?? [],
+        titles: new Map((deals ?? []).map((deal) => [deal.id, deal.title])),
+      };
+    },
+  });
+  const stats = data?.stats;
+
+  const { daily, totals, byDeal } = useMemo(() => {
+    const emptyTotals = (): MetricTotals => ({ views: 0, favorites: 0, shares: 0, redemptions: 0 });
+
+    // Every day in the range gets a point so quiet days show up as zeros
+    const days = new Map<string, DayTotals>();
+    for (let i = RANGE_DAYS - 1; i >= 0; i--) {
+      const day = format(subDays(new Date(), i), 'yyyy-MM-dd');
+      days.set(day, { ...emptyTotals(), date: format(parseISO(day), 'MM/dd') });
+    }
+
+    const overall = emptyTotals();
+    const perDeal = new Map<string, DealTotals>();
+
+    for (const row of stats ?? []) {
+      const deal = perDeal.get(row.deal_id) ?? { ...emptyTotals(), dealId: row.deal_id, claims: 0 };
+      deal.claims += Number(row.claims);
+      for (const { key } of METRICS) {
+        const value = Number(row[key]);
+        overall[key] += value;
+        deal[key] += value;
+        const day = days.get(row.day);
+        if (day) day[key] += value;
+      }
+      perDeal.set(row.deal_id, deal);
+    }
+
+    return {
+      daily: [...days.values()],
+      totals: overall,
+      byDeal: [...perDeal.values()].sort((a, b) => b.views - a.views),
+    };
+  }, [stats]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {METRICS.map(({ key, label, icon: Icon }) => (
+          <Card key={key}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{label}</CardTitle>
+              <Icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{totals[key]}</div>
+              <p className="text-xs text-muted-foreground">Last {RANGE_DAYS} days</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Over time</CardTitle>
+          <CardDescription>Daily activity across all of your deals</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={daily}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+              <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px'
+                }}
+              />
+              <Legend />
+              {METRICS.map(({ key, label, color }) => (
+                <Line key={key} type="monotone" dataKey={key} name={label} stroke={color} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By deal</CardTitle>
+          <CardDescription>Claims are codes customers opened; redemptions were confirmed by staff</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {byDeal.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No activity in the last {RANGE_DAYS} days</p>
+          ) : (
+            <div className="space-y-3">
+              {byDeal.map((deal) => (
+                <div key={deal.dealId} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="font-medium truncate">{data?.titles.get(deal.dealId) ?? 'Deleted deal'}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {deal.views} views · {deal.favorites} favorites · {deal.shares} shares · {deal.claims} claims · {deal.redemptions} redeemed
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
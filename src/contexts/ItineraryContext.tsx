@@ -0,0 +1,389 @@
+import { useEffect, useState, useCallback, ReactNode } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { MAX_ITINERARY_STOPS, type ItineraryPlan, type ItineraryStop } from "@/lib/itinerary";
+import { TRAVEL_MODES, type LatLng, type TravelMode } from "@/lib/routing";
+import {
+  emptyDraft,
+  ItineraryContext,
+  type ItineraryDraft,
+  type ItineraryMember,
+} from "@/hooks/useItinerary";
+
+const DRAFT_STORAGE_KEY = "jet-itinerary-draft";
+
+const readStoredDraft = (): ItineraryDraft => {
+  try {
+    const stored = localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (stored) return { ...emptyDraft(), ...JSON.parse(stored) };
+  } catch {
+    // Ignore storage errors
+  }
+  return emptyDraft();
+};
+
+interface ItineraryProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * The itinerary being planned or viewed, shared by the venue and deal cards that add stops,
+ * the map route and the planner sheet. Unsaved drafts survive reloads in localStorage.
+ */
+export const ItineraryProvider = ({ children }: ItineraryProviderProps) => {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<ItineraryDraft>(readStoredDraft);
+  const [members, setMembers] = useState<ItineraryMember[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [plannerOpen, setPlannerOpen] = useState(false);
+
+  const isOwner = draft.ownerId === null || draft.ownerId === user?.id;
+  const isMember = !!user && members.some((member) => member.userId === user.id);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+    } catch {
+      // localStorage may not be available
+    }
+  }, [draft]);
+
+  // Changes to someone else's itinerary are refused rather than silently forked
+  const editDraft = useCallback((edit: (current: ItineraryDraft) => ItineraryDraft) => {
+    if (!isOwner) {
+      toast.error("Only the organizer can change this plan", {
+        description: "Start a new plan to make your own",
+      });
+      return;
+    }
+    setDraft(edit);
+  }, [isOwner]);
+
+  const hasStop = useCallback((key: string) => draft.stops.some((stop) => stop.key === key), [draft.stops]);
+
+  const addStop = useCallback((stop: ItineraryStop) => {
+    if (draft.stops.some((existing) => existing.key === stop.key)) {
+      toast.info(`${stop.name} is already in your plan`);
+      return;
+    }
+    if (draft.stops.length >= MAX_ITINERARY_STOPS) {
+      toast.error(`Plans can have up to ${MAX_ITINERARY_STOPS} stops`);
+      return;
+    }
+    editDraft((current) => ({ ...current, stops: [...current.stops, stop] }));
+    if (isOwner) {
+      toast.success(`Added ${stop.name} to your plan`, {
+        action: { label: "View", onClick: () => setPlannerOpen(true) },
+      });
+    }
+  }, [draft.stops, editDraft, isOwner]);
+
+  const removeStop = useCallback((key: string) => {
+    editDraft((current) => ({ ...current, stops: current.stops.filter((stop) => stop.key !== key) }));
+  }, [editDraft]);
+
+  const setStayMinutes = useCallback((key: string, minutes: number) => {
+    editDraft((current) => ({
+      ...current,
+      stops: current.stops.map((stop) => (stop.key === key ? { ...stop, stayMinutes: minutes } : stop)),
+    }));
+  }, [editDraft]);
+
+  const setTitle = useCallback((title: string) => {
+    editDraft((current) => ({ ...current, title }));
+  }, [editDraft]);
+
+  const setStartAt = useCallback((startAt: string) => {
+    editDraft((current) => ({ ...current, startAt }));
+  }, [editDraft]);
+
+  const setTravelMode = useCallback((travelMode: TravelMode) => {
+    editDraft((current) => ({ ...current, travelMode }));
+  }, [editDraft]);
+
+  const startNew = useCallback(() => {
+    setDraft(emptyDraft());
+    setMembers([]);
+  }, []);
+
+  const loadMembers = useCallback(async (itineraryId: string) => {
+    const { data, error } = await supabase
+      .from("itinerary_members")
+      .select("user_id")
+      .eq("itinerary_id", itineraryId);
+    if (error) {
+      console.error("Error loading itinerary members:", error);
+      return;
+    }
+
+    const userIds = (data || []).map((member) => member.user_id);
+    if (userIds.length === 0) {
+      setMembers([]);
+      return;
+    }
+
+    // profiles_secure applies each member's privacy settings
+    const { data: profiles } = await supabase
+      .from("profiles_secure")
+      .select("id, display_name, avatar_url")
+      .in("id", userIds);
+
+    setMembers(userIds.map((userId) => {
+      const profile = profiles?.find((p) => p.id === userId);
+      return {
+        userId,
+        displayName: profile?.display_name ?? null,
+        avatarUrl: profile?.avatar_url ?? null,
+      };
+    }));
+  }, []);
+
+  const load = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("itineraries")
+        .select(`
+          *,
+          itinerary_stops (
+            *,
+            deals (
+              starts_at,
+              expires_at,
+              active_days,
+              schedule
+            )
+          )
+        `)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        toast.error("Plan not found", {
+          description: "Only the organizer's connections can open a shared plan",
+        });
+        return false;
+      }
+
+      const stops: ItineraryStop[] = [...data.itinerary_stops]
+        .sort((a, b) => a.position - b.position)
+        .map((stop) => ({
+          key: `${stop.kind}:${(stop.kind === "deal" ? stop.deal_id : stop.venue_id) ?? stop.id}`,
+          kind: stop.kind === "deal" ? "deal" : "venue",
+          venueId: stop.venue_id,
+          dealId: stop.deal_id,
+          name: stop.name,
+          lat: stop.lat,
+          lng: stop.lng,
+          stayMinutes: stop.stay_minutes,
+          openingHours: stop.opening_hours ?? undefined,
+          deal: stop.deals ?? undefined,
+        }));
+
+      setDraft({
+        id: data.id,
+        ownerId: data.owner_id,
+        title: data.title,
+        startAt: data.start_at,
+        travelMode: TRAVEL_MODES.includes(data.travel_mode as TravelMode) ? (data.travel_mode as TravelMode) : "walking",
+        stops,
+        shared: data.shared,
+      });
+      await loadMembers(data.id);
+      return true;
+    } catch (error) {
+      console.error("Error loading itinerary:", error);
+      toast.error("Failed to load plan");
+      return false;
+    }
+  }, [loadMembers]);
+
+  // Joined members follow the organizer's edits; every save touches the itinerary row once
+  useEffect(() => {
+    if (!draft.id || isOwner) return;
+    const itineraryId = draft.id;
+
+    const channel = supabase
+      .channel(`itinerary-${itineraryId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "itineraries",
+          filter: `id=eq.${itineraryId}`,
+        },
+        () => {
+          load(itineraryId);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [draft.id, isOwner, load]);
+
+  const save = useCallback(async (plan: ItineraryPlan | null, options?: { share?: boolean }) => {
+    if (!user) {
+      toast.error("Sign in to save plans");
+      return null;
+    }
+    if (!isOwner) return draft.id;
+    if (draft.stops.length === 0) {
+      toast.error("Add a venue or deal first");
+      return null;
+    }
+
+    const shared = draft.shared || !!options?.share;
+
+    try {
+      setSaving(true);
+
+      // Stops are stored in the suggested order when there is one
+      const ordered: { stop: ItineraryStop; arrival: Date | null }[] = plan?.stops.length === draft.stops.length
+        ? plan.stops
+        : draft.stops.map((stop) => ({ stop, arrival: null }));
+
+      // One transaction, so a failed save leaves the previous stops in place
+      const { data: savedId, error } = await supabase.rpc("save_itinerary", {
+        ...(draft.id ? { _id: draft.id } : {}),
+        _title: draft.title.trim() || "Night out",
+        _start_at: draft.startAt,
+        _travel_mode: draft.travelMode,
+        _shared: shared,
+        _stops: ordered.map(({ stop, arrival }) => ({
+          kind: stop.kind,
+          venue_id: stop.venueId,
+          deal_id: stop.dealId,
+          name: stop.name,
+          lat: stop.lat,
+          lng: stop.lng,
+          planned_arrival: arrival?.toISOString() ?? null,
+          stay_minutes: stop.stayMinutes,
+          opening_hours: stop.openingHours ?? null,
+        })),
+      });
+      if (error) throw error;
+
+      setDraft((current) => ({
+        ...current,
+        id: savedId,
+        ownerId: user.id,
+        stops: ordered.map(({ stop }) => stop),
+        shared,
+      }));
+      toast.success("Plan saved");
+      return savedId;
+    } catch (error) {
+      console.error("Error saving itinerary:", error);
+      toast.error("Failed to save plan");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user, isOwner, draft]);
+
+  const listItineraries = useCallback(async () => {
+    if (!user) return [];
+    try {
+      // Connections' shared plans are readable too; only list ones the user owns or joined
+      const { data: joined, error: joinedError } = await supabase
+        .from("itinerary_members")
+        .select("itinerary_id")
+        .eq("user_id", user.id);
+      if (joinedError) throw joinedError;
+
+      const joinedIds = (joined || []).map((member) => member.itinerary_id);
+      const { data, error } = await supabase
+        .from("itineraries")
+        .select("id, title, start_at, owner_id")
+        .or([`owner_id.eq.${user.id}`, ...(joinedIds.length ? [`id.in.(${joinedIds.join(",")})`] : [])].join(","))
+        .order("start_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+
+      return (data || []).map((itinerary) => ({
+        id: itinerary.id,
+        title: itinerary.title,
+        startAt: itinerary.start_at,
+        isOwner: itinerary.owner_id === user.id,
+      }));
+    } catch (error) {
+      console.error("Error listing itineraries:", error);
+      return [];
+    }
+  }, [user]);
+
+  const join = useCallback(async () => {
+    if (!user) {
+      toast.error("Sign in to join plans");
+      return;
+    }
+    if (!draft.id || isOwner) return;
+
+    const { error } = await supabase
+      .from("itinerary_members")
+      .insert({ itinerary_id: draft.id, user_id: user.id });
+
+    if (error) {
+      console.error("Error joining itinerary:", error);
+      toast.error("Couldn't join this plan", {
+        description: "Only the organizer's connections can join",
+      });
+      return;
+    }
+    toast.success(`You're in for ${draft.title}`);
+    await loadMembers(draft.id);
+  }, [user, draft.id, draft.title, isOwner, loadMembers]);
+
+  const leave = useCallback(async () => {
+    if (!user || !draft.id) return;
+
+    const { error } = await supabase
+      .from("itinerary_members")
+      .delete()
+      .eq("itinerary_id", draft.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error leaving itinerary:", error);
+      toast.error("Failed to leave plan");
+      return;
+    }
+    await loadMembers(draft.id);
+  }, [user, draft.id, loadMembers]);
+
+  return (
+    <ItineraryContext.Provider
+      value={{
+        draft,
+        members,
+        isOwner,
+        isMember,
+        saving,
+        origin,
+        setOrigin,
+        plannerOpen,
+        setPlannerOpen,
+        hasStop,
+        addStop,
+        removeStop,
+        setStayMinutes,
+        setTitle,
+        setStartAt,
+        setTravelMode,
+        startNew,
+        save,
+        load,
+        listItineraries,
+        join,
+        leave,
+      }}
+    >
+      {children}
+    </ItineraryContext.Provider>
+  );
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { PrivacyMetadata } from "./useMovementPaths";
+
+export interface BusynessForecastPoint {
+  hour_start: string;
+  day_of_week: number;
+  hour_of_day: number;
+  busyness: number; // 0-100, relative to the busiest hour of a typical week
+}
+
+export interface BusynessForecast {
+  target: { type: 'venue' | 'neighborhood'; id: string; name: string };
+  timezone: string;
+  insufficient_data: boolean;
+  forecast: BusynessForecastPoint[];
+  peak?: BusynessForecastPoint;
+  confidence?: number;
+  privacy?: PrivacyMetadata;
+}
+
+// A venue's own curve, or a whole neighborhood's; set one of the two
+export interface BusynessForecastTarget {
+  venueId?: string;
+  neighborhoodId?: string;
+}
+
+export const useBusynessForecast = (target: BusynessForecastTarget | null, hours: number = 24) => {
+  const [forecast, setForecast] = useState<BusynessForecast | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const venueId = target?.venueId;
+  const neighborhoodId = target?.neighborhoodId;
+
+  useEffect(() => {
+    if (!venueId && !neighborhoodId) {
+      setForecast(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadForecast = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error: functionError } = await supabase.functions.invoke<BusynessForecast>('get-busyness-forecast', {
+          body: {
+            venue_id: venueId,
+            neighborhood_id: neighborhoodId,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            hours,
+          },
+        });
+
+        if (functionError) throw functionError;
+        if (cancelled) return;
+
+        setForecast(data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading busyness forecast:', err);
+        if (!cancelled) setError('Failed to load forecast');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadForecast();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [venueId, neighborhoodId, hours]);
+
+  return { forecast, loading, error };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface DealRedemption {
+  id: string;
+  deal_id: string;
+  // Typed in by staff
+  code: string;
+  // Signed payload shown as the QR code
+  token: string;
+  expires_at: string;
+  status: 'claimed' | 'redeemed';
+  redeemed_at: string | null;
+}
+
+type ClaimResponse =
+  | { status: 'claimed'; redemption: Omit<DealRedemption, 'status' | 'redeemed_at'> }
+  | { status: 'not_found' | 'not_live' | 'user_limit_reached' | 'deal_limit_reached' };
+
+const CLAIM_ERRORS: Record<Exclude<ClaimResponse['status'], 'claimed'>, string> = {
+  not_found: 'This deal is no longer available',
+  not_live: "This deal isn't running right now",
+  user_limit_reached: "You've already redeemed this deal",
+  deal_limit_reached: 'All redemptions for this deal have been claimed',
+};
+
+/**
+ * Claims a one-time redemption code for a deal. Claiming again while the code is still valid
+ * returns the same code; the claim flips to redeemed live once the merchant validates it.
+ */
+export const useDealRedemption = (dealId: string) => {
+  const [redemption, setRedemption] = useState<DealRedemption | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRedemption(null);
+    setError(null);
+  }, [dealId]);
+
+  const claim = useCallback(async () => {
+    try {
+      setClaiming(true);
+
+      const { data, error: functionError } = await supabase.functions.invoke<ClaimResponse>('claim-deal-redemption', {
+        body: { deal_id: dealId },
+      });
+
+      if (functionError) throw functionError;
+      if (!data) throw new Error('Empty response');
+
+      if (data.status === 'claimed') {
+        setRedemption({ ...data.redemption, status: 'claimed', redeemed_at: null });
+        setError(null);
+      } else {
+        setRedemption(null);
+        setError(CLAIM_ERRORS[data.status]);
+      }
+    } catch (err) {
+      console.error('Error claiming deal:', err);
+      setError('Failed to get a redemption code');
+    } finally {
+      setClaiming(false);
+    }
+  }, [dealId]);
+
+  const redemptionId = redemption?.id;
+
+  useEffect(() => {
+    if (!redemptionId) return;
+
+    const channel = supabase
+      .channel(`deal-redemption-${redemptionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'deal_redemptions',
+          filter: `id=eq.${redemptionId}`,
+        },
+        (payload) => {
+          const row = payload.new as { status: DealRedemption['status']; redeemed_at: string | null };
+          setRedemption((current) => current && { ...current, status: row.status, redeemed_at: row.redeemed_at });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [redemptionId]);
+
+  return { redemption, claiming, error, claim };
+};
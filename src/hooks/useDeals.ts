@@ -1,6 +1,7 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
+import { DEVICE_TIMEZONE, getNextDealTransition, getTransitionDelay, isDealLive } from "@/lib/deal-schedule";
 
 type Deal = Database['public']['Tables']['deals']['Row'];
 
@@ -73,6 +74,8 @@ export const useDeals = (enablePreferenceFilter: boolean = false, enabled: boole
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [preferencesLoaded, setPreferencesLoaded] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // The time "live now" is judged at: moved on whenever deals load and when a deal window opens or closes
+  const [now, setNow] = useState(() => new Date());
 
   const loadUserPreferences = useCallback(async () => {
     try {
@@ -206,6 +209,7 @@ export const useDeals = (enablePreferenceFilter: boolean = false, enabled: boole
         const filtered = filterDealsByPreferences(validDeals, userPreferences);
         setFilteredDeals(filtered);
         setLastUpdated(new Date());
+        setNow(new Date());
         setLoading(false);
         
         // Clear prefetched data to avoid stale data on refresh
@@ -225,6 +229,7 @@ export const useDeals = (enablePreferenceFilter: boolean = false, enabled: boole
           const newFiltered = filterDealsByPreferences(data, userPreferences);
           setFilteredDeals(newFiltered);
           setLastUpdated(new Date());
+          setNow(new Date());
         }
         return;
       }
@@ -250,6 +255,7 @@ export const useDeals = (enablePreferenceFilter: boolean = false, enabled: boole
       const filtered = filterDealsByPreferences(allDeals, userPreferences);
       setFilteredDeals(filtered);
       setLastUpdated(new Date());
+      setNow(new Date());
       
       setError(null);
     } catch (err) {
@@ -323,9 +329,26 @@ export const useDeals = (enablePreferenceFilter: boolean = false, enabled: boole
     };
   }, [enabled, preferencesLoaded, loadDeals, loadUserPreferences]);
 
+  // Queries only bound the date range; time-of-day windows and holiday closures are applied here
+  const liveDeals = useMemo(
+    () => deals.filter((deal) => isDealLive(deal, now, DEVICE_TIMEZONE)),
+    [deals, now]
+  );
+  const liveFilteredDeals = useMemo(
+    () => filteredDeals.filter((deal) => isDealLive(deal, now, DEVICE_TIMEZONE)),
+    [filteredDeals, now]
+  );
+
+  useEffect(() => {
+    const next = getNextDealTransition(deals, now, DEVICE_TIMEZONE);
+    if (!next) return;
+    const timer = setTimeout(() => setNow(new Date()), getTransitionDelay(next));
+    return () => clearTimeout(timer);
+  }, [deals, now]);
+
   return { 
-    deals: enablePreferenceFilter ? filteredDeals : deals,
-    allDeals: deals,
+    deals: enablePreferenceFilter ? liveFilteredDeals : liveDeals,
+    allDeals: liveDeals,
     loading, 
     error, 
     refresh: loadDeals,
@@ -6,6 +6,7 @@ import { toast } from "sonner";
 interface DeepLinkHandler {
   onDealOpen?: (dealId: string, dealData: any) => void;
   onVenueOpen?: (venueName: string) => void;
+  onItineraryOpen?: (itineraryId: string) => void;
 }
 
 export const useDeepLinking = (handlers?: DeepLinkHandler) => {
@@ -78,6 +79,16 @@ export const useDeepLinking = (handlers?: DeepLinkHandler) => {
     setSearchParams(searchParams);
   }, [handlers, searchParams, setSearchParams]);
 
+  // Handle shared itinerary deep link
+  const handleItineraryDeepLink = useCallback((itineraryId: string) => {
+    if (handlers?.onItineraryOpen) {
+      handlers.onItineraryOpen(itineraryId);
+    }
+
+    searchParams.delete("itinerary");
+    setSearchParams(searchParams);
+  }, [handlers, searchParams, setSearchParams]);
+
   // Navigate to a deal (for use from notifications)
   const navigateToDeal = useCallback((dealId: string) => {
     navigate(`/?deal=${dealId}`);
@@ -92,6 +103,7 @@ export const useDeepLinking = (handlers?: DeepLinkHandler) => {
   useEffect(() => {
     const dealId = searchParams.get("deal");
     const venueName = searchParams.get("venue");
+    const itineraryId = searchParams.get("itinerary");
 
     if (dealId) {
       handleDealDeepLink(dealId);
@@ -100,7 +112,11 @@ export const useDeepLinking = (handlers?: DeepLinkHandler) => {
     if (venueName) {
       handleVenueDeepLink(decodeURIComponent(venueName));
     }
-  }, [searchParams, handleDealDeepLink, handleVenueDeepLink]);
+
+    if (itineraryId) {
+      handleItineraryDeepLink(itineraryId);
+    }
+  }, [searchParams, handleDealDeepLink, handleVenueDeepLink, handleItineraryDeepLink]);
 
   return {
     navigateToDeal,
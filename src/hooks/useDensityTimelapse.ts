@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getDensityTiles, getGeohashPrecisionForZoom } from "@/utils/geohash";
+import { getTimelapseWindow, type DensityFrame, type TimelapseRange } from "@/lib/density-timelapse";
+import type { ViewportBounds } from "@/hooks/useLocationDensity";
+import type { PrivacyMetadata } from "@/hooks/useMovementPaths";
+
+interface DensityFramesData {
+  frames: DensityFrame[];
+  stats: {
+    frame_count: number;
+    max_density: number;
+    suppressed_cells: number;
+  };
+  privacy?: PrivacyMetadata;
+}
+
+interface DensityTimelapseOptions {
+  range: TimelapseRange | null; // null while time-lapse mode is off
+  bounds?: ViewportBounds;
+  zoom?: number;
+}
+
+const NO_FRAMES: DensityFrame[] = [];
+
+/**
+ * Prefetches every hourly density frame for the range in a single request
+ */
+export const useDensityTimelapse = ({ range, bounds, zoom }: DensityTimelapseOptions) => {
+  const [framesData, setFramesData] = useState<DensityFramesData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const precision = zoom !== undefined ? getGeohashPrecisionForZoom(zoom) : undefined;
+  const { west, south, east, north } = bounds ?? {};
+
+  // Refetch only when the viewport crosses a tile edge, like the live heatmap
+  const tilesKey = useMemo(() => {
+    if (precision === undefined || west === undefined) return '';
+    return getDensityTiles({ west, south, east, north }, precision).join(',');
+  }, [precision, west, south, east, north]);
+
+  // The range object is usually rebuilt on every render, so the effect follows its fields
+  const rangeKind = range?.kind ?? null;
+  const daysAgo = range?.kind === 'day' ? range.daysAgo : 0;
+
+  useEffect(() => {
+    if (!rangeKind) {
+      setFramesData(null);
+      return;
+    }
+    const currentRange: TimelapseRange = rangeKind === 'week' ? { kind: 'week' } : { kind: 'day', daysAgo };
+
+    let cancelled = false;
+
+    const loadFrames = async () => {
+      try {
+        setLoading(true);
+
+        const { from, hours } = getTimelapseWindow(currentRange);
+        const params = new URLSearchParams({
+          mode: 'frames',
+          from: from.toISOString(),
+          hours: hours.toString(),
+        });
+        if (precision !== undefined && tilesKey) {
+          params.append('precision', precision.toString());
+          params.append('tiles', tilesKey);
+        }
+
+        const { data, error: functionError } = await supabase.functions.invoke<DensityFramesData>(
+          `get-location-density?${params.toString()}`
+        );
+        if (functionError) throw functionError;
+        if (cancelled) return;
+
+        setFramesData(data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading density frames:', err);
+        if (!cancelled) setError('Failed to load time-lapse');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadFrames();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeKind, daysAgo, precision, tilesKey, reloadKey]);
+
+  return {
+    frames: framesData?.frames ?? NO_FRAMES,
+    stats: framesData?.stats,
+    loading,
+    error,
+    refresh: () => setReloadKey((key) => key + 1),
+  };
+};
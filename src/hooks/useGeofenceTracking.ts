@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  ensureLocationPermission,
+  shouldCheckGeofence,
+  SUPPORTS_BACKGROUND_TRACKING,
+  watchPosition,
+  TrackedPosition,
+} from "@/lib/geofence-tracker";
+
+interface TrackingPreferences {
+  locationTrackingEnabled: boolean;
+  backgroundTrackingEnabled: boolean;
+}
+
+/**
+ * Watches the signed-in user's position and reports meaningful movement to
+ * check-geofence, which records the location and fires neighborhood deal alerts.
+ * Does nothing unless the user has opted in to location tracking in Settings.
+ */
+export const useGeofenceTracking = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<TrackingPreferences | null>(null);
+  const [isVisible, setIsVisible] = useState(() => !document.hidden);
+  const [isTracking, setIsTracking] = useState(false);
+  const lastCheckedRef = useRef<TrackedPosition | null>(null);
+  const isCheckingRef = useRef(false);
+
+  // Load tracking preferences and follow changes saved from Settings
+  useEffect(() => {
+    if (!user) {
+      setPreferences(null);
+      return;
+    }
+
+    const loadPreferences = async () => {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('location_tracking_enabled, background_tracking_enabled')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading tracking preferences:', error);
+        return;
+      }
+
+      setPreferences({
+        locationTrackingEnabled: data?.location_tracking_enabled ?? false,
+        backgroundTrackingEnabled: data?.background_tracking_enabled ?? true,
+      });
+    };
+
+    loadPreferences();
+
+    const channel = supabase
+      .channel(`tracking-preferences-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_preferences',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          loadPreferences();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // The watch is paused while the app is hidden unless background tracking is on and the
+  // platform can keep it running (web only - see SUPPORTS_BACKGROUND_TRACKING)
+  const shouldTrack =
+    !!user &&
+    !!preferences?.locationTrackingEnabled &&
+    (isVisible || (preferences.backgroundTrackingEnabled && SUPPORTS_BACKGROUND_TRACKING));
+
+  useEffect(() => {
+    if (!shouldTrack) return;
+
+    let cancelled = false;
+    let stopWatching: (() => void) | null = null;
+
+    const handlePosition = async (position: TrackedPosition) => {
+      if (isCheckingRef.current || !shouldCheckGeofence(lastCheckedRef.current, position)) return;
+      isCheckingRef.current = true;
+
+      try {
+        const { error } = await supabase.functions.invoke('check-geofence', {
+          body: {
+            latitude: position.latitude,
+            longitude: position.longitude,
+            accuracy: position.accuracy,
+            // Quiet hours are evaluated in the device's local time
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
+        });
+        if (error) throw error;
+        lastCheckedRef.current = position;
+      } catch (error) {
+        console.error('Error checking geofence:', error);
+      } finally {
+        isCheckingRef.current = false;
+      }
+    };
+
+    const start = async () => {
+      const granted = await ensureLocationPermission();
+      if (!granted || cancelled) {
+        if (!granted) console.log('Location permission not granted, geofence tracking disabled');
+        return;
+      }
+
+      try {
+        const stop = await watchPosition(handlePosition, (error) => {
+          console.error('Location watch error:', error);
+        });
+        if (cancelled) {
+          stop();
+          return;
+        }
+        stopWatching = stop;
+        setIsTracking(true);
+      } catch (error) {
+        console.error('Error starting location watch:', error);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+      setIsTracking(false);
+    };
+  }, [shouldTrack]);
+
+  // A different user must not inherit the previous user's throttle state
+  useEffect(() => {
+    lastCheckedRef.current = null;
+  }, [user?.id]);
+
+  return { isTracking };
+};
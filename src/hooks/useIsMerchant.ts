@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Venue owners with the merchant role get the merchant portal (/merchant)
+export const useIsMerchant = () => {
+  const [isMerchant, setIsMerchant] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const checkMerchantStatus = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          setIsMerchant(false);
+          setLoading(false);
+          return;
+        }
+
+        const { data: roles } = await supabase
+          .from('user_roles')
+          .select('role')
+          .eq('user_id', user.id)
+          .eq('role', 'merchant')
+          .maybeSingle();
+
+        setIsMerchant(!!roles);
+      } catch (error) {
+        console.error('Error checking merchant status:', error);
+        setIsMerchant(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkMerchantStatus();
+  }, []);
+
+  return { isMerchant, loading };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { getRoutingProvider, ISOCHRONE_MINUTES, type IsochroneCollection, type LatLng, type TravelMode } from "@/lib/routing";
+
+interface IsochroneOptions {
+  origin: LatLng | null;
+  mode: TravelMode;
+  mapboxToken?: string | null;
+  enabled?: boolean;
+}
+
+// Origins closer than this (~100m) reuse the current contours
+const ORIGIN_PRECISION = 3;
+
+/**
+ * "Reachable in 5/10/15 minutes" contours around an origin
+ */
+export const useIsochrones = ({ origin, mode, mapboxToken, enabled = true }: IsochroneOptions) => {
+  const [isochrones, setIsochrones] = useState<IsochroneCollection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lat = origin ? origin.lat.toFixed(ORIGIN_PRECISION) : null;
+  const lng = origin ? origin.lng.toFixed(ORIGIN_PRECISION) : null;
+
+  useEffect(() => {
+    if (!enabled || lat === null || lng === null) {
+      setIsochrones(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadIsochrones = async () => {
+      try {
+        setLoading(true);
+        const provider = getRoutingProvider(mapboxToken);
+        const data = await provider.getIsochrones({ lat: Number(lat), lng: Number(lng) }, mode, ISOCHRONE_MINUTES);
+        if (cancelled) return;
+
+        setIsochrones(data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading isochrones:', err);
+        if (!cancelled) setError('Failed to load travel areas');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadIsochrones();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, lat, lng, mode, mapboxToken]);
+
+  return { isochrones, loading, error };
+};
@@ -0,0 +1,104 @@
+import { createContext, useContext } from "react";
+import type { ItineraryPlan, ItineraryStop } from "@/lib/itinerary";
+import type { LatLng, TravelMode } from "@/lib/routing";
+
+export interface ItineraryDraft {
+  // Set once saved
+  id: string | null;
+  ownerId: string | null;
+  title: string;
+  startAt: string;
+  travelMode: TravelMode;
+  stops: ItineraryStop[];
+  // Connections can only open and join shared plans
+  shared: boolean;
+}
+
+export interface ItineraryMember {
+  userId: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+export interface ItinerarySummary {
+  id: string;
+  title: string;
+  startAt: string;
+  isOwner: boolean;
+}
+
+export interface ItineraryContextType {
+  draft: ItineraryDraft;
+  members: ItineraryMember[];
+  // Whether the current user may edit the open itinerary
+  isOwner: boolean;
+  isMember: boolean;
+  saving: boolean;
+  origin: LatLng | null;
+  setOrigin: (origin: LatLng | null) => void;
+  plannerOpen: boolean;
+  setPlannerOpen: (open: boolean) => void;
+  hasStop: (key: string) => boolean;
+  addStop: (stop: ItineraryStop) => void;
+  removeStop: (key: string) => void;
+  setStayMinutes: (key: string, minutes: number) => void;
+  setTitle: (title: string) => void;
+  setStartAt: (startAt: string) => void;
+  setTravelMode: (mode: TravelMode) => void;
+  startNew: () => void;
+  // share: also make the plan visible to the owner's connections
+  save: (plan: ItineraryPlan | null, options?: { share?: boolean }) => Promise<string | null>;
+  load: (id: string) => Promise<boolean>;
+  listItineraries: () => Promise<ItinerarySummary[]>;
+  join: () => Promise<void>;
+  leave: () => Promise<void>;
+}
+
+// The next half hour, so a fresh plan starts "now-ish" on a round time
+const defaultStartAt = () => {
+  const start = new Date();
+  start.setMinutes(start.getMinutes() < 30 ? 30 : 60, 0, 0);
+  return start.toISOString();
+};
+
+export const emptyDraft = (): ItineraryDraft => ({
+  id: null,
+  ownerId: null,
+  title: "Night out",
+  startAt: defaultStartAt(),
+  travelMode: "walking",
+  stops: [],
+  shared: false,
+});
+
+const noop = () => {};
+
+export const ItineraryContext = createContext<ItineraryContextType>({
+  draft: emptyDraft(),
+  members: [],
+  isOwner: true,
+  isMember: false,
+  saving: false,
+  origin: null,
+  setOrigin: noop,
+  plannerOpen: false,
+  setPlannerOpen: noop,
+  hasStop: () => false,
+  addStop: noop,
+  removeStop: noop,
+  setStayMinutes: noop,
+  setTitle: noop,
+  setStartAt: noop,
+  setTravelMode: noop,
+  startNew: noop,
+  save: async () => null,
+  load: async () => false,
+  listItineraries: async () => [],
+  join: async () => {},
+  leave: async () => {},
+});
+
+/**
+ * The itinerary being planned or viewed; provided by ItineraryProvider
+ */
+export const useItinerary = () => useContext(ItineraryContext);
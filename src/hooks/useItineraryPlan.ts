@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getRoutingProvider, type LatLng, type TravelMode } from "@/lib/routing";
+import { buildTravelMatrix, planItinerary, type ItineraryPlan, type ItineraryStop } from "@/lib/itinerary";
+
+interface ItineraryPlanOptions {
+  stops: ItineraryStop[];
+  startAt: string;
+  mode: TravelMode;
+  // Where the night starts; without one the first stop is reached at startAt
+  origin: LatLng | null;
+  mapboxToken?: string | null;
+}
+
+/**
+ * Suggested order and arrival times for the stops. Travel times are fetched when the set of
+ * places or the mode changes; start time and stay lengths replan locally.
+ */
+export const useItineraryPlan = ({ stops, startAt, mode, origin, mapboxToken }: ItineraryPlanOptions) => {
+  const [matrix, setMatrix] = useState<{ key: string; minutes: number[][] } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const points = useMemo(() => (origin ? [origin, ...stops] : stops), [origin, stops]);
+  const pointsKey = `${mode}|${points.map((point) => `${point.lat.toFixed(4)},${point.lng.toFixed(4)}`).join(';')}`;
+  const hasStops = stops.length > 0;
+
+  // Stops are new objects on every edit, so the fetch keys on pointsKey and reads the latest
+  // points from here
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+
+  useEffect(() => {
+    if (!hasStops) {
+      setMatrix(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadMatrix = async () => {
+      try {
+        setLoading(true);
+        const minutes = await buildTravelMatrix(getRoutingProvider(mapboxToken), pointsRef.current, mode);
+        if (cancelled) return;
+        setMatrix({ key: pointsKey, minutes });
+        setError(null);
+      } catch (err) {
+        console.error('Error loading itinerary travel times:', err);
+        if (!cancelled) setError('Failed to load travel times');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadMatrix();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pointsKey, hasStops, mode, mapboxToken]);
+
+  const plan = useMemo<ItineraryPlan | null>(() => {
+    // A matrix for a different set of places would misalign with the stops
+    if (!matrix || matrix.key !== pointsKey) return null;
+    return planItinerary({
+      stops,
+      startAt: new Date(startAt),
+      travelMatrix: matrix.minutes,
+      hasOrigin: origin !== null,
+    });
+  }, [matrix, pointsKey, stops, startAt, origin]);
+
+  return { plan, loading, error };
+};
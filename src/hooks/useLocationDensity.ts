@@ -1,54 +1,181 @@
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { getDensityTiles, getGeohashPrecisionForZoom } from "@/utils/geohash";
+import type { PrivacyMetadata } from "@/hooks/useMovementPaths";
 
-interface DensityData {
+interface DensityFeature {
+  type: 'Feature';
+  id?: string;
+  properties: {
+    cell_id?: string;
+    density: number;
+    intensity: number;
+    // True when the cell was too sparse for the requested window and comes from a wider one
+    coarsened?: boolean;
+  };
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number];
+  };
+}
+
+export interface DensityData {
   geojson: any;
   stats: {
     total_points: number;
     grid_cells: number;
     max_density: number;
     avg_density: number;
+    suppressed_cells?: number;
+    coarsened_cells?: number;
   };
+  privacy?: PrivacyMetadata;
+  // Geohash cell precision the data was aggregated at (undefined for legacy full-city requests)
+  precision?: number;
 }
 
+export interface ViewportBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export type DensityTimeFilter = 'all' | 'today' | 'this_week' | 'last_week' | 'this_hour';
+
 interface DensityFilters {
-  timeFilter?: 'all' | 'today' | 'this_week' | 'this_hour';
+  timeFilter?: DensityTimeFilter;
   hourOfDay?: number;
   dayOfWeek?: number;
+  // Visible map viewport and zoom - picks the cell resolution and which tiles to fetch
+  bounds?: ViewportBounds;
+  zoom?: number;
+}
+
+interface DensityOptions {
+  // Idle instances keep their last snapshot but stop fetching and listening
+  enabled?: boolean;
+  // Each mounted instance needs its own channel name
+  realtimeChannel?: string;
 }
 
-export const useLocationDensity = (filters: DensityFilters = {}) => {
+// Cached tiles are reused while panning; realtime inserts invalidate them early
+const TILE_CACHE_TTL_MS = 2 * 60 * 1000;
+
+interface CachedTile {
+  features: DensityFeature[];
+  fetchedAt: number;
+}
+
+// Stats are recomputed from the (already noised) cells so merged tiles stay consistent
+const buildDensityData = (features: DensityFeature[], precision?: number, privacy?: PrivacyMetadata): DensityData => {
+  const densityValues = features.map((f) => f.properties.density);
+  const totalPoints = densityValues.reduce((a, b) => a + b, 0);
+
+  return {
+    geojson: { type: 'FeatureCollection', features },
+    stats: {
+      total_points: totalPoints,
+      grid_cells: features.length,
+      max_density: densityValues.length > 0 ? Math.max(...densityValues) : 0,
+      avg_density: densityValues.length > 0 ? totalPoints / densityValues.length : 0,
+      coarsened_cells: features.filter((f) => f.properties.coarsened).length,
+    },
+    privacy,
+    precision,
+  };
+};
+
+export const useLocationDensity = (
+  filters: DensityFilters = {},
+  { enabled = true, realtimeChannel = 'location-density-updates' }: DensityOptions = {}
+) => {
   const [densityData, setDensityData] = useState<DensityData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const lastDataHashRef = useRef<string>('');
   const isLoadingRef = useRef(false);
+  const pendingReloadRef = useRef(false);
+  const latestLoadRef = useRef<() => Promise<void>>();
+  const tileCacheRef = useRef(new Map<string, CachedTile>());
+  const privacyRef = useRef<PrivacyMetadata | undefined>();
+
+  const precision = filters.zoom !== undefined ? getGeohashPrecisionForZoom(filters.zoom) : undefined;
+  const { west, south, east, north } = filters.bounds ?? {};
+
+  // Tiles only change when the viewport crosses a tile edge, so small pans reuse the cache
+  const tiles = useMemo(() => {
+    if (precision === undefined || west === undefined) return null;
+    return getDensityTiles({ west, south, east, north }, precision);
+  }, [precision, west, south, east, north]);
+  const tilesKey = tiles?.join(',') ?? '';
+
+  const filterKey = `${filters.timeFilter ?? 'all'}|${filters.hourOfDay ?? ''}|${filters.dayOfWeek ?? ''}`;
 
   const loadDensityData = useCallback(async () => {
-    // Prevent concurrent requests
-    if (isLoadingRef.current) return;
+    // Prevent concurrent requests - queue one follow-up so a viewport change isn't lost
+    if (isLoadingRef.current) {
+      pendingReloadRef.current = true;
+      return;
+    }
     isLoadingRef.current = true;
-    
+
     try {
       setLoading(true);
-      
+
       const params = new URLSearchParams();
       if (filters.timeFilter) params.append('time_filter', filters.timeFilter);
       if (filters.hourOfDay !== undefined) params.append('hour_of_day', filters.hourOfDay.toString());
       if (filters.dayOfWeek !== undefined) params.append('day_of_week', filters.dayOfWeek.toString());
 
-      const queryString = params.toString();
-      const path = queryString ? `get-location-density?${queryString}` : 'get-location-density';
+      let nextData: DensityData;
+
+      if (tiles && precision !== undefined) {
+        const now = Date.now();
+        const cache = tileCacheRef.current;
+        const cacheKey = (tile: string) => `${filterKey}|${precision}|${tile}`;
+        const missingTiles = tiles.filter((tile) => {
+          const cached = cache.get(cacheKey(tile));
+          return !cached || now - cached.fetchedAt > TILE_CACHE_TTL_MS;
+        });
+
+        if (missingTiles.length > 0) {
+          params.append('precision', precision.toString());
+          params.append('tiles', missingTiles.join(','));
+
+          const { data, error: functionError } = await supabase.functions.invoke(`get-location-density?${params.toString()}`);
+          if (functionError) throw functionError;
+          privacyRef.current = data?.privacy;
+
+          // Group returned cells under the tile they belong to (tile = cell ID prefix)
+          const tileLength = missingTiles[0].length;
+          const byTile = new Map<string, DensityFeature[]>(missingTiles.map((tile) => [tile, []]));
+          for (const feature of (data?.geojson?.features ?? []) as DensityFeature[]) {
+            const cellId = feature.properties.cell_id ?? '';
+            byTile.get(cellId.slice(0, tileLength))?.push(feature);
+          }
+          byTile.forEach((features, tile) => {
+            cache.set(cacheKey(tile), { features, fetchedAt: now });
+          });
+        }
 
-      const { data, error: functionError } = await supabase.functions.invoke(path);
+        const features = tiles.flatMap((tile) => cache.get(cacheKey(tile))?.features ?? []);
+        nextData = buildDensityData(features, precision, privacyRef.current);
+      } else {
+        const queryString = params.toString();
+        const path = queryString ? `get-location-density?${queryString}` : 'get-location-density';
+
+        const { data, error: functionError } = await supabase.functions.invoke(path);
+        if (functionError) throw functionError;
+
+        nextData = data;
+      }
 
-      if (functionError) throw functionError;
-      
       // Only update state if data actually changed
-      const dataHash = JSON.stringify(data?.stats);
+      const dataHash = `${filterKey}|${precision ?? ''}|${tilesKey}|${JSON.stringify(nextData?.stats)}`;
       if (dataHash !== lastDataHashRef.current) {
         lastDataHashRef.current = dataHash;
-        setDensityData(data);
+        setDensityData(nextData);
       }
       setError(null);
     } catch (err) {
@@ -57,16 +184,28 @@ export const useLocationDensity = (filters: DensityFilters = {}) => {
     } finally {
       setLoading(false);
       isLoadingRef.current = false;
+      if (pendingReloadRef.current) {
+        pendingReloadRef.current = false;
+        latestLoadRef.current?.();
+      }
     }
-  }, [filters.timeFilter, filters.hourOfDay, filters.dayOfWeek]);
+  }, [filters.timeFilter, filters.hourOfDay, filters.dayOfWeek, filterKey, precision, tiles, tilesKey]);
+
+  latestLoadRef.current = loadDensityData;
 
   useEffect(() => {
+    if (!enabled) return;
     loadDensityData();
+  }, [enabled, loadDensityData]);
+
+  // Subscribe once - the viewport changes far more often than the channel needs to
+  useEffect(() => {
+    if (!enabled) return;
 
     // Set up realtime subscription with debounce
     let debounceTimer: NodeJS.Timeout;
     const channel = supabase
-      .channel('location-density-updates')
+      .channel(realtimeChannel)
       .on(
         'postgres_changes',
         {
@@ -79,7 +218,8 @@ export const useLocationDensity = (filters: DensityFilters = {}) => {
           clearTimeout(debounceTimer);
           debounceTimer = setTimeout(() => {
             console.log('New location added, refreshing density data');
-            loadDensityData();
+            tileCacheRef.current.clear();
+            latestLoadRef.current?.();
           }, 2000);
         }
       )
@@ -89,7 +229,12 @@ export const useLocationDensity = (filters: DensityFilters = {}) => {
       clearTimeout(debounceTimer);
       supabase.removeChannel(channel);
     };
+  }, [enabled, realtimeChannel]);
+
+  const refresh = useCallback(() => {
+    tileCacheRef.current.clear();
+    return loadDensityData();
   }, [loadDensityData]);
 
-  return { densityData, loading, error, refresh: loadDensityData };
+  return { densityData, loading, error, refresh };
 };
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type DealRow = Database['public']['Tables']['deals']['Row'];
+
+// An active deal with the point it is drawn at on the map
+export interface MapDeal extends DealRow {
+  lat: number;
+  lng: number;
+  neighborhoods: {
+    id: string;
+    name: string;
+    center_lat: number;
+    center_lng: number;
+  } | null;
+}
+
+const MAX_MAP_DEALS = 500;
+
+/**
+ * Active deals placed at their linked venue, or their neighborhood center when the
+ * venue has no coordinates. Deals with neither are left off the map.
+ */
+export const useMapDeals = (enabled: boolean = true) => {
+  const [deals, setDeals] = useState<MapDeal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeals = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const now = new Date().toISOString();
+      const { data, error: fetchError } = await supabase
+        .from('deals')
+        .select(`
+          *,
+          neighborhoods (
+            id,
+            name,
+            center_lat,
+            center_lng
+          ),
+          canonical_venue:venues!deals_canonical_venue_id_fkey (
+            lat,
+            lng
+          )
+        `)
+        .eq('active', true)
+        .gte('expires_at', now)
+        .lte('starts_at', now)
+        .order('expires_at', { ascending: true })
+        .limit(MAX_MAP_DEALS);
+
+      if (fetchError) throw fetchError;
+
+      const placed: MapDeal[] = [];
+      for (const { canonical_venue, ...deal } of data || []) {
+        if (canonical_venue?.lat != null && canonical_venue.lng != null) {
+          placed.push({ ...deal, lat: canonical_venue.lat, lng: canonical_venue.lng });
+        } else if (deal.neighborhoods) {
+          placed.push({ ...deal, lat: deal.neighborhoods.center_lat, lng: deal.neighborhoods.center_lng });
+        }
+      }
+
+      setDeals(placed);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading map deals:', err);
+      setError('Failed to load deals');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    loadDeals();
+
+    const channel = supabase
+      .channel('map-deals-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'deals',
+        },
+        () => {
+          loadDeals();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, loadDeals]);
+
+  return { deals, loading, error, refresh: loadDeals };
+};
@@ -1,15 +1,24 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 
-interface MovementPathData {
-  geojson: any;
+export interface PrivacyMetadata {
+  k_anonymity: number;
+  epsilon: number;
+  max_contribution_per_user: number;
+}
+
+export interface MovementPathData {
+  geojson: GeoJSON.FeatureCollection;
   stats: {
     total_paths: number;
     total_movements: number;
     unique_users: number;
     max_frequency: number;
     avg_frequency: number;
+    suppressed_paths?: number;
+    min_frequency?: number;
   };
+  privacy?: PrivacyMetadata;
 }
 
 interface MovementPathFilters {
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getRoutingProvider, type LatLng, type TravelMode } from "@/lib/routing";
+
+export interface TravelTimeTarget extends LatLng {
+  id: string;
+}
+
+interface TravelTimeOptions {
+  origin: LatLng | null;
+  targets: TravelTimeTarget[];
+  mode: TravelMode;
+  mapboxToken?: string | null;
+  enabled?: boolean;
+}
+
+const NO_TIMES = new Map<string, number>();
+
+/**
+ * Estimated minutes from the origin to each target, keyed by target id
+ */
+export const useTravelTimes = ({ origin, targets, mode, mapboxToken, enabled = true }: TravelTimeOptions) => {
+  const [travelTimes, setTravelTimes] = useState<Map<string, number>>(NO_TIMES);
+  const [loading, setLoading] = useState(false);
+
+  // Refetch only when the set of places changes, not on every new array
+  const targetsKey = useMemo(
+    () => targets.map((target) => `${target.id}:${target.lat.toFixed(4)},${target.lng.toFixed(4)}`).join('|'),
+    [targets]
+  );
+  const originKey = origin ? `${origin.lat.toFixed(3)},${origin.lng.toFixed(3)}` : '';
+
+  // The effect runs on the keys and reads the current values from here
+  const placesRef = useRef({ origin, targets });
+  placesRef.current = { origin, targets };
+
+  useEffect(() => {
+    const { origin, targets } = placesRef.current;
+    if (!enabled || !origin || targets.length === 0) {
+      setTravelTimes(NO_TIMES);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadTravelTimes = async () => {
+      try {
+        setLoading(true);
+        const provider = getRoutingProvider(mapboxToken);
+        const minutes = await provider.getTravelTimes(origin, targets, mode);
+        if (cancelled) return;
+
+        const times = new Map<string, number>();
+        targets.forEach((target, i) => {
+          const value = minutes[i];
+          if (value !== null && value !== undefined) times.set(target.id, value);
+        });
+        setTravelTimes(times);
+      } catch (err) {
+        console.error('Error loading travel times:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadTravelTimes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, originKey, targetsKey, mode, mapboxToken]);
+
+  return { travelTimes, loading };
+};
@@ -1,6 +1,11 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { Venue } from "@/components/MapboxHeatmap";
+import type { ActivityTrend } from "@/types/venue";
+import type { ViewportBounds } from "@/hooks/useLocationDensity";
+import { type City, getDistanceKm, isWithinMetro } from "@/types/cities";
+import { decodeGeohashBounds, encodeGeohash } from "@/utils/geohash";
+import { createChangeCoalescer } from "@/lib/change-coalescer";
 
 interface GooglePlacesData {
   rating: number | null;
@@ -15,19 +20,6 @@ interface GooglePlacesData {
   openingHours: string[];
 }
 
-interface VenueActivityData {
-  venue_id: string;
-  venue_name: string;
-  neighborhood_name: string;
-  deal_count: number;
-  recent_deal_count: number;
-  favorite_count: number;
-  share_count: number;
-  center_lat: number;
-  center_lng: number;
-  venue_address: string | null;
-}
-
 /**
  * Enrich venues with Google Places data
  */
@@ -74,227 +66,235 @@ const enrichWithGooglePlaces = async (venues: Venue[]): Promise<Venue[]> => {
   return [...enrichedTopVenues, ...remainingVenues];
 };
 
+interface VenueSearchOptions {
+  city: City;
+  // Current map viewport - once zoomed in, discovery follows it instead of the city center
+  viewport?: { bounds: ViewportBounds; zoom: number } | null;
+}
+
+interface SearchArea {
+  key: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+interface VenueActivityScore {
+  score: number;
+  trend: ActivityTrend;
+  confidence: number;
+}
+
+interface ActivityScoreRow {
+  venue_id: string;
+  score: number;
+  trend: string;
+  confidence: number | string;
+}
+
+interface VenuePage {
+  venues: Venue[];
+  nextCursor: string | null;
+}
+
+// Below this zoom the map shows the whole metro, so searching from the city center is enough
+const VIEWPORT_SEARCH_MIN_ZOOM = 12;
+
+const MAX_SEARCH_RADIUS_KM = 25;
+
+// Viewport centers snap to ~5km geohash cells so small pans reuse the same search area
+const SEARCH_AREA_PRECISION = 5;
+
+// Realtime score changes are applied in batches: after a quiet second, or every 5s during a burst
+const SCORE_BATCH_DELAY_MS = 1000;
+const SCORE_BATCH_MAX_WAIT_MS = 5000;
+
+// Full reload (scores only - Places is not searched again) to recover from missed deltas
+const FULL_RELOAD_INTERVAL_MS = 10 * 60 * 1000;
+const FULL_RELOAD_CHECK_MS = 60 * 1000;
+
 /**
- * Calculate activity score (0-100) based on venue metrics
+ * Pick the area to search: the viewport when zoomed into the selected city, else the city itself
  */
-const calculateActivityScore = (data: VenueActivityData, nearbyUserCount: number): number => {
-  // Weight factors
-  const DEAL_WEIGHT = 25;
-  const RECENT_WEIGHT = 30;
-  const ENGAGEMENT_WEIGHT = 25;
-  const TRAFFIC_WEIGHT = 20;
-
-  // Normalize deal count (assume max 10 deals = 100%)
-  const dealScore = Math.min((data.deal_count / 10) * 100, 100);
-  
-  // Normalize recent deals (last 7 days, assume max 5 = 100%)
-  const recentScore = Math.min((data.recent_deal_count / 5) * 100, 100);
-  
-  // Normalize engagement (favorites + shares, assume max 50 = 100%)
-  const engagementScore = Math.min(((data.favorite_count + data.share_count) / 50) * 100, 100);
-  
-  // Normalize nearby user traffic (assume max 20 users = 100%)
-  const trafficScore = Math.min((nearbyUserCount / 20) * 100, 100);
-
-  // Calculate weighted average
-  const activity = (
-    (dealScore * DEAL_WEIGHT / 100) +
-    (recentScore * RECENT_WEIGHT / 100) +
-    (engagementScore * ENGAGEMENT_WEIGHT / 100) +
-    (trafficScore * TRAFFIC_WEIGHT / 100)
-  );
+const getSearchArea = (city: City, viewport?: VenueSearchOptions['viewport']): SearchArea => {
+  if (viewport && viewport.zoom >= VIEWPORT_SEARCH_MIN_ZOOM) {
+    const { west, south, east, north } = viewport.bounds;
+    const centerLat = (south + north) / 2;
+    const centerLng = (west + east) / 2;
+
+    if (isWithinMetro(centerLat, centerLng, city)) {
+      const cell = encodeGeohash(centerLat, centerLng, SEARCH_AREA_PRECISION);
+      const cellBounds = decodeGeohashBounds(cell);
+      const halfDiagonalKm = getDistanceKm(south, west, north, east) / 2;
+      const radiusKm = Math.min(MAX_SEARCH_RADIUS_KM, Math.max(1, Math.ceil(halfDiagonalKm)));
 
-  return Math.round(activity);
+      return {
+        key: `${city.id}|${cell}|${radiusKm}`,
+        lat: (cellBounds.south + cellBounds.north) / 2,
+        lng: (cellBounds.west + cellBounds.east) / 2,
+        radiusKm,
+      };
+    }
+  }
+
+  const radiusKm = Math.min(MAX_SEARCH_RADIUS_KM, city.metroRadiusKm);
+  return { key: `${city.id}|city|${radiusKm}`, lat: city.lat, lng: city.lng, radiusKm };
 };
 
 /**
- * Fetch the top 10 most popular venues in Charlotte
+ * Fetch one page of popular venues around a search area
  */
-const fetchPopularVenuesFromGooglePlaces = async (): Promise<Venue[]> => {
-  try {
-    console.log('Fetching top 10 Charlotte venues...');
-    
-    // Charlotte coordinates
-    const charlotteLocation = { lat: 35.2271, lng: -80.8431 };
-    
-    const { data, error } = await supabase.functions.invoke('search-google-places-venues', {
-      body: { location: charlotteLocation }
-    });
-
-    if (error) {
-      console.error('Error fetching venues:', error);
-      return [];
-    }
+const fetchVenuePage = async (area: SearchArea, city: City, cursor?: string): Promise<VenuePage> => {
+  const { data, error } = await supabase.functions.invoke('search-google-places-venues', {
+    body: {
+      location: { lat: area.lat, lng: area.lng },
+      radius: area.radiusKm * 1000,
+      cursor,
+    },
+  });
 
-    // Map the response to our Venue interface
-    const venues: Venue[] = (data.venues || []).slice(0, 10).map((v: any) => ({
-      id: v.id,
-      name: v.name,
-      lat: v.lat,
-      lng: v.lng,
-      activity: v.activity || 50,
-      category: v.category || 'Venue',
-      neighborhood: getNeighborhoodFromCoords(v.lat, v.lng),
-      address: v.address,
-      googleRating: v.googleRating,
-      googleTotalRatings: v.googleTotalRatings,
-      isOpen: v.isOpen,
-      openingHours: v.openingHours || [],
-    }));
-    
-    console.log(`Fetched ${venues.length} Charlotte venues:`);
-    venues.forEach((v, i) => {
-      console.log(`  ${i + 1}. ${v.name}: lat=${v.lat}, lng=${v.lng} | ${v.address || 'No address'}`);
-    });
-    return venues;
-  } catch (error) {
-    console.error('Error in fetchPopularVenuesFromGooglePlaces:', error);
-    return [];
+  if (error) {
+    console.error('Error fetching venues:', error);
+    return { venues: [], nextCursor: null };
   }
+
+  // Neighborhood is assigned server-side from the neighborhoods table; fall back to the city name
+  const venues: Venue[] = (data.venues || []).map((v: any) => ({
+    id: v.id,
+    name: v.name,
+    lat: v.lat,
+    lng: v.lng,
+    activity: v.activity || 50,
+    category: v.category || 'Venue',
+    neighborhood: v.neighborhood || city.name,
+    address: v.address,
+    googleRating: v.googleRating,
+    googleTotalRatings: v.googleTotalRatings,
+    canonicalVenueId: v.canonicalVenueId ?? undefined,
+    isOpen: v.isOpen,
+    openingHours: v.openingHours || [],
+    website: v.website ?? null,
+    phone: v.phone ?? null,
+  }));
+
+  console.log(`Fetched ${venues.length} venues near ${city.name}`);
+  return { venues, nextCursor: data.next_cursor ?? null };
 };
 
+// numeric columns can arrive as strings over realtime
+const toActivityScore = (row: ActivityScoreRow): VenueActivityScore => ({
+  score: row.score,
+  trend: row.trend as ActivityTrend,
+  confidence: Number(row.confidence),
+});
+
 /**
- * Determine neighborhood from coordinates
+ * Latest server-computed activity scores (see compute_venue_activity_scores) keyed by canonical venue
  */
-const getNeighborhoodFromCoords = (lat: number, lng: number): string => {
-  // Charlotte neighborhoods approximate boundaries
-  if (lat >= 35.245) return 'NoDa';
-  if (lat >= 35.230 && lng <= -80.820) return 'Camp North End';
-  if (lat >= 35.220 && lat < 35.235) return 'Uptown';
-  if (lat >= 35.200 && lat < 35.220 && lng >= -80.820) return 'Plaza Midwood';
-  if (lat < 35.220 && lng <= -80.840) return 'South End';
-  return 'Charlotte';
+const fetchActivityScores = async (venueIds: string[]): Promise<Map<string, VenueActivityScore>> => {
+  const scores = new Map<string, VenueActivityScore>();
+  if (venueIds.length === 0) return scores;
+
+  const { data, error } = await supabase
+    .from('venue_activity_scores')
+    .select('venue_id, score, trend, confidence')
+    .in('venue_id', venueIds);
+
+  if (error) {
+    console.warn('Error fetching venue activity scores:', error);
+    return scores;
+  }
+
+  data?.forEach((row) => scores.set(row.venue_id, toActivityScore(row)));
+  return scores;
 };
 
+/**
+ * Overlay server scores on discovered venues, busiest first.
+ * Scores with no data behind them leave the Places popularity estimate in place.
+ */
+const applyActivityScores = (discovered: Venue[], scores: Map<string, VenueActivityScore>): Venue[] =>
+  discovered
+    .map((venue) => {
+      const score = venue.canonicalVenueId ? scores.get(venue.canonicalVenueId) : undefined;
+      if (!score || score.confidence === 0) return venue;
+
+      return {
+        ...venue,
+        activity: score.score,
+        activityTrend: score.trend,
+        activityConfidence: score.confidence,
+      };
+    })
+    .sort((a, b) => b.activity - a.activity);
+
 /**
  * Hook to fetch real venue activity data from Supabase and Google Places
  */
-export const useVenueActivity = (enabled: boolean = true) => {
+export const useVenueActivity = (enabled: boolean = true, { city, viewport }: VenueSearchOptions) => {
   const [venues, setVenues] = useState<Venue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  // Venues discovered so far in the selected city, across every area searched
+  const discoveredRef = useRef(new Map<string, Venue>());
+  // Next page cursor per search area: missing = not fetched yet, null = no more pages
+  const cursorsRef = useRef(new Map<string, string | null>());
+  const cityIdRef = useRef(city.id);
+  // Latest score per canonical venue - realtime deltas are applied here instead of refetching
+  const scoresRef = useRef(new Map<string, VenueActivityScore>());
+  const lastFullLoadRef = useRef(0);
+
+  const area = useMemo(() => getSearchArea(city, viewport), [city, viewport]);
+  const areaRef = useRef(area);
+  areaRef.current = area;
+  const cityRef = useRef(city);
+  cityRef.current = city;
+
+  const isDiscovered = useCallback((canonicalVenueId: string) => {
+    for (const venue of discoveredRef.current.values()) {
+      if (venue.canonicalVenueId === canonicalVenueId) return true;
+    }
+    return false;
+  }, []);
 
-  const loadVenueActivity = async () => {
+  const loadVenueActivity = useCallback(async (options: { nextPage?: boolean } = {}) => {
     try {
       setLoading(true);
       setError(null);
 
-      // First, fetch popular venues from Google Places as the base dataset
-      const googleVenues = await fetchPopularVenuesFromGooglePlaces();
-      
-      // Then, enhance with our own platform data (deals, engagement, etc.)
-      const { data: deals, error: dealsError } = await supabase
-          .from('deals')
-          .select(`
-            venue_id,
-            venue_name,
-            venue_address,
-            neighborhood_id,
-            created_at,
-            neighborhoods!inner(
-              name,
-              center_lat,
-              center_lng
-            )
-          `)
-          .eq('active', true)
-          .gte('expires_at', new Date().toISOString())
-          .lte('starts_at', new Date().toISOString());
-
-      if (dealsError) {
-        console.warn('Error fetching deals:', dealsError);
-      }
+      const currentCity = cityRef.current;
+      const currentArea = areaRef.current;
 
-      // Aggregate venue metrics from deals
-      const venueEngagementMap = new Map<string, {
-        dealCount: number;
-        recentDealCount: number;
-        favoriteCount: number;
-        shareCount: number;
-      }>();
-      
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-      deals?.forEach((deal: any) => {
-        const key = deal.venue_id;
-        const existing = venueEngagementMap.get(key);
-        const isRecent = new Date(deal.created_at) > sevenDaysAgo;
-
-        if (existing) {
-          existing.dealCount++;
-          if (isRecent) existing.recentDealCount++;
-        } else {
-          venueEngagementMap.set(key, {
-            dealCount: 1,
-            recentDealCount: isRecent ? 1 : 0,
-            favoriteCount: 0,
-            shareCount: 0,
-          });
-        }
-      });
+      // Switching cities starts discovery over
+      if (cityIdRef.current !== currentCity.id) {
+        cityIdRef.current = currentCity.id;
+        discoveredRef.current.clear();
+        cursorsRef.current.clear();
+      }
 
-      // Fetch engagement metrics (favorites and shares) for venues with deals
-      const venueIds = Array.from(venueEngagementMap.keys());
-      
-      if (venueIds.length > 0) {
-        const { data: dealIds } = await supabase
-          .from('deals')
-          .select('id, venue_id')
-          .in('venue_id', venueIds);
-
-        if (dealIds && dealIds.length > 0) {
-          const dealIdsArray = dealIds.map(d => d.id);
-
-          // Get favorites count
-          const { data: favorites } = await supabase
-            .from('user_favorites')
-            .select('deal_id')
-            .in('deal_id', dealIdsArray);
-
-          // Get shares count
-          const { data: shares } = await supabase
-            .from('deal_shares')
-            .select('deal_id')
-            .in('deal_id', dealIdsArray);
-
-          // Update engagement map
-          dealIds.forEach(dealMapping => {
-            const engagement = venueEngagementMap.get(dealMapping.venue_id);
-            if (engagement) {
-              engagement.favoriteCount += favorites?.filter(f => f.deal_id === dealMapping.id).length || 0;
-              engagement.shareCount += shares?.filter(s => s.deal_id === dealMapping.id).length || 0;
-            }
-          });
-        }
+      // Only hit Places for an unseen area or an explicit next page - realtime refreshes reuse what we have
+      const cursors = cursorsRef.current;
+      const cursor = cursors.get(currentArea.key);
+      const shouldFetch = !cursors.has(currentArea.key) || (options.nextPage && cursor);
+      if (shouldFetch) {
+        const page = await fetchVenuePage(currentArea, currentCity, cursor ?? undefined);
+        // A newer city switch wins over this response
+        if (cityIdRef.current !== currentCity.id) return;
+        page.venues.forEach((venue) => discoveredRef.current.set(venue.id, venue));
+        cursors.set(currentArea.key, page.nextCursor);
       }
+      setHasMore(!!cursors.get(currentArea.key));
 
-      // Enhance Google Places venues with our engagement data
-      const enhancedVenues = googleVenues.map(venue => {
-        const engagement = venueEngagementMap.get(venue.id);
-        
-        if (engagement) {
-          // Boost activity score for venues with deals/engagement
-          const engagementBoost = Math.min(30, 
-            (engagement.dealCount * 5) + 
-            (engagement.recentDealCount * 10) + 
-            (engagement.favoriteCount * 2) + 
-            (engagement.shareCount * 2)
-          );
-          
-          return {
-            ...venue,
-            activity: Math.min(100, venue.activity + engagementBoost),
-          };
-        }
-        
-        return venue;
-      });
+      const discoveredVenues = Array.from(discoveredRef.current.values());
+      scoresRef.current = await fetchActivityScores(
+        discoveredVenues.flatMap((venue) => (venue.canonicalVenueId ? [venue.canonicalVenueId] : []))
+      );
+      lastFullLoadRef.current = Date.now();
 
-      // Sort by activity score
-      const sortedVenues = enhancedVenues.sort((a, b) => b.activity - a.activity);
-      
+      const sortedVenues = applyActivityScores(discoveredVenues, scoresRef.current);
       console.log(`Loaded ${sortedVenues.length} venues with activity scores`);
       setVenues(sortedVenues);
       setLastUpdated(new Date());
@@ -304,80 +304,88 @@ export const useVenueActivity = (enabled: boolean = true) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
+  // Discover venues whenever the search area (city or viewport cell) changes
   useEffect(() => {
-    // Skip initialization if disabled (deferred loading)
     if (!enabled) return;
-    
     loadVenueActivity();
+  }, [enabled, area.key, loadVenueActivity]);
+
+  useEffect(() => {
+    // Skip initialization if disabled (deferred loading)
+    if (!enabled) return;
+
+    // Score changes arrive in bursts (the server recomputes every venue at once), so they are
+    // batched and applied to the in-memory list without refetching anything
+    const coalescer = createChangeCoalescer<string, VenueActivityScore | null>({
+      delayMs: SCORE_BATCH_DELAY_MS,
+      maxWaitMs: SCORE_BATCH_MAX_WAIT_MS,
+      onFlush: (changes) => {
+        changes.forEach((score, venueId) => {
+          if (score) scoresRef.current.set(venueId, score);
+          else scoresRef.current.delete(venueId);
+        });
+        setVenues(applyActivityScores(Array.from(discoveredRef.current.values()), scoresRef.current));
+        setLastUpdated(new Date());
+      },
+    });
 
-    // Set up real-time subscription for deal changes
     const channel = supabase
       .channel('venue-activity-changes')
-      .on(
+      .on<ActivityScoreRow>(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'deals'
+          table: 'venue_activity_scores'
         },
-        () => {
-          console.log('Deal change detected, refreshing venue activity');
-          loadVenueActivity();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'user_locations'
-        },
-        () => {
-          console.log('User location update detected, refreshing venue activity');
-          loadVenueActivity();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'user_favorites'
-        },
-        () => {
-          console.log('Favorites change detected, refreshing venue activity');
-          loadVenueActivity();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'deal_shares'
-        },
-        () => {
-          console.log('Deal share detected, refreshing venue activity');
-          loadVenueActivity();
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old.venue_id) coalescer.push(payload.old.venue_id, null);
+            return;
+          }
+          // Only venues we're showing matter
+          if (!scoresRef.current.has(payload.new.venue_id) && !isDiscovered(payload.new.venue_id)) return;
+          coalescer.push(payload.new.venue_id, toActivityScore(payload.new));
         }
       )
       .subscribe();
 
-    // Listen for visibility changes to refresh on tab focus
+    // Deltas can be missed (dropped socket, background tab), so reload fully now and then
+    const maybeFullReload = () => {
+      if (Date.now() - lastFullLoadRef.current >= FULL_RELOAD_INTERVAL_MS) {
+        coalescer.cancel();
+        loadVenueActivity();
+      }
+    };
+    const reloadTimer = setInterval(() => {
+      if (document.visibilityState === "visible") maybeFullReload();
+    }, FULL_RELOAD_CHECK_MS);
+
     const handleVisibilityChange = () => {
       if (document.visibilityState === "visible") {
-        loadVenueActivity();
+        coalescer.flush();
+        maybeFullReload();
       }
     };
     document.addEventListener("visibilitychange", handleVisibilityChange);
 
     return () => {
+      coalescer.cancel();
+      clearInterval(reloadTimer);
       supabase.removeChannel(channel);
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [enabled]);
+  }, [enabled, loadVenueActivity, isDiscovered]);
+
+  const loadMore = useCallback(() => loadVenueActivity({ nextPage: true }), [loadVenueActivity]);
+
+  const refresh = useCallback(() => {
+    discoveredRef.current.clear();
+    cursorsRef.current.clear();
+    return loadVenueActivity();
+  }, [loadVenueActivity]);
 
-  return { venues, loading, error, refresh: loadVenueActivity, lastUpdated };
+  return { venues, loading, error, refresh, loadMore, hasMore, lastUpdated };
 };
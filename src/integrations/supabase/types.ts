@@ -44,6 +44,63 @@ export type Database = {
         }
         Relationships: []
       }
+      deal_redemptions: {
+        Row: {
+          claimed_at: string
+          code: string
+          deal_id: string | null
+          expires_at: string
+          id: string
+          merchant_id: string | null
+          redeemed_at: string | null
+          redeemed_by: string | null
+          status: string
+          user_id: string
+          venue_id: string | null
+        }
+        Insert: {
+          claimed_at?: string
+          code: string
+          deal_id?: string | null
+          expires_at: string
+          id?: string
+          merchant_id?: string | null
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          status?: string
+          user_id: string
+          venue_id?: string | null
+        }
+        Update: {
+          claimed_at?: string
+          code?: string
+          deal_id?: string | null
+          expires_at?: string
+          id?: string
+          merchant_id?: string | null
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          status?: string
+          user_id?: string
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_redemptions_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_redemptions_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deal_shares: {
         Row: {
           deal_id: string
@@ -73,17 +130,54 @@ export type Database = {
           },
         ]
       }
+      deal_views: {
+        Row: {
+          deal_id: string
+          id: string
+          user_id: string | null
+          viewed_at: string
+        }
+        Insert: {
+          deal_id: string
+          id?: string
+          user_id?: string | null
+          viewed_at?: string
+        }
+        Update: {
+          deal_id?: string
+          id?: string
+          user_id?: string | null
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_views_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
           active: boolean | null
           active_days: number[] | null
+          canonical_venue_id: string | null
           created_at: string | null
           deal_type: string
+          deleted_at: string | null
           description: string
           expires_at: string
           id: string
           image_url: string | null
+          moderated_at: string | null
+          moderation_note: string | null
+          moderation_status: string
           neighborhood_id: string | null
+          redemption_limit: number | null
+          redemption_limit_per_user: number | null
+          schedule: Json | null
           starts_at: string
           title: string
           updated_at: string | null
@@ -95,13 +189,21 @@ export type Database = {
         Insert: {
           active?: boolean | null
           active_days?: number[] | null
+          canonical_venue_id?: string | null
           created_at?: string | null
           deal_type: string
+          deleted_at?: string | null
           description: string
           expires_at: string
           id?: string
           image_url?: string | null
+          moderated_at?: string | null
+          moderation_note?: string | null
+          moderation_status?: string
           neighborhood_id?: string | null
+          redemption_limit?: number | null
+          redemption_limit_per_user?: number | null
+          schedule?: Json | null
           starts_at: string
           title: string
           updated_at?: string | null
@@ -113,13 +215,21 @@ export type Database = {
         Update: {
           active?: boolean | null
           active_days?: number[] | null
+          canonical_venue_id?: string | null
           created_at?: string | null
           deal_type?: string
+          deleted_at?: string | null
           description?: string
           expires_at?: string
           id?: string
           image_url?: string | null
+          moderated_at?: string | null
+          moderation_note?: string | null
+          moderation_status?: string
           neighborhood_id?: string | null
+          redemption_limit?: number | null
+          redemption_limit_per_user?: number | null
+          schedule?: Json | null
           starts_at?: string
           title?: string
           updated_at?: string | null
@@ -129,6 +239,13 @@ export type Database = {
           website_url?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "deals_canonical_venue_id_fkey"
+            columns: ["canonical_venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deals_neighborhood_id_fkey"
             columns: ["neighborhood_id"]
@@ -138,6 +255,192 @@ export type Database = {
           },
         ]
       }
+      itineraries: {
+        Row: {
+          created_at: string
+          id: string
+          owner_id: string
+          shared: boolean
+          start_at: string
+          title: string
+          travel_mode: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          owner_id: string
+          shared?: boolean
+          start_at: string
+          title?: string
+          travel_mode?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          owner_id?: string
+          shared?: boolean
+          start_at?: string
+          title?: string
+          travel_mode?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      itinerary_members: {
+        Row: {
+          itinerary_id: string
+          joined_at: string
+          user_id: string
+        }
+        Insert: {
+          itinerary_id: string
+          joined_at?: string
+          user_id: string
+        }
+        Update: {
+          itinerary_id?: string
+          joined_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "itinerary_members_itinerary_id_fkey"
+            columns: ["itinerary_id"]
+            isOneToOne: false
+            referencedRelation: "itineraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      itinerary_stops: {
+        Row: {
+          deal_id: string | null
+          id: string
+          itinerary_id: string
+          kind: string
+          lat: number
+          lng: number
+          name: string
+          opening_hours: string[] | null
+          planned_arrival: string | null
+          position: number
+          stay_minutes: number
+          venue_id: string | null
+        }
+        Insert: {
+          deal_id?: string | null
+          id?: string
+          itinerary_id: string
+          kind: string
+          lat: number
+          lng: number
+          name: string
+          opening_hours?: string[] | null
+          planned_arrival?: string | null
+          position: number
+          stay_minutes?: number
+          venue_id?: string | null
+        }
+        Update: {
+          deal_id?: string | null
+          id?: string
+          itinerary_id?: string
+          kind?: string
+          lat?: number
+          lng?: number
+          name?: string
+          opening_hours?: string[] | null
+          planned_arrival?: string | null
+          position?: number
+          stay_minutes?: number
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "itinerary_stops_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "itinerary_stops_itinerary_id_fkey"
+            columns: ["itinerary_id"]
+            isOneToOne: false
+            referencedRelation: "itineraries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "itinerary_stops_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merchant_sync_events: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          deal_id: string | null
+          direction: string
+          error: string | null
+          event_type: string
+          id: string
+          idempotency_key: string
+          merchant_id: string | null
+          next_attempt_at: string | null
+          payload: Json
+          request_hash: string | null
+          response: Json | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          deal_id?: string | null
+          direction: string
+          error?: string | null
+          event_type: string
+          id?: string
+          idempotency_key: string
+          merchant_id?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          request_hash?: string | null
+          response?: Json | null
+          response_status?: number | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          deal_id?: string | null
+          direction?: string
+          error?: string | null
+          event_type?: string
+          id?: string
+          idempotency_key?: string
+          merchant_id?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          request_hash?: string | null
+          response?: Json | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       neighborhoods: {
         Row: {
           active: boolean | null
@@ -146,8 +449,13 @@ export type Database = {
           center_lng: number
           created_at: string | null
           description: string | null
+          dwell_minutes: number | null
           id: string
           name: string
+          notification_cooldown_minutes: number
+          quiet_hours_end: number | null
+          quiet_hours_start: number | null
+          reentry_suppression_minutes: number
           slug: string
           updated_at: string | null
         }
@@ -158,8 +466,13 @@ export type Database = {
           center_lng: number
           created_at?: string | null
           description?: string | null
+          dwell_minutes?: number | null
           id?: string
           name: string
+          notification_cooldown_minutes?: number
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          reentry_suppression_minutes?: number
           slug: string
           updated_at?: string | null
         }
@@ -170,8 +483,13 @@ export type Database = {
           center_lng?: number
           created_at?: string | null
           description?: string | null
+          dwell_minutes?: number | null
           id?: string
           name?: string
+          notification_cooldown_minutes?: number
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          reentry_suppression_minutes?: number
           slug?: string
           updated_at?: string | null
         }
@@ -500,27 +818,36 @@ export type Database = {
         Row: {
           background_tracking_enabled: boolean
           created_at: string | null
+          geofence_cooldown_minutes: number
           id: string
           location_tracking_enabled: boolean
           notifications_enabled: boolean
+          quiet_hours_end: number | null
+          quiet_hours_start: number | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
           background_tracking_enabled?: boolean
           created_at?: string | null
+          geofence_cooldown_minutes?: number
           id?: string
           location_tracking_enabled?: boolean
           notifications_enabled?: boolean
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           background_tracking_enabled?: boolean
           created_at?: string | null
+          geofence_cooldown_minutes?: number
           id?: string
           location_tracking_enabled?: boolean
           notifications_enabled?: boolean
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
           updated_at?: string | null
           user_id?: string
         }
@@ -547,8 +874,105 @@ export type Database = {
         }
         Relationships: []
       }
+      venue_activity_scores: {
+        Row: {
+          computed_at: string
+          confidence: number
+          score: number
+          trend: string
+          venue_id: string
+        }
+        Insert: {
+          computed_at?: string
+          confidence: number
+          score: number
+          trend?: string
+          venue_id: string
+        }
+        Update: {
+          computed_at?: string
+          confidence?: number
+          score?: number
+          trend?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_activity_scores_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: true
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_aliases: {
+        Row: {
+          alias_type: string
+          created_at: string
+          id: string
+          match_key: string | null
+          value: string
+          venue_id: string
+        }
+        Insert: {
+          alias_type: string
+          created_at?: string
+          id?: string
+          match_key?: string | null
+          value: string
+          venue_id: string
+        }
+        Update: {
+          alias_type?: string
+          created_at?: string
+          id?: string
+          match_key?: string | null
+          value?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_aliases_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_check_ins: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_check_ins_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       venue_reviews: {
         Row: {
+          canonical_venue_id: string | null
           created_at: string
           id: string
           rating: number
@@ -559,6 +983,7 @@ export type Database = {
           venue_name: string
         }
         Insert: {
+          canonical_venue_id?: string | null
           created_at?: string
           id?: string
           rating: number
@@ -569,6 +994,7 @@ export type Database = {
           venue_name: string
         }
         Update: {
+          canonical_venue_id?: string | null
           created_at?: string
           id?: string
           rating?: number
@@ -578,7 +1004,77 @@ export type Database = {
           venue_id?: string
           venue_name?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "venue_reviews_canonical_venue_id_fkey"
+            columns: ["canonical_venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venues: {
+        Row: {
+          active: boolean
+          address: string | null
+          address_key: string | null
+          category: string | null
+          created_at: string
+          google_place_id: string | null
+          id: string
+          lat: number | null
+          lng: number | null
+          merchant_id: string | null
+          name: string
+          name_key: string | null
+          neighborhood_id: string | null
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          address_key?: string | null
+          category?: string | null
+          created_at?: string
+          google_place_id?: string | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          merchant_id?: string | null
+          name: string
+          name_key?: string | null
+          neighborhood_id?: string | null
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          address_key?: string | null
+          category?: string | null
+          created_at?: string
+          google_place_id?: string | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          merchant_id?: string | null
+          name?: string
+          name_key?: string | null
+          neighborhood_id?: string | null
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venues_neighborhood_id_fkey"
+            columns: ["neighborhood_id"]
+            isOneToOne: false
+            referencedRelation: "neighborhoods"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
@@ -659,6 +1155,7 @@ export type Database = {
       }
       venue_reviews_public: {
         Row: {
+          canonical_venue_id: string | null
           created_at: string | null
           id: string | null
           rating: number | null
@@ -668,6 +1165,7 @@ export type Database = {
           venue_name: string | null
         }
         Insert: {
+          canonical_venue_id?: string | null
           created_at?: string | null
           id?: string | null
           rating?: number | null
@@ -677,6 +1175,7 @@ export type Database = {
           venue_name?: string | null
         }
         Update: {
+          canonical_venue_id?: string | null
           created_at?: string | null
           id?: string | null
           rating?: number | null
@@ -689,6 +1188,29 @@ export type Database = {
       }
     }
     Functions: {
+      assign_venue_owner: {
+        Args: { _email: string; _venue_id: string }
+        Returns: string
+      }
+      begin_merchant_sync_event: {
+        Args: {
+          _deal_id: string
+          _event_type: string
+          _idempotency_key: string
+          _merchant_id: string
+          _payload: Json
+          _request_hash: string
+        }
+        Returns: Json
+      }
+      can_join_itinerary: {
+        Args: { _itinerary_id: string }
+        Returns: boolean
+      }
+      can_view_itinerary: {
+        Args: { _itinerary_id: string; _user_id: string }
+        Returns: boolean
+      }
       can_view_profile_field: {
         Args: { _field_name: string; _profile_id: string; _viewer_id: string }
         Returns: boolean
@@ -697,8 +1219,132 @@ export type Database = {
         Args: { _user_id: string }
         Returns: boolean
       }
+      check_in_venue: {
+        Args: { _lat: number; _lng: number; _venue_id: string }
+        Returns: string
+      }
+      claim_deal_redemption: {
+        Args: {
+          _code: string
+          _deal_id: string
+          _ttl_seconds: number
+          _user_id: string
+        }
+        Returns: Json
+      }
+      claim_merchant_webhook_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          deal_id: string | null
+          direction: string
+          error: string | null
+          event_type: string
+          id: string
+          idempotency_key: string
+          merchant_id: string | null
+          next_attempt_at: string | null
+          payload: Json
+          request_hash: string | null
+          response: Json | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }[]
+      }
       cleanup_old_search_history: { Args: never; Returns: undefined }
       cleanup_old_security_audit_logs: { Args: never; Returns: undefined }
+      compute_venue_activity_scores: { Args: never; Returns: number }
+      enqueue_merchant_performance_events: {
+        Args: { _day: string }
+        Returns: number
+      }
+      enqueue_merchant_webhook: {
+        Args: {
+          _data: Json
+          _deal_id: string
+          _event_type: string
+          _idempotency_key?: string
+        }
+        Returns: string
+      }
+      find_venue: {
+        Args: {
+          _address?: string
+          _external_id: string
+          _lat?: number
+          _lng?: number
+          _name: string
+        }
+        Returns: string
+      }
+      get_location_density_cells: {
+        Args: {
+          _day_of_week?: number
+          _hour_of_day?: number
+          _max_points_per_user?: number
+          _precision: number
+          _since?: string
+          _tiles?: string[]
+          _until?: string
+        }
+        Returns: {
+          cell_id: string
+          cell_lat: number
+          cell_lng: number
+          density: number
+          distinct_users: number
+        }[]
+      }
+      get_location_density_frames: {
+        Args: {
+          _from: string
+          _max_points_per_user?: number
+          _precision: number
+          _tiles?: string[]
+          _to: string
+        }
+        Returns: {
+          cell_id: string
+          cell_lat: number
+          cell_lng: number
+          density: number
+          distinct_users: number
+          frame_start: string
+        }[]
+      }
+      get_merchant_deal_stats: {
+        Args: { _since: string; _timezone?: string }
+        Returns: {
+          claims: number
+          day: string
+          deal_id: string
+          favorites: number
+          redemptions: number
+          shares: number
+          views: number
+        }[]
+      }
+      get_presence_profile: {
+        Args: {
+          _lat?: number
+          _lng?: number
+          _max_visits_per_user?: number
+          _neighborhood_id?: string
+          _radius_m?: number
+          _since?: string
+          _timezone: string
+        }
+        Returns: {
+          day_of_week: number
+          hour_of_day: number
+          total_users: number
+          users: number
+          visits: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -706,6 +1352,34 @@ export type Database = {
         }
         Returns: boolean
       }
+      link_discovered_venues: {
+        Args: { _venues: Json }
+        Returns: {
+          external_id: string
+          venue_id: string
+        }[]
+      }
+      manages_venue: {
+        Args: { _user_id: string; _venue_id: string }
+        Returns: boolean
+      }
+      match_venues: {
+        Args: { _venues: Json }
+        Returns: {
+          address: string
+          google_place_id: string
+          idx: number
+          name: string
+          neighborhood_id: string
+          venue_id: string
+        }[]
+      }
+      merge_venues: {
+        Args: { _source_id: string; _target_id: string }
+        Returns: undefined
+      }
+      normalize_venue_address: { Args: { _address: string }; Returns: string }
+      normalize_venue_name: { Args: { _name: string }; Returns: string }
       obfuscate_coordinates: {
         Args: { lat: number; lng: number }
         Returns: {
@@ -713,10 +1387,48 @@ export type Database = {
           obfuscated_lng: number
         }[]
       }
+      owns_itinerary: {
+        Args: { _itinerary_id: string; _user_id: string }
+        Returns: boolean
+      }
       process_location_data_retention: { Args: never; Returns: undefined }
+      record_deal_view: { Args: { _deal_id: string }; Returns: undefined }
+      redeem_deal_redemption: {
+        Args: {
+          _code: string
+          _merchant_id: string
+          _owner_id?: string
+          _redeemed_by: string
+          _redemption_id: string
+        }
+        Returns: Json
+      }
+      resolve_venue: {
+        Args: {
+          _address?: string
+          _category?: string
+          _external_id: string
+          _lat?: number
+          _lng?: number
+          _name: string
+          _neighborhood_id?: string
+        }
+        Returns: string
+      }
+      save_itinerary: {
+        Args: {
+          _id?: string
+          _shared: boolean
+          _start_at: string
+          _stops: Json
+          _title: string
+          _travel_mode: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
+      app_role: "admin" | "moderator" | "user" | "merchant"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -844,7 +1556,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
+      app_role: ["admin", "moderator", "user", "merchant"],
     },
   },
 } as const
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createChangeCoalescer } from "@/lib/change-coalescer";
+
+describe("createChangeCoalescer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setup = () => {
+    const onFlush = vi.fn<(changes: Map<string, number>) => void>();
+    const coalescer = createChangeCoalescer<string, number>({ delayMs: 100, maxWaitMs: 500, onFlush });
+    return { coalescer, onFlush };
+  };
+
+  it("flushes the latest value per key once changes stop", () => {
+    const { coalescer, onFlush } = setup();
+
+    coalescer.push("a", 1);
+    coalescer.push("b", 1);
+    vi.advanceTimersByTime(50);
+    coalescer.push("a", 2);
+    vi.advanceTimersByTime(99);
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith(new Map([["a", 2], ["b", 1]]));
+  });
+
+  it("flushes a steady stream after maxWaitMs", () => {
+    const { coalescer, onFlush } = setup();
+
+    for (let elapsed = 0; elapsed < 500; elapsed += 50) {
+      coalescer.push("a", elapsed);
+      vi.advanceTimersByTime(50);
+    }
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush.mock.calls[0][0].get("a")).toBe(450);
+  });
+
+  it("starts a fresh batch after each flush", () => {
+    const { coalescer, onFlush } = setup();
+
+    coalescer.push("a", 1);
+    coalescer.flush();
+    coalescer.push("b", 2);
+    vi.advanceTimersByTime(100);
+
+    expect(onFlush.mock.calls.map(([changes]) => [...changes.keys()])).toEqual([["a"], ["b"]]);
+  });
+
+  it("skips empty flushes and drops cancelled changes", () => {
+    const { coalescer, onFlush } = setup();
+
+    coalescer.flush();
+    coalescer.push("a", 1);
+    coalescer.cancel();
+    vi.advanceTimersByTime(1000);
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
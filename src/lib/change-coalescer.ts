@@ -0,0 +1,59 @@
+/**
+ * Coalesces bursts of keyed changes into batches.
+ * Later changes to the same key replace earlier ones, so a flush carries only the latest
+ * value per key. A batch is flushed once changes stop arriving for `delayMs`, or after
+ * `maxWaitMs` at the latest so a steady stream still gets applied.
+ */
+
+export interface ChangeCoalescer<K, V> {
+  push: (key: K, value: V) => void;
+  flush: () => void;
+  cancel: () => void;
+}
+
+interface ChangeCoalescerOptions<K, V> {
+  delayMs: number;
+  maxWaitMs: number;
+  onFlush: (changes: Map<K, V>) => void;
+}
+
+export function createChangeCoalescer<K, V>({
+  delayMs,
+  maxWaitMs,
+  onFlush,
+}: ChangeCoalescerOptions<K, V>): ChangeCoalescer<K, V> {
+  let pending = new Map<K, V>();
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let maxWaitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimers = () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    if (maxWaitTimer) clearTimeout(maxWaitTimer);
+    debounceTimer = null;
+    maxWaitTimer = null;
+  };
+
+  const flush = () => {
+    clearTimers();
+    if (pending.size === 0) return;
+
+    const changes = pending;
+    pending = new Map();
+    onFlush(changes);
+  };
+
+  return {
+    push: (key, value) => {
+      pending.set(key, value);
+
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(flush, delayMs);
+      if (!maxWaitTimer) maxWaitTimer = setTimeout(flush, maxWaitMs);
+    },
+    flush,
+    cancel: () => {
+      clearTimers();
+      pending = new Map();
+    },
+  };
+}
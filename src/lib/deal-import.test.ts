@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { buildImportRows, parseCSV, parseDealFile, type VenueMatch } from "@/lib/deal-import";
+import type { Database } from "@/integrations/supabase/types";
+
+type Deal = Database['public']['Tables']['deals']['Row'];
+
+const now = new Date("2026-03-06T12:00:00Z");
+
+const venue: VenueMatch = {
+  venue_id: "b0f1a6a4-3c1e-4d55-9a2e-5a7c7d1e0c01",
+  name: "The Anchor",
+  address: "1 Dock St",
+  google_place_id: "place-anchor",
+  neighborhood_id: null,
+};
+
+const existingDeal = (overrides: Partial<Deal> = {}): Deal => ({
+  id: "c2d7f5e8-1b3a-4f6c-8d9e-0a1b2c3d4e5f",
+  title: "Half-price oysters",
+  description: "Every oyster half price",
+  venue_name: "The Anchor",
+  venue_id: "place-anchor",
+  venue_address: "1 Dock St",
+  canonical_venue_id: venue.venue_id,
+  deal_type: "offer",
+  starts_at: "2026-03-01T00:00:00.000Z",
+  expires_at: "2026-04-01T00:00:00.000Z",
+  active_days: [0, 1, 2, 3, 4, 5, 6],
+  active: true,
+  image_url: null,
+  website_url: null,
+  neighborhood_id: null,
+  deleted_at: null,
+  ...overrides,
+} as Deal);
+
+const HEADER = "title,description,venue,type,start,end";
+const oysters = 'Half-price oysters,Every oyster half price,The Anchor,offer,2026-03-01T00:00:00Z,2026-04-01T00:00:00Z';
+
+const build = (csv: string, options: { existingDeals?: Deal[]; conflictMode?: 'skip' | 'update'; matches?: (VenueMatch | null)[] } = {}) => {
+  const deals = parseDealFile("deals.csv", csv);
+  return buildImportRows(deals, {
+    venueMatches: options.matches ?? deals.map(() => venue),
+    neighborhoods: [{ id: "6a0e8f3c-2d4b-4e1a-9c7f-3b5d8e2a1f00", name: "Harbourside", slug: "harbourside" }],
+    existingDeals: options.existingDeals ?? [],
+    conflictMode: options.conflictMode ?? 'skip',
+    now,
+  });
+};
+
+describe("parseCSV", () => {
+  it("handles quoted commas, doubled quotes and newlines", () => {
+    expect(parseCSV('a,b,c\n"1,2","say ""hi""","line\nbreak"\n')).toEqual([
+      ["a", "b", "c"],
+      ["1,2", 'say "hi"', "line\nbreak"],
+    ]);
+  });
+
+  it("accepts CRLF line endings, empty fields and a missing final newline", () => {
+    expect(parseCSV("a,b\r\n1,\r\n,2")).toEqual([
+      ["a", "b"],
+      ["1", ""],
+      ["", "2"],
+    ]);
+  });
+
+  it("skips blank lines", () => {
+    expect(parseCSV("a\n\n1\n , \n")).toEqual([["a"], ["1"]]);
+  });
+
+  it("keeps quotes that don't open a field", () => {
+    expect(parseCSV('5" pizza,x')).toEqual([['5" pizza', "x"]]);
+  });
+});
+
+describe("parseDealFile", () => {
+  it("maps header aliases and reads days and flags", () => {
+    const [deal] = parseDealFile("deals.csv", `\uFEFF${HEADER},Days,Active\n${oysters},"Mon;Fri",no`);
+
+    expect(deal.text).toMatchObject({ venue_name: "The Anchor", deal_type: "offer", starts_at: "2026-03-01T00:00:00Z" });
+    expect(deal.activeDays).toEqual([1, 5]);
+    expect(deal.active).toBe(false);
+  });
+
+  it("reads a JSON array or a {deals: [...]} object", () => {
+    const json = JSON.stringify([{ title: "A", active_days: [6, 0], active: true }]);
+
+    expect(parseDealFile("deals.json", json)[0]).toMatchObject({ line: 1, activeDays: [0, 6], active: true });
+    expect(parseDealFile("export.txt", JSON.stringify({ deals: [{ title: "B" }] }))[0].text.title).toBe("B");
+    expect(() => parseDealFile("deals.json", '{"items": []}')).toThrow();
+  });
+});
+
+describe("buildImportRows", () => {
+  it("marks an unknown deal as new and fills defaults", () => {
+    const [row] = build(`${HEADER}\n${oysters}`);
+
+    expect(row.status).toBe("new");
+    expect(row.venue).toBe("existing");
+    expect(row.record).toMatchObject({
+      canonical_venue_id: venue.venue_id,
+      venue_id: "place-anchor",
+      venue_address: "1 Dock St",
+      active: true,
+      active_days: [0, 1, 2, 3, 4, 5, 6],
+    });
+  });
+
+  it("matches an existing deal by title at the same venue", () => {
+    const existing = existingDeal();
+    const [row] = build(`${HEADER}\n${oysters}`, { existingDeals: [existing] });
+
+    expect(row.status).toBe("unchanged");
+    expect(row.record?.id).toBe(existing.id);
+  });
+
+  it("skips changed deals unless asked to update them", () => {
+    const existing = existingDeal({ description: "Oysters at half price" });
+    const csv = `${HEADER}\n${oysters}`;
+
+    const [skipped] = build(csv, { existingDeals: [existing] });
+    expect(skipped.status).toBe("skip");
+    expect(skipped.changes).toEqual([
+      { field: "description", from: "Oysters at half price", to: "Every oyster half price" },
+    ]);
+
+    const [updated] = build(csv, { existingDeals: [existing], conflictMode: 'update' });
+    expect(updated.status).toBe("update");
+    expect(updated.record?.id).toBe(existing.id);
+  });
+
+  it("keeps existing values for blank optional fields", () => {
+    const existing = existingDeal({ website_url: "https://anchor.example", active_days: [5, 6] });
+    const [row] = build(`id,${HEADER},website\n${existing.id},${oysters},`, { existingDeals: [existing] });
+
+    expect(row.status).toBe("unchanged");
+    expect(row.record).toMatchObject({ website_url: "https://anchor.example", active_days: [5, 6] });
+  });
+
+  it("refuses to bring back a deal its merchant deleted", () => {
+    const existing = existingDeal({ deleted_at: "2026-03-02T00:00:00Z" });
+    const [row] = build(`id,${HEADER}\n${existing.id},${oysters}`, { existingDeals: [existing] });
+
+    expect(row.status).toBe("invalid");
+    expect(row.errors).toContain("Deal was deleted by its merchant");
+  });
+
+  it("flags duplicates, unknown neighborhoods and unreadable values", () => {
+    const rows = build(
+      `${HEADER},neighborhood,active\n${oysters},,\n${oysters},,\nWings,Hot wings,The Anchor,offer,2026-03-01,2026-02-01,Nowhere,maybe`
+    );
+
+    expect(rows[0].status).toBe("new");
+    expect(rows[1].errors).toContain("Duplicate of row 1");
+    expect(rows[2].errors).toEqual(expect.arrayContaining([
+      'Unknown neighborhood "Nowhere"',
+      "active: expected true or false",
+      "expires_at: Expires before it starts",
+    ]));
+  });
+
+  it("maps deal types and creates venues that don't match", () => {
+    const [row] = build(`${HEADER},neighbourhood\nLive jazz,Trio from 8,Blue Room,Live Music,2026-03-01,2026-04-01,harbourside`, { matches: [null] });
+
+    expect(row.status).toBe("new");
+    expect(row.venue).toBe("new");
+    expect(row.dealType).toEqual({ from: "Live Music", to: row.record?.deal_type });
+    expect(row.record).toMatchObject({ canonical_venue_id: null, venue_id: "blue-room", neighborhood_id: "6a0e8f3c-2d4b-4e1a-9c7f-3b5d8e2a1f00" });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Bulk deal import for the admin dashboard: CSV or JSON in, one preview row per deal out.
+ * Rows are checked with importedDealSchema, deal types go through the sync webhook's mapping,
+ * and venues/neighborhoods are resolved against what already exists, so the preview shows
+ * exactly what the batch will write before anything is committed.
+ */
+
+import { slugify } from "@/utils/boundaryFormats";
+import { importedDealSchema, mapDealType, type ValidDealType } from "@/lib/deal-validation";
+import type { Database } from "@/integrations/supabase/types";
+
+type Deal = Database['public']['Tables']['deals']['Row'];
+
+const TEXT_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'venue_name',
+  'venue_id',
+  'venue_address',
+  'deal_type',
+  'starts_at',
+  'expires_at',
+  'image_url',
+  'website_url',
+  'neighborhood',
+] as const;
+
+type TextField = typeof TEXT_FIELDS[number];
+
+// Header spellings people tend to use, mapped to our column names
+const COLUMN_ALIASES: Record<string, TextField | 'active' | 'active_days'> = {
+  type: 'deal_type',
+  venue: 'venue_name',
+  address: 'venue_address',
+  place_id: 'venue_id',
+  google_place_id: 'venue_id',
+  start: 'starts_at',
+  starts: 'starts_at',
+  start_date: 'starts_at',
+  end: 'expires_at',
+  expires: 'expires_at',
+  end_date: 'expires_at',
+  days: 'active_days',
+  image: 'image_url',
+  website: 'website_url',
+  url: 'website_url',
+  neighbourhood: 'neighborhood',
+  neighborhood_id: 'neighborhood',
+  neighborhood_slug: 'neighborhood',
+};
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+// Same default run as a deal created in DealForm
+const DEFAULT_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface PreparedDeal {
+  // 1-based position among the file's deals, for error messages
+  line: number;
+  text: Record<TextField, string>;
+  // undefined when the file leaves it blank; null when it can't be read
+  active: boolean | null | undefined;
+  activeDays: number[] | null | undefined;
+}
+
+export interface VenueMatch {
+  venue_id: string;
+  name: string;
+  address: string | null;
+  google_place_id: string | null;
+  neighborhood_id: string | null;
+}
+
+export interface NeighborhoodRef {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export type ConflictMode = 'skip' | 'update';
+
+export type DealImportStatus = 'new' | 'update' | 'unchanged' | 'skip' | 'invalid';
+
+export interface DealImportChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export type DealImportRecord = Database['public']['Tables']['deals']['Insert'] & { id: string };
+
+export interface DealImportRow {
+  line: number;
+  title: string;
+  venueName: string;
+  // Whether the venue already exists or will be created on import
+  venue: 'existing' | 'new';
+  neighborhoodName: string | null;
+  // Set when the file's type was mapped to a different one
+  dealType: { from: string; to: ValidDealType } | null;
+  status: DealImportStatus;
+  errors: string[];
+  changes: DealImportChange[];
+  record: DealImportRecord | null;
+}
+
+const normalizeColumn = (key: string) => {
+  const column = key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return COLUMN_ALIASES[column] ?? column;
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(',');
+  return String(value).trim();
+};
+
+function parseBoolean(value: unknown): boolean | null | undefined {
+  if (typeof value === 'boolean') return value;
+  const text = toText(value).toLowerCase();
+  if (text === '') return undefined;
+  if (['true', 'yes', 'y', '1', 'active'].includes(text)) return true;
+  if (['false', 'no', 'n', '0', 'inactive'].includes(text)) return false;
+  return null;
+}
+
+// "1,2,3", "Mon;Tue;Fri", [1, 2] or ["mon", "tue"]; 0 = Sunday
+function parseActiveDays(value: unknown): number[] | null | undefined {
+  const tokens = Array.isArray(value)
+    ? value.map(toText)
+    : toText(value).split(/[\s,;|]+/);
+  const filled = tokens.filter((token) => token !== '');
+  if (filled.length === 0) return undefined;
+
+  const days = new Set<number>();
+  for (const token of filled) {
+    const lower = token.toLowerCase();
+    const day = /^\d$/.test(lower) ? Number(lower) : WEEKDAY_NAMES.indexOf(lower.slice(0, 3));
+    if (day < 0 || day > 6) return null;
+    days.add(day);
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function readRecords(fileName: string, text: string): Record<string, unknown>[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const trimmed = content.trimStart();
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed: unknown = JSON.parse(content);
+    // A bare array, or {"deals": [...]} as exported by other tools
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { deals?: unknown } | null)?.deals;
+    if (!Array.isArray(list)) throw new Error('Expected an array of deals');
+    return list.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  }
+
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return [];
+  return rows.map((cells) => Object.fromEntries(header.map((key, i) => [key, cells[i] ?? ''])));
+}
+
+/**
+ * Reads a CSV (header row) or JSON file into one PreparedDeal per deal. Throws when the
+ * file can't be parsed at all; problems with individual rows are reported by buildImportRows.
+ */
+export function parseDealFile(fileName: string, text: string): PreparedDeal[] {
+  return readRecords(fileName, text).map((record, index) => {
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      values[normalizeColumn(key)] = value;
+    }
+
+    const prepared: PreparedDeal = {
+      line: index + 1,
+      text: Object.fromEntries(TEXT_FIELDS.map((field) => [field, toText(values[field])])) as Record<TextField, string>,
+      active: parseBoolean(values.active),
+      activeDays: parseActiveDays(values.active_days),
+    };
+    return prepared;
+  });
+}
+
+// Input for the match_venues RPC, in the same order as the prepared deals
+export const toVenueLookups = (deals: PreparedDeal[]) =>
+  deals.map((deal) => ({
+    external_id: deal.text.venue_id,
+    name: deal.text.venue_name,
+    address: deal.text.venue_address,
+  }));
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function findNeighborhood(value: string, neighborhoods: NeighborhoodRef[]): NeighborhoodRef | undefined {
+  const lower = value.toLowerCase();
+  const slug = slugify(value);
+  return neighborhoods.find((n) => n.id === lower || n.slug === slug || n.name.toLowerCase() === lower);
+}
+
+function toIsoDate(value: string): string | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(',');
+  return String(value);
+};
+
+// Fields compared for the update diff, with how to read them for comparison
+const DIFF_FIELDS: { field: keyof DealImportRecord & keyof Deal; compare?: (value: unknown) => unknown }[] = [
+  { field: 'title' },
+  { field: 'description' },
+  { field: 'venue_name' },
+  { field: 'venue_id' },
+  { field: 'venue_address' },
+  { field: 'deal_type' },
+  { field: 'starts_at', compare: (value) => (value ? new Date(String(value)).getTime() : null) },
+  { field: 'expires_at', compare: (value) => (value ? new Date(String(value)).getTime() : null) },
+  { field: 'active_days', compare: (value) => formatValue(value) },
+  { field: 'active' },
+  { field: 'image_url' },
+  { field: 'website_url' },
+  { field: 'neighborhood_id' },
+];
+
+function diffDeal(existing: Deal, record: DealImportRecord, neighborhoods: NeighborhoodRef[]): DealImportChange[] {
+  const neighborhoodName = (id: unknown) => neighborhoods.find((n) => n.id === id)?.name ?? id;
+
+  return DIFF_FIELDS.flatMap(({ field, compare = (value) => value ?? null }) => {
+    const before = existing[field];
+    const after = record[field];
+    if (compare(before) === compare(after)) return [];
+
+    const show = field === 'neighborhood_id' ? neighborhoodName : (value: unknown) => value;
+    return [{ field, from: formatValue(show(before)), to: formatValue(show(after)) }];
+  });
+}
+
+interface BuildContext {
+  // One entry per prepared deal; null when no venue matched
+  venueMatches: (VenueMatch | null)[];
+  neighborhoods: NeighborhoodRef[];
+  existingDeals: Deal[];
+  conflictMode: ConflictMode;
+  now?: Date;
+}
+
+/**
+ * Validates each prepared deal and works out what importing it would do. Existing deals are
+ * matched by id, or by title at the same venue; blank optional fields keep the existing value.
+ */
+export function buildImportRows(deals: PreparedDeal[], context: BuildContext): DealImportRow[] {
+  const { venueMatches, neighborhoods, existingDeals, conflictMode, now = new Date() } = context;
+  const byId = new Map(existingDeals.map((deal) => [deal.id, deal]));
+  const seen = new Map<string, number>();
+
+  return deals.map((deal, index) => {
+    const { text } = deal;
+    const match = venueMatches[index] ?? null;
+    const errors: string[] = [];
+
+    const existing = text.id
+      ? byId.get(text.id.toLowerCase())
+      : match
+        ? existingDeals.find((candidate) =>
+          !candidate.deleted_at
+          && candidate.canonical_venue_id === match.venue_id
+          && normalizeTitle(candidate.title) === normalizeTitle(text.title))
+        : undefined;
+
+    // The same deal twice in one file would make the batch ambiguous
+    const key = text.id
+      ? text.id.toLowerCase()
+      : `${match?.venue_id ?? (text.venue_id || slugify(text.venue_name))}|${normalizeTitle(text.title)}`;
+    const duplicateOf = seen.get(key);
+    if (duplicateOf !== undefined) errors.push(`Duplicate of row ${duplicateOf}`);
+    else seen.set(key, deal.line);
+
+    if (existing?.deleted_at) errors.push('Deal was deleted by its merchant');
+
+    let neighborhood: NeighborhoodRef | undefined;
+    if (text.neighborhood) {
+      neighborhood = findNeighborhood(text.neighborhood, neighborhoods);
+      if (!neighborhood) errors.push(`Unknown neighborhood "${text.neighborhood}"`);
+    }
+
+    if (deal.active === null) errors.push('active: expected true or false');
+    if (deal.activeDays === null) errors.push('active_days: expected weekday numbers (0 = Sunday) or names');
+
+    const startsAt = text.starts_at ? toIsoDate(text.starts_at) : existing?.starts_at ?? now.toISOString();
+    const expiresAt = text.expires_at
+      ? toIsoDate(text.expires_at)
+      : existing?.expires_at ?? new Date(now.getTime() + DEFAULT_DURATION_MS).toISOString();
+    if (!startsAt) errors.push('starts_at: not a valid date');
+    if (!expiresAt) errors.push('expires_at: not a valid date');
+
+    const mappedType = text.deal_type ? mapDealType(text.deal_type) : null;
+    const venueId = text.venue_id
+      || (existing && existing.canonical_venue_id === (match?.venue_id ?? null) ? existing.venue_id : '')
+      || match?.google_place_id
+      || match?.venue_id
+      || slugify(text.venue_name);
+
+    const candidate = {
+      id: text.id || undefined,
+      title: text.title,
+      description: text.description,
+      venue_name: text.venue_name,
+      venue_id: venueId,
+      venue_address: text.venue_address || undefined,
+      deal_type: mappedType ?? '',
+      starts_at: startsAt ?? text.starts_at,
+      expires_at: expiresAt ?? text.expires_at,
+      active_days: deal.activeDays ?? undefined,
+      active: deal.active ?? existing?.active ?? true,
+      image_url: text.image_url || undefined,
+      website_url: text.website_url || undefined,
+      neighborhood_id: neighborhood?.id ?? null,
+    };
+
+    const parsed = importedDealSchema.safeParse(candidate);
+    if (!parsed.success) {
+      errors.push(...parsed.error.errors.map((e) => (e.path.length ? `${e.path.join('.')}: ${e.message}` : e.message)));
+    }
+
+    const base = {
+      line: deal.line,
+      title: text.title || '(untitled)',
+      venueName: match?.name ?? text.venue_name,
+      venue: match ? 'existing' as const : 'new' as const,
+      neighborhoodName: neighborhood?.name ?? null,
+      dealType: mappedType && mappedType !== text.deal_type ? { from: text.deal_type, to: mappedType } : null,
+    };
+
+    if (errors.length > 0 || !parsed.success) {
+      return { ...base, status: 'invalid', errors, changes: [], record: null };
+    }
+
+    const valid = parsed.data;
+    const record: DealImportRecord = {
+      id: existing?.id ?? valid.id ?? crypto.randomUUID(),
+      title: valid.title,
+      description: valid.description,
+      venue_name: valid.venue_name,
+      venue_id: valid.venue_id,
+      venue_address: valid.venue_address ?? existing?.venue_address ?? match?.address ?? null,
+      // Left null for new venues so the deals trigger resolves (and creates) one
+      canonical_venue_id: match?.venue_id ?? null,
+      deal_type: valid.deal_type,
+      starts_at: valid.starts_at,
+      expires_at: valid.expires_at,
+      active_days: valid.active_days ?? existing?.active_days ?? ALL_DAYS,
+      active: valid.active,
+      image_url: valid.image_url || existing?.image_url || null,
+      website_url: valid.website_url || existing?.website_url || null,
+      neighborhood_id: valid.neighborhood_id ?? existing?.neighborhood_id ?? match?.neighborhood_id ?? null,
+    };
+
+    if (!existing) {
+      return { ...base, status: 'new', errors, changes: [], record };
+    }
+
+    const changes = diffDeal(existing, record, neighborhoods);
+    const status: DealImportStatus = changes.length === 0
+      ? 'unchanged'
+      : conflictMode === 'update' ? 'update' : 'skip';
+    return { ...base, status, errors, changes, record };
+  });
+}
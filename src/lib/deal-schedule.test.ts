@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TRANSITION_DELAY_MS, getNextDealTransition, getTransitionDelay } from "@/lib/deal-schedule";
+
+const now = new Date("2026-03-06T12:00:00Z");
+
+describe("getTransitionDelay", () => {
+  it("stays within setTimeout's range for a 30-day all-day deal", () => {
+    // A legacy deal with DealForm's default 30-day run is open past the lookahead, so its next
+    // transition is its expiry
+    const deal = {
+      active: true,
+      starts_at: "2026-03-01T00:00:00Z",
+      expires_at: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+      active_days: null,
+    };
+    const next = getNextDealTransition([deal], now, "UTC");
+
+    expect(next).toEqual(new Date(deal.expires_at));
+    const delay = getTransitionDelay(next!, now.getTime());
+    expect(delay).toBeLessThanOrEqual(2 ** 31 - 1);
+    expect(delay).toBe(MAX_TRANSITION_DELAY_MS);
+  });
+
+  it("waits until a nearby transition, but at least a second", () => {
+    expect(getTransitionDelay(new Date(now.getTime() + 90 * 60 * 1000), now.getTime())).toBe(90 * 60 * 1000);
+    expect(getTransitionDelay(new Date(now.getTime() - 5000), now.getTime())).toBe(1000);
+  });
+});
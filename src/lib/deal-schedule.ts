@@ -0,0 +1,17 @@
+// The deal schedule evaluator lives with the edge functions so check-geofence and the app
+// agree on when a deal is live; re-exported here for "@/lib" imports.
+export * from "../../supabase/functions/_shared/deal-schedule.ts";
+
+// Deals without a schedule are read as whole days in the viewer's own timezone
+export const DEVICE_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// setTimeout fires straight away for delays past 2^31-1 ms (about 24.8 days), so transitions
+// further off than this are re-checked after a day instead
+export const MAX_TRANSITION_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * setTimeout delay until a "live now" list should be re-evaluated for a transition at next
+ */
+export function getTransitionDelay(next: Date, now: number = Date.now()): number {
+  return Math.min(MAX_TRANSITION_DELAY_MS, Math.max(1000, next.getTime() - now));
+}
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { MerchantDealSchema } from "../../supabase/functions/_shared/merchant-deal.ts";
+
+// Same deal_type mapping as the merchant sync webhook
+export * from "../../supabase/functions/_shared/deal-types.ts";
+
+// What DealForm accepts
+export const dealSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(1000),
+  venue_name: z.string().min(1).max(200),
+  venue_id: z.string().min(1).max(200),
+  deal_type: z.string().min(1).max(100),
+  website_url: z.string().url().optional().or(z.literal('')),
+  image_url: z.string().url().optional().or(z.literal('')),
+  redemption_limit_per_user: z.number().int().positive().nullable(),
+  redemption_limit: z.number().int().positive().nullable(),
+});
+
+/**
+ * Bulk-imported deals: the payload sync-merchant-deals accepts, with an optional id and DealForm's
+ * tighter text limits, so an import can't store anything the form or the sync would reject.
+ */
+export const importedDealSchema = MerchantDealSchema
+  .omit({ merchant_id: true })
+  .extend({
+    id: MerchantDealSchema.shape.id.optional(),
+    title: dealSchema.shape.title,
+    description: dealSchema.shape.description,
+    venue_name: dealSchema.shape.venue_name,
+    venue_id: dealSchema.shape.venue_id,
+    website_url: MerchantDealSchema.shape.website_url.or(z.literal('')),
+    image_url: MerchantDealSchema.shape.image_url.or(z.literal('')),
+  })
+  .refine((deal) => new Date(deal.expires_at) > new Date(deal.starts_at), {
+    message: 'Expires before it starts',
+    path: ['expires_at'],
+  });
+
+export type ImportedDeal = z.infer<typeof importedDealSchema>;
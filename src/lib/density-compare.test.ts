@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDensityDelta,
+  compareDensityStats,
+  describeDensityWindow,
+  toDensityFilters,
+} from "@/lib/density-compare";
+import type { DensityData } from "@/hooks/useLocationDensity";
+
+const privacy = { k_anonymity: 5, epsilon: 1, max_contribution_per_user: 5 };
+
+const snapshot = (cells: Record<string, number>, precision = 7): DensityData => ({
+  geojson: {
+    type: "FeatureCollection",
+    features: Object.entries(cells).map(([cellId, density], i) => ({
+      type: "Feature",
+      properties: { cell_id: cellId, density },
+      geometry: { type: "Point", coordinates: [-74 + i * 0.01, 40.7] },
+    })),
+  },
+  stats: { total_points: 0, grid_cells: 0, max_density: 0, avg_density: 0 },
+  privacy,
+  precision,
+});
+
+describe("toDensityFilters", () => {
+  // A Wednesday afternoon, local time
+  const now = new Date(2026, 2, 4, 15, 20);
+
+  it("passes a plain time filter through", () => {
+    expect(toDensityFilters({ timeFilter: "this_week" }, now)).toEqual({ timeFilter: "this_week" });
+  });
+
+  it("converts a local weekday and hour into the current week's UTC slot", () => {
+    const fridayNight = new Date(2026, 2, 6, 23);
+
+    expect(toDensityFilters({ timeFilter: "all", dayOfWeek: 5, hourOfDay: 23 }, now)).toEqual({
+      timeFilter: "all",
+      dayOfWeek: fridayNight.getUTCDay(),
+      hourOfDay: fridayNight.getUTCHours(),
+    });
+  });
+
+  it("anchors a weekday on its own at midday", () => {
+    const mondayNoon = new Date(2026, 2, 2, 12);
+
+    expect(toDensityFilters({ timeFilter: "all", dayOfWeek: 1 }, now)).toEqual({
+      timeFilter: "all",
+      dayOfWeek: mondayNoon.getUTCDay(),
+      hourOfDay: undefined,
+    });
+  });
+});
+
+describe("describeDensityWindow", () => {
+  it("names the range and leaves out All Time once a slot narrows it", () => {
+    expect(describeDensityWindow({ timeFilter: "last_week" })).toBe("Last Week");
+    expect(describeDensityWindow({ timeFilter: "all", dayOfWeek: 5 })).toBe("Fri");
+    expect(describeDensityWindow({ timeFilter: "this_week", dayOfWeek: 6 })).toBe("This Week · Sat");
+  });
+});
+
+describe("buildDensityDelta", () => {
+  it("reports the change per cell, including cells only on one side", () => {
+    const delta = buildDensityDelta(snapshot({ a: 40, b: 30 }), snapshot({ a: 80, c: 20 }))!;
+    const byCell = Object.fromEntries(delta.features.map((feature) => [feature.id, feature.properties]));
+
+    expect(byCell.a).toMatchObject({ density_a: 40, density_b: 80, delta: 40, change: 0.5 });
+    expect(byCell.b).toMatchObject({ density_a: 30, density_b: 0, delta: -30, change: -1 });
+    expect(byCell.c).toMatchObject({ density_a: 0, density_b: 20, delta: 20, change: 1 });
+  });
+
+  it("treats differences within the noise as unchanged", () => {
+    const delta = buildDensityDelta(snapshot({ a: 40 }), snapshot({ a: 48 }))!;
+
+    expect(delta.features[0].properties).toMatchObject({ delta: 8, change: 0 });
+  });
+
+  it("refuses snapshots aggregated at different cell sizes", () => {
+    expect(buildDensityDelta(snapshot({ a: 1 }, 6), snapshot({ a: 1 }, 7))).toBeNull();
+  });
+});
+
+describe("compareDensityStats", () => {
+  it("gives the relative change, or null when A is empty", () => {
+    const rows = compareDensityStats(
+      { total_points: 0, grid_cells: 10, max_density: 20, avg_density: 4.44 },
+      { total_points: 50, grid_cells: 15, max_density: 10, avg_density: 5.56 }
+    );
+
+    expect(rows).toEqual([
+      { label: "Hotspots", a: 10, b: 15, change: 0.5 },
+      { label: "Data Points", a: 0, b: 50, change: null },
+      { label: "Peak Density", a: 20, b: 10, change: -0.5 },
+      { label: "Avg Density", a: 4.4, b: 5.6, change: expect.closeTo(0.2727, 3) },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Density heatmap compare helpers
+ * Compare mode loads two density snapshots (A and B) for different time windows and shows them
+ * side by side or as a per-cell change from A to B. Windows are picked in the viewer's local
+ * time; get-location-density filters on UTC hours and weekdays, so they are converted first.
+ */
+
+import type { DensityData, DensityTimeFilter } from "@/hooks/useLocationDensity";
+
+export interface DensityWindow {
+  timeFilter: DensityTimeFilter;
+  // Local weekday (0 = Sunday) and hour
+  dayOfWeek?: number;
+  hourOfDay?: number;
+}
+
+export type DensityCompareView = 'split' | 'delta';
+
+export interface DensityComparison {
+  view: DensityCompareView;
+  a: DensityWindow;
+  b: DensityWindow;
+}
+
+export interface DensityComparePreset {
+  label: string;
+  a: DensityWindow;
+  b: DensityWindow;
+}
+
+export const DENSITY_COMPARE_PRESETS: DensityComparePreset[] = [
+  { label: 'Last week vs this week', a: { timeFilter: 'last_week' }, b: { timeFilter: 'this_week' } },
+  {
+    label: 'Fri vs Sat 11pm',
+    a: { timeFilter: 'all', dayOfWeek: 5, hourOfDay: 23 },
+    b: { timeFilter: 'all', dayOfWeek: 6, hourOfDay: 23 },
+  },
+  {
+    label: 'Thu vs Fri 10pm',
+    a: { timeFilter: 'all', dayOfWeek: 4, hourOfDay: 22 },
+    b: { timeFilter: 'all', dayOfWeek: 5, hourOfDay: 22 },
+  },
+];
+
+export const DEFAULT_DENSITY_COMPARISON: DensityComparison = {
+  view: 'split',
+  a: DENSITY_COMPARE_PRESETS[0].a,
+  b: DENSITY_COMPARE_PRESETS[0].b,
+};
+
+export const DENSITY_TIME_FILTER_LABELS: Record<DensityTimeFilter, string> = {
+  all: 'All Time',
+  today: 'Today',
+  this_week: 'This Week',
+  last_week: 'Last Week',
+  this_hour: 'This Hour',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function formatHourOfDay(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+}
+
+/**
+ * Filters for useLocationDensity. The local weekday and hour are placed in the current week
+ * and read back in UTC; a weekday on its own is anchored at midday so most of it lands on
+ * the same UTC date.
+ */
+export function toDensityFilters(window: DensityWindow, now: Date = new Date()) {
+  if (window.dayOfWeek === undefined && window.hourOfDay === undefined) {
+    return { timeFilter: window.timeFilter };
+  }
+
+  const slot = new Date(now);
+  slot.setDate(now.getDate() + (window.dayOfWeek ?? now.getDay()) - now.getDay());
+  slot.setHours(window.hourOfDay ?? 12, 0, 0, 0);
+
+  return {
+    timeFilter: window.timeFilter,
+    dayOfWeek: window.dayOfWeek !== undefined ? slot.getUTCDay() : undefined,
+    hourOfDay: window.hourOfDay !== undefined ? slot.getUTCHours() : undefined,
+  };
+}
+
+export function describeDensityWindow(window: DensityWindow): string {
+  const slot = [
+    window.dayOfWeek !== undefined ? WEEKDAY_LABELS[window.dayOfWeek] : null,
+    window.hourOfDay !== undefined ? formatHourOfDay(window.hourOfDay) : null,
+  ].filter(Boolean).join(' ');
+
+  // "All Time" adds nothing once a weekday or hour narrows the window
+  if (!slot) return DENSITY_TIME_FILTER_LABELS[window.timeFilter];
+  if (window.timeFilter === 'all') return slot;
+  return `${DENSITY_TIME_FILTER_LABELS[window.timeFilter]} · ${slot}`;
+}
+
+/**
+ * Per-cell change from snapshot A to B. Published counts carry Laplace noise, so differences
+ * within about one standard deviation of the noise on a difference are reported as unchanged.
+ * Returns null when the snapshots were aggregated at different cell sizes (mid-zoom).
+ */
+export function buildDensityDelta(a: DensityData, b: DensityData): GeoJSON.FeatureCollection<GeoJSON.Point> | null {
+  if (a.precision !== b.precision) return null;
+
+  const cells = new Map<string, { coordinates: GeoJSON.Position; a: number; b: number }>();
+  const collect = (data: DensityData, side: 'a' | 'b') => {
+    for (const feature of (data.geojson?.features ?? []) as GeoJSON.Feature[]) {
+      const cellId = feature.properties?.cell_id;
+      if (typeof cellId !== 'string' || feature.geometry.type !== 'Point') continue;
+      const cell = cells.get(cellId) ?? { coordinates: feature.geometry.coordinates, a: 0, b: 0 };
+      cell[side] += Number(feature.properties?.density) || 0;
+      cells.set(cellId, cell);
+    }
+  };
+  collect(a, 'a');
+  collect(b, 'b');
+
+  const privacy = a.privacy ?? b.privacy;
+  // Laplace(s) has standard deviation s√2, so the difference of two draws has 2s
+  const noiseFloor = privacy ? (2 * privacy.max_contribution_per_user) / privacy.epsilon : 0;
+
+  const features: GeoJSON.Feature<GeoJSON.Point>[] = [];
+  for (const [cellId, cell] of cells) {
+    const delta = cell.b - cell.a;
+    const significant = Math.abs(delta) > noiseFloor;
+    features.push({
+      type: 'Feature',
+      id: cellId,
+      properties: {
+        cell_id: cellId,
+        density_a: cell.a,
+        density_b: cell.b,
+        delta,
+        magnitude: Math.abs(delta),
+        // -1 (only in A) .. 1 (only in B), drives the diverging color ramp
+        change: significant ? delta / Math.max(cell.a, cell.b) : 0,
+      },
+      geometry: { type: 'Point', coordinates: cell.coordinates },
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+export interface DensityStatComparison {
+  label: string;
+  a: number;
+  b: number;
+  // Relative change from A to B, or null when A is empty
+  change: number | null;
+}
+
+export function compareDensityStats(a: DensityData['stats'], b: DensityData['stats']): DensityStatComparison[] {
+  const row = (label: string, valueA: number, valueB: number): DensityStatComparison => ({
+    label,
+    a: valueA,
+    b: valueB,
+    change: valueA > 0 ? (valueB - valueA) / valueA : null,
+  });
+
+  return [
+    row('Hotspots', a.grid_cells, b.grid_cells),
+    row('Data Points', a.total_points, b.total_points),
+    row('Peak Density', a.max_density, b.max_density),
+    row('Avg Density', Math.round(a.avg_density * 10) / 10, Math.round(b.avg_density * 10) / 10),
+  ];
+}
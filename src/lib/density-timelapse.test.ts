@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type * as MapboxGL from "mapbox-gl";
+import {
+  getTimelapseRangeLabel,
+  getTimelapseWindow,
+  interpolateDensityFrames,
+  recordTimelapseVideo,
+  type DensityFrame,
+} from "@/lib/density-timelapse";
+
+const frames: DensityFrame[] = [
+  { start: "2026-03-06T20:00:00Z", cells: [{ id: "a", lat: 40.7, lng: -74, density: 10 }, { id: "b", lat: 40.8, lng: -74, density: 4 }] },
+  { start: "2026-03-06T21:00:00Z", cells: [{ id: "a", lat: 40.7, lng: -74, density: 20 }, { id: "c", lat: 40.9, lng: -74, density: 6 }] },
+];
+
+const densities = (position: number) =>
+  Object.fromEntries(interpolateDensityFrames(frames, position).features.map((feature) => [feature.id, feature.properties.density]));
+
+describe("getTimelapseWindow", () => {
+  const now = new Date(2026, 2, 6, 15, 40);
+
+  it("stops today at the current hour", () => {
+    expect(getTimelapseWindow({ kind: "day", daysAgo: 0 }, now)).toEqual({ from: new Date(2026, 2, 6), hours: 16 });
+  });
+
+  it("covers whole earlier days", () => {
+    expect(getTimelapseWindow({ kind: "day", daysAgo: 2 }, now)).toEqual({ from: new Date(2026, 2, 4), hours: 24 });
+  });
+
+  it("ends the week at the current hour", () => {
+    const { from, hours } = getTimelapseWindow({ kind: "week" }, now);
+
+    expect(hours).toBe(168);
+    expect(from.getTime() + 167 * 60 * 60 * 1000).toBe(new Date(2026, 2, 6, 15).getTime());
+  });
+
+  it("labels recent days by name", () => {
+    expect(getTimelapseRangeLabel({ kind: "day", daysAgo: 0 }, now)).toBe("Today");
+    expect(getTimelapseRangeLabel({ kind: "day", daysAgo: 1 }, now)).toBe("Yesterday");
+    expect(getTimelapseRangeLabel({ kind: "week" }, now)).toBe("Past 7 days");
+  });
+});
+
+describe("interpolateDensityFrames", () => {
+  it("shows a whole frame at integer positions", () => {
+    expect(densities(0)).toEqual({ a: 10, b: 4 });
+    expect(densities(1)).toEqual({ a: 20, c: 6 });
+  });
+
+  it("blends neighbouring frames, fading cells in and out", () => {
+    expect(densities(0.5)).toEqual({ a: 15, b: 2, c: 3 });
+  });
+
+  it("clamps positions outside the frames", () => {
+    expect(densities(-1)).toEqual({ a: 10, b: 4 });
+    expect(densities(5)).toEqual({ a: 20, c: 6 });
+  });
+});
+
+describe("recordTimelapseVideo", () => {
+  // A map that never finishes loading its tiles
+  const stalledMap = () =>
+    ({
+      getCanvas: () => document.createElement("canvas"),
+      once: vi.fn(),
+      off: vi.fn(),
+      triggerRepaint: vi.fn(),
+    }) as unknown as MapboxGL.Map;
+
+  const record = (map: MapboxGL.Map, signal?: AbortSignal) =>
+    recordTimelapseVideo({
+      map,
+      frameCount: 2,
+      stepsPerFrame: 1,
+      fps: 30,
+      renderPosition: () => {},
+      drawOverlay: () => {},
+      signal,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal(
+      "MediaRecorder",
+      class {
+        static isTypeSupported = () => true;
+        ondataavailable: ((event: { data: Blob }) => void) | null = null;
+        onstop: (() => void) | null = null;
+        start() {}
+        stop() {
+          this.onstop?.();
+        }
+      }
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({} as CanvasRenderingContext2D);
+    HTMLCanvasElement.prototype.captureStream = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("stops waiting for the map when the export is cancelled", async () => {
+    const map = stalledMap();
+    const controller = new AbortController();
+    const recording = record(map, controller.signal);
+
+    controller.abort();
+
+    await expect(recording).rejects.toMatchObject({ name: "AbortError" });
+    expect(map.off).toHaveBeenCalledWith("idle", expect.any(Function));
+  });
+
+  it("fails a frame the map never draws", async () => {
+    const recording = record(stalledMap());
+    const outcome = expect(recording).rejects.toThrow("The map took too long to render a frame");
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    await outcome;
+  });
+});
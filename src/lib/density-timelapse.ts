@@ -0,0 +1,231 @@
+/**
+ * Density heatmap time-lapse helpers
+ * Frames come from get-location-density (mode=frames), one per hour. Playback runs on a
+ * fractional position so the heatmap can blend smoothly between neighbouring hours.
+ */
+
+import type * as MapboxGL from "mapbox-gl";
+
+export interface DensityFrameCell {
+  id: string;
+  lat: number;
+  lng: number;
+  density: number;
+}
+
+export interface DensityFrame {
+  start: string;
+  cells: DensityFrameCell[];
+}
+
+export type TimelapseRange =
+  | { kind: 'day'; daysAgo: number }
+  | { kind: 'week' };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Start and length (in hourly frames) of a range, in the viewer's local time
+ */
+export function getTimelapseWindow(range: TimelapseRange, now: Date = new Date()): { from: Date; hours: number } {
+  const currentHour = new Date(now);
+  currentHour.setMinutes(0, 0, 0);
+
+  if (range.kind === 'week') {
+    return { from: new Date(currentHour.getTime() - 167 * HOUR_MS), hours: 168 };
+  }
+
+  const from = new Date(now);
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - range.daysAgo);
+
+  // Today stops at the current hour - later frames would always be empty
+  const elapsed = Math.floor((currentHour.getTime() - from.getTime()) / HOUR_MS) + 1;
+  return { from, hours: Math.min(24, elapsed) };
+}
+
+export function getTimelapseRangeLabel(range: TimelapseRange, now: Date = new Date()): string {
+  if (range.kind === 'week') return 'Past 7 days';
+  if (range.daysAgo === 0) return 'Today';
+  if (range.daysAgo === 1) return 'Yesterday';
+
+  const day = new Date(now);
+  day.setDate(day.getDate() - range.daysAgo);
+  return day.toLocaleDateString([], { weekday: 'long' });
+}
+
+/**
+ * Timestamp shown on the map for a playback position
+ */
+export function formatTimelapseTime(frames: DensityFrame[], position: number): string {
+  if (frames.length === 0) return '';
+  const time = new Date(new Date(frames[0].start).getTime() + position * HOUR_MS);
+  return time.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Blend the two frames around a fractional position into heatmap GeoJSON.
+ * Cells present in only one frame fade in or out.
+ */
+export function interpolateDensityFrames(frames: DensityFrame[], position: number) {
+  const index = Math.max(0, Math.min(frames.length - 1, Math.floor(position)));
+  const next = Math.min(frames.length - 1, index + 1);
+  // Past the last frame (or with a single one) there is nothing to blend towards
+  const t = next === index ? 0 : Math.max(0, Math.min(1, position - index));
+
+  const cells = new Map<string, { lat: number; lng: number; density: number }>();
+  for (const cell of frames[index]?.cells ?? []) {
+    cells.set(cell.id, { lat: cell.lat, lng: cell.lng, density: cell.density * (1 - t) });
+  }
+  if (t > 0 && next !== index) {
+    for (const cell of frames[next].cells) {
+      const existing = cells.get(cell.id);
+      if (existing) {
+        existing.density += cell.density * t;
+      } else {
+        cells.set(cell.id, { lat: cell.lat, lng: cell.lng, density: cell.density * t });
+      }
+    }
+  }
+
+  const features = [];
+  for (const [id, cell] of cells) {
+    if (cell.density <= 0) continue;
+    features.push({
+      type: 'Feature' as const,
+      id,
+      properties: {
+        cell_id: id,
+        density: cell.density,
+        intensity: Math.min(cell.density / 10, 1), // Same normalization as get-location-density
+      },
+      geometry: {
+        type: 'Point' as const,
+        coordinates: [cell.lng, cell.lat],
+      },
+    });
+  }
+
+  return { type: 'FeatureCollection' as const, features };
+}
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function getSupportedVideoMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+interface RecordTimelapseOptions {
+  map: MapboxGL.Map;
+  frameCount: number;
+  // Video frames rendered per hourly data frame
+  stepsPerFrame: number;
+  fps: number;
+  renderPosition: (position: number) => void;
+  drawOverlay: (ctx: CanvasRenderingContext2D, position: number) => void;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// A step whose map hasn't drawn by then (e.g. tiles that never load) fails the export
+const FRAME_TIMEOUT_MS = 15_000;
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+// Resolves once the map has drawn the current data. The WebGL buffer is only valid inside
+// the render event, so the frame is copied there. Cancelling or timing out stops the wait.
+const captureMapFrame = (map: MapboxGL.Map, ctx: CanvasRenderingContext2D, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      map.off('idle', onIdle);
+      map.off('render', onRender);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onRender = () => {
+      cleanup();
+      ctx.drawImage(map.getCanvas(), 0, 0, ctx.canvas.width, ctx.canvas.height);
+      resolve();
+    };
+    const onIdle = () => {
+      map.once('render', onRender);
+      map.triggerRepaint();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('The map took too long to render a frame'));
+    }, FRAME_TIMEOUT_MS);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    map.once('idle', onIdle);
+    map.triggerRepaint();
+  });
+
+/**
+ * Play the time-lapse through the map once and record it as a WebM video
+ */
+export async function recordTimelapseVideo({
+  map,
+  frameCount,
+  stepsPerFrame,
+  fps,
+  renderPosition,
+  drawOverlay,
+  onProgress,
+  signal,
+}: RecordTimelapseOptions): Promise<Blob> {
+  const mimeType = getSupportedVideoMimeType();
+  if (!mimeType) throw new Error('Video export is not supported in this browser');
+
+  const mapCanvas = map.getCanvas();
+  const canvas = document.createElement('canvas');
+  canvas.width = mapCanvas.width;
+  canvas.height = mapCanvas.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+
+  const totalSteps = Math.max(1, (frameCount - 1) * stepsPerFrame);
+  try {
+    for (let step = 0; step <= totalSteps; step++) {
+      if (signal?.aborted) throw abortError();
+
+      const position = step / stepsPerFrame;
+      const stepStarted = performance.now();
+
+      renderPosition(position);
+      await captureMapFrame(map, ctx, signal);
+      drawOverlay(ctx, position);
+      onProgress?.(step / totalSteps);
+
+      // The recorder samples the canvas in real time, so hold each step for its share of a second
+      const remaining = 1000 / fps - (performance.now() - stepStarted);
+      if (remaining > 0) await new Promise((resolve) => setTimeout(resolve, remaining));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
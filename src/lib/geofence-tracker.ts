@@ -0,0 +1,102 @@
+import { Capacitor } from '@capacitor/core';
+import { Geolocation, Position } from '@capacitor/geolocation';
+import { calculateDistance } from '@/utils/geospatialUtils';
+
+export interface TrackedPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: number; // epoch ms
+}
+
+// Movement smaller than this is treated as GPS jitter
+export const MIN_MOVEMENT_METERS = 75;
+
+// Never check more often than this, however far the user moved
+export const MIN_CHECK_INTERVAL_MS = 60 * 1000;
+
+// While stationary, still check in occasionally so stays and dwell show up server-side
+export const STATIONARY_HEARTBEAT_MS = 10 * 60 * 1000;
+
+// Fixes less accurate than this (e.g. cell-tower only) can't place the user in a neighborhood
+export const MAX_ACCEPTED_ACCURACY_M = 200;
+
+// A watch only keeps running while hidden in a browser tab. The native apps have no background
+// location plugin, and iOS/Android suspend the Capacitor watch once the app is backgrounded,
+// so there tracking stops when the app leaves the foreground whatever the preference says.
+export const SUPPORTS_BACKGROUND_TRACKING = !Capacitor.isNativePlatform();
+
+/**
+ * Decide whether a new fix is worth sending to check-geofence.
+ * The first usable fix always is; after that it must pass the time throttle and
+ * either move beyond the jitter radius or be due for a stationary heartbeat.
+ */
+export function shouldCheckGeofence(last: TrackedPosition | null, next: TrackedPosition): boolean {
+  if (next.accuracy > MAX_ACCEPTED_ACCURACY_M) return false;
+  if (!last) return true;
+
+  const elapsed = next.timestamp - last.timestamp;
+  if (elapsed < MIN_CHECK_INTERVAL_MS) return false;
+
+  const movedMeters = calculateDistance(last.latitude, last.longitude, next.latitude, next.longitude) * 1000;
+  return movedMeters >= MIN_MOVEMENT_METERS || elapsed >= STATIONARY_HEARTBEAT_MS;
+}
+
+/**
+ * Ask for location permission where the platform needs an explicit prompt.
+ * On web the browser prompts on the first watch instead.
+ */
+export async function ensureLocationPermission(): Promise<boolean> {
+  if (!Capacitor.isNativePlatform()) return 'geolocation' in navigator;
+
+  try {
+    let status = await Geolocation.checkPermissions();
+    if (status.location === 'prompt' || status.location === 'prompt-with-rationale') {
+      status = await Geolocation.requestPermissions({ permissions: ['location'] });
+    }
+    return status.location === 'granted';
+  } catch (error) {
+    console.error('Error requesting location permission:', error);
+    return false;
+  }
+}
+
+const toTrackedPosition = (position: Position): TrackedPosition => ({
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+  timestamp: position.timestamp,
+});
+
+/**
+ * One-off position fix on web and native
+ */
+export async function getCurrentPosition(): Promise<TrackedPosition> {
+  const position = await Geolocation.getCurrentPosition({ enableHighAccuracy: true, timeout: 15 * 1000 });
+  return toTrackedPosition(position);
+}
+
+/**
+ * Start watching position on web and native. Returns a stop function.
+ */
+export async function watchPosition(
+  onPosition: (position: TrackedPosition) => void,
+  onError?: (error: unknown) => void
+): Promise<() => void> {
+  const watchId = await Geolocation.watchPosition(
+    { enableHighAccuracy: true, maximumAge: 30 * 1000, timeout: 30 * 1000 },
+    (position, error) => {
+      if (error) {
+        onError?.(error);
+        return;
+      }
+      if (position) onPosition(toTrackedPosition(position));
+    }
+  );
+
+  return () => {
+    Geolocation.clearWatch({ id: watchId }).catch((error) => {
+      console.error('Error clearing location watch:', error);
+    });
+  };
+}
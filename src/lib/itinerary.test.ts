@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { dealToStop, parseOpeningHours, planItinerary, type ItineraryStop } from "@/lib/itinerary";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const everyDay = (hours: string) => WEEKDAYS.map((day) => `${day}: ${hours}`);
+
+// Local time, so opening hours line up whatever timezone the tests run in
+const startAt = new Date(2026, 2, 6, 17, 0);
+
+const stop = (name: string, openingHours?: string[]): ItineraryStop => ({
+  key: `venue:${name}`,
+  kind: 'venue',
+  venueId: null,
+  dealId: null,
+  name,
+  lat: 0,
+  lng: 0,
+  stayMinutes: 60,
+  openingHours,
+});
+
+// Every leg takes the same time
+const uniformMatrix = (size: number, minutes: number) =>
+  Array.from({ length: size }, (_, from) => Array.from({ length: size }, (_, to) => (from === to ? 0 : minutes)));
+
+describe("parseOpeningHours", () => {
+  it("reads ranges, after-midnight closing and shared meridiems", () => {
+    const hours = parseOpeningHours([
+      "Monday: 5:00 PM – 2:00 AM",
+      "Tuesday: Closed",
+      "Wednesday: Open 24 hours",
+      "Thursday: 11:00 AM – 2:00 PM, 5 – 10 PM",
+      "Friday: 17:00 – 23:30",
+    ]);
+
+    expect(hours?.get(1)).toEqual([[17 * 60, 26 * 60]]);
+    expect(hours?.get(2)).toEqual([]);
+    expect(hours?.get(3)).toEqual([[0, 1440]]);
+    expect(hours?.get(4)).toEqual([[11 * 60, 14 * 60], [17 * 60, 22 * 60]]);
+    expect(hours?.get(5)).toEqual([[17 * 60, 23 * 60 + 30]]);
+    expect(hours?.has(6)).toBe(false);
+  });
+
+  it("accepts Google's narrow no-break spaces", () => {
+    expect(parseOpeningHours(["Saturday: 9:00\u202fAM\u2009–\u20095:00\u202fPM"])?.get(6)).toEqual([[9 * 60, 17 * 60]]);
+  });
+
+  it("returns null for hours it can't read", () => {
+    expect(parseOpeningHours(["Someday: 9 AM – 5 PM"])).toBeNull();
+    expect(parseOpeningHours(["Monday: by appointment"])).toBeNull();
+    expect(parseOpeningHours([])).toBeNull();
+  });
+});
+
+describe("planItinerary", () => {
+  it("returns an empty plan without stops", () => {
+    expect(planItinerary({ stops: [], startAt, travelMatrix: [], hasOrigin: false }))
+      .toEqual({ stops: [], finishesAt: null, unavailableCount: 0 });
+  });
+
+  it("visits the stop that closes first before the one that opens later", () => {
+    const lateBar = stop("Late bar", everyDay("8:00 PM – 2:00 AM"));
+    const cafe = stop("Cafe", everyDay("8:00 AM – 7:00 PM"));
+
+    const plan = planItinerary({ stops: [lateBar, cafe], startAt, travelMatrix: uniformMatrix(2, 10), hasOrigin: false });
+
+    expect(plan.stops.map((planned) => planned.stop.name)).toEqual(["Cafe", "Late bar"]);
+    expect(plan.stops[1]).toMatchObject({ travelMinutes: 10, waitMinutes: 110 });
+    expect(plan.stops[1].issue).toMatch(/^Opens /);
+    expect(plan.finishesAt).toEqual(new Date(2026, 2, 6, 21, 0));
+    expect(plan.unavailableCount).toBe(0);
+  });
+
+  it("goes to the nearest stop first from the origin when nothing is restricted", () => {
+    const near = stop("Near");
+    const far = stop("Far");
+    // Origin, far, near
+    const travelMatrix = [
+      [0, 30, 5],
+      [30, 0, 25],
+      [5, 25, 0],
+    ];
+
+    const plan = planItinerary({ stops: [far, near], startAt, travelMatrix, hasOrigin: true });
+
+    expect(plan.stops.map((planned) => planned.stop.name)).toEqual(["Near", "Far"]);
+    expect(plan.stops.map((planned) => planned.travelMinutes)).toEqual([5, 25]);
+  });
+
+  it("flags stops that close before the stay is over or aren't open at all", () => {
+    const closingSoon = stop("Closing soon", everyDay("9:00 AM – 5:30 PM"));
+    const closed = stop("Closed", everyDay("Closed"));
+
+    const plan = planItinerary({ stops: [closingSoon, closed], startAt, travelMatrix: uniformMatrix(2, 0), hasOrigin: false });
+
+    expect(plan.stops[0].stop.name).toBe("Closing soon");
+    expect(plan.stops[0].issue).toMatch(/^Closes /);
+    expect(plan.stops[1].issue).toBe("Closed then");
+    expect(plan.unavailableCount).toBe(1);
+  });
+
+  it("treats unreadable opening hours as always open", () => {
+    const plan = planItinerary({ stops: [stop("Unknown", ["Hours vary"])], startAt, travelMatrix: [[0]], hasOrigin: false });
+
+    expect(plan.stops[0]).toMatchObject({ waitMinutes: 0, issue: null });
+  });
+
+  it("keeps expired deals out of the running", () => {
+    const expired = dealToStop(
+      { id: "deal-1", title: "Old deal", venue_name: "The Anchor", expires_at: new Date(2026, 2, 1).toISOString() },
+      { lat: 0, lng: 0 }
+    );
+
+    const plan = planItinerary({ stops: [expired], startAt, travelMatrix: [[0]], hasOrigin: false });
+
+    expect(plan.stops[0].issue).toBe("Deal not available then");
+    expect(plan.unavailableCount).toBe(1);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Night-out itinerary planning
+ * Orders a handful of venues and deals so each is visited while it is available: venue
+ * opening hours, a deal's dates and recurring schedule, plus the travel time
+ * between stops. Pure apart from buildTravelMatrix, which asks a RoutingProvider.
+ */
+
+import type { Database, Json } from "@/integrations/supabase/types";
+import { DEVICE_TIMEZONE, getDealLiveIntervals } from "@/lib/deal-schedule";
+import { createLocalRoutingProvider, type LatLng, type RoutingProvider, type TravelMode } from "@/lib/routing";
+import type { Venue } from "@/types/venue";
+
+type DealRow = Database['public']['Tables']['deals']['Row'];
+
+export type ItineraryStopKind = 'venue' | 'deal';
+
+export interface ItineraryStop extends LatLng {
+  // `${kind}:${id}` - one entry per venue or deal
+  key: string;
+  kind: ItineraryStopKind;
+  venueId: string | null;
+  dealId: string | null;
+  name: string;
+  stayMinutes: number;
+  // Google-style weekday descriptions ("Monday: 5:00 PM – 2:00 AM"); absent means unknown
+  openingHours?: string[];
+  deal?: {
+    starts_at: string | null;
+    expires_at: string;
+    active_days: number[] | null;
+    schedule?: Json | null;
+  };
+}
+
+export interface PlannedStop {
+  stop: ItineraryStop;
+  travelMinutes: number;
+  arrival: Date;
+  // Time spent waiting for the stop to open after getting there
+  waitMinutes: number;
+  departure: Date;
+  issue: string | null;
+}
+
+export interface ItineraryPlan {
+  stops: PlannedStop[];
+  finishesAt: Date | null;
+  // Stops that can't be fitted in at all
+  unavailableCount: number;
+}
+
+export const MAX_ITINERARY_STOPS = 10;
+export const DEFAULT_STAY_MINUTES = 60;
+
+// Every ordering is tried up to this many stops; beyond it the nearest open stop goes next
+const EXACT_SEARCH_LIMIT = 7;
+// How far past the start an itinerary may run
+const PLANNING_HORIZON_HOURS = 24;
+// Arriving too late to stay the whole time counts as this much extra time when comparing orders
+const CUT_SHORT_PENALTY_MINUTES = 45;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const startOfDay = (time: number) => {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+// "5:00 PM", "5 PM", "17:00"; minutes after midnight, or null when unreadable
+const parseClockTime = (text: string, fallbackMeridiem: string | null): number | null => {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = (match[3] ?? fallbackMeridiem)?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Opening ranges per weekday as [open, close] minutes after midnight, close past 1440 when
+ * the venue shuts after midnight. Null when the hours can't be read, so callers can treat
+ * the venue as always open rather than never.
+ */
+export const parseOpeningHours = (lines: string[]): Map<number, [number, number][]> | null => {
+  const byDay = new Map<number, [number, number][]>();
+
+  for (const rawLine of lines) {
+    // Google separates the time from AM/PM with narrow no-break spaces
+    const line = rawLine.replace(/[\u202f\u00a0]/g, ' ');
+    const separator = line.indexOf(':');
+    if (separator === -1) return null;
+    const day = WEEKDAYS.indexOf(line.slice(0, separator).trim().toLowerCase());
+    if (day === -1) return null;
+
+    const hours = line.slice(separator + 1).trim();
+    if (/closed/i.test(hours)) {
+      byDay.set(day, []);
+      continue;
+    }
+    if (/24 hours/i.test(hours)) {
+      byDay.set(day, [[0, 1440]]);
+      continue;
+    }
+
+    const ranges: [number, number][] = [];
+    for (const range of hours.split(',')) {
+      const [openText, closeText] = range.split(/\s*[–—-]\s*/);
+      if (!openText || !closeText) return null;
+      // "5:00 – 10:00 PM" - the opening time borrows the closing meridiem
+      const closeMeridiem = closeText.match(/(AM|PM)\s*$/i)?.[1] ?? null;
+      const open = parseClockTime(openText, closeMeridiem);
+      const close = parseClockTime(closeText, null);
+      if (open === null || close === null) return null;
+      ranges.push([open, close <= open ? close + 1440 : close]);
+    }
+    byDay.set(day, ranges);
+  }
+
+  return byDay.size > 0 ? byDay : null;
+};
+
+const openingWindows = (lines: string[] | undefined, from: number, to: number): TimeWindow[] | null => {
+  const byDay = lines?.length ? parseOpeningHours(lines) : null;
+  if (!byDay) return null;
+
+  const windows: TimeWindow[] = [];
+  // Start a day early so last night's after-midnight hours count
+  for (let day = startOfDay(from) - DAY_MS; day < to; day += DAY_MS) {
+    for (const [open, close] of byDay.get(new Date(day).getDay()) ?? []) {
+      windows.push({ start: day + open * MINUTE_MS, end: day + close * MINUTE_MS });
+    }
+  }
+  return windows;
+};
+
+const dealWindows = (deal: ItineraryStop['deal'], from: number, to: number): TimeWindow[] | null => {
+  if (!deal) return null;
+  return getDealLiveIntervals(deal, new Date(from), new Date(to), DEVICE_TIMEZONE).map(({ start, end }) => ({
+    start: start.getTime(),
+    end: end.getTime(),
+  }));
+};
+
+const intersectWindows = (a: TimeWindow[], b: TimeWindow[]): TimeWindow[] =>
+  a.flatMap((x) =>
+    b
+      .map((y) => ({ start: Math.max(x.start, y.start), end: Math.min(x.end, y.end) }))
+      .filter((window) => window.end > window.start)
+  );
+
+/**
+ * When the stop can be visited between from and to: opening hours and deal dates combined.
+ * Null means no restriction is known.
+ */
+const availabilityWindows = (stop: ItineraryStop, from: number, to: number): TimeWindow[] | null => {
+  const opening = openingWindows(stop.openingHours, from, to);
+  const deal = dealWindows(stop.deal, from, to);
+  if (opening && deal) return intersectWindows(opening, deal);
+  return opening ?? deal;
+};
+
+interface Visit {
+  arrival: number;
+  waitMinutes: number;
+  departure: number;
+  issue: string | null;
+  available: boolean;
+  // Closes or ends before the planned stay is over
+  cutShort: boolean;
+}
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const visitStop = (stop: ItineraryStop, arrival: number, windows: TimeWindow[] | null): Visit => {
+  const stay = stop.stayMinutes * MINUTE_MS;
+  if (!windows) {
+    return { arrival, waitMinutes: 0, departure: arrival + stay, issue: null, available: true, cutShort: false };
+  }
+
+  const window = windows
+    .filter((candidate) => candidate.end > arrival)
+    .sort((a, b) => a.start - b.start)[0];
+  if (!window) {
+    const issue = stop.kind === 'deal' ? 'Deal not available then' : 'Closed then';
+    return { arrival, waitMinutes: 0, departure: arrival + stay, issue, available: false, cutShort: false };
+  }
+
+  const start = Math.max(arrival, window.start);
+  const waitMinutes = Math.round((start - arrival) / MINUTE_MS);
+  const departure = start + stay;
+  const cutShort = departure > window.end;
+  let issue: string | null = null;
+  if (cutShort) {
+    issue = stop.kind === 'deal' ? `Deal ends ${formatClock(window.end)}` : `Closes ${formatClock(window.end)}`;
+  } else if (waitMinutes > 0) {
+    issue = `Opens ${formatClock(window.start)}`;
+  }
+  return { arrival, waitMinutes, departure, issue, available: true, cutShort };
+};
+
+/**
+ * Minutes between every pair of points (matrix[from][to]). Pairs the provider can't route
+ * fall back to the straight-line estimate so planning never stalls on one bad leg.
+ */
+export async function buildTravelMatrix(
+  provider: RoutingProvider,
+  points: LatLng[],
+  mode: TravelMode
+): Promise<number[][]> {
+  const local = createLocalRoutingProvider();
+  return Promise.all(
+    points.map(async (origin) => {
+      const [times, estimates] = await Promise.all([
+        provider.getTravelTimes(origin, points, mode),
+        local.getTravelTimes(origin, points, mode),
+      ]);
+      return times.map((minutes, i) => minutes ?? estimates[i] ?? 0);
+    })
+  );
+}
+
+interface PlanOptions {
+  stops: ItineraryStop[];
+  startAt: Date;
+  // Minutes between points; index 0 is the origin when hasOrigin, then stops in order
+  travelMatrix: number[][];
+  hasOrigin: boolean;
+}
+
+/**
+ * Suggests the visiting order that fits the most stops in and finishes earliest.
+ * Without an origin the first stop is reached at startAt.
+ */
+export function planItinerary({ stops, startAt, travelMatrix, hasOrigin }: PlanOptions): ItineraryPlan {
+  if (stops.length === 0) return { stops: [], finishesAt: null, unavailableCount: 0 };
+
+  const from = startAt.getTime();
+  const to = from + PLANNING_HORIZON_HOURS * 60 * MINUTE_MS;
+  const windows = stops.map((stop) => availabilityWindows(stop, from, to));
+  const offset = hasOrigin ? 1 : 0;
+
+  const travel = (previous: number | null, next: number) => {
+    if (previous === null) return hasOrigin ? travelMatrix[0]?.[next + 1] ?? 0 : 0;
+    return travelMatrix[previous + offset]?.[next + offset] ?? 0;
+  };
+
+  // Unavailable stops cost more than any amount of extra time; waiting already costs time
+  const penalty = (visit: Visit) => {
+    if (!visit.available) return to;
+    return visit.cutShort ? CUT_SHORT_PENALTY_MINUTES * MINUTE_MS : 0;
+  };
+
+  const walk = (order: number[]) => {
+    let time = from;
+    let previous: number | null = null;
+    let unavailable = 0;
+    const planned: PlannedStop[] = [];
+    for (const index of order) {
+      const travelMinutes = travel(previous, index);
+      const visit = visitStop(stops[index], time + travelMinutes * MINUTE_MS, windows[index]);
+      if (!visit.available) unavailable++;
+      planned.push({
+        stop: stops[index],
+        travelMinutes,
+        arrival: new Date(visit.arrival),
+        waitMinutes: visit.waitMinutes,
+        departure: new Date(visit.departure),
+        issue: visit.issue,
+      });
+      time = visit.departure;
+      previous = index;
+    }
+    return { planned, unavailable, finish: time };
+  };
+
+  let bestOrder: number[];
+  if (stops.length <= EXACT_SEARCH_LIMIT) {
+    let best = { order: stops.map((_, i) => i), score: Infinity };
+    const remaining = new Set(stops.map((_, i) => i));
+    const order: number[] = [];
+
+    const search = (time: number, previous: number | null, penalties: number) => {
+      // Time and penalties only grow along a route, so a partial route already worse can be dropped
+      if (time + penalties >= best.score) return;
+      if (remaining.size === 0) {
+        best = { order: [...order], score: time + penalties };
+        return;
+      }
+      for (const index of [...remaining]) {
+        const visit = visitStop(stops[index], time + travel(previous, index) * MINUTE_MS, windows[index]);
+        remaining.delete(index);
+        order.push(index);
+        search(visit.departure, index, penalties + penalty(visit));
+        order.pop();
+        remaining.add(index);
+      }
+    };
+
+    search(from, null, 0);
+    bestOrder = best.order;
+  } else {
+    bestOrder = [];
+    const remaining = new Set(stops.map((_, i) => i));
+    let time = from;
+    let previous: number | null = null;
+    while (remaining.size > 0) {
+      let next = { index: -1, score: Infinity, departure: time };
+      for (const index of remaining) {
+        const visit = visitStop(stops[index], time + travel(previous, index) * MINUTE_MS, windows[index]);
+        const candidate = visit.departure + penalty(visit);
+        if (candidate < next.score) next = { index, score: candidate, departure: visit.departure };
+      }
+      bestOrder.push(next.index);
+      remaining.delete(next.index);
+      time = next.departure;
+      previous = next.index;
+    }
+  }
+
+  const { planned, unavailable, finish } = walk(bestOrder);
+  return { stops: planned, finishesAt: new Date(finish), unavailableCount: unavailable };
+}
+
+/**
+ * Stop for a venue on the map. Places-only venues have no venues row, so venueId stays null
+ * and the stop is keyed by the Places id.
+ */
+export const venueToStop = (venue: Venue): ItineraryStop => ({
+  key: `venue:${venue.id}`,
+  kind: 'venue',
+  venueId: venue.canonicalVenueId ?? null,
+  dealId: null,
+  name: venue.name,
+  lat: venue.lat,
+  lng: venue.lng,
+  stayMinutes: DEFAULT_STAY_MINUTES,
+  openingHours: venue.openingHours,
+});
+
+export const dealToStop = (
+  deal: Pick<DealRow, 'id' | 'title' | 'venue_name' | 'expires_at'> &
+    Partial<Pick<DealRow, 'canonical_venue_id' | 'starts_at' | 'active_days' | 'schedule'>>,
+  position: LatLng
+): ItineraryStop => ({
+  key: `deal:${deal.id}`,
+  kind: 'deal',
+  venueId: deal.canonical_venue_id ?? null,
+  dealId: deal.id,
+  name: `${deal.title} · ${deal.venue_name}`,
+  lat: position.lat,
+  lng: position.lng,
+  stayMinutes: DEFAULT_STAY_MINUTES,
+  deal: {
+    starts_at: deal.starts_at ?? null,
+    expires_at: deal.expires_at,
+    active_days: deal.active_days ?? null,
+    schedule: deal.schedule ?? null,
+  },
+});
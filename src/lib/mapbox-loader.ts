@@ -0,0 +1,74 @@
+// Type alias for the mapbox-gl default export
+export type MapboxGLModule = typeof import("mapbox-gl").default;
+
+// In production, mapbox-gl is loaded from CDN as window.mapboxgl
+// In development, we use the npm package for HMR
+let mapboxglModule: MapboxGLModule | null = null;
+let mapboxLoadPromise: Promise<MapboxGLModule> | null = null;
+
+const getCDNMapbox = (): MapboxGLModule | undefined =>
+  typeof window !== 'undefined' ? (window as unknown as { mapboxgl?: MapboxGLModule }).mapboxgl : undefined;
+
+// CDN load timeout - wait for CDN script to load before falling back
+const CDN_LOAD_TIMEOUT = 8000; // 8 seconds
+
+// Wait for CDN mapbox-gl to be available with timeout
+const waitForCDNMapbox = (): Promise<MapboxGLModule | null> => {
+  return new Promise((resolve) => {
+    // Check immediately
+    const immediate = getCDNMapbox();
+    if (immediate) {
+      resolve(immediate);
+      return;
+    }
+    
+    // Poll every 100ms for up to CDN_LOAD_TIMEOUT
+    const startTime = Date.now();
+    const checkInterval = setInterval(() => {
+      const cdnMapbox = getCDNMapbox();
+      if (cdnMapbox) {
+        clearInterval(checkInterval);
+        resolve(cdnMapbox);
+      } else if (Date.now() - startTime > CDN_LOAD_TIMEOUT) {
+        clearInterval(checkInterval);
+        console.warn('Mapbox loader: CDN load timeout, falling back to bundled version');
+        resolve(null);
+      }
+    }, 100);
+  });
+};
+
+export const loadMapboxGL = async (): Promise<MapboxGLModule> => {
+  if (mapboxglModule) return mapboxglModule;
+  
+  if (!mapboxLoadPromise) {
+    mapboxLoadPromise = (async () => {
+      // First, try to use CDN version (production)
+      const cdnMapbox = await waitForCDNMapbox();
+      if (cdnMapbox) {
+        console.log('Mapbox loader: Using CDN mapbox-gl');
+        mapboxglModule = cdnMapbox;
+        return mapboxglModule;
+      }
+      
+      // Fallback to dynamic import (development or if CDN fails)
+      console.log('Mapbox loader: Loading mapbox-gl via import');
+      try {
+        const m = await import("mapbox-gl");
+        // Also load the CSS in dev
+        await import("mapbox-gl/dist/mapbox-gl.css");
+        mapboxglModule = m.default;
+        return m.default;
+      } catch (importError) {
+        console.error('Mapbox loader: Failed to import mapbox-gl:', importError);
+        throw new Error('Failed to load map library. Please check your connection and refresh.');
+      }
+    })();
+  }
+  return mapboxLoadPromise;
+};
+
+// Drop a failed load so the next call retries from scratch
+export const resetMapboxLoader = () => {
+  mapboxLoadPromise = null;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createLocalRoutingProvider, formatTravelTime, getRoutingProvider } from "@/lib/routing";
+
+const origin = { lat: 40.7128, lng: -74.006 };
+// About 1 km north of the origin
+const oneKmNorth = { lat: origin.lat + 0.009, lng: origin.lng };
+
+describe("local routing provider", () => {
+  const provider = createLocalRoutingProvider();
+
+  it("estimates travel minutes from straight-line distance and mode speed", async () => {
+    expect(await provider.getTravelTimes(origin, [origin, oneKmNorth], "walking")).toEqual([0, 16]);
+    expect(await provider.getTravelTimes(origin, [oneKmNorth], "cycling")).toEqual([5]);
+    expect(await provider.getTravelTimes(origin, [oneKmNorth], "driving")).toEqual([3]);
+  });
+
+  it("returns one closed circle per contour, largest first", async () => {
+    const isochrones = await provider.getIsochrones(origin, "walking", [5, 15, 10]);
+
+    expect(isochrones.features.map((feature) => feature.properties.minutes)).toEqual([15, 10, 5]);
+    for (const feature of isochrones.features) {
+      const ring = (feature.geometry as GeoJSON.Polygon).coordinates[0];
+      expect(ring[0]).toEqual(ring[ring.length - 1]);
+    }
+  });
+
+  it("sizes contours so their edge is reachable in the given time", async () => {
+    const isochrones = await provider.getIsochrones(origin, "walking", [15]);
+    const ring = (isochrones.features[0].geometry as GeoJSON.Polygon).coordinates[0];
+    // The point due north of the centre, a quarter of the way round
+    const [lng, lat] = ring[ring.length >> 2];
+
+    expect(lng).toBeCloseTo(origin.lng, 6);
+    const [minutes] = await provider.getTravelTimes(origin, [{ lat, lng }], "walking");
+    expect(minutes).toBe(15);
+  });
+});
+
+describe("getRoutingProvider", () => {
+  it("uses the local provider without a Mapbox token", () => {
+    expect(getRoutingProvider(null).name).toBe("local");
+    expect(getRoutingProvider(undefined).name).toBe("local");
+  });
+});
+
+describe("formatTravelTime", () => {
+  it("formats minutes and hours with the mode label", () => {
+    expect(formatTravelTime(0, "walking")).toBe("1 min walk");
+    expect(formatTravelTime(12, "cycling")).toBe("12 min bike");
+    expect(formatTravelTime(95, "driving")).toBe("1h 35m drive");
+  });
+});
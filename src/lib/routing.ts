@@ -0,0 +1,157 @@
+/**
+ * Travel-time routing
+ * Isochrones ("reachable in N minutes") and travel-time estimates sit behind RoutingProvider,
+ * so the map and lists don't care which engine answers. Mapbox is used when a token is
+ * available and the app is online; the local provider estimates from straight-line
+ * distance and works offline and in local development.
+ */
+
+import { calculateDistance } from "@/utils/geospatialUtils";
+
+export type TravelMode = 'walking' | 'cycling' | 'driving';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const TRAVEL_MODES: TravelMode[] = ['walking', 'cycling', 'driving'];
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  walking: 'Walk',
+  cycling: 'Bike',
+  driving: 'Drive',
+};
+
+export const ISOCHRONE_MINUTES = [5, 10, 15];
+
+// One polygon per contour, largest first, with properties.minutes
+export type IsochroneCollection = GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon, { minutes: number }>;
+
+export interface RoutingProvider {
+  name: string;
+  getIsochrones(origin: LatLng, mode: TravelMode, minutes: number[]): Promise<IsochroneCollection>;
+  // Minutes to each destination, in order; null when a destination can't be reached
+  getTravelTimes(origin: LatLng, destinations: LatLng[], mode: TravelMode): Promise<(number | null)[]>;
+}
+
+// Average urban speeds (km/h) and how much longer real routes are than a straight line
+const LOCAL_SPEED_KMH: Record<TravelMode, number> = { walking: 4.8, cycling: 15, driving: 30 };
+const LOCAL_DETOUR_FACTOR = 1.3;
+const CIRCLE_STEPS = 48;
+
+const circlePolygon = (center: LatLng, radiusKm: number): GeoJSON.Polygon => {
+  const coordinates: [number, number][] = [];
+  const latRadius = radiusKm / 111.32;
+  const lngRadius = radiusKm / (111.32 * Math.cos((center.lat * Math.PI) / 180));
+  for (let i = 0; i <= CIRCLE_STEPS; i++) {
+    const angle = (i / CIRCLE_STEPS) * 2 * Math.PI;
+    coordinates.push([center.lng + lngRadius * Math.cos(angle), center.lat + latRadius * Math.sin(angle)]);
+  }
+  return { type: 'Polygon', coordinates: [coordinates] };
+};
+
+/**
+ * Straight-line estimate - no network, deterministic results
+ */
+export function createLocalRoutingProvider(): RoutingProvider {
+  const estimateMinutes = (from: LatLng, to: LatLng, mode: TravelMode) =>
+    (calculateDistance(from.lat, from.lng, to.lat, to.lng) * LOCAL_DETOUR_FACTOR / LOCAL_SPEED_KMH[mode]) * 60;
+
+  return {
+    name: 'local',
+    getIsochrones: async (origin, mode, minutes) => ({
+      type: 'FeatureCollection',
+      features: [...minutes].sort((a, b) => b - a).map((contour) => ({
+        type: 'Feature',
+        properties: { minutes: contour },
+        geometry: circlePolygon(origin, (LOCAL_SPEED_KMH[mode] * contour) / 60 / LOCAL_DETOUR_FACTOR),
+      })),
+    }),
+    getTravelTimes: async (origin, destinations, mode) =>
+      destinations.map((destination) => Math.round(estimateMinutes(origin, destination, mode))),
+  };
+}
+
+const MAPBOX_PROFILES: Record<TravelMode, string> = {
+  walking: 'mapbox/walking',
+  cycling: 'mapbox/cycling',
+  driving: 'mapbox/driving',
+};
+
+// The Matrix API takes at most 25 coordinates per request, one of them the origin
+const MATRIX_MAX_DESTINATIONS = 24;
+
+/**
+ * Mapbox Isochrone and Matrix APIs
+ */
+export function createMapboxRoutingProvider(mapboxToken: string): RoutingProvider {
+  return {
+    name: 'mapbox',
+    getIsochrones: async (origin, mode, minutes) => {
+      const contours = [...minutes].sort((a, b) => a - b).join(',');
+      const response = await fetch(
+        `https://api.mapbox.com/isochrone/v1/${MAPBOX_PROFILES[mode]}/${origin.lng},${origin.lat}?contours_minutes=${contours}&polygons=true&access_token=${mapboxToken}`
+      );
+      if (!response.ok) throw new Error(`Isochrone request failed: ${response.status}`);
+
+      const data = await response.json();
+      const features: IsochroneCollection['features'] = (data.features ?? []).map(
+        (feature: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>) => ({
+          type: 'Feature',
+          properties: { minutes: Number(feature.properties?.contour) },
+          geometry: feature.geometry,
+        })
+      );
+      // Largest contour first, so nearer ones draw on top
+      features.sort((a, b) => b.properties.minutes - a.properties.minutes);
+      return { type: 'FeatureCollection', features };
+    },
+    getTravelTimes: async (origin, destinations, mode) => {
+      const results: (number | null)[] = [];
+      for (let start = 0; start < destinations.length; start += MATRIX_MAX_DESTINATIONS) {
+        const chunk = destinations.slice(start, start + MATRIX_MAX_DESTINATIONS);
+        const coordinates = [origin, ...chunk].map((point) => `${point.lng},${point.lat}`).join(';');
+        const response = await fetch(
+          `https://api.mapbox.com/directions-matrix/v1/${MAPBOX_PROFILES[mode]}/${coordinates}?sources=0&annotations=duration&access_token=${mapboxToken}`
+        );
+        if (!response.ok) throw new Error(`Travel time request failed: ${response.status}`);
+
+        const data = await response.json();
+        // First column is the origin itself
+        const durations: (number | null)[] = data.durations?.[0]?.slice(1) ?? chunk.map(() => null);
+        results.push(...durations.map((seconds) => (seconds === null ? null : Math.round(seconds / 60))));
+      }
+      return results;
+    },
+  };
+}
+
+// Answers from the fallback when the primary provider fails (offline, quota, unsupported area)
+const withFallback = (primary: RoutingProvider, fallback: RoutingProvider): RoutingProvider => ({
+  name: primary.name,
+  getIsochrones: (origin, mode, minutes) =>
+    primary.getIsochrones(origin, mode, minutes).catch((error) => {
+      console.warn(`[Routing] ${primary.name} isochrones failed, using ${fallback.name}:`, error);
+      return fallback.getIsochrones(origin, mode, minutes);
+    }),
+  getTravelTimes: (origin, destinations, mode) =>
+    primary.getTravelTimes(origin, destinations, mode).catch((error) => {
+      console.warn(`[Routing] ${primary.name} travel times failed, using ${fallback.name}:`, error);
+      return fallback.getTravelTimes(origin, destinations, mode);
+    }),
+});
+
+/**
+ * Mapbox when it can be reached, the local estimate otherwise
+ */
+export function getRoutingProvider(mapboxToken?: string | null): RoutingProvider {
+  const local = createLocalRoutingProvider();
+  if (!mapboxToken || !navigator.onLine) return local;
+  return withFallback(createMapboxRoutingProvider(mapboxToken), local);
+}
+
+export function formatTravelTime(minutes: number, mode: TravelMode): string {
+  const duration = minutes < 60 ? `${Math.max(1, minutes)} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${duration} ${TRAVEL_MODE_LABELS[mode].toLowerCase()}`;
+}
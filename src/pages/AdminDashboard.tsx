@@ -7,8 +7,10 @@ import { Button } from "@/components/ui/button";
 
 // Lazy load admin components to reduce initial bundle - especially UserAnalytics which pulls in recharts (~200KB)
 const DealManagement = lazy(() => import("@/components/admin/DealManagement").then(m => ({ default: m.DealManagement })));
+const RedemptionValidator = lazy(() => import("@/components/admin/RedemptionValidator").then(m => ({ default: m.RedemptionValidator })));
 const UserAnalytics = lazy(() => import("@/components/admin/UserAnalytics").then(m => ({ default: m.UserAnalytics })));
 const NeighborhoodManagement = lazy(() => import("@/components/admin/NeighborhoodManagement").then(m => ({ default: m.NeighborhoodManagement })));
+const VenueOwnerManagement = lazy(() => import("@/components/admin/VenueOwnerManagement").then(m => ({ default: m.VenueOwnerManagement })));
 const MonetizationToggle = lazy(() => import("@/components/admin/MonetizationToggle").then(m => ({ default: m.MonetizationToggle })));
 const AppStoreChecklist = lazy(() => import("@/components/admin/AppStoreChecklist").then(m => ({ default: m.AppStoreChecklist })));
 
@@ -55,8 +57,9 @@ export default function AdminDashboard() {
 
       <main className="max-w-7xl mx-auto px-4 py-6 pb-24">
         <Tabs defaultValue="deals" className="w-full">
-          <TabsList className="grid w-full grid-cols-5 mb-6">
+          <TabsList className="grid w-full grid-cols-6 mb-6">
             <TabsTrigger value="deals">Deals</TabsTrigger>
+            <TabsTrigger value="redeem">Redeem</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="neighborhoods">Areas</TabsTrigger>
             <TabsTrigger value="appstore">App Store</TabsTrigger>
@@ -69,6 +72,12 @@ export default function AdminDashboard() {
             </Suspense>
           </TabsContent>
 
+          <TabsContent value="redeem">
+            <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
+              <RedemptionValidator />
+            </Suspense>
+          </TabsContent>
+
           <TabsContent value="analytics">
             <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
               <UserAnalytics />
@@ -92,6 +101,9 @@ export default function AdminDashboard() {
               <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
                 <MonetizationToggle />
               </Suspense>
+              <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
+                <VenueOwnerManagement />
+              </Suspense>
             </div>
           </TabsContent>
         </Tabs>
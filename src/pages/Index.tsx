@@ -1,8 +1,9 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { type Venue } from "@/types/venue";
 import { CITIES, type City } from "@/types/cities";
+import type { ViewportBounds } from "@/hooks/useLocationDensity";
 
 // Critical path: Header and BottomNav are always visible
 import { BottomNav } from "@/components/BottomNav";
@@ -20,6 +21,8 @@ import { useDeals } from "@/hooks/useDeals";
 import { useVenueActivity } from "@/hooks/useVenueActivity";
 import { usePWAInstall } from "@/hooks/usePWAInstall";
 import { useBottomNavigation } from "@/hooks/useBottomNavigation";
+import { useItineraryPlan } from "@/hooks/useItineraryPlan";
+import { useItinerary } from "@/hooks/useItinerary";
 
 // Direct imports - no lazy loading
 import { MapboxHeatmap } from "@/components/MapboxHeatmap";
@@ -28,6 +31,8 @@ import { ExploreTab } from "@/components/ExploreTab";
 import { JetCard } from "@/components/JetCard";
 import { NotificationCard } from "@/components/NotificationCard";
 import DirectionsDialog from "@/components/DirectionsDialog";
+import { ItineraryPlanner } from "@/components/ItineraryPlanner";
+import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { OfflineBanner } from "@/components/OfflineBanner";
 import { PWAInstallPrompt } from "@/components/PWAInstallPrompt";
 import { PushNotificationPrompt } from "@/components/PushNotificationPrompt";
@@ -51,6 +56,8 @@ const charlotteVenues: Venue[] = [
   { id: "wooden-robot", name: "Wooden Robot Brewery", lat: 35.2156, lng: -80.8485, activity: 78, category: "Brewery", neighborhood: "South End", address: "1440 S Tryon St Suite 110, Charlotte, NC 28203" },
 ];
 
+const NO_VENUES: Venue[] = [];
+
 const Index = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -60,6 +67,7 @@ const Index = () => {
   const [mapUIResetKey, setMapUIResetKey] = useState(0); // Increments when switching to map tab to reset collapsed UI
   const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
   const [selectedCity, setSelectedCity] = useState<City>(CITIES[0]); // Default to Charlotte
+  const [mapViewport, setMapViewport] = useState<{ bounds: ViewportBounds; zoom: number } | null>(null);
   const [detectedLocationName, setDetectedLocationName] = useState<string | null>(null); // Actual city from reverse geocoding
   const [showDirectionsDialog, setShowDirectionsDialog] = useState(false);
   const [deepLinkedDeal, setDeepLinkedDeal] = useState<any>(null);
@@ -70,11 +78,25 @@ const Index = () => {
   const { notifications, loading: notificationsLoading, markAsRead } = useNotifications(true);
   const { isScrapingActive } = useAutoScrapeVenueImages(true);
   const { deals, refresh: refreshDeals, loading: dealsLoading, lastUpdated: dealsLastUpdated } = useDeals(false, true);
-  const { venues: realVenues, loading: venuesLoading, refresh: refreshVenues, lastUpdated: venuesLastUpdated } = useVenueActivity(true);
+  const { venues: realVenues, loading: venuesLoading, refresh: refreshVenues, loadMore: loadMoreVenues, hasMore: hasMoreVenues, lastUpdated: venuesLastUpdated } = useVenueActivity(true, { city: selectedCity, viewport: mapViewport });
   const { justInstalled, clearJustInstalled } = usePWAInstall();
   const [showPushPrompt, setShowPushPrompt] = useState(false);
   const jetCardRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
+
+  // Night-out plan - stops are added from venue and deal cards anywhere in the app
+  const { draft: itinerary, origin: itineraryOrigin, plannerOpen, setPlannerOpen, load: loadItinerary } = useItinerary();
+  const { plan: itineraryPlan, loading: itineraryLoading, error: itineraryError } = useItineraryPlan({
+    stops: itinerary.stops,
+    startAt: itinerary.startAt,
+    mode: itinerary.travelMode,
+    origin: itineraryOrigin,
+    mapboxToken,
+  });
+  const itineraryRoute = useMemo(
+    () => (itineraryPlan && itineraryPlan.stops.length > 0 ? { plan: itineraryPlan, origin: itineraryOrigin } : null),
+    [itineraryPlan, itineraryOrigin]
+  );
   
   // Swipe to dismiss for JetCard on mobile
   const { handlers: swipeHandlers, style: swipeStyle } = useSwipeToDismiss({
@@ -83,8 +105,10 @@ const Index = () => {
     direction: 'down'
   });
 
-  // Use real venues when available, fallback to Charlotte venues
-  const venues = realVenues && realVenues.length > 0 ? realVenues : charlotteVenues;
+  // Use real venues when available; the curated fallback only makes sense for Charlotte
+  const venues = realVenues && realVenues.length > 0
+    ? realVenues
+    : selectedCity.id === 'charlotte' ? charlotteVenues : NO_VENUES;
 
   // Handle deep linked deal - select the venue associated with the deal
   const handleDeepLinkDeal = useCallback(async (dealId: string, dealData: any) => {
@@ -151,10 +175,19 @@ const Index = () => {
     }
   }, [venues, getVenueImage]);
 
+  // Handle a shared itinerary - connections land on the planner where they can join
+  const handleDeepLinkItinerary = useCallback(async (itineraryId: string) => {
+    setActiveTab("map");
+    if (await loadItinerary(itineraryId)) {
+      setPlannerOpen(true);
+    }
+  }, [loadItinerary, setPlannerOpen]);
+
   // Initialize deep linking
   useDeepLinking({
     onDealOpen: handleDeepLinkDeal,
     onVenueOpen: handleDeepLinkVenue,
+    onItineraryOpen: handleDeepLinkItinerary,
   });
 
 
@@ -407,6 +440,10 @@ const Index = () => {
                     selectedVenue={selectedVenue}
                     resetUIKey={mapUIResetKey}
                     isTokenLoading={false}
+                    onViewportChange={setMapViewport}
+                    hasMoreVenues={hasMoreVenues}
+                    onLoadMoreVenues={loadMoreVenues}
+                    itineraryRoute={itineraryRoute}
                   />
                 )}
               </div>
@@ -476,7 +513,7 @@ const Index = () => {
 
         {activeTab === "explore" && (
           <div className="px-fluid-md py-fluid-md">
-            <ExploreTab onVenueSelect={handleVenueSelect} />
+            <ExploreTab onVenueSelect={handleVenueSelect} mapboxToken={mapboxToken} />
           </div>
         )}
       </main>
@@ -496,6 +533,18 @@ const Index = () => {
         venue={selectedVenue}
       />
 
+      {/* Itinerary Planner */}
+      <Sheet open={plannerOpen} onOpenChange={setPlannerOpen}>
+        <SheetContent side="bottom" className="h-auto max-h-[90vh] p-0 rounded-t-2xl overflow-auto">
+          <ItineraryPlanner
+            plan={itineraryPlan}
+            loading={itineraryLoading}
+            error={itineraryError}
+            onClose={() => setPlannerOpen(false)}
+          />
+        </SheetContent>
+      </Sheet>
+
       {/* PWA Install Prompt */}
       <PWAInstallPrompt />
 
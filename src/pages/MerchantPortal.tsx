@@ -0,0 +1,110 @@
+import { useEffect, lazy, Suspense } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useIsMerchant } from "@/hooks/useIsMerchant";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Store, ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Performance pulls in recharts, so it only loads when its tab is opened
+const MerchantDeals = lazy(() => import("@/components/merchant/MerchantDeals").then(m => ({ default: m.MerchantDeals })));
+const MerchantPerformance = lazy(() => import("@/components/merchant/MerchantPerformance").then(m => ({ default: m.MerchantPerformance })));
+const RedemptionValidator = lazy(() => import("@/components/admin/RedemptionValidator").then(m => ({ default: m.RedemptionValidator })));
+
+export default function MerchantPortal() {
+  const { isMerchant, loading } = useIsMerchant();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!loading && !isMerchant) {
+      navigate('/');
+    }
+  }, [isMerchant, loading, navigate]);
+
+  const { data: venues, isLoading: venuesLoading } = useQuery({
+    queryKey: ['merchant-venues'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('venues')
+        .select('id, name, address, google_place_id')
+        .eq('owner_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isMerchant,
+  });
+
+  if (loading || (isMerchant && venuesLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isMerchant) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background overflow-y-auto">
+      <header className="bg-card border-b border-border sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/profile')}
+              className="shrink-0"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <Store className="w-6 h-6 text-primary" />
+            <div className="min-w-0">
+              <h1 className="text-2xl font-bold text-foreground">Merchant Portal</h1>
+              {venues && venues.length > 0 && (
+                <p className="text-sm text-muted-foreground truncate">
+                  {venues.map((venue) => venue.name).join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 pb-24">
+        <Tabs defaultValue="deals" className="w-full">
+          <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsTrigger value="deals">Deals</TabsTrigger>
+            <TabsTrigger value="performance">Performance</TabsTrigger>
+            <TabsTrigger value="redeem">Redeem</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="deals">
+            <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
+              <MerchantDeals venues={venues ?? []} />
+            </Suspense>
+          </TabsContent>
+
+          <TabsContent value="performance">
+            <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
+              <MerchantPerformance />
+            </Suspense>
+          </TabsContent>
+
+          <TabsContent value="redeem">
+            <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="w-8 h-8 animate-spin text-primary" /></div>}>
+              <RedemptionValidator />
+            </Suspense>
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
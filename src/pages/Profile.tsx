@@ -13,11 +13,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { EmptyState } from "@/components/EmptyState";
 import { useFavorites } from "@/hooks/useFavorites";
 import { useConnections } from "@/hooks/useConnections";
-import { User, Camera, Edit2, X, Save, Settings, Heart, Users, Shield, LogOut, Loader2, Instagram, Twitter, Facebook, Linkedin, Video } from "lucide-react";
+import { User, Camera, Edit2, X, Save, Settings, Heart, Users, Shield, Store, LogOut, Loader2, Instagram, Twitter, Facebook, Linkedin, Video } from "lucide-react";
 
 import { toast } from "sonner";
 import { z } from "zod";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { useIsMerchant } from "@/hooks/useIsMerchant";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
 const profileSchema = z.object({
@@ -99,6 +100,9 @@ export default function Profile() {
   const {
     isAdmin
   } = useIsAdmin();
+  const {
+    isMerchant
+  } = useIsMerchant();
   const [user, setUser] = useState<any>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [displayName, setDisplayName] = useState("");
@@ -599,6 +603,18 @@ export default function Profile() {
                   </div>
                 </div>
               </Button>}
+
+            {isMerchant && <Button variant="outline" className="h-20 justify-start" onClick={() => navigate("/merchant")}>
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <Store className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="text-left">
+                    <div className="font-semibold text-foreground">Merchant</div>
+                    <div className="text-xs text-muted-foreground">Your venues' deals</div>
+                  </div>
+                </div>
+              </Button>}
           </div>
 
           {/* Sign Out */}
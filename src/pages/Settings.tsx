@@ -6,6 +6,7 @@ import { Card } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, Bell, MapPin, Radio, Loader2, Save, Sun, Moon, Monitor, Smartphone, User, Heart, Shield, Trash2, CreditCard, ShieldCheck } from "lucide-react";
 
 import { toast } from "sonner";
@@ -20,18 +21,33 @@ import { DeleteAccountDialog } from "@/components/settings/DeleteAccountDialog";
 import { SubscriptionPlans } from "@/components/SubscriptionPlans";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
 import { isMonetizationEnabled } from "@/lib/monetization";
+import { SUPPORTS_BACKGROUND_TRACKING } from "@/lib/geofence-tracker";
 const preferencesSchema = z.object({
   notifications_enabled: z.boolean(),
   location_tracking_enabled: z.boolean(),
   background_tracking_enabled: z.boolean(),
+  geofence_cooldown_minutes: z.number().int().min(0).max(24 * 60),
+  quiet_hours_start: z.number().int().min(0).max(23).nullable(),
+  quiet_hours_end: z.number().int().min(0).max(23).nullable(),
 });
 
+const COOLDOWN_OPTIONS = [0, 15, 30, 60, 120];
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+};
+
 interface UserPreferences {
   id: string;
   user_id: string;
   notifications_enabled: boolean;
   location_tracking_enabled: boolean;
   background_tracking_enabled: boolean;
+  geofence_cooldown_minutes: number;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
 }
 
 const Settings = () => {
@@ -68,6 +84,10 @@ const Settings = () => {
   const [pushNotificationsEnabled, setPushNotificationsEnabled] = useState(false);
   const [locationTrackingEnabled, setLocationTrackingEnabled] = useState(false);
   const [backgroundTrackingEnabled, setBackgroundTrackingEnabled] = useState(true);
+  const [geofenceCooldownMinutes, setGeofenceCooldownMinutes] = useState(15);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietHoursStart, setQuietHoursStart] = useState(22);
+  const [quietHoursEnd, setQuietHoursEnd] = useState(8);
 
   useEffect(() => {
     loadPreferences();
@@ -106,6 +126,7 @@ const Settings = () => {
         setNotificationsEnabled(data.notifications_enabled);
         setLocationTrackingEnabled(data.location_tracking_enabled);
         setBackgroundTrackingEnabled(data.background_tracking_enabled);
+        applyAlertRules(data);
       }
     } catch (error) {
       console.error('Error loading preferences:', error);
@@ -115,6 +136,13 @@ const Settings = () => {
     }
   };
 
+  const applyAlertRules = (data: UserPreferences) => {
+    setGeofenceCooldownMinutes(data.geofence_cooldown_minutes);
+    setQuietHoursEnabled(data.quiet_hours_start !== null && data.quiet_hours_end !== null);
+    setQuietHoursStart(data.quiet_hours_start ?? 22);
+    setQuietHoursEnd(data.quiet_hours_end ?? 8);
+  };
+
   const createDefaultPreferences = async (userId: string) => {
     try {
       const { data, error } = await supabase
@@ -134,6 +162,7 @@ const Settings = () => {
       setNotificationsEnabled(data.notifications_enabled);
       setLocationTrackingEnabled(data.location_tracking_enabled);
       setBackgroundTrackingEnabled(data.background_tracking_enabled);
+      applyAlertRules(data);
     } catch (error) {
       console.error('Error creating preferences:', error);
       toast.error('Failed to initialize settings');
@@ -143,13 +172,18 @@ const Settings = () => {
   const handleSaveSettings = async () => {
     if (!preferences) return;
 
+    const updates = {
+      notifications_enabled: notificationsEnabled,
+      location_tracking_enabled: locationTrackingEnabled,
+      background_tracking_enabled: backgroundTrackingEnabled,
+      geofence_cooldown_minutes: geofenceCooldownMinutes,
+      quiet_hours_start: quietHoursEnabled ? quietHoursStart : null,
+      quiet_hours_end: quietHoursEnabled ? quietHoursEnd : null,
+    };
+
     // Validate preferences
     try {
-      preferencesSchema.parse({
-        notifications_enabled: notificationsEnabled,
-        location_tracking_enabled: locationTrackingEnabled,
-        background_tracking_enabled: backgroundTrackingEnabled,
-      });
+      preferencesSchema.parse(updates);
     } catch (error) {
       toast.error('Invalid settings');
       return;
@@ -160,11 +194,7 @@ const Settings = () => {
     try {
       const { error } = await supabase
         .from('user_preferences')
-        .update({
-          notifications_enabled: notificationsEnabled,
-          location_tracking_enabled: locationTrackingEnabled,
-          background_tracking_enabled: backgroundTrackingEnabled,
-        })
+        .update(updates)
         .eq('user_id', preferences.user_id);
 
       if (error) throw error;
@@ -499,17 +529,97 @@ const Settings = () => {
                   Background Tracking
                 </label>
                 <p className="text-[10px] sm:text-xs text-muted-foreground">
-                  Continue tracking location when app is in background
+                  {SUPPORTS_BACKGROUND_TRACKING
+                    ? 'Keep tracking while this browser tab is in the background'
+                    : 'Not available in the app yet - location is only tracked while the app is open'}
                 </p>
               </div>
               <Switch
                 id="background-tracking"
-                checked={backgroundTrackingEnabled}
+                checked={backgroundTrackingEnabled && SUPPORTS_BACKGROUND_TRACKING}
                 onCheckedChange={setBackgroundTrackingEnabled}
+                disabled={!locationTrackingEnabled || !SUPPORTS_BACKGROUND_TRACKING}
+                className="flex-shrink-0"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-0.5 sm:space-y-1 flex-1 min-w-0">
+                <label htmlFor="alert-cooldown" className="text-xs sm:text-sm font-medium text-foreground block">
+                  Alert Cooldown
+                </label>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  Minimum time between neighborhood alerts
+                </p>
+              </div>
+              <Select
+                value={geofenceCooldownMinutes.toString()}
+                onValueChange={(value) => setGeofenceCooldownMinutes(Number(value))}
+                disabled={!locationTrackingEnabled}
+              >
+                <SelectTrigger id="alert-cooldown" className="w-28 flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COOLDOWN_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={minutes.toString()}>
+                      {minutes === 0 ? 'None' : minutes < 60 ? `${minutes} min` : `${minutes / 60} hr`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-0.5 sm:space-y-1 flex-1 min-w-0">
+                <label htmlFor="quiet-hours" className="text-xs sm:text-sm font-medium text-foreground block">
+                  Quiet Hours
+                </label>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  Pause neighborhood alerts during these hours
+                </p>
+              </div>
+              <Switch
+                id="quiet-hours"
+                checked={quietHoursEnabled}
+                onCheckedChange={setQuietHoursEnabled}
                 disabled={!locationTrackingEnabled}
                 className="flex-shrink-0"
               />
             </div>
+
+            {quietHoursEnabled && (
+              <div className="grid grid-cols-2 gap-3">
+                <Select
+                  value={quietHoursStart.toString()}
+                  onValueChange={(value) => setQuietHoursStart(Number(value))}
+                  disabled={!locationTrackingEnabled}
+                >
+                  <SelectTrigger aria-label="Quiet hours start">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOUR_OPTIONS.map((hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>From {formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={quietHoursEnd.toString()}
+                  onValueChange={(value) => setQuietHoursEnd(Number(value))}
+                  disabled={!locationTrackingEnabled}
+                >
+                  <SelectTrigger aria-label="Quiet hours end">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOUR_OPTIONS.map((hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>Until {formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         </Card>
 
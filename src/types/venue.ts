@@ -1,10 +1,15 @@
 // Venue type definition - shared across components
+export type ActivityTrend = 'rising' | 'falling' | 'steady';
+
 export interface Venue {
   id: string;
+  canonicalVenueId?: string; // Row in the venues table, when the venue has been linked
   name: string;
   lat: number;
   lng: number;
   activity: number;
+  activityTrend?: ActivityTrend; // From the server-side score; absent while activity is a Places estimate
+  activityConfidence?: number; // 0-1
   category: string;
   neighborhood: string;
   imageUrl?: string;
@@ -19,4 +24,6 @@ export interface Venue {
   }>;
   isOpen?: boolean | null;
   openingHours?: string[];
+  website?: string | null;
+  phone?: string | null;
 }
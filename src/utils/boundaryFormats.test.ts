@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { parseBoundaryFile, parseGeoJSON, parseKML, slugify, toGeoJSON } from "@/utils/boundaryFormats";
+
+// [lng, lat] positions, closed as GeoJSON requires
+const squareRing = [[-74, 40.7], [-73.99, 40.7], [-73.99, 40.71], [-74, 40.71], [-74, 40.7]];
+const smallRing = [[-73.9, 40.8], [-73.899, 40.8], [-73.899, 40.801], [-73.9, 40.8]];
+
+const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Placemark>
+      <name>SoHo</name>
+      <description>Cast-iron district</description>
+      <ExtendedData><Data name="borough"><value>Manhattan</value></Data></ExtendedData>
+      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>
+          -74,40.7,0 -73.99,40.7,0 -73.99,40.71,0 -74,40.71,0 -74,40.7,0
+        </coordinates></LinearRing></outerBoundaryIs>
+      </Polygon>
+    </Placemark>
+    <Placemark>
+      <name>Too small</name>
+      <Polygon><outerBoundaryIs><LinearRing><coordinates>-74,40.7 -73.99,40.7</coordinates></LinearRing></outerBoundaryIs></Polygon>
+    </Placemark>
+  </Document>
+</kml>`;
+
+describe("slugify", () => {
+  it("lowercases, strips accents and joins words with dashes", () => {
+    expect(slugify("  Nolita / Little Italy ")).toBe("nolita-little-italy");
+    expect(slugify("Cañon Café")).toBe("canon-cafe");
+    expect(slugify("---")).toBe("");
+  });
+});
+
+describe("parseGeoJSON", () => {
+  it("reads features as open [lat, lng] rings with string properties", () => {
+    const [boundary] = parseGeoJSON(JSON.stringify({
+      type: "FeatureCollection",
+      features: [{
+        type: "Feature",
+        properties: { name: "SoHo", rank: 3, tags: ["art"], note: null },
+        geometry: { type: "Polygon", coordinates: [squareRing] },
+      }],
+    }));
+
+    expect(boundary.points).toEqual([[40.7, -74], [40.7, -73.99], [40.71, -73.99], [40.71, -74]]);
+    expect(boundary.properties).toEqual({ name: "SoHo", rank: "3" });
+  });
+
+  it("keeps the largest polygon of a multi-polygon", () => {
+    const [boundary] = parseGeoJSON(JSON.stringify({
+      type: "Feature",
+      properties: {},
+      geometry: { type: "MultiPolygon", coordinates: [[smallRing], [squareRing]] },
+    }));
+
+    expect(boundary.points[0]).toEqual([40.7, -74]);
+  });
+
+  it("accepts a bare geometry and skips features that aren't polygons", () => {
+    expect(parseGeoJSON(JSON.stringify({ type: "Polygon", coordinates: [squareRing] }))).toHaveLength(1);
+    expect(parseGeoJSON(JSON.stringify({
+      type: "FeatureCollection",
+      features: [{ type: "Feature", properties: {}, geometry: { type: "Point", coordinates: [-74, 40.7] } }],
+    }))).toEqual([]);
+  });
+});
+
+describe("parseKML", () => {
+  it("reads placemark names, descriptions and extended data", () => {
+    const boundaries = parseKML(kml);
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0].points).toHaveLength(4);
+    expect(boundaries[0].properties).toEqual({ name: "SoHo", description: "Cast-iron district", borough: "Manhattan" });
+  });
+
+  it("rejects malformed XML", () => {
+    expect(() => parseKML("<kml><Placemark></kml>")).toThrow("Invalid KML file");
+  });
+});
+
+describe("parseBoundaryFile", () => {
+  it("sniffs KML from the content when the extension doesn't say", () => {
+    expect(parseBoundaryFile("boundaries.txt", kml)[0].properties.name).toBe("SoHo");
+    expect(parseBoundaryFile("boundaries.json", JSON.stringify({ type: "Polygon", coordinates: [squareRing] }))).toHaveLength(1);
+  });
+});
+
+describe("toGeoJSON", () => {
+  it("exports a closed ring that imports back to the same boundary", () => {
+    const boundaryPoints = [[40.7, -74], [40.7, -73.99], [40.71, -73.99], [40.71, -74]];
+    const collection = toGeoJSON([
+      { name: "SoHo", slug: "soho", description: null, active: true, center_lat: 40.705, center_lng: -73.995, boundary_points: boundaryPoints },
+      { name: "Empty", slug: "empty", description: null, active: false, center_lat: 0, center_lng: 0, boundary_points: null },
+    ]);
+
+    expect(collection.features).toHaveLength(1);
+    const [reimported] = parseGeoJSON(JSON.stringify(collection));
+    expect(reimported.points).toEqual(boundaryPoints);
+    expect(reimported.properties).toMatchObject({ name: "SoHo", slug: "soho", active: "true" });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * GeoJSON and KML conversion for neighborhood boundaries.
+ * Imports keep only each feature's outer ring (the largest polygon for multi-polygons),
+ * since boundary_points stores a single [[lat, lng], ...] ring per neighborhood.
+ */
+
+import { parseBoundaryPoints, type LatLng } from "@/utils/polygonUtils";
+
+export interface ImportedBoundary {
+  points: LatLng[];
+  properties: Record<string, string>;
+}
+
+export interface ExportableNeighborhood {
+  name: string;
+  slug: string;
+  description: string | null;
+  active: boolean | null;
+  center_lat: number;
+  center_lng: number;
+  boundary_points: unknown;
+}
+
+/**
+ * Lowercase-with-dashes slug, matching what NeighborhoodForm expects
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 200);
+}
+
+function ringArea(points: LatLng[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [y1, x1] = points[i];
+    const [y2, x2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area / 2);
+}
+
+// GeoJSON positions are [lng, lat] - flip into boundary_points order
+function ringFromPositions(positions: unknown): LatLng[] {
+  if (!Array.isArray(positions)) return [];
+  return parseBoundaryPoints(
+    positions.map((position) => (Array.isArray(position) ? [position[1], position[0]] : null))
+  );
+}
+
+function largestRing(rings: LatLng[][]): LatLng[] {
+  return rings.reduce<LatLng[]>((best, ring) => (ringArea(ring) > ringArea(best) ? ring : best), []);
+}
+
+function stringifyProperties(properties: unknown): Record<string, string> {
+  if (!properties || typeof properties !== 'object') return {};
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined || typeof value === 'object') continue;
+    result[key] = String(value);
+  }
+  return result;
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection, Feature or bare Polygon/MultiPolygon
+ */
+export function parseGeoJSON(text: string): ImportedBoundary[] {
+  const json = JSON.parse(text);
+  const features =
+    json?.type === 'FeatureCollection'
+      ? json.features
+      : json?.type === 'Feature'
+        ? [json]
+        : [{ type: 'Feature', properties: {}, geometry: json }];
+
+  if (!Array.isArray(features)) throw new Error('GeoJSON has no features');
+
+  const boundaries: ImportedBoundary[] = [];
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    let ring: LatLng[] = [];
+
+    if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+      ring = ringFromPositions(geometry.coordinates[0]);
+    } else if (geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+      ring = largestRing(
+        geometry.coordinates.map((polygon: unknown) => ringFromPositions(Array.isArray(polygon) ? polygon[0] : null))
+      );
+    }
+
+    if (ring.length >= 3) {
+      boundaries.push({ points: ring, properties: stringifyProperties(feature.properties) });
+    }
+  }
+  return boundaries;
+}
+
+// KML coordinates are whitespace-separated "lng,lat[,alt]" tuples
+function ringFromKmlCoordinates(text: string | null | undefined): LatLng[] {
+  if (!text) return [];
+  return parseBoundaryPoints(
+    text
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => {
+        const [lng, lat] = tuple.split(',').map(Number);
+        return [lat, lng];
+      })
+  );
+}
+
+/**
+ * Parse KML Placemarks with Polygon (or MultiGeometry) outer boundaries.
+ * Name and description come from the Placemark; ExtendedData fields become properties.
+ */
+export function parseKML(text: string): ImportedBoundary[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid KML file');
+  }
+
+  const boundaries: ImportedBoundary[] = [];
+  for (const placemark of Array.from(doc.getElementsByTagName('Placemark'))) {
+    const rings = Array.from(placemark.getElementsByTagName('outerBoundaryIs')).map((outer) =>
+      ringFromKmlCoordinates(outer.getElementsByTagName('coordinates')[0]?.textContent)
+    );
+    const ring = largestRing(rings);
+    if (ring.length < 3) continue;
+
+    const properties: Record<string, string> = {};
+    const name = placemark.getElementsByTagName('name')[0]?.textContent?.trim();
+    const description = placemark.getElementsByTagName('description')[0]?.textContent?.trim();
+    if (name) properties.name = name;
+    if (description) properties.description = description;
+
+    for (const data of Array.from(placemark.getElementsByTagName('Data'))) {
+      const key = data.getAttribute('name');
+      const value = data.getElementsByTagName('value')[0]?.textContent?.trim();
+      if (key && value) properties[key] = value;
+    }
+    for (const data of Array.from(placemark.getElementsByTagName('SimpleData'))) {
+      const key = data.getAttribute('name');
+      const value = data.textContent?.trim();
+      if (key && value) properties[key] = value;
+    }
+
+    boundaries.push({ points: ring, properties });
+  }
+  return boundaries;
+}
+
+/**
+ * Pick the parser from the file name, falling back to sniffing the content
+ */
+export function parseBoundaryFile(fileName: string, text: string): ImportedBoundary[] {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.kml') || text.trimStart().startsWith('<')) {
+    return parseKML(text);
+  }
+  return parseGeoJSON(text);
+}
+
+/**
+ * Export neighborhoods as a GeoJSON FeatureCollection that parseGeoJSON can re-import
+ */
+export function toGeoJSON(neighborhoods: ExportableNeighborhood[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: neighborhoods.flatMap((neighborhood) => {
+      const points = parseBoundaryPoints(neighborhood.boundary_points);
+      if (points.length < 3) return [];
+
+      const coordinates = points.map(([lat, lng]) => [lng, lat]);
+      return [{
+        type: 'Feature' as const,
+        properties: {
+          name: neighborhood.name,
+          slug: neighborhood.slug,
+          description: neighborhood.description,
+          active: neighborhood.active,
+          center_lat: neighborhood.center_lat,
+          center_lng: neighborhood.center_lng,
+        },
+        geometry: { type: 'Polygon' as const, coordinates: [[...coordinates, coordinates[0]]] },
+      }];
+    }),
+  };
+}
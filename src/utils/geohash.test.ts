@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  DENSITY_TILE_DEPTH,
+  MAX_DENSITY_TILES,
+  decodeGeohashBounds,
+  encodeGeohash,
+  getCoveringGeohashes,
+  getDensityTiles,
+  getGeohashPrecisionForZoom,
+} from "@/utils/geohash";
+
+// Lower Manhattan, a little over one precision-5 cell each way
+const viewport = { west: -74.03, south: 40.69, east: -73.96, north: 40.75 };
+
+describe("encodeGeohash", () => {
+  it("matches the reference encoding", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj");
+    expect(encodeGeohash(40.7128, -74.006, 6)).toBe("dr5reg");
+  });
+
+  it("makes each shorter hash a parent cell", () => {
+    const hash = encodeGeohash(40.7128, -74.006, 8);
+
+    expect(encodeGeohash(40.7128, -74.006, 5)).toBe(hash.slice(0, 5));
+  });
+});
+
+describe("decodeGeohashBounds", () => {
+  it("returns the cell that contains the encoded point", () => {
+    const cell = decodeGeohashBounds(encodeGeohash(40.7128, -74.006, 7));
+
+    expect(cell.south).toBeLessThanOrEqual(40.7128);
+    expect(cell.north).toBeGreaterThan(40.7128);
+    expect(cell.west).toBeLessThanOrEqual(-74.006);
+    expect(cell.east).toBeGreaterThan(-74.006);
+  });
+
+  it("rejects characters outside the geohash alphabet", () => {
+    expect(() => decodeGeohashBounds("dr5a")).toThrow("Invalid geohash");
+  });
+});
+
+describe("getGeohashPrecisionForZoom", () => {
+  it("uses finer cells as the map zooms in", () => {
+    expect([3, 9, 11, 13, 15, 20].map(getGeohashPrecisionForZoom)).toEqual([4, 5, 6, 7, 8, 8]);
+  });
+});
+
+describe("getCoveringGeohashes", () => {
+  it("covers every corner of the bounds", () => {
+    const tiles = getCoveringGeohashes(viewport, 5)!;
+
+    for (const [lat, lng] of [
+      [viewport.south, viewport.west],
+      [viewport.south, viewport.east],
+      [viewport.north, viewport.west],
+      [viewport.north, viewport.east],
+    ]) {
+      expect(tiles).toContain(encodeGeohash(lat, lng, 5));
+    }
+    expect(tiles).toEqual([...tiles].sort());
+  });
+
+  it("gives up when the bounds need too many tiles", () => {
+    expect(getCoveringGeohashes(viewport, 7)).toBeNull();
+  });
+});
+
+describe("getDensityTiles", () => {
+  it("caches cells under tiles DENSITY_TILE_DEPTH characters shorter", () => {
+    const tiles = getDensityTiles(viewport, 7)!;
+
+    expect(tiles.every((tile) => tile.length === 7 - DENSITY_TILE_DEPTH)).toBe(true);
+  });
+
+  it("falls back to coarser tiles for a wide viewport", () => {
+    const wide = { west: -80, south: 35, east: -68, north: 45 };
+    const tiles = getDensityTiles(wide, 6)!;
+
+    expect(tiles.length).toBeLessThanOrEqual(MAX_DENSITY_TILES);
+    expect(tiles[0].length).toBeLessThan(6 - DENSITY_TILE_DEPTH);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Geohash helpers for the multi-resolution density grid.
+ * Each extra character splits a cell into 32 children, so a cell ID's prefixes
+ * are its parent cells - which is what lets us cache density per tile.
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export interface GeohashBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Number of characters between a density cell and the tile it is cached under.
+ * Two levels means each tile holds at most 32 * 32 cells.
+ */
+export const DENSITY_TILE_DEPTH = 2;
+
+/**
+ * Maximum number of tiles requested for a single viewport
+ */
+export const MAX_DENSITY_TILES = 48;
+
+/**
+ * Encode a coordinate as a geohash of the given precision
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number): string {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        charIndex = charIndex * 2 + 1;
+        lngMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        charIndex = charIndex * 2 + 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[charIndex];
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Decode a geohash into the bounding box of its cell
+ */
+export function decodeGeohashBounds(hash: string): GeohashBounds {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) throw new Error(`Invalid geohash: ${hash}`);
+
+    for (let n = 4; n >= 0; n--) {
+      const bitN = (value >> n) & 1;
+      if (evenBit) {
+        const mid = (lngMin + lngMax) / 2;
+        if (bitN === 1) lngMin = mid; else lngMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (bitN === 1) latMin = mid; else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { west: lngMin, south: latMin, east: lngMax, north: latMax };
+}
+
+/**
+ * Pick the density cell precision for a Mapbox zoom level.
+ * 4 ≈ 39km, 5 ≈ 4.9km, 6 ≈ 1.2km, 7 ≈ 150m, 8 ≈ 38m cells.
+ */
+export function getGeohashPrecisionForZoom(zoom: number): number {
+  if (zoom < 9) return 4;
+  if (zoom < 11) return 5;
+  if (zoom < 13) return 6;
+  if (zoom < 15) return 7;
+  return 8;
+}
+
+/**
+ * List the geohash tiles of the given precision that cover a bounding box.
+ * Returns null when the box would need more than MAX_DENSITY_TILES tiles.
+ */
+export function getCoveringGeohashes(bounds: GeohashBounds, precision: number): string[] | null {
+  // Every cell at one precision has the same size, so step by a sample cell
+  const sample = decodeGeohashBounds(encodeGeohash(bounds.south, bounds.west, precision));
+  const cellHeight = sample.north - sample.south;
+  const cellWidth = sample.east - sample.west;
+
+  const rows = Math.ceil((bounds.north - sample.south) / cellHeight);
+  const cols = Math.ceil((bounds.east - sample.west) / cellWidth);
+  if (rows * cols > MAX_DENSITY_TILES) return null;
+
+  const hashes = new Set<string>();
+  for (let row = 0; row < rows; row++) {
+    const lat = Math.min(sample.south + (row + 0.5) * cellHeight, 89.999999);
+    for (let col = 0; col < cols; col++) {
+      const lng = Math.min(sample.west + (col + 0.5) * cellWidth, 179.999999);
+      hashes.add(encodeGeohash(lat, lng, precision));
+    }
+  }
+
+  return Array.from(hashes).sort();
+}
+
+/**
+ * Tiles to request density cells of `cellPrecision` for a viewport.
+ * Falls back to coarser tiles when the viewport is too large for the default depth.
+ */
+export function getDensityTiles(bounds: GeohashBounds, cellPrecision: number): string[] | null {
+  for (let precision = cellPrecision - DENSITY_TILE_DEPTH; precision >= 1; precision--) {
+    const tiles = getCoveringGeohashes(bounds, precision);
+    if (tiles) return tiles;
+  }
+  return null;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  getPolygonCentroid,
+  hasSelfIntersection,
+  isPointInPolygon,
+  parseBoundaryPoints,
+  polygonsOverlap,
+  segmentsCross,
+  validateBoundary,
+  type LatLng,
+} from "@/utils/polygonUtils";
+
+// Unit squares as [lat, lng] rings
+const square: LatLng[] = [[0, 0], [0, 1], [1, 1], [1, 0]];
+const eastNeighbor: LatLng[] = [[0, 1], [0, 2], [1, 2], [1, 1]];
+const shiftedEast: LatLng[] = [[0, 0.5], [0, 1.5], [1, 1.5], [1, 0.5]];
+const bowTie: LatLng[] = [[0, 0], [1, 1], [1, 0], [0, 1]];
+
+describe("parseBoundaryPoints", () => {
+  it("drops malformed points and a closing point", () => {
+    expect(parseBoundaryPoints([[0, 0], ["1", 2], [0, 1, 5], [1, 1], null, [0, 0]])).toEqual([[0, 0], [0, 1], [1, 1]]);
+  });
+
+  it("reads anything that isn't an array as empty", () => {
+    expect(parseBoundaryPoints(null)).toEqual([]);
+    expect(parseBoundaryPoints({ points: [] })).toEqual([]);
+  });
+});
+
+describe("getPolygonCentroid", () => {
+  it("returns the area centroid of a ring", () => {
+    const centroid = getPolygonCentroid([[0, 0], [0, 4], [2, 4], [2, 0]])!;
+
+    expect(centroid.lat).toBeCloseTo(1);
+    expect(centroid.lng).toBeCloseTo(2);
+  });
+
+  it("averages the vertices of a degenerate ring", () => {
+    expect(getPolygonCentroid([[0, 0], [0, 2]])).toEqual({ lat: 0, lng: 1 });
+    expect(getPolygonCentroid([])).toBeNull();
+  });
+});
+
+describe("segmentsCross", () => {
+  it("counts only a crossing at an interior point", () => {
+    expect(segmentsCross([0, 0], [1, 1], [0, 1], [1, 0])).toBe(true);
+    expect(segmentsCross([0, 0], [1, 1], [1, 1], [2, 0])).toBe(false);
+    expect(segmentsCross([0, 0], [0, 2], [0, 1], [0, 3])).toBe(false);
+  });
+});
+
+describe("hasSelfIntersection", () => {
+  it("flags a ring whose edges cross", () => {
+    expect(hasSelfIntersection(bowTie)).toBe(true);
+    expect(hasSelfIntersection(square)).toBe(false);
+  });
+});
+
+describe("isPointInPolygon", () => {
+  it("tests points against the ring", () => {
+    expect(isPointInPolygon(0.5, 0.5, square)).toBe(true);
+    expect(isPointInPolygon(0.5, 1.5, square)).toBe(false);
+    expect(isPointInPolygon(0.5, 0.5, [[0, 0], [1, 1]])).toBe(false);
+  });
+});
+
+describe("polygonsOverlap", () => {
+  it("detects shared area", () => {
+    expect(polygonsOverlap(square, shiftedEast)).toBe(true);
+    // Every vertex of either ring sits on the other's boundary
+    expect(polygonsOverlap(shiftedEast, square)).toBe(true);
+    expect(polygonsOverlap(square, [[0.25, 0.25], [0.25, 0.75], [0.75, 0.75], [0.75, 0.25]])).toBe(true);
+  });
+
+  it("allows neighbors that only share an edge", () => {
+    expect(polygonsOverlap(square, eastNeighbor)).toBe(false);
+  });
+
+  it("treats an identical ring as overlapping", () => {
+    expect(polygonsOverlap(square, [...square])).toBe(true);
+  });
+});
+
+describe("validateBoundary", () => {
+  it("needs at least three points", () => {
+    expect(validateBoundary([[0, 0], [0, 1]])).toEqual(["Boundary needs at least 3 points"]);
+  });
+
+  it("reports crossing edges and every overlapped neighborhood", () => {
+    expect(validateBoundary(bowTie)).toEqual(["Boundary edges cross each other"]);
+    expect(
+      validateBoundary(shiftedEast, [
+        { name: "SoHo", points: square },
+        { name: "Tribeca", points: [[0, 1], [0, 2], [1, 2], [1, 1.2]] },
+        { name: "Chelsea", points: [[5, 5], [5, 6], [6, 6]] },
+      ])
+    ).toEqual(["Overlaps SoHo", "Overlaps Tribeca"]);
+  });
+
+  it("accepts a clean boundary next to its neighbors", () => {
+    expect(validateBoundary(eastNeighbor, [{ name: "SoHo", points: square }])).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Planar polygon helpers for neighborhood boundaries.
+ * Boundaries are stored as [[lat, lng], ...] (lat first) without a closing point.
+ * At neighborhood scale treating lat/lng as planar coordinates is accurate enough.
+ */
+
+export type LatLng = [number, number];
+
+export interface NamedBoundary {
+  name: string;
+  points: LatLng[];
+}
+
+// Coordinates closer than this (~1cm) are treated as the same point
+const EPSILON = 1e-7;
+
+/**
+ * Read boundary_points JSON into a clean ring, dropping malformed entries
+ * and a trailing point that repeats the first one
+ */
+export function parseBoundaryPoints(value: unknown): LatLng[] {
+  if (!Array.isArray(value)) return [];
+
+  const points = value.filter(
+    (point): point is LatLng =>
+      Array.isArray(point) &&
+      point.length >= 2 &&
+      typeof point[0] === 'number' &&
+      typeof point[1] === 'number' &&
+      Number.isFinite(point[0]) &&
+      Number.isFinite(point[1])
+  ).map(([lat, lng]) => [lat, lng] as LatLng);
+
+  if (points.length > 1 && pointsEqual(points[0], points[points.length - 1])) {
+    points.pop();
+  }
+  return points;
+}
+
+function pointsEqual(a: LatLng, b: LatLng): boolean {
+  return Math.abs(a[0] - b[0]) < EPSILON && Math.abs(a[1] - b[1]) < EPSILON;
+}
+
+/**
+ * Area-weighted centroid, falling back to the vertex average for degenerate rings
+ */
+export function getPolygonCentroid(points: LatLng[]): { lat: number; lng: number } | null {
+  if (points.length === 0) return null;
+
+  let area = 0;
+  let lat = 0;
+  let lng = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [y1, x1] = points[i];
+    const [y2, x2] = points[(i + 1) % points.length];
+    const cross = x1 * y2 - x2 * y1;
+    area += cross;
+    lng += (x1 + x2) * cross;
+    lat += (y1 + y2) * cross;
+  }
+
+  if (Math.abs(area) < EPSILON * EPSILON) {
+    return {
+      lat: points.reduce((sum, p) => sum + p[0], 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    };
+  }
+
+  return { lat: lat / (3 * area), lng: lng / (3 * area) };
+}
+
+function orientation(a: LatLng, b: LatLng, c: LatLng): number {
+  const value = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]);
+  if (Math.abs(value) < EPSILON * EPSILON) return 0;
+  return value > 0 ? 1 : -1;
+}
+
+/**
+ * True when segments AB and CD cross at a single interior point.
+ * Touching endpoints and collinear overlap don't count, so shared (snapped) edges are allowed.
+ */
+export function segmentsCross(a: LatLng, b: LatLng, c: LatLng, d: LatLng): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  return o1 !== 0 && o2 !== 0 && o3 !== 0 && o4 !== 0 && o1 !== o2 && o3 !== o4;
+}
+
+/**
+ * True when any two non-adjacent edges of the ring cross
+ */
+export function hasSelfIntersection(points: LatLng[]): boolean {
+  const n = points.length;
+  if (n < 4) return false;
+
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    for (let j = i + 2; j < n; j++) {
+      // The first and last edges share a vertex
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(a, b, points[j], points[(j + 1) % n])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Ray casting point-in-polygon test (same algorithm as the check-geofence edge function)
+ */
+export function isPointInPolygon(lat: number, lng: number, polygon: LatLng[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    const intersect = yi > lng !== yj > lng && lat < ((xj - xi) * (lng - yi)) / (yj - yi) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Closest point to P on segment AB, in whatever planar coordinates are passed in
+ */
+export function closestPointOnSegment(
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): [number, number] {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return [a[0] + t * dx, a[1] + t * dy];
+}
+
+function isOnBoundary(point: LatLng, polygon: LatLng[]): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    const closest = closestPointOnSegment(point, polygon[i], polygon[(i + 1) % polygon.length]);
+    if (pointsEqual(point, closest as LatLng)) return true;
+  }
+  return false;
+}
+
+// Vertices and edge midpoints, since rings that meet only along snapped edges can overlap
+// with every vertex on the other's boundary
+function hasPointInside(points: LatLng[], polygon: LatLng[]): boolean {
+  const samples = points.flatMap((point, i) => {
+    const next = points[(i + 1) % points.length];
+    return [point, [(point[0] + next[0]) / 2, (point[1] + next[1]) / 2] as LatLng];
+  });
+  return samples.some(
+    (point) => isPointInPolygon(point[0], point[1], polygon) && !isOnBoundary(point, polygon)
+  );
+}
+
+/**
+ * True when two polygons share interior area. Polygons that only share edges or
+ * vertices (e.g. after snapping) are adjacent, not overlapping.
+ */
+export function polygonsOverlap(a: LatLng[], b: LatLng[]): boolean {
+  if (a.length < 3 || b.length < 3) return false;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsCross(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) return true;
+    }
+  }
+
+  if (hasPointInside(a, b) || hasPointInside(b, a)) return true;
+
+  // Identical rings have every vertex on the other's boundary - compare centroids instead
+  const centroid = getPolygonCentroid(a);
+  return !!centroid && isPointInPolygon(centroid.lat, centroid.lng, b) && isPointInPolygon(centroid.lat, centroid.lng, a);
+}
+
+/**
+ * Validate a boundary before it is saved. Returns human-readable problems (empty when valid).
+ */
+export function validateBoundary(points: LatLng[], others: NamedBoundary[] = []): string[] {
+  if (points.length < 3) return ['Boundary needs at least 3 points'];
+
+  const errors: string[] = [];
+  if (hasSelfIntersection(points)) {
+    errors.push('Boundary edges cross each other');
+  }
+  for (const other of others) {
+    if (polygonsOverlap(points, other.points)) {
+      errors.push(`Overlaps ${other.name}`);
+    }
+  }
+  return errors;
+}
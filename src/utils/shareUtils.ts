@@ -82,6 +82,35 @@ export const shareVenue = async (venue: Pick<Venue, 'id' | 'name'>) => {
   }
 };
 
+export const shareItinerary = async (itinerary: { id: string; title: string }) => {
+  const shareUrl = getItineraryDeepLink(itinerary.id);
+  const shareText = `Join my night out on JET: ${itinerary.title}`;
+
+  if (navigator.share) {
+    try {
+      await navigator.share({
+        title: itinerary.title,
+        text: shareText,
+        url: shareUrl,
+      });
+      return { success: true, method: "native" };
+    } catch (error) {
+      if ((error as Error).name !== "AbortError") {
+        console.error("Error sharing itinerary:", error);
+      }
+      return { success: false, method: "native" };
+    }
+  } else {
+    try {
+      await navigator.clipboard.writeText(`${shareText}\n${shareUrl}`);
+      return { success: true, method: "clipboard" };
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      return { success: false, method: "clipboard" };
+    }
+  }
+};
+
 // Generate a deep link URL for a deal
 export const getDealDeepLink = (dealId: string) => {
   return `${window.location.origin}/?deal=${dealId}`;
@@ -91,3 +120,8 @@ export const getDealDeepLink = (dealId: string) => {
 export const getVenueDeepLink = (venueName: string) => {
   return `${window.location.origin}/?venue=${encodeURIComponent(venueName)}`;
 };
+
+// Generate a deep link URL for a saved itinerary
+export const getItineraryDeepLink = (itineraryId: string) => {
+  return `${window.location.origin}/?itinerary=${itineraryId}`;
+};
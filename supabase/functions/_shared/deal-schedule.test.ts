@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeDealSchedule,
+  getDealLiveIntervals,
+  getDealLiveStatus,
+  getNextDealTransition,
+  isDealLive,
+  parseDealSchedule,
+  type DealSchedule,
+} from "./deal-schedule.ts";
+
+const at = (iso: string) => new Date(iso);
+
+const dealWith = (schedule: DealSchedule | null, overrides: Record<string, unknown> = {}) => ({
+  active: true,
+  starts_at: "2026-01-01T00:00:00Z",
+  expires_at: "2026-12-31T00:00:00Z",
+  active_days: null,
+  schedule,
+  ...overrides,
+});
+
+// Weekday 4–7pm in New York; 2026-03-06 is a Friday, and clocks go forward on Sunday 2026-03-08
+const happyHour = dealWith({
+  timezone: "America/New_York",
+  windows: [{ days: [1, 2, 3, 4, 5], start: "16:00", end: "19:00" }],
+});
+
+describe("parseDealSchedule", () => {
+  it("accepts a well-formed schedule and defaults exceptions", () => {
+    expect(parseDealSchedule({ timezone: "UTC", windows: [{ days: [1], start: "09:00", end: "17:00" }] }))
+      .toEqual({ timezone: "UTC", windows: [{ days: [1], start: "09:00", end: "17:00" }], exceptions: [] });
+  });
+
+  it("rejects unknown timezones, bad times and bad weekdays", () => {
+    expect(parseDealSchedule({ timezone: "Mars/Olympus", windows: [] })).toBeNull();
+    expect(parseDealSchedule({ timezone: "UTC", windows: [{ days: [1], start: "24:00", end: "02:00" }] })).toBeNull();
+    expect(parseDealSchedule({ timezone: "UTC", windows: [{ days: [7], start: "09:00", end: "17:00" }] })).toBeNull();
+    expect(parseDealSchedule({ timezone: "UTC", windows: [], exceptions: [{ date: "March 1", windows: [] }] })).toBeNull();
+    expect(parseDealSchedule(null)).toBeNull();
+  });
+});
+
+describe("wall-clock windows across DST", () => {
+  it("keeps the window at 4pm local before and after the clocks change", () => {
+    // EST (UTC-5) on Friday, EDT (UTC-4) on Monday
+    expect(isDealLive(happyHour, at("2026-03-06T21:00:00Z"))).toBe(true);
+    expect(isDealLive(happyHour, at("2026-03-06T20:59:00Z"))).toBe(false);
+    expect(isDealLive(happyHour, at("2026-03-09T20:00:00Z"))).toBe(true);
+    expect(isDealLive(happyHour, at("2026-03-09T19:59:00Z"))).toBe(false);
+  });
+
+  it("returns intervals in UTC that follow the offset change", () => {
+    const intervals = getDealLiveIntervals(happyHour, at("2026-03-06T00:00:00Z"), at("2026-03-10T00:00:00Z"));
+
+    expect(intervals.map(({ start, end }) => [start.toISOString(), end.toISOString()])).toEqual([
+      ["2026-03-06T21:00:00.000Z", "2026-03-07T00:00:00.000Z"],
+      ["2026-03-09T20:00:00.000Z", "2026-03-09T23:00:00.000Z"],
+    ]);
+  });
+});
+
+describe("windows past midnight", () => {
+  // Friday and Saturday 10pm–2am
+  const lateNight = dealWith({ timezone: "UTC", windows: [{ days: [5, 6], start: "22:00", end: "02:00" }] });
+
+  it("stays live into the next morning", () => {
+    expect(isDealLive(lateNight, at("2026-03-06T23:00:00Z"))).toBe(true);
+    expect(isDealLive(lateNight, at("2026-03-07T01:30:00Z"))).toBe(true);
+    expect(isDealLive(lateNight, at("2026-03-08T01:30:00Z"))).toBe(true);
+    // Sunday has no window of its own, so Monday 1:30am is closed
+    expect(isDealLive(lateNight, at("2026-03-09T01:30:00Z"))).toBe(false);
+  });
+
+  it("reports when the current window closes and the next one opens", () => {
+    expect(getDealLiveStatus(lateNight, at("2026-03-07T01:00:00Z"))).toEqual({
+      live: true,
+      endsAt: at("2026-03-07T02:00:00Z"),
+      nextStartsAt: null,
+    });
+    expect(getDealLiveStatus(lateNight, at("2026-03-07T12:00:00Z"))).toEqual({
+      live: false,
+      endsAt: null,
+      nextStartsAt: at("2026-03-07T22:00:00Z"),
+    });
+  });
+
+  it("treats equal start and end as all day", () => {
+    const allDay = dealWith({ timezone: "UTC", windows: [{ days: [6], start: "00:00", end: "00:00" }] });
+    expect(isDealLive(allDay, at("2026-03-07T00:00:00Z"))).toBe(true);
+    expect(isDealLive(allDay, at("2026-03-07T23:59:00Z"))).toBe(true);
+    expect(isDealLive(allDay, at("2026-03-08T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("exceptions", () => {
+  const withExceptions = dealWith({
+    timezone: "UTC",
+    windows: [{ days: [1, 2, 3, 4, 5], start: "16:00", end: "19:00" }],
+    exceptions: [
+      { date: "2026-03-06", windows: [], label: "Closed for a private event" },
+      // A Saturday that normally has no window
+      { date: "2026-03-07", windows: [{ start: "12:00", end: "14:00" }] },
+    ],
+  });
+
+  it("closes the deal on a date with no windows", () => {
+    expect(isDealLive(withExceptions, at("2026-03-05T17:00:00Z"))).toBe(true);
+    expect(isDealLive(withExceptions, at("2026-03-06T17:00:00Z"))).toBe(false);
+  });
+
+  it("replaces the regular windows on that date", () => {
+    expect(isDealLive(withExceptions, at("2026-03-07T13:00:00Z"))).toBe(true);
+    expect(isDealLive(withExceptions, at("2026-03-07T17:00:00Z"))).toBe(false);
+  });
+});
+
+describe("deals without a schedule", () => {
+  it("are live all day on their active days in the fallback timezone", () => {
+    const weekends = dealWith(null, { active_days: [0, 6] });
+    expect(isDealLive(weekends, at("2026-03-07T03:00:00Z"), "UTC")).toBe(true);
+    // Still Friday evening in New York
+    expect(isDealLive(weekends, at("2026-03-07T03:00:00Z"), "America/New_York")).toBe(false);
+  });
+
+  it("fall back to every day for an empty active_days", () => {
+    expect(isDealLive(dealWith(null, { active_days: [] }), at("2026-03-04T12:00:00Z"))).toBe(true);
+  });
+});
+
+describe("deal dates and the active flag", () => {
+  it("clips windows to starts_at and expires_at", () => {
+    const short = dealWith(
+      { timezone: "UTC", windows: [{ days: [5], start: "16:00", end: "19:00" }] },
+      { starts_at: "2026-03-06T17:00:00Z", expires_at: "2026-03-06T18:00:00Z" }
+    );
+
+    expect(getDealLiveIntervals(short, at("2026-03-06T00:00:00Z"), at("2026-03-07T00:00:00Z"))).toEqual([
+      { start: at("2026-03-06T17:00:00Z"), end: at("2026-03-06T18:00:00Z") },
+    ]);
+    expect(isDealLive(short, at("2026-03-06T16:30:00Z"))).toBe(false);
+  });
+
+  it("is never live when inactive", () => {
+    expect(isDealLive({ ...happyHour, active: false }, at("2026-03-06T21:30:00Z"))).toBe(false);
+  });
+});
+
+describe("getNextDealTransition", () => {
+  it("returns the earliest opening or closing across deals", () => {
+    const lunch = dealWith({ timezone: "UTC", windows: [{ days: [5], start: "12:00", end: "14:00" }] });
+    const dinner = dealWith({ timezone: "UTC", windows: [{ days: [5], start: "18:00", end: "21:00" }] });
+
+    expect(getNextDealTransition([dinner, lunch], at("2026-03-06T13:00:00Z"))).toEqual(at("2026-03-06T14:00:00Z"));
+    expect(getNextDealTransition([], at("2026-03-06T13:00:00Z"))).toBeNull();
+  });
+});
+
+describe("describeDealSchedule", () => {
+  it("summarises day runs and times", () => {
+    expect(describeDealSchedule({
+      timezone: "UTC",
+      windows: [
+        { days: [1, 2, 3, 4, 5], start: "16:00", end: "19:30" },
+        { days: [0, 6], start: "00:00", end: "00:00" },
+      ],
+    })).toEqual(["Mon–Fri 4pm–7:30pm", "Sun, Sat all day"]);
+  });
+});
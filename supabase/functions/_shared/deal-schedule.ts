@@ -0,0 +1,307 @@
+// Recurring deal schedules ("4–7pm Mon–Fri happy hour"). The single "is this deal live now"
+// rule used by check-geofence and, through src/lib/deal-schedule.ts, by the app.
+// Dependency-free on purpose so the same file runs under Deno and Vite.
+//
+// deals.schedule (jsonb) holds a DealSchedule. Times are wall-clock times in the schedule's
+// IANA timezone, so a happy hour stays at 4pm across DST changes. Deals without a schedule
+// fall back to active_days (whole days; empty or null = every day).
+
+export interface DealScheduleWindow {
+  // Weekdays the window opens on, 0 = Sunday
+  days: number[];
+  // "HH:MM". An end at or before the start runs past midnight; equal start and end = all day
+  start: string;
+  end: string;
+}
+
+export interface DealScheduleException {
+  // Local calendar date, "YYYY-MM-DD"
+  date: string;
+  // Replaces the regular windows for that date; empty = closed all day
+  windows: { start: string; end: string }[];
+  label?: string;
+}
+
+export interface DealSchedule {
+  timezone: string;
+  windows: DealScheduleWindow[];
+  exceptions?: DealScheduleException[];
+}
+
+export interface SchedulableDeal {
+  active?: boolean | null;
+  starts_at?: string | null;
+  expires_at: string;
+  active_days?: number[] | null;
+  schedule?: unknown;
+}
+
+export interface DealLiveInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface DealLiveStatus {
+  live: boolean;
+  // When the current window closes (live) - never later than expires_at
+  endsAt: Date | null;
+  // When the next window opens (not live), within the lookahead
+  nextStartsAt: Date | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Far enough to reach the same weekday next week
+const LOOKAHEAD_DAYS = 8;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isTimeRange(value: unknown): value is { start: string; end: string } {
+  const range = value as { start?: unknown; end?: unknown } | null;
+  return (
+    typeof range === 'object' && range !== null &&
+    typeof range.start === 'string' && TIME_PATTERN.test(range.start) &&
+    typeof range.end === 'string' && TIME_PATTERN.test(range.end)
+  );
+}
+
+function isScheduleWindow(value: unknown): value is DealScheduleWindow {
+  const days = (value as { days?: unknown } | null)?.days;
+  return (
+    isTimeRange(value) &&
+    Array.isArray(days) &&
+    days.length > 0 &&
+    days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  );
+}
+
+function isScheduleException(value: unknown): value is DealScheduleException {
+  const exception = value as { date?: unknown; windows?: unknown } | null;
+  return (
+    typeof exception === 'object' && exception !== null &&
+    typeof exception.date === 'string' && DATE_PATTERN.test(exception.date) &&
+    Array.isArray(exception.windows) && exception.windows.every(isTimeRange)
+  );
+}
+
+/**
+ * Validates a stored schedule. Returns null for anything malformed so callers fall back to
+ * active_days instead of guessing.
+ */
+export function parseDealSchedule(value: unknown): DealSchedule | null {
+  const schedule = value as { timezone?: unknown; windows?: unknown; exceptions?: unknown } | null;
+  if (typeof schedule !== 'object' || schedule === null) return null;
+  if (!isValidTimezone(schedule.timezone)) return null;
+  if (!Array.isArray(schedule.windows) || !schedule.windows.every(isScheduleWindow)) return null;
+  if (schedule.exceptions !== undefined && schedule.exceptions !== null) {
+    if (!Array.isArray(schedule.exceptions) || !schedule.exceptions.every(isScheduleException)) return null;
+  }
+
+  return {
+    timezone: schedule.timezone,
+    windows: schedule.windows,
+    exceptions: (schedule.exceptions as DealScheduleException[] | null | undefined) ?? [],
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number;
+}
+
+function getWallClock(timezone: string, instant: Date): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { year: part('year'), month: part('month'), day: part('day'), minutes: (part('hour') % 24) * 60 + part('minute') };
+}
+
+// Minutes the timezone is ahead of UTC at the given instant
+function getOffsetMinutes(timezone: string, instant: Date): number {
+  const local = getWallClock(timezone, instant);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day) + local.minutes * MINUTE_MS;
+  return Math.round((asUtc - Math.floor(instant.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+// Instant of a wall-clock time. Times skipped by a DST jump resolve to just after it.
+function fromWallClock(timezone: string, localDay: number, minutes: number): Date {
+  const guess = localDay + minutes * MINUTE_MS;
+  const offset = getOffsetMinutes(timezone, new Date(guess));
+  const instant = guess - offset * MINUTE_MS;
+  const corrected = getOffsetMinutes(timezone, new Date(instant));
+  return new Date(corrected === offset ? instant : guess - corrected * MINUTE_MS);
+}
+
+function formatLocalDate(localDay: number): string {
+  return new Date(localDay).toISOString().slice(0, 10);
+}
+
+// Legacy deals behave like an all-day window on each active day
+function toSchedule(deal: SchedulableDeal, fallbackTimezone: string): DealSchedule {
+  const parsed = parseDealSchedule(deal.schedule);
+  if (parsed) return parsed;
+  const days = deal.active_days?.length ? deal.active_days : ALL_WEEKDAYS;
+  return { timezone: fallbackTimezone, windows: [{ days, start: '00:00', end: '00:00' }], exceptions: [] };
+}
+
+function getWindowsForDate(schedule: DealSchedule, localDay: number): { start: string; end: string }[] {
+  const date = formatLocalDate(localDay);
+  const exception = schedule.exceptions?.find((candidate) => candidate.date === date);
+  if (exception) return exception.windows;
+  const weekday = new Date(localDay).getUTCDay();
+  return schedule.windows.filter((window) => window.days.includes(weekday));
+}
+
+/**
+ * Live intervals of a deal between from and to, merged and clipped to starts_at/expires_at.
+ * fallbackTimezone applies to deals without a schedule (the viewer's or device's zone).
+ */
+export function getDealLiveIntervals(
+  deal: SchedulableDeal,
+  from: Date,
+  to: Date,
+  fallbackTimezone: string = 'UTC'
+): DealLiveInterval[] {
+  if (deal.active === false) return [];
+
+  const startsAt = deal.starts_at ? new Date(deal.starts_at).getTime() : -Infinity;
+  const expiresAt = new Date(deal.expires_at).getTime();
+  const lower = Math.max(from.getTime(), startsAt);
+  const upper = Math.min(to.getTime(), expiresAt);
+  if (!(upper > lower)) return [];
+
+  const schedule = toSchedule(deal, fallbackTimezone);
+  const first = getWallClock(schedule.timezone, new Date(lower));
+  const last = getWallClock(schedule.timezone, new Date(upper));
+  const firstDay = Date.UTC(first.year, first.month - 1, first.day);
+  const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+  const intervals: { start: number; end: number }[] = [];
+  // Start a day early so windows running past midnight into the range are included
+  for (let localDay = firstDay - DAY_MS; localDay <= lastDay; localDay += DAY_MS) {
+    for (const window of getWindowsForDate(schedule, localDay)) {
+      const startMinutes = toMinutes(window.start);
+      let endMinutes = toMinutes(window.end);
+      if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+      const start = Math.max(lower, fromWallClock(schedule.timezone, localDay, startMinutes).getTime());
+      const end = Math.min(upper, fromWallClock(schedule.timezone, localDay, endMinutes).getTime());
+      if (end > start) intervals.push({ start, end });
+    }
+  }
+
+  intervals.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && interval.start <= previous.end) {
+      previous.end = Math.max(previous.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged.map(({ start, end }) => ({ start: new Date(start), end: new Date(end) }));
+}
+
+export function getDealLiveStatus(
+  deal: SchedulableDeal,
+  now: Date = new Date(),
+  fallbackTimezone: string = 'UTC'
+): DealLiveStatus {
+  const horizon = now.getTime() + LOOKAHEAD_DAYS * DAY_MS;
+  const intervals = getDealLiveIntervals(deal, now, new Date(horizon), fallbackTimezone);
+  const current = intervals.find((interval) => interval.start.getTime() <= now.getTime());
+  if (current) {
+    // Still open at the end of the lookahead - only expiry can close it
+    const endsAt = current.end.getTime() >= horizon ? new Date(deal.expires_at) : current.end;
+    return { live: true, endsAt, nextStartsAt: null };
+  }
+  return { live: false, endsAt: null, nextStartsAt: intervals[0]?.start ?? null };
+}
+
+export function isDealLive(deal: SchedulableDeal, now: Date = new Date(), fallbackTimezone: string = 'UTC'): boolean {
+  return getDealLiveStatus(deal, now, fallbackTimezone).live;
+}
+
+/**
+ * Earliest moment any of the deals opens or closes - when a "live now" list needs
+ * re-evaluating.
+ */
+export function getNextDealTransition(
+  deals: SchedulableDeal[],
+  now: Date = new Date(),
+  fallbackTimezone: string = 'UTC'
+): Date | null {
+  let next: number | null = null;
+  for (const deal of deals) {
+    const status = getDealLiveStatus(deal, now, fallbackTimezone);
+    const at = (status.live ? status.endsAt : status.nextStartsAt)?.getTime();
+    if (at !== undefined && (next === null || at < next)) next = at;
+  }
+  return next === null ? null : new Date(next);
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatTime(time: string): string {
+  const minutes = toMinutes(time);
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours < 12 ? 'am' : 'pm';
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const rest = minutes % 60;
+  return rest === 0 ? `${hour12}${suffix}` : `${hour12}:${String(rest).padStart(2, '0')}${suffix}`;
+}
+
+// "Mon–Fri", "Sat, Sun", "Every day"
+function formatDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+
+  const runs: number[][] = [];
+  for (const day of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && day === run[run.length - 1] + 1) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .map((run) => (run.length > 2 ? `${WEEKDAY_NAMES[run[0]]}–${WEEKDAY_NAMES[run[run.length - 1]]}` : run.map((d) => WEEKDAY_NAMES[d]).join(', ')))
+    .join(', ');
+}
+
+/**
+ * One human-readable line per window, e.g. "Mon–Fri 4pm–7pm"
+ */
+export function describeDealSchedule(schedule: DealSchedule): string[] {
+  return schedule.windows.map((window) =>
+    window.start === window.end
+      ? `${formatDays(window.days)} all day`
+      : `${formatDays(window.days)} ${formatTime(window.start)}–${formatTime(window.end)}`
+  );
+}
@@ -0,0 +1,35 @@
+// deal_type normalization shared by sync-merchant-deals and, through src/lib/deal-validation.ts,
+// the admin bulk import, so deals arriving either way end up with the same types.
+
+// Valid deal_type values in the consumer app database
+export const VALID_DEAL_TYPES = ['event', 'special', 'offer'] as const;
+export type ValidDealType = typeof VALID_DEAL_TYPES[number];
+
+// Map incoming deal_type values to valid ones
+export function mapDealType(incomingType: string): ValidDealType {
+  const normalized = incomingType.toLowerCase().trim();
+  
+  // Direct matches
+  if (VALID_DEAL_TYPES.includes(normalized as ValidDealType)) {
+    return normalized as ValidDealType;
+  }
+  
+  // Map common variations
+  const mappings: Record<string, ValidDealType> = {
+    'deal': 'offer',
+    'deals': 'offer',
+    'discount': 'offer',
+    'promo': 'offer',
+    'promotion': 'offer',
+    'happy_hour': 'special',
+    'happyhour': 'special',
+    'happy hour': 'special',
+    'specials': 'special',
+    'events': 'event',
+    'show': 'event',
+    'concert': 'event',
+    'party': 'event',
+  };
+  
+  return mappings[normalized] || 'offer'; // Default to 'offer' if unknown
+}
@@ -0,0 +1,57 @@
+// Geometry helpers shared by edge functions.
+// Neighborhood boundary_points are stored as [[lat, lng], ...] - note the lat-first order.
+
+// Calculate distance between two points in meters using Haversine formula
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+// Ray casting algorithm for point-in-polygon test
+export function isPointInPolygon(lat: number, lng: number, polygon: number[][]): boolean {
+  if (!polygon || polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i][0];
+    const yi = polygon[i][1];
+    const xj = polygon[j][0];
+    const yj = polygon[j][1];
+
+    const intersect =
+      yi > lng !== yj > lng &&
+      lat < ((xj - xi) * (lng - yi)) / (yj - yi) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+export interface NeighborhoodBoundary {
+  id: string;
+  name: string;
+  boundary_points: unknown;
+}
+
+// First active neighborhood whose polygon contains the point, or null
+export function findContainingNeighborhood<T extends NeighborhoodBoundary>(
+  lat: number,
+  lng: number,
+  neighborhoods: T[]
+): T | null {
+  for (const neighborhood of neighborhoods) {
+    if (isPointInPolygon(lat, lng, neighborhood.boundary_points as number[][])) {
+      return neighborhood;
+    }
+  }
+  return null;
+}
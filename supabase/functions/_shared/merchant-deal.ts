@@ -0,0 +1,26 @@
+// Deal payload accepted by sync-merchant-deals. The admin bulk import builds its schema on this
+// one (src/lib/deal-validation.ts), so both ways in enforce the same rules.
+import { z } from "zod";
+
+// Full ISO timestamps or a leading YYYY-MM-DD
+const dealDate = z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}/));
+
+export const MerchantDealSchema = z.object({
+  id: z.string().uuid(),
+  merchant_id: z.string().max(200).optional(),
+  venue_id: z.string().min(1).max(500),
+  venue_name: z.string().min(1).max(500),
+  venue_address: z.string().max(1000).optional(),
+  title: z.string().min(1).max(500),
+  description: z.string().min(1).max(5000),
+  deal_type: z.string().min(1).max(100),
+  starts_at: dealDate,
+  expires_at: dealDate,
+  active_days: z.array(z.number().int().min(0).max(6)).optional(),
+  active: z.boolean(),
+  image_url: z.string().url().max(2000).optional().nullable(),
+  website_url: z.string().url().max(2000).optional().nullable(),
+  neighborhood_id: z.string().uuid().optional().nullable(),
+});
+
+export type MerchantDeal = z.infer<typeof MerchantDealSchema>;
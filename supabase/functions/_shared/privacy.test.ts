@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  K_ANONYMITY_MIN_USERS,
+  createNoise,
+  getCoarserWindow,
+  getWindowEnd,
+  getWindowKey,
+  getWindowStart,
+  meetsKAnonymity,
+  parseTimeFilter,
+  type TimeWindow,
+} from "./privacy.ts";
+
+// A Wednesday afternoon, local time
+const now = new Date(2026, 2, 4, 15, 20);
+
+const window = (timeFilter: TimeWindow["timeFilter"], hourOfDay: number | null = null, dayOfWeek: number | null = null): TimeWindow =>
+  ({ timeFilter, hourOfDay, dayOfWeek });
+
+describe("time windows", () => {
+  it("falls back to all time for unknown filters", () => {
+    expect(parseTimeFilter("this_hour")).toBe("this_hour");
+    expect(parseTimeFilter("yesterday")).toBe("all");
+    expect(parseTimeFilter(null)).toBe("all");
+  });
+
+  it("starts each window at its local boundary", () => {
+    expect(getWindowStart("this_hour", now)).toEqual(new Date(2026, 2, 4, 15));
+    expect(getWindowStart("today", now)).toEqual(new Date(2026, 2, 4));
+    expect(getWindowStart("this_week", now)).toEqual(new Date(2026, 2, 1));
+    expect(getWindowStart("last_week", now)).toEqual(new Date(2026, 1, 22));
+    expect(getWindowStart("all", now)).toBeNull();
+  });
+
+  it("closes only last week", () => {
+    expect(getWindowEnd("last_week", now)).toEqual(new Date(2026, 2, 1));
+    expect(getWindowEnd("this_week", now)).toBeNull();
+  });
+
+  it("keys a window by the period it covers", () => {
+    const tomorrow = new Date(2026, 2, 5, 9);
+
+    expect(getWindowKey(window("today"), now)).toBe(getWindowKey(window("today"), new Date(2026, 2, 4, 23)));
+    expect(getWindowKey(window("today"), now)).not.toBe(getWindowKey(window("today"), tomorrow));
+  });
+});
+
+describe("getCoarserWindow", () => {
+  it("drops the hour, then the weekday, then widens the range", () => {
+    expect(getCoarserWindow(window("today", 21, 5))).toEqual({ window: window("today", null, 5), scale: 24 });
+    expect(getCoarserWindow(window("today", null, 5))).toEqual({ window: window("today"), scale: 7 });
+    expect(getCoarserWindow(window("this_hour"))).toEqual({ window: window("today"), scale: 24 });
+    expect(getCoarserWindow(window("today"))).toEqual({ window: window("this_week"), scale: 7 });
+    expect(getCoarserWindow(window("this_week"))?.window).toEqual(window("all"));
+  });
+
+  it("never widens all time or a closed window", () => {
+    expect(getCoarserWindow(window("all"))).toBeNull();
+    expect(getCoarserWindow(window("last_week"))).toBeNull();
+  });
+});
+
+describe("meetsKAnonymity", () => {
+  it("needs at least K distinct users", () => {
+    expect(meetsKAnonymity(K_ANONYMITY_MIN_USERS)).toBe(true);
+    expect(meetsKAnonymity(K_ANONYMITY_MIN_USERS - 1)).toBe(false);
+  });
+});
+
+describe("createNoise", () => {
+  it("answers the same question the same way", async () => {
+    const addNoise = await createNoise("noise-secret");
+
+    expect(await addNoise(40, "cell:dr5re")).toBe(await addNoise(40, "cell:dr5re"));
+  });
+
+  it("draws different noise for another key or secret", async () => {
+    const addNoise = await createNoise("noise-secret");
+    const otherSecret = await createNoise("other-secret");
+    const keys = Array.from({ length: 20 }, (_, i) => `cell:${i}`);
+
+    const samples = await Promise.all(keys.map((key) => addNoise(1000, key)));
+    const otherSamples = await Promise.all(keys.map((key) => otherSecret(1000, key)));
+
+    expect(new Set(samples).size).toBeGreaterThan(1);
+    expect(otherSamples).not.toEqual(samples);
+  });
+
+  it("never publishes a negative count", async () => {
+    const addNoise = await createNoise("noise-secret");
+    const samples = await Promise.all(Array.from({ length: 50 }, (_, i) => addNoise(0, `empty:${i}`)));
+
+    expect(Math.min(...samples)).toBe(0);
+  });
+
+  it("scales the noise with the sensitivity", async () => {
+    const addNoise = await createNoise("noise-secret");
+    const keys = Array.from({ length: 200 }, (_, i) => `path:${i}`);
+    const spread = async (sensitivity: number) => {
+      const samples = await Promise.all(keys.map((key) => addNoise(1000, key, sensitivity)));
+      return samples.reduce((sum, value) => sum + Math.abs(value - 1000), 0) / samples.length;
+    };
+
+    expect(await spread(5)).toBeGreaterThan(await spread(1));
+  });
+});
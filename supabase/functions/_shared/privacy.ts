@@ -0,0 +1,140 @@
+// Privacy layer shared by the public aggregate endpoints (get-location-density, get-movement-paths).
+// Both run on the service-role client over all users, so every count they publish goes through here:
+//   1. k-anonymity: a cell/path must contain at least K distinct users or it is suppressed
+//   2. differential privacy: published counts get Laplace noise calibrated to a per-user contribution cap
+//   3. time-window coarsening: sparse cells/paths are retried over a wider window before being dropped
+// These thresholds are deliberately constants - callers can raise filters but never lower them.
+
+export const K_ANONYMITY_MIN_USERS = 5;
+
+// Privacy budget per published count. Lower = noisier.
+export const DP_EPSILON = 1.0;
+
+// Max points a single user can add to one cell/path. Bounds the sensitivity of each count.
+export const MAX_CONTRIBUTION_PER_USER = 5;
+
+// How many times a sparse area may be widened before it is dropped
+export const MAX_COARSENING_STEPS = 2;
+
+export type TimeFilter = 'all' | 'today' | 'this_week' | 'last_week' | 'this_hour';
+
+export interface TimeWindow {
+  timeFilter: TimeFilter;
+  hourOfDay: number | null;
+  dayOfWeek: number | null;
+}
+
+export interface CoarsenedWindow {
+  window: TimeWindow;
+  // Approximate ratio between the wider and the original window length - counts from
+  // the wider window are divided by this so they stay comparable
+  scale: number;
+}
+
+// Location data older than 30 days is deleted by process_location_data_retention()
+const RETENTION_DAYS = 30;
+
+export function parseTimeFilter(value: string | null): TimeFilter {
+  return value === 'today' || value === 'this_week' || value === 'last_week' || value === 'this_hour' ? value : 'all';
+}
+
+export function getWindowStart(timeFilter: TimeFilter, now: Date = new Date()): Date | null {
+  switch (timeFilter) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case 'this_week': {
+      const startOfWeek = new Date(now);
+      startOfWeek.setDate(now.getDate() - now.getDay());
+      startOfWeek.setHours(0, 0, 0, 0);
+      return startOfWeek;
+    }
+    case 'last_week': {
+      const startOfLastWeek = getWindowStart('this_week', now)!;
+      startOfLastWeek.setDate(startOfLastWeek.getDate() - 7);
+      return startOfLastWeek;
+    }
+    case 'this_hour':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
+    default:
+      return null;
+  }
+}
+
+// Only closed periods have an end; open ones run up to now
+export function getWindowEnd(timeFilter: TimeFilter, now: Date = new Date()): Date | null {
+  return timeFilter === 'last_week' ? getWindowStart('this_week', now) : null;
+}
+
+// Next wider window: drop the hour filter, then the weekday filter, then widen the time range.
+// Closed windows (last_week) are never widened past their end.
+export function getCoarserWindow(window: TimeWindow): CoarsenedWindow | null {
+  if (window.hourOfDay !== null) {
+    return { window: { ...window, hourOfDay: null }, scale: 24 };
+  }
+  if (window.dayOfWeek !== null) {
+    return { window: { ...window, dayOfWeek: null }, scale: 7 };
+  }
+  switch (window.timeFilter) {
+    case 'this_hour':
+      return { window: { ...window, timeFilter: 'today' }, scale: 24 };
+    case 'today':
+      return { window: { ...window, timeFilter: 'this_week' }, scale: 7 };
+    case 'this_week':
+      return { window: { ...window, timeFilter: 'all' }, scale: RETENTION_DAYS / 7 };
+    // 'all' has no end, so widening last week would pull in this week's points - a
+    // this-week-vs-last-week comparison would then count them on both sides
+    default:
+      return null;
+  }
+}
+
+export function meetsKAnonymity(distinctUsers: number): boolean {
+  return distinctUsers >= K_ANONYMITY_MIN_USERS;
+}
+
+// The concrete period a window covers, so "today" asked tomorrow is a different window
+export function getWindowKey(window: TimeWindow, now: Date = new Date()): string {
+  return [
+    window.timeFilter,
+    getWindowStart(window.timeFilter, now)?.toISOString() ?? '',
+    window.hourOfDay ?? '',
+    window.dayOfWeek ?? '',
+  ].join(':');
+}
+
+// Adds noise to a count; key names what is counted and over which window
+export type NoiseFn = (count: number, key: string, sensitivity?: number) => Promise<number>;
+
+const encoder = new TextEncoder();
+
+/**
+ * Laplace mechanism: count + Lap(sensitivity / epsilon), rounded and clamped at zero.
+ * The sample comes from an HMAC (server secret) of the key and the true count rather than
+ * fresh randomness. Fresh noise per request could be averaged away by repeating the query;
+ * this way the same question gets the same answer, and only a changed count draws new noise.
+ */
+export async function createNoise(secret: string): Promise<NoiseFn> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return async (count, key, sensitivity = MAX_CONTRIBUTION_PER_USER) => {
+    const digest = await crypto.subtle.sign('HMAC', hmacKey, encoder.encode(`${key}|${sensitivity}|${count}`));
+    // Uniform in (-0.5, 0.5) from the first 32 bits
+    const u = (new DataView(digest).getUint32(0) + 0.5) / 4294967296 - 0.5;
+    const noise = -(sensitivity / DP_EPSILON) * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+    return Math.max(0, Math.round(count + noise));
+  };
+}
+
+export function getPrivacyMetadata() {
+  return {
+    k_anonymity: K_ANONYMITY_MIN_USERS,
+    epsilon: DP_EPSILON,
+    max_contribution_per_user: MAX_CONTRIBUTION_PER_USER,
+  };
+}
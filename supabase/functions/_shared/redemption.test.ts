@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  REDEMPTION_CODE_PATTERN,
+  generateRedemptionCode,
+  normalizeRedemptionCode,
+  signRedemptionToken,
+  verifyRedemptionToken,
+} from "./redemption.ts";
+
+const secret = "redemption-secret";
+const redemptionId = "6f1c2b4e-8d3a-4c5f-9e7b-1a2b3c4d5e6f";
+const now = new Date("2026-03-06T12:00:00Z");
+const expiresAt = new Date(now.getTime() + 5 * 60 * 1000);
+
+describe("redemption tokens", () => {
+  it("verifies a token signed with the same secret", async () => {
+    const token = await signRedemptionToken(redemptionId, expiresAt, secret);
+
+    expect(await verifyRedemptionToken(token, secret, now)).toEqual({ valid: true, redemptionId });
+  });
+
+  it("rejects a token for another redemption or expiry", async () => {
+    const token = await signRedemptionToken(redemptionId, expiresAt, secret);
+    const [, expiry, signature] = token.split(".");
+
+    expect(await verifyRedemptionToken(`${crypto.randomUUID()}.${expiry}.${signature}`, secret, now))
+      .toEqual({ valid: false, reason: "bad_signature" });
+    expect(await verifyRedemptionToken(`${redemptionId}.${Number(expiry) + 3600}.${signature}`, secret, now))
+      .toEqual({ valid: false, reason: "bad_signature" });
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const token = await signRedemptionToken(redemptionId, expiresAt, "other-secret");
+
+    expect(await verifyRedemptionToken(token, secret, now)).toEqual({ valid: false, reason: "bad_signature" });
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await signRedemptionToken(redemptionId, expiresAt, secret);
+
+    expect(await verifyRedemptionToken(token, secret, expiresAt)).toEqual({ valid: false, reason: "expired" });
+  });
+
+  it("rejects malformed tokens", async () => {
+    for (const token of ["", "ABCD2345", `${redemptionId}.soon.abc`, `${redemptionId}.1.abc.extra`, `${redemptionId}.1.%%%`]) {
+      expect(await verifyRedemptionToken(token, secret, now)).toEqual({ valid: false, reason: "malformed" });
+    }
+  });
+});
+
+describe("redemption codes", () => {
+  it("generates codes staff can type", () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateRedemptionCode()).toMatch(REDEMPTION_CODE_PATTERN);
+    }
+  });
+
+  it("normalizes spacing, dashes and case", () => {
+    expect(normalizeRedemptionCode(" abcd-efgh ")).toBe("ABCDEFGH");
+    expect(normalizeRedemptionCode("ab cd ef gh")).toMatch(REDEMPTION_CODE_PATTERN);
+  });
+});
@@ -0,0 +1,87 @@
+// One-time deal redemption codes, shared by claim-deal-redemption and validate-deal-redemption.
+// A claim has two forms: an 8-character code staff can type, and a signed token for the QR.
+// The token is "<redemption id>.<expiry, unix seconds>.<HMAC-SHA256, base64url>" so a scanner
+// can reject forged or stale codes before touching the database.
+
+// How long a claimed code stays valid
+export const REDEMPTION_TTL_SECONDS = 5 * 60;
+
+// No 0/O or 1/I, which get mixed up when read aloud or typed
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export const REDEMPTION_CODE_PATTERN = /^[A-HJ-NP-Z2-9]{8}$/;
+
+export function generateRedemptionCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  // 256 is a multiple of the 32-letter alphabet, so every letter is equally likely
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+// Typed codes may have spaces, dashes or lower case
+export function normalizeRedemptionCode(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+export async function signRedemptionToken(redemptionId: string, expiresAt: Date, secret: string): Promise<string> {
+  const payload = `${redemptionId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  const key = await importKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(signature)}`;
+}
+
+export type RedemptionTokenCheck =
+  | { valid: true; redemptionId: string }
+  | { valid: false; reason: 'malformed' | 'bad_signature' | 'expired' };
+
+export async function verifyRedemptionToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): Promise<RedemptionTokenCheck> {
+  const [redemptionId, expiry, signature, ...rest] = token.split('.');
+  const expirySeconds = Number(expiry);
+  const signatureBytes = signature ? fromBase64Url(signature) : null;
+  if (rest.length > 0 || !redemptionId || !Number.isInteger(expirySeconds) || !signatureBytes) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importKey(secret, 'verify');
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    signatureBytes,
+    new TextEncoder().encode(`${redemptionId}.${expiry}`)
+  );
+  if (!valid) return { valid: false, reason: 'bad_signature' };
+  if (expirySeconds * 1000 <= now.getTime()) return { valid: false, reason: 'expired' };
+
+  return { valid: true, redemptionId };
+}
@@ -0,0 +1,26 @@
+// Timezone helpers shared by edge functions. Clients send an IANA timezone
+// (Intl.DateTimeFormat().resolvedOptions().timeZone); the runtime itself runs in UTC.
+
+// Fall back to UTC when the client sends no timezone or one the runtime doesn't know
+export function resolveTimezone(value: unknown): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > 64) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function getLocalHour(timezone: string, now: Date = new Date()): number {
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(now);
+  return Number(hour) % 24;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 0 = Sunday, matching Postgres EXTRACT(DOW)
+export function getLocalDayOfWeek(timezone: string, now: Date = new Date()): number {
+  const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'short', timeZone: timezone }).format(now);
+  return WEEKDAYS.indexOf(weekday);
+}
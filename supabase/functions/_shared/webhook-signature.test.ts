@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  SIGNATURE_TOLERANCE_SECONDS,
+  signWebhookPayload,
+  timingSafeEqual,
+  verifyWebhookSignature,
+} from "./webhook-signature.ts";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ action: "create", deal: { id: "1" } });
+const now = new Date("2026-03-06T12:00:00Z");
+
+describe("webhook signatures", () => {
+  it("accepts a payload signed with the shared secret", async () => {
+    const header = await signWebhookPayload(body, secret, now);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(await verifyWebhookSignature(header, body, secret, now)).toEqual({
+      valid: true,
+      timestamp: now.getTime() / 1000,
+    });
+  });
+
+  it("rejects a tampered body or a different secret", async () => {
+    const header = await signWebhookPayload(body, secret, now);
+
+    expect(await verifyWebhookSignature(header, body.replace('"1"', '"2"'), secret, now))
+      .toEqual({ valid: false, reason: "mismatch" });
+    expect(await verifyWebhookSignature(header, body, "whsec_other", now))
+      .toEqual({ valid: false, reason: "mismatch" });
+  });
+
+  it("rejects a timestamp moved without re-signing", async () => {
+    const header = await signWebhookPayload(body, secret, now);
+    const moved = header.replace(/^t=\d+/, `t=${now.getTime() / 1000 + 1}`);
+
+    expect(await verifyWebhookSignature(moved, body, secret, now)).toEqual({ valid: false, reason: "mismatch" });
+  });
+
+  it("rejects signatures outside the tolerance window", async () => {
+    const signedAt = new Date(now.getTime() - (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000);
+    const header = await signWebhookPayload(body, secret, signedAt);
+
+    expect(await verifyWebhookSignature(header, body, secret, now)).toEqual({ valid: false, reason: "stale" });
+  });
+
+  it("rejects missing and malformed headers", async () => {
+    expect(await verifyWebhookSignature(null, body, secret, now)).toEqual({ valid: false, reason: "missing" });
+    expect(await verifyWebhookSignature("t=abc,v1=00", body, secret, now)).toEqual({ valid: false, reason: "malformed" });
+    expect(await verifyWebhookSignature(secret, body, secret, now)).toEqual({ valid: false, reason: "malformed" });
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("compares whole strings", () => {
+    expect(timingSafeEqual("abc", "abc")).toBe(true);
+    expect(timingSafeEqual("abc", "abd")).toBe(false);
+    expect(timingSafeEqual("abc", "abcd")).toBe(false);
+    expect(timingSafeEqual("", "a")).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+// Signed webhooks between us and the merchant system (JET Bridge), in both directions.
+// The signature header is "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${raw body}`>".
+// Signing the timestamp with the body lets a receiver reject replays of old deliveries.
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+// How far a signed timestamp may drift from our clock
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+// Runs in time that depends only on the length, so a mismatch doesn't reveal how much matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+export async function signWebhookPayload(body: string, secret: string, now: Date = new Date()): Promise<string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+export type WebhookSignatureCheck =
+  | { valid: true; timestamp: number }
+  | { valid: false; reason: 'missing' | 'malformed' | 'stale' | 'mismatch' };
+
+export async function verifyWebhookSignature(
+  header: string | null,
+  body: string,
+  secret: string,
+  now: Date = new Date()
+): Promise<WebhookSignatureCheck> {
+  if (!header) return { valid: false, reason: 'missing' };
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature || !/^[0-9a-f]{64}$/i.test(signature)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'stale' };
+  }
+
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  if (!timingSafeEqual(expected, signature.toLowerCase())) {
+    return { valid: false, reason: 'mismatch' };
+  }
+
+  return { valid: true, timestamp };
+}
@@ -1,5 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { findContainingNeighborhood } from '../_shared/geo.ts';
+import { isDealLive } from '../_shared/deal-schedule.ts';
+import { getLocalHour, resolveTimezone } from '../_shared/time.ts';
+import {
+  DEFAULT_USER_PREFERENCES,
+  GEOFENCE_NOTIFICATION_TYPES,
+  GeofenceRules,
+  GeofenceEventType,
+  HISTORY_LOOKBACK_MS,
+  LocationHistoryRow,
+  SuppressionReason,
+  UserGeofencePreferences,
+  getVisitStart,
+  hasDwelled,
+  isReentry,
+  isWithinQuietHours,
+} from './rules.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -39,7 +56,8 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { latitude, longitude, accuracy } = await req.json();
+    const body = await req.json();
+    const { latitude, longitude, accuracy } = body;
 
     // Validate coordinate inputs
     if (typeof latitude !== 'number' || isNaN(latitude) || latitude < -90 || latitude > 90) {
@@ -78,28 +96,25 @@ serve(async (req) => {
 
     if (neighborhoodsError) throw neighborhoodsError;
 
-    // Check if user is inside any neighborhood (using simple bounding box check)
-    let currentNeighborhood = null;
-    for (const neighborhood of neighborhoods || []) {
-      const boundaryPoints = neighborhood.boundary_points as number[][];
-      
-      // Simple point-in-polygon check using ray casting
-      if (isPointInPolygon(latitude, longitude, boundaryPoints)) {
-        currentNeighborhood = neighborhood;
-        break;
-      }
-    }
+    // Check if user is inside any neighborhood (ray casting point-in-polygon)
+    const currentNeighborhood = findContainingNeighborhood(latitude, longitude, neighborhoods || []);
 
     console.log('Current neighborhood:', currentNeighborhood?.name || 'none');
 
-    // Get user's last known location
-    const { data: lastLocation } = await supabaseClient
+    const now = new Date();
+    const timezone = resolveTimezone(body.timezone);
+
+    // Recent ping history (newest first) drives exit, dwell and re-entry detection
+    const { data: history } = await supabaseClient
       .from('user_locations')
-      .select('current_neighborhood_id')
+      .select('current_neighborhood_id, created_at')
       .eq('user_id', user.id)
+      .gte('created_at', new Date(now.getTime() - HISTORY_LOOKBACK_MS).toISOString())
       .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .limit(500);
+
+    const recentHistory: LocationHistoryRow[] = history || [];
+    const previousNeighborhoodId = recentHistory[0]?.current_neighborhood_id ?? null;
 
     // Save current location
     await supabaseClient.from('user_locations').insert({
@@ -110,75 +125,145 @@ serve(async (req) => {
       current_neighborhood_id: currentNeighborhood?.id || null,
     });
 
-    // Check if user entered a new neighborhood
-    const enteredNewNeighborhood = 
-      currentNeighborhood && 
-      (!lastLocation || lastLocation.current_neighborhood_id !== currentNeighborhood.id);
+    const { data: preferencesRow } = await supabaseClient
+      .from('user_preferences')
+      .select('notifications_enabled, geofence_cooldown_minutes, quiet_hours_start, quiet_hours_end')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const preferences: UserGeofencePreferences = { ...DEFAULT_USER_PREFERENCES, ...(preferencesRow || {}) };
 
-    let dealsToNotify = [];
-    let notificationsSent = 0;
+    const enteredNewNeighborhood =
+      !!currentNeighborhood && previousNeighborhoodId !== currentNeighborhood.id;
 
-    if (enteredNewNeighborhood) {
-      console.log('User entered new neighborhood:', currentNeighborhood.name);
+    const exitedNeighborhood =
+      previousNeighborhoodId && previousNeighborhoodId !== currentNeighborhood?.id
+        ? (neighborhoods || []).find((n) => n.id === previousNeighborhoodId) ?? null
+        : null;
+
+    // Decide whether an event may notify, in order from cheapest to most expensive check
+    const getSuppressionReason = async (neighborhood: GeofenceRules & { id: string }): Promise<SuppressionReason | null> => {
+      if (!preferences.notifications_enabled) return 'notifications_disabled';
 
-      // Get active deals in this neighborhood
-      const now = new Date().toISOString();
-      const dayOfWeek = new Date().getDay();
+      const localHour = getLocalHour(timezone, now);
+      if (
+        isWithinQuietHours(localHour, preferences.quiet_hours_start, preferences.quiet_hours_end) ||
+        isWithinQuietHours(localHour, neighborhood.quiet_hours_start, neighborhood.quiet_hours_end)
+      ) {
+        return 'quiet_hours';
+      }
+
+      const geofenceTypes = Object.values(GEOFENCE_NOTIFICATION_TYPES);
+
+      if (neighborhood.notification_cooldown_minutes > 0) {
+        const since = new Date(now.getTime() - neighborhood.notification_cooldown_minutes * 60 * 1000).toISOString();
+        const { data: recent } = await supabaseAdmin
+          .from('notification_logs')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('neighborhood_id', neighborhood.id)
+          .in('notification_type', geofenceTypes)
+          .gte('sent_at', since)
+          .limit(1);
+        if (recent && recent.length > 0) return 'neighborhood_cooldown';
+      }
+
+      if (preferences.geofence_cooldown_minutes > 0) {
+        const since = new Date(now.getTime() - preferences.geofence_cooldown_minutes * 60 * 1000).toISOString();
+        const { data: recent } = await supabaseAdmin
+          .from('notification_logs')
+          .select('id')
+          .eq('user_id', user.id)
+          .in('notification_type', geofenceTypes)
+          .gte('sent_at', since)
+          .limit(1);
+        if (recent && recent.length > 0) return 'user_cooldown';
+      }
+
+      return null;
+    };
 
+    const getActiveDeals = async (neighborhoodId: string) => {
       const { data: deals, error: dealsError } = await supabaseClient
         .from('deals')
         .select('*')
-        .eq('neighborhood_id', currentNeighborhood.id)
+        .eq('neighborhood_id', neighborhoodId)
         .eq('active', true)
-        .lte('starts_at', now)
-        .gte('expires_at', now)
-        .contains('active_days', [dayOfWeek]);
+        .lte('starts_at', now.toISOString())
+        .gte('expires_at', now.toISOString());
+
+      if (dealsError) {
+        console.error('Error loading deals:', dealsError);
+        return [];
+      }
+      // Happy-hour windows and holiday closures are checked here; legacy active_days in the device's zone
+      return (deals || []).filter((deal) => isDealLive(deal, now, timezone));
+    };
+
+    const logAndPush = async (
+      notificationType: string,
+      neighborhoodId: string,
+      title: string,
+      message: string,
+      data: Record<string, unknown> = {},
+      dealId?: string
+    ) => {
+      const { error: insertError } = await supabaseAdmin.from('notification_logs').insert({
+        user_id: user.id,
+        deal_id: dealId ?? null,
+        neighborhood_id: neighborhoodId,
+        notification_type: notificationType,
+        title,
+        message,
+      });
+
+      if (insertError) {
+        console.error('Error inserting notification:', insertError);
+        return false;
+      }
+
+      await sendPushToUser(supabaseAdmin, user.id, {
+        title,
+        body: message,
+        data: { ...data, neighborhoodId, notificationType },
+      });
+      return true;
+    };
+
+    const events: { type: GeofenceEventType; neighborhood_id: string; notified: boolean; suppressed_reason?: SuppressionReason }[] = [];
+    let dealsToNotify: unknown[] = [];
+    let notificationsSent = 0;
 
-      if (!dealsError && deals && deals.length > 0) {
+    // Entry is handled first so it wins the user cooldown over an exit from the same ping
+    if (enteredNewNeighborhood) {
+      console.log('User entered new neighborhood:', currentNeighborhood.name);
+
+      let reason: SuppressionReason | null = isReentry(
+        recentHistory,
+        currentNeighborhood.id,
+        currentNeighborhood.reentry_suppression_minutes,
+        now
+      )
+        ? 'reentry'
+        : await getSuppressionReason(currentNeighborhood);
+
+      const deals = reason ? [] : await getActiveDeals(currentNeighborhood.id);
+      if (!reason && deals.length === 0) reason = 'no_active_deals';
+
+      if (!reason) {
         console.log('Found', deals.length, 'active deals');
         dealsToNotify = deals;
 
-        // Log notifications and send push (don't send duplicates within last hour)
         for (const deal of deals) {
-          // Check if we already sent this notification recently
-          const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-          const { data: recentNotif } = await supabaseAdmin
-            .from('notification_logs')
-            .select('id')
-            .eq('user_id', user.id)
-            .eq('deal_id', deal.id)
-            .gte('sent_at', oneHourAgo)
-            .maybeSingle();
-
-          if (!recentNotif) {
-            // Insert notification log using admin client (bypasses RLS)
-            const { error: insertError } = await supabaseAdmin.from('notification_logs').insert({
-              user_id: user.id,
-              deal_id: deal.id,
-              neighborhood_id: currentNeighborhood.id,
-              notification_type: 'geofence_deal',
-              title: `🔥 ${deal.title}`,
-              message: `${deal.description} at ${deal.venue_name}`,
-            });
-
-            if (insertError) {
-              console.error('Error inserting notification:', insertError);
-            } else {
-              notificationsSent++;
-              console.log('Notification logged for deal:', deal.id);
-            }
-
-            // Try to send push notification to user's devices
-            await sendPushToUser(supabaseAdmin, user.id, {
-              title: `🔥 ${deal.title}`,
-              body: `${deal.description} at ${deal.venue_name}`,
-              data: {
-                dealId: deal.id,
-                venueName: deal.venue_name,
-                neighborhoodId: currentNeighborhood.id,
-              },
-            });
-          }
+          const sent = await logAndPush(
+            GEOFENCE_NOTIFICATION_TYPES.deal,
+            currentNeighborhood.id,
+            `🔥 ${deal.title}`,
+            `${deal.description} at ${deal.venue_name}`,
+            { dealId: deal.id, venueName: deal.venue_name },
+            deal.id
+          );
+          if (sent) notificationsSent++;
         }
 
         // Send welcome notification for the neighborhood
@@ -186,12 +271,68 @@ serve(async (req) => {
           await supabaseAdmin.from('notification_logs').insert({
             user_id: user.id,
             neighborhood_id: currentNeighborhood.id,
-            notification_type: 'neighborhood_entry',
+            notification_type: GEOFENCE_NOTIFICATION_TYPES.entry,
             title: `📍 Welcome to ${currentNeighborhood.name}!`,
             message: `${notificationsSent} active ${notificationsSent === 1 ? 'deal' : 'deals'} nearby`,
           });
         }
       }
+
+      events.push({ type: 'entry', neighborhood_id: currentNeighborhood.id, notified: !reason, suppressed_reason: reason ?? undefined });
+    } else if (currentNeighborhood) {
+      // Dwell fires once per visit - a dwell log since the visit started means it already did
+      const visitStart = getVisitStart(recentHistory, currentNeighborhood.id);
+
+      if (hasDwelled(visitStart, currentNeighborhood.dwell_minutes, now)) {
+        const { data: dwellLogs } = await supabaseAdmin
+          .from('notification_logs')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('neighborhood_id', currentNeighborhood.id)
+          .eq('notification_type', GEOFENCE_NOTIFICATION_TYPES.dwell)
+          .gte('sent_at', visitStart!.toISOString())
+          .limit(1);
+
+        if (!dwellLogs || dwellLogs.length === 0) {
+          let reason = await getSuppressionReason(currentNeighborhood);
+          const deals = reason ? [] : await getActiveDeals(currentNeighborhood.id);
+          if (!reason && deals.length === 0) reason = 'no_active_deals';
+
+          if (!reason) {
+            const minutes = Math.round((now.getTime() - visitStart!.getTime()) / 60000);
+            const sent = await logAndPush(
+              GEOFENCE_NOTIFICATION_TYPES.dwell,
+              currentNeighborhood.id,
+              `⏱️ ${minutes} min in ${currentNeighborhood.name}`,
+              `${deals.length} ${deals.length === 1 ? 'deal is' : 'deals are'} live around you right now`
+            );
+            if (sent) notificationsSent++;
+            dealsToNotify = deals;
+          }
+
+          events.push({ type: 'dwell', neighborhood_id: currentNeighborhood.id, notified: !reason, suppressed_reason: reason ?? undefined });
+        }
+      }
+    }
+
+    if (exitedNeighborhood) {
+      console.log('User exited neighborhood:', exitedNeighborhood.name);
+
+      let reason = await getSuppressionReason(exitedNeighborhood);
+      const deals = reason ? [] : await getActiveDeals(exitedNeighborhood.id);
+      if (!reason && deals.length === 0) reason = 'no_active_deals';
+
+      if (!reason) {
+        const sent = await logAndPush(
+          GEOFENCE_NOTIFICATION_TYPES.exit,
+          exitedNeighborhood.id,
+          `👋 Leaving ${exitedNeighborhood.name}?`,
+          `${deals.length} ${deals.length === 1 ? 'deal is' : 'deals are'} still live there`
+        );
+        if (sent) notificationsSent++;
+      }
+
+      events.push({ type: 'exit', neighborhood_id: exitedNeighborhood.id, notified: !reason, suppressed_reason: reason ?? undefined });
     }
 
     return new Response(
@@ -199,6 +340,8 @@ serve(async (req) => {
         success: true,
         current_neighborhood: currentNeighborhood,
         entered_new_neighborhood: enteredNewNeighborhood,
+        exited_neighborhood: exitedNeighborhood,
+        events,
         deals: dealsToNotify,
         notifications_triggered: notificationsSent,
       }),
@@ -220,25 +363,6 @@ serve(async (req) => {
   }
 });
 
-// Ray casting algorithm for point-in-polygon test
-function isPointInPolygon(lat: number, lng: number, polygon: number[][]): boolean {
-  if (!polygon || polygon.length < 3) return false;
-  
-  let inside = false;
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const xi = polygon[i][0];
-    const yi = polygon[i][1];
-    const xj = polygon[j][0];
-    const yj = polygon[j][1];
-
-    const intersect =
-      yi > lng !== yj > lng &&
-      lat < ((xj - xi) * (lng - yi)) / (yj - yi) + xi;
-    if (intersect) inside = !inside;
-  }
-  return inside;
-}
-
 // Send push notification to a specific user's devices
 async function sendPushToUser(
   supabase: any, 
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  getVisitStart,
+  hasDwelled,
+  isReentry,
+  isWithinQuietHours,
+  type LocationHistoryRow,
+} from "./rules.ts";
+
+const now = new Date("2026-03-06T21:00:00Z");
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+// Newest first, as check-geofence reads it
+const history: LocationHistoryRow[] = [
+  { current_neighborhood_id: "soho", created_at: minutesAgo(1) },
+  { current_neighborhood_id: "soho", created_at: minutesAgo(12) },
+  { current_neighborhood_id: "soho", created_at: minutesAgo(25) },
+  { current_neighborhood_id: null, created_at: minutesAgo(40) },
+  { current_neighborhood_id: "tribeca", created_at: minutesAgo(55) },
+  { current_neighborhood_id: "soho", created_at: minutesAgo(90) },
+];
+
+describe("isWithinQuietHours", () => {
+  it("covers [start, end) within one day", () => {
+    expect(isWithinQuietHours(9, 9, 17)).toBe(true);
+    expect(isWithinQuietHours(16, 9, 17)).toBe(true);
+    expect(isWithinQuietHours(17, 9, 17)).toBe(false);
+  });
+
+  it("wraps past midnight when start is after end", () => {
+    expect(isWithinQuietHours(23, 22, 7)).toBe(true);
+    expect(isWithinQuietHours(3, 22, 7)).toBe(true);
+    expect(isWithinQuietHours(7, 22, 7)).toBe(false);
+    expect(isWithinQuietHours(12, 22, 7)).toBe(false);
+  });
+
+  it("is off without both ends or with an empty range", () => {
+    expect(isWithinQuietHours(23, null, 7)).toBe(false);
+    expect(isWithinQuietHours(23, 22, null)).toBe(false);
+    expect(isWithinQuietHours(5, 5, 5)).toBe(false);
+  });
+});
+
+describe("getVisitStart", () => {
+  it("finds the first ping of the current uninterrupted stay", () => {
+    expect(getVisitStart(history, "soho")).toEqual(new Date(minutesAgo(25)));
+  });
+
+  it("is null when the latest ping is elsewhere", () => {
+    expect(getVisitStart(history, "tribeca")).toBeNull();
+  });
+});
+
+describe("isReentry", () => {
+  const earlier = history.slice(3);
+
+  it("suppresses coming back within the window", () => {
+    expect(isReentry(earlier, "soho", 120, now)).toBe(true);
+    expect(isReentry(earlier, "soho", 60, now)).toBe(false);
+  });
+
+  it("never suppresses a first visit or a disabled window", () => {
+    expect(isReentry(earlier, "chelsea", 120, now)).toBe(false);
+    expect(isReentry(earlier, "soho", 0, now)).toBe(false);
+  });
+});
+
+describe("hasDwelled", () => {
+  const visitStart = new Date(minutesAgo(25));
+
+  it("fires once the stay reaches dwell_minutes", () => {
+    expect(hasDwelled(visitStart, 20, now)).toBe(true);
+    expect(hasDwelled(visitStart, 25, now)).toBe(true);
+    expect(hasDwelled(visitStart, 30, now)).toBe(false);
+  });
+
+  it("is off without a visit or a dwell setting", () => {
+    expect(hasDwelled(null, 20, now)).toBe(false);
+    expect(hasDwelled(visitStart, null, now)).toBe(false);
+  });
+});
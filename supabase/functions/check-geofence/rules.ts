@@ -0,0 +1,87 @@
+// Geofence trigger rules: which events a location ping produces and whether each may notify.
+// Events are derived from the user's recent user_locations history:
+//   entry - now inside a neighborhood the previous ping was not in
+//   exit  - previous ping was inside a neighborhood the user has now left
+//   dwell - continuously inside one neighborhood for at least its dwell_minutes
+// Every event type logs its own notification_type so conversions can be compared per trigger.
+
+export const GEOFENCE_NOTIFICATION_TYPES = {
+  deal: 'geofence_deal',
+  entry: 'neighborhood_entry',
+  exit: 'neighborhood_exit',
+  dwell: 'neighborhood_dwell',
+} as const;
+
+export type GeofenceEventType = 'entry' | 'exit' | 'dwell';
+
+export type SuppressionReason =
+  | 'notifications_disabled'
+  | 'reentry'
+  | 'quiet_hours'
+  | 'neighborhood_cooldown'
+  | 'user_cooldown'
+  | 'no_active_deals';
+
+// How far back the ping history is read - covers the longest dwell and re-entry windows we expect
+export const HISTORY_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+
+export interface GeofenceRules {
+  dwell_minutes: number | null;
+  notification_cooldown_minutes: number;
+  reentry_suppression_minutes: number;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+}
+
+export interface UserGeofencePreferences {
+  notifications_enabled: boolean;
+  geofence_cooldown_minutes: number;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+}
+
+export interface LocationHistoryRow {
+  current_neighborhood_id: string | null;
+  created_at: string;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserGeofencePreferences = {
+  notifications_enabled: true,
+  geofence_cooldown_minutes: 15,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+};
+
+// Quiet hours are [start, end) and wrap past midnight when start > end
+export function isWithinQuietHours(hour: number, start: number | null, end: number | null): boolean {
+  if (start === null || end === null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+// Start of the current uninterrupted stay in a neighborhood, from newest-first history
+export function getVisitStart(history: LocationHistoryRow[], neighborhoodId: string): Date | null {
+  let visitStart: string | null = null;
+  for (const row of history) {
+    if (row.current_neighborhood_id !== neighborhoodId) break;
+    visitStart = row.created_at;
+  }
+  return visitStart ? new Date(visitStart) : null;
+}
+
+// True when the user was last inside this neighborhood recently enough that entering again shouldn't alert
+export function isReentry(
+  history: LocationHistoryRow[],
+  neighborhoodId: string,
+  suppressionMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (suppressionMinutes <= 0) return false;
+  const lastInside = history.find((row) => row.current_neighborhood_id === neighborhoodId);
+  if (!lastInside) return false;
+  return now.getTime() - new Date(lastInside.created_at).getTime() < suppressionMinutes * 60 * 1000;
+}
+
+export function hasDwelled(visitStart: Date | null, dwellMinutes: number | null, now: Date = new Date()): boolean {
+  if (!visitStart || dwellMinutes === null) return false;
+  return now.getTime() - visitStart.getTime() >= dwellMinutes * 60 * 1000;
+}
@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isDealLive } from '../_shared/deal-schedule.ts';
+import { getCityTimezone } from '../_shared/cities.ts';
+import { generateRedemptionCode, REDEMPTION_TTL_SECONDS, signRedemptionToken } from '../_shared/redemption.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// A fresh code is drawn when one happens to be taken already
+const MAX_CODE_ATTEMPTS = 3;
+
+interface ClaimRequest {
+  deal_id?: string;
+}
+
+type ClaimResult =
+  | { status: 'claimed'; id: string; code: string; expires_at: string }
+  | { status: 'not_found' | 'code_taken' | 'user_limit_reached' | 'deal_limit_reached' };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('DEAL_REDEMPTION_SECRET');
+    if (!secret) {
+      console.error('DEAL_REDEMPTION_SECRET not configured');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Service role: deal_redemptions has no write policies
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body: ClaimRequest = await req.json();
+    if (typeof body.deal_id !== 'string' || !UUID_PATTERN.test(body.deal_id)) {
+      return jsonResponse({ error: 'Invalid deal_id' }, 400);
+    }
+
+    const { data: deal, error: dealError } = await supabaseAdmin
+      .from('deals')
+      .select('id, active, starts_at, expires_at, active_days, schedule, canonical_venue_id')
+      .eq('id', body.deal_id)
+      .maybeSingle();
+
+    if (dealError) throw dealError;
+    if (!deal) {
+      return jsonResponse({ status: 'not_found' });
+    }
+
+    // Same rule as the app's "live now" list: no codes outside the deal's hours. A schedule
+    // carries its own timezone; plain active_days are read in the venue's city, never the
+    // caller's clock, so a spoofed timezone can't open a deal early.
+    let venueTimezone: string | null = null;
+    if (deal.canonical_venue_id) {
+      const { data: venue, error: venueError } = await supabaseAdmin
+        .from('venues')
+        .select('lat, lng')
+        .eq('id', deal.canonical_venue_id)
+        .maybeSingle();
+      if (venueError) throw venueError;
+      if (venue?.lat != null && venue?.lng != null) {
+        venueTimezone = getCityTimezone(venue.lat, venue.lng);
+      }
+    }
+
+    if (!isDealLive(deal, new Date(), venueTimezone ?? 'UTC')) {
+      return jsonResponse({ status: 'not_live' });
+    }
+
+    let result: ClaimResult = { status: 'code_taken' };
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && result.status === 'code_taken'; attempt++) {
+      const { data, error } = await supabaseAdmin.rpc('claim_deal_redemption', {
+        _user_id: user.id,
+        _deal_id: deal.id,
+        _code: generateRedemptionCode(),
+        _ttl_seconds: REDEMPTION_TTL_SECONDS,
+      });
+      if (error) throw error;
+      result = data as ClaimResult;
+    }
+
+    if (result.status !== 'claimed') {
+      if (result.status === 'code_taken') throw new Error('Could not allocate a redemption code');
+      return jsonResponse({ status: result.status });
+    }
+
+    const expiresAt = new Date(result.expires_at);
+    const token = await signRedemptionToken(result.id, expiresAt, secret);
+    console.log('Deal redemption claimed:', deal.id, 'by user', user.id);
+
+    return jsonResponse({
+      status: 'claimed',
+      redemption: {
+        id: result.id,
+        deal_id: deal.id,
+        code: result.code,
+        expires_at: expiresAt.toISOString(),
+        token,
+      },
+    });
+  } catch (error) {
+    console.error('Error claiming deal:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  IDEMPOTENCY_HEADER,
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  timingSafeEqual,
+} from "../_shared/webhook-signature.ts";
+
+// Sends queued merchant_sync_events (deal.redeemed, deal.performance, deal.moderated) to the
+// merchant system. Run every minute by pg_cron while anything is due.
+
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Backoff doubles from one minute; after the last attempt the event is marked failed
+const MAX_ATTEMPTS = 8;
+
+interface OutboundEvent {
+  id: string;
+  event_type: string;
+  idempotency_key: string;
+  payload: unknown;
+  attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const hookSecret = Deno.env.get('MERCHANT_WEBHOOKS_HOOK_SECRET');
+    // Outbound only, so the merchant can't use it to sign deal changes or redemptions back to us
+    const signingSecret = Deno.env.get('JETBRIDGE_OUTBOUND_SECRET');
+    const webhookUrl = Deno.env.get('JETBRIDGE_WEBHOOK_URL');
+    if (!hookSecret || !signingSecret || !webhookUrl) {
+      console.error('Merchant webhook delivery is not configured');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    if (!timingSafeEqual(authHeader, `Bearer ${hookSecret}`)) {
+      console.error('Authorization failed: invalid or missing token');
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data, error } = await supabase.rpc('claim_merchant_webhook_deliveries', { _limit: BATCH_SIZE });
+    if (error) throw error;
+    const events = (data ?? []) as OutboundEvent[];
+
+    let delivered = 0;
+    for (const event of events) {
+      const body = JSON.stringify(event.payload);
+      let responseStatus: number | null = null;
+      let responseText: string | null = null;
+      let failure: string | null = null;
+
+      try {
+        const response = await fetch(webhookUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [SIGNATURE_HEADER]: await signWebhookPayload(body, signingSecret),
+            [IDEMPOTENCY_HEADER]: event.idempotency_key,
+            'x-webhook-event': event.event_type,
+          },
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        responseText = (await response.text()).slice(0, 2000);
+        if (!response.ok) failure = `HTTP ${response.status}`;
+      } catch (err) {
+        failure = err instanceof Error ? err.message : 'Request failed';
+      }
+
+      const now = new Date();
+      const update = failure === null
+        ? { status: 'delivered', completed_at: now.toISOString(), error: null }
+        : event.attempts >= MAX_ATTEMPTS
+          ? { status: 'failed', completed_at: now.toISOString(), error: failure }
+          : {
+            status: 'pending',
+            error: failure,
+            next_attempt_at: new Date(now.getTime() + 60_000 * 2 ** (event.attempts - 1)).toISOString(),
+          };
+
+      const { error: updateError } = await supabase
+        .from('merchant_sync_events')
+        .update({
+          ...update,
+          response_status: responseStatus,
+          response: responseText === null ? null : { body: responseText },
+        })
+        .eq('id', event.id);
+      if (updateError) console.error('Error recording delivery of', event.id, updateError);
+
+      if (failure === null) {
+        delivered++;
+      } else {
+        console.error(`Delivery of ${event.event_type} ${event.id} failed (attempt ${event.attempts}):`, failure);
+      }
+    }
+
+    console.log(`Delivered ${delivered} of ${events.length} merchant webhooks`);
+    return jsonResponse({ delivered, attempted: events.length });
+  } catch (error) {
+    console.error('Error delivering merchant webhooks:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { createNoise, K_ANONYMITY_MIN_USERS } from "../_shared/privacy.ts";
+import {
+  PROFILE_WEEKS,
+  buildWeeklyProfile,
+  forecastNextHours,
+  getForecastConfidence,
+  toPublishableSlots,
+  type PresenceProfileRow,
+} from "./forecast.ts";
+
+const slotIndex = (day: number, hour: number) => day * 24 + hour;
+
+describe("buildWeeklyProfile", () => {
+  it("averages a well-visited slot over the profile weeks and smooths into its neighbours", () => {
+    const profile = buildWeeklyProfile([{ day_of_week: 5, hour_of_day: 22, visits: 40 }]);
+
+    expect(profile).toHaveLength(168);
+    expect(profile[slotIndex(5, 22)]).toBe((0.5 * 40) / PROFILE_WEEKS);
+    expect(profile[slotIndex(5, 23)]).toBe((0.25 * 40) / PROFILE_WEEKS);
+    expect(profile[slotIndex(5, 21)]).toBe((0.25 * 40) / PROFILE_WEEKS);
+    expect(profile[slotIndex(2, 12)]).toBe(0);
+  });
+
+  it("leans sparse slots on the same hour across the week", () => {
+    const profile = buildWeeklyProfile([{ day_of_week: 1, hour_of_day: 10, visits: 2 }]);
+
+    // Another weekday at 10am borrows from Monday's visits
+    expect(profile[slotIndex(3, 10)]).toBeGreaterThan(0);
+    expect(profile[slotIndex(1, 10)]).toBeGreaterThan(profile[slotIndex(3, 10)]);
+  });
+
+  it("wraps smoothing from Saturday night into Sunday morning", () => {
+    const profile = buildWeeklyProfile([{ day_of_week: 6, hour_of_day: 23, visits: 40 }]);
+
+    expect(profile[slotIndex(0, 0)]).toBe((0.25 * 40) / PROFILE_WEEKS);
+  });
+});
+
+describe("forecastNextHours", () => {
+  it("projects the profile onto local hours relative to the weekly peak", () => {
+    const profile = buildWeeklyProfile([{ day_of_week: 5, hour_of_day: 22, visits: 40 }]);
+    // 3:30pm on Friday in New York
+    const forecast = forecastNextHours(profile, "America/New_York", 8, new Date("2026-03-06T20:30:00Z"));
+
+    expect(forecast[0]).toEqual({ hour_start: "2026-03-06T20:00:00.000Z", day_of_week: 5, hour_of_day: 15, busyness: 0 });
+    expect(forecast[7]).toMatchObject({ hour_start: "2026-03-07T03:00:00.000Z", hour_of_day: 22, busyness: 100 });
+    expect(forecast[6].busyness).toBe(50);
+  });
+
+  it("is flat zero without any visits", () => {
+    const forecast = forecastNextHours(buildWeeklyProfile([]), "UTC", 3, new Date("2026-03-06T12:00:00Z"));
+
+    expect(forecast.map((point) => point.busyness)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("getForecastConfidence", () => {
+  it("grows with the number of visits", () => {
+    expect(getForecastConfidence([])).toBe(0);
+    expect(getForecastConfidence([{ day_of_week: 0, hour_of_day: 0, visits: 50 }])).toBe(0.63);
+    expect(getForecastConfidence([{ day_of_week: 0, hour_of_day: 0, visits: 1000 }])).toBe(1);
+  });
+});
+
+describe("toPublishableSlots", () => {
+  const rows: PresenceProfileRow[] = [
+    { day_of_week: 5, hour_of_day: 22, visits: "18", users: K_ANONYMITY_MIN_USERS },
+    { day_of_week: 1, hour_of_day: 7, visits: 4, users: K_ANONYMITY_MIN_USERS - 1 },
+  ];
+
+  it("drops slots fewer than K users were in and noises the rest per slot", async () => {
+    const keys: string[] = [];
+    const slots = await toPublishableSlots(rows, async (count, key) => {
+      keys.push(key);
+      return count + 1;
+    }, "presence:venue:abc:UTC");
+
+    expect(slots).toEqual([{ day_of_week: 5, hour_of_day: 22, visits: 19 }]);
+    expect(keys).toEqual(["presence:venue:abc:UTC:5:22"]);
+  });
+
+  it("gives the same answer to the same question", async () => {
+    const addNoise = await createNoise("test-secret");
+
+    const first = await toPublishableSlots(rows, addNoise, "presence:venue:abc:UTC");
+    const second = await toPublishableSlots(rows, addNoise, "presence:venue:abc:UTC");
+
+    expect(second).toEqual(first);
+    expect(first[0].visits).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,120 @@
+// Busyness forecast from weekly seasonality.
+// get_presence_profile returns visits per local (weekday, hour) slot over the profile window.
+// Each slot's average is blended with the same hour averaged over all weekdays, so sparse
+// slots lean on the daily shape, then lightly smoothed across neighboring hours.
+// The forecast for an hour is that slot's expected visits relative to the busiest slot of the week.
+
+import { meetsKAnonymity, type NoiseFn } from '../_shared/privacy.ts';
+import { getLocalDayOfWeek, getLocalHour } from '../_shared/time.ts';
+
+export interface PresenceSlot {
+  day_of_week: number;
+  hour_of_day: number;
+  visits: number;
+}
+
+// A get_presence_profile row: visits are already clipped per user, users is distinct users in the slot
+export interface PresenceProfileRow {
+  day_of_week: number;
+  hour_of_day: number;
+  visits: number | string;
+  users: number | string;
+}
+
+export interface ForecastPoint {
+  hour_start: string; // ISO timestamp of the hour (UTC)
+  day_of_week: number; // local, 0 = Sunday
+  hour_of_day: number; // local, 0-23
+  busyness: number; // 0-100, relative to the busiest hour of a typical week
+}
+
+const HOURS_PER_WEEK = 168;
+
+// Matches the default _since of get_presence_profile
+export const PROFILE_WEEKS = 4;
+
+// Visits a slot needs before its own average fully replaces the daily shape
+const SLOT_TRUST_VISITS = 8;
+
+/**
+ * The slots that may shape a published curve: a slot fewer than K users were in is dropped,
+ * so one regular can't draw their own routine into it, and the rest get Laplace noise keyed
+ * by keyPrefix and the slot.
+ */
+export async function toPublishableSlots(
+  rows: PresenceProfileRow[],
+  addNoise: NoiseFn,
+  keyPrefix: string
+): Promise<PresenceSlot[]> {
+  const slots: PresenceSlot[] = [];
+  for (const row of rows) {
+    if (!meetsKAnonymity(Number(row.users))) continue;
+    slots.push({
+      day_of_week: row.day_of_week,
+      hour_of_day: row.hour_of_day,
+      visits: await addNoise(Number(row.visits), `${keyPrefix}:${row.day_of_week}:${row.hour_of_day}`),
+    });
+  }
+  return slots;
+}
+
+/**
+ * Expected visits for each of the 168 hours of the week, indexed day_of_week * 24 + hour_of_day
+ */
+export function buildWeeklyProfile(slots: PresenceSlot[]): number[] {
+  const visits = new Array<number>(HOURS_PER_WEEK).fill(0);
+  for (const slot of slots) {
+    visits[slot.day_of_week * 24 + slot.hour_of_day] += Number(slot.visits);
+  }
+
+  const hourlyMean = Array.from({ length: 24 }, (_, hour) => {
+    let total = 0;
+    for (let day = 0; day < 7; day++) total += visits[day * 24 + hour];
+    return total / 7;
+  });
+
+  const blended = visits.map((value, index) => {
+    const weight = Math.min(1, value / SLOT_TRUST_VISITS);
+    return weight * value + (1 - weight) * hourlyMean[index % 24];
+  });
+
+  return blended.map((value, index) => {
+    const previous = blended[(index + HOURS_PER_WEEK - 1) % HOURS_PER_WEEK];
+    const next = blended[(index + 1) % HOURS_PER_WEEK];
+    return (0.25 * previous + 0.5 * value + 0.25 * next) / PROFILE_WEEKS;
+  });
+}
+
+/**
+ * Project the weekly profile onto the next `hours` hours in the given timezone
+ */
+export function forecastNextHours(
+  profile: number[],
+  timezone: string,
+  hours: number,
+  now: Date = new Date()
+): ForecastPoint[] {
+  const start = new Date(now);
+  start.setUTCMinutes(0, 0, 0);
+  const peak = Math.max(...profile);
+
+  return Array.from({ length: hours }, (_, i) => {
+    const hourStart = new Date(start.getTime() + i * 60 * 60 * 1000);
+    const dayOfWeek = getLocalDayOfWeek(timezone, hourStart);
+    const hourOfDay = getLocalHour(timezone, hourStart);
+    const expected = profile[dayOfWeek * 24 + hourOfDay];
+
+    return {
+      hour_start: hourStart.toISOString(),
+      day_of_week: dayOfWeek,
+      hour_of_day: hourOfDay,
+      busyness: peak > 0 ? Math.round((expected / peak) * 100) : 0,
+    };
+  });
+}
+
+// 0-1: how much history the curve rests on (~100 visits is fairly solid)
+export function getForecastConfidence(slots: PresenceSlot[]): number {
+  const totalVisits = slots.reduce((sum, slot) => sum + Number(slot.visits), 0);
+  return Math.round((1 - Math.exp(-totalVisits / 50)) * 100) / 100;
+}
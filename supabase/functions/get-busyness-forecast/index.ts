@@ -0,0 +1,154 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  MAX_CONTRIBUTION_PER_USER,
+  createNoise,
+  getPrivacyMetadata,
+  meetsKAnonymity,
+} from '../_shared/privacy.ts';
+import { resolveTimezone } from '../_shared/time.ts';
+import {
+  buildWeeklyProfile,
+  forecastNextHours,
+  getForecastConfidence,
+  toPublishableSlots,
+  type PresenceProfileRow,
+} from './forecast.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_HOURS = 24;
+const MAX_HOURS = 48;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ForecastRequest {
+  venue_id?: string;
+  neighborhood_id?: string;
+  timezone?: string;
+  hours?: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: ForecastRequest = await req.json();
+    const venueId = body.venue_id;
+    const neighborhoodId = body.neighborhood_id;
+
+    if (Boolean(venueId) === Boolean(neighborhoodId)) {
+      return jsonResponse({ error: 'Provide exactly one of venue_id or neighborhood_id' }, 400);
+    }
+    if (!UUID_PATTERN.test((venueId || neighborhoodId) as string)) {
+      return jsonResponse({ error: 'Invalid id' }, 400);
+    }
+
+    const noiseSecret = Deno.env.get('PRIVACY_NOISE_SECRET');
+    if (!noiseSecret) {
+      console.error('PRIVACY_NOISE_SECRET not configured');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const timezone = resolveTimezone(body.timezone);
+    const hours = Math.min(MAX_HOURS, Math.max(1, Math.floor(Number(body.hours) || DEFAULT_HOURS)));
+
+    // Service role: the profile aggregates every user's location history.
+    // Only a curve built from k-anonymous, noised slots leaves this function.
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let target: { type: 'venue' | 'neighborhood'; id: string; name: string };
+    let profileArgs: Record<string, unknown>;
+
+    if (venueId) {
+      const { data: venue, error } = await serviceClient
+        .from('venues')
+        .select('id, name, lat, lng')
+        .eq('id', venueId)
+        .eq('active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!venue || venue.lat === null || venue.lng === null) {
+        return jsonResponse({ error: 'Venue not found' }, 404);
+      }
+
+      target = { type: 'venue', id: venue.id, name: venue.name };
+      profileArgs = { _timezone: timezone, _lat: venue.lat, _lng: venue.lng };
+    } else {
+      const { data: neighborhood, error } = await serviceClient
+        .from('neighborhoods')
+        .select('id, name')
+        .eq('id', neighborhoodId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!neighborhood) {
+        return jsonResponse({ error: 'Neighborhood not found' }, 404);
+      }
+
+      target = { type: 'neighborhood', id: neighborhood.id, name: neighborhood.name };
+      profileArgs = { _timezone: timezone, _neighborhood_id: neighborhood.id };
+    }
+
+    const { data: rows, error: profileError } = await serviceClient.rpc('get_presence_profile', {
+      ...profileArgs,
+      _max_visits_per_user: MAX_CONTRIBUTION_PER_USER,
+    });
+    if (profileError) throw profileError;
+
+    const totalUsers = Number(rows?.[0]?.total_users ?? 0);
+    const slots = meetsKAnonymity(totalUsers)
+      ? await toPublishableSlots(
+        (rows || []) as PresenceProfileRow[],
+        await createNoise(noiseSecret),
+        `presence:${target.type}:${target.id}:${timezone}`
+      )
+      : [];
+
+    // Too few people behind the profile or any of its hours: its shape could reveal individual routines
+    if (slots.length === 0) {
+      console.log(`Insufficient data for ${target.type} ${target.id} (${totalUsers} users)`);
+      return jsonResponse({
+        success: true,
+        target,
+        timezone,
+        insufficient_data: true,
+        forecast: [],
+        privacy: getPrivacyMetadata(),
+      });
+    }
+
+    const forecast = forecastNextHours(buildWeeklyProfile(slots), timezone, hours);
+    const peak = forecast.reduce((best, point) => (point.busyness > best.busyness ? point : best), forecast[0]);
+
+    return jsonResponse({
+      success: true,
+      target,
+      timezone,
+      insufficient_data: false,
+      forecast,
+      peak,
+      confidence: getForecastConfidence(slots),
+      privacy: getPrivacyMetadata(),
+    });
+  } catch (error) {
+    console.error('Error in get-busyness-forecast:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 400);
+  }
+});
@@ -1,5 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createNoise,
+  getCoarserWindow,
+  getPrivacyMetadata,
+  getWindowEnd,
+  getWindowKey,
+  getWindowStart,
+  meetsKAnonymity,
+  MAX_COARSENING_STEPS,
+  MAX_CONTRIBUTION_PER_USER,
+  parseTimeFilter,
+  type NoiseFn,
+  type TimeWindow,
+} from '../_shared/privacy.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -67,6 +81,208 @@ async function logSecurityEvent(
   }
 }
 
+// Geohash cell precision per zoom band - 4 ≈ 39km, 5 ≈ 4.9km, 6 ≈ 1.2km, 7 ≈ 150m, 8 ≈ 38m
+const MIN_PRECISION = 4;
+const MAX_PRECISION = 8;
+
+// Clients request density in tiles (shorter geohash prefixes) so results can be cached per tile
+const MAX_TILES_PER_REQUEST = 48;
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{1,12}$/;
+
+// Time-lapse frames (mode=frames): one frame per hour, at most a week per request
+const MAX_FRAME_HOURS = 168;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface DensityCell {
+  id: string;
+  lat: number;
+  lng: number;
+  density: number;
+  distinctUsers: number;
+}
+
+interface PublishedCell {
+  id: string;
+  lat: number;
+  lng: number;
+  density: number;
+  // Set when the cell was too sparse in the requested window and comes from a wider one
+  coarsenedTo?: TimeWindow;
+}
+
+async function fetchDensityCells(
+  client: SupabaseClient,
+  precision: number,
+  tiles: string[] | null,
+  window: TimeWindow
+): Promise<DensityCell[]> {
+  const { data, error } = await client.rpc('get_location_density_cells', {
+    _precision: precision,
+    _tiles: tiles,
+    _since: getWindowStart(window.timeFilter)?.toISOString() ?? null,
+    _hour_of_day: window.hourOfDay,
+    _day_of_week: window.dayOfWeek,
+    _max_points_per_user: MAX_CONTRIBUTION_PER_USER,
+    _until: getWindowEnd(window.timeFilter)?.toISOString() ?? null,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((cell: { cell_id: string; cell_lat: number; cell_lng: number; density: number | string; distinct_users: number | string }) => ({
+    id: cell.cell_id,
+    lat: Number(cell.cell_lat),
+    lng: Number(cell.cell_lng),
+    density: Number(cell.density),
+    distinctUsers: Number(cell.distinct_users),
+  }));
+}
+
+// Applies k-anonymity and noise. Cells below K in the requested window are retried over
+// progressively wider windows (rate-scaled back down) before being suppressed.
+async function publishDensityCells(
+  client: SupabaseClient,
+  addNoise: NoiseFn,
+  precision: number,
+  tiles: string[] | null,
+  requestedWindow: TimeWindow
+): Promise<{ cells: PublishedCell[]; suppressed: number }> {
+  const published: PublishedCell[] = [];
+  let sparse = new Set<string>();
+  const requestedKey = getWindowKey(requestedWindow);
+
+  for (const cell of await fetchDensityCells(client, precision, tiles, requestedWindow)) {
+    if (meetsKAnonymity(cell.distinctUsers)) {
+      const density = await addNoise(cell.density, `cell:${cell.id}:${requestedKey}`);
+      published.push({ id: cell.id, lat: cell.lat, lng: cell.lng, density });
+    } else {
+      sparse.add(cell.id);
+    }
+  }
+
+  let window = requestedWindow;
+  let scale = 1;
+  for (let step = 0; step < MAX_COARSENING_STEPS && sparse.size > 0; step++) {
+    const coarser = getCoarserWindow(window);
+    if (!coarser) break;
+    window = coarser.window;
+    scale *= coarser.scale;
+    const windowKey = getWindowKey(window);
+
+    const stillSparse = new Set<string>();
+    const widerCells = new Map((await fetchDensityCells(client, precision, tiles, window)).map(c => [c.id, c]));
+    for (const id of sparse) {
+      const cell = widerCells.get(id);
+      if (cell && meetsKAnonymity(cell.distinctUsers)) {
+        published.push({
+          id,
+          lat: cell.lat,
+          lng: cell.lng,
+          density: Math.round(await addNoise(cell.density, `cell:${id}:${windowKey}`) / scale),
+          coarsenedTo: window,
+        });
+      } else {
+        stillSparse.add(id);
+      }
+    }
+    sparse = stillSparse;
+  }
+
+  return { cells: published.filter(c => c.density > 0), suppressed: sparse.size };
+}
+
+interface PublishedFrame {
+  start: string;
+  cells: PublishedCell[];
+}
+
+// Hourly frames for the time-lapse. Each frame cell must meet k-anonymity on its own;
+// sparse cells are dropped rather than coarsened since a wider window would blur the frame.
+async function publishDensityFrames(
+  client: SupabaseClient,
+  addNoise: NoiseFn,
+  precision: number,
+  tiles: string[] | null,
+  from: Date,
+  hours: number
+): Promise<{ frames: PublishedFrame[]; suppressed: number }> {
+  const { data, error } = await client.rpc('get_location_density_frames', {
+    _precision: precision,
+    _from: from.toISOString(),
+    _to: new Date(from.getTime() + hours * HOUR_MS).toISOString(),
+    _tiles: tiles,
+    _max_points_per_user: MAX_CONTRIBUTION_PER_USER,
+  });
+
+  if (error) throw error;
+
+  // Every hour gets a frame, including empty ones, so playback keeps a steady clock
+  const frames: PublishedFrame[] = Array.from({ length: hours }, (_, i) => ({
+    start: new Date(from.getTime() + i * HOUR_MS).toISOString(),
+    cells: [],
+  }));
+  let suppressed = 0;
+
+  for (const row of (data || []) as { frame_start: string; cell_id: string; cell_lat: number; cell_lng: number; density: number | string; distinct_users: number | string }[]) {
+    const frame = frames[Math.floor((new Date(row.frame_start).getTime() - from.getTime()) / HOUR_MS)];
+    if (!frame) continue;
+
+    if (!meetsKAnonymity(Number(row.distinct_users))) {
+      suppressed++;
+      continue;
+    }
+
+    // Frames are fixed hours, so the frame start identifies the window
+    const density = await addNoise(Number(row.density), `cell:${row.cell_id}:${new Date(row.frame_start).toISOString()}`);
+    if (density > 0) {
+      frame.cells.push({ id: row.cell_id, lat: Number(row.cell_lat), lng: Number(row.cell_lng), density });
+    }
+  }
+
+  return { frames, suppressed };
+}
+
+// Frame ranges start on the hour and can't begin in the future
+function parseFrameStart(value: string | null): Date {
+  const parsed = value ? new Date(value) : null;
+  if (!parsed || isNaN(parsed.getTime()) || parsed.getTime() > Date.now()) {
+    throw new Error('Invalid frame start');
+  }
+  parsed.setUTCMinutes(0, 0, 0);
+  return parsed;
+}
+
+function getPrecisionForZoom(zoom: number): number {
+  if (!Number.isFinite(zoom)) return 7;
+  if (zoom < 9) return 4;
+  if (zoom < 11) return 5;
+  if (zoom < 13) return 6;
+  if (zoom < 15) return 7;
+  return 8;
+}
+
+// Parses a comma-separated list of geohash tiles no longer than the cell precision
+function parseTiles(value: string | null, precision: number): string[] | null {
+  if (!value) return null;
+  const tiles = Array.from(new Set(value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+  if (tiles.length === 0) return null;
+  if (tiles.length > MAX_TILES_PER_REQUEST) {
+    throw new Error(`Too many tiles requested (max ${MAX_TILES_PER_REQUEST})`);
+  }
+  for (const tile of tiles) {
+    if (!GEOHASH_PATTERN.test(tile) || tile.length > precision) {
+      throw new Error(`Invalid tile: ${tile}`);
+    }
+  }
+  return tiles;
+}
+
+function parseOptionalInt(value: string | null, min: number, max: number): number | null {
+  if (value === null || value === '') return null;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < min || parsed > max) return null;
+  return parsed;
+}
+
 // Cleanup old entries periodically
 setInterval(() => {
   const now = Date.now();
@@ -138,92 +354,78 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const url = new URL(req.url);
-    const timeFilter = url.searchParams.get('time_filter') || 'all';
-    const hourOfDay = url.searchParams.get('hour_of_day');
-    const dayOfWeek = url.searchParams.get('day_of_week');
-
-    console.log('Fetching location density with filters:', { timeFilter, hourOfDay, dayOfWeek });
-
-    let query = serviceClient
-      .from('user_locations')
-      .select('latitude, longitude, created_at');
-
-    // Apply time filters
-    const now = new Date();
-    switch (timeFilter) {
-      case 'today':
-        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        query = query.gte('created_at', startOfDay.toISOString());
-        break;
-      case 'this_week':
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay());
-        startOfWeek.setHours(0, 0, 0, 0);
-        query = query.gte('created_at', startOfWeek.toISOString());
-        break;
-      case 'this_hour':
-        const startOfHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
-        query = query.gte('created_at', startOfHour.toISOString());
-        break;
+    const noiseSecret = Deno.env.get('PRIVACY_NOISE_SECRET');
+    if (!noiseSecret) {
+      console.error('PRIVACY_NOISE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        {
+          status: 500,
+          headers: { ...rateLimitHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
+    const addNoise = await createNoise(noiseSecret);
 
-    const { data: locations, error } = await query;
+    const url = new URL(req.url);
+    const requestedWindow: TimeWindow = {
+      timeFilter: parseTimeFilter(url.searchParams.get('time_filter')),
+      hourOfDay: parseOptionalInt(url.searchParams.get('hour_of_day'), 0, 23),
+      dayOfWeek: parseOptionalInt(url.searchParams.get('day_of_week'), 0, 6),
+    };
+    const requestedPrecision = parseOptionalInt(url.searchParams.get('precision'), MIN_PRECISION, MAX_PRECISION);
+    const precision = requestedPrecision ?? getPrecisionForZoom(parseFloat(url.searchParams.get('zoom') ?? ''));
+    const tiles = parseTiles(url.searchParams.get('tiles'), precision);
 
-    if (error) throw error;
+    if (url.searchParams.get('mode') === 'frames') {
+      const from = parseFrameStart(url.searchParams.get('from'));
+      const hours = parseOptionalInt(url.searchParams.get('hours'), 1, MAX_FRAME_HOURS) ?? 24;
 
-    console.log(`Found ${locations?.length || 0} location points from all users`);
+      console.log('Fetching density frames:', { from: from.toISOString(), hours, precision, tiles: tiles?.length ?? 'all' });
 
-    // Filter by hour of day or day of week if specified
-    let filteredLocations = locations || [];
-    
-    if (hourOfDay !== null && hourOfDay !== undefined) {
-      const targetHour = parseInt(hourOfDay);
-      filteredLocations = filteredLocations.filter(loc => {
-        const locHour = new Date(loc.created_at).getHours();
-        return locHour === targetHour;
-      });
-    }
+      const { frames, suppressed } = await publishDensityFrames(serviceClient, addNoise, precision, tiles, from, hours);
 
-    if (dayOfWeek !== null && dayOfWeek !== undefined) {
-      const targetDay = parseInt(dayOfWeek);
-      filteredLocations = filteredLocations.filter(loc => {
-        const locDay = new Date(loc.created_at).getDay();
-        return locDay === targetDay;
-      });
+      return new Response(
+        JSON.stringify({
+          success: true,
+          precision,
+          tiles,
+          frames,
+          stats: {
+            frame_count: frames.length,
+            max_density: frames.reduce((max, f) => f.cells.reduce((m, c) => Math.max(m, c.density), max), 0),
+            suppressed_cells: suppressed,
+          },
+          privacy: getPrivacyMetadata(),
+        }),
+        {
+          headers: { ...rateLimitHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
-    // Create density grid - aggregate locations into grid cells for heatmap
-    // Using smaller grid for more detailed visualization
-    const gridSize = 0.003; // ~300m grid cells for finer granularity
-    const densityMap = new Map<string, number>();
-
-    filteredLocations.forEach(loc => {
-      const lat = parseFloat(String(loc.latitude));
-      const lng = parseFloat(String(loc.longitude));
-      if (isNaN(lat) || isNaN(lng)) return;
-      
-      const gridLat = Math.floor(lat / gridSize) * gridSize;
-      const gridLng = Math.floor(lng / gridSize) * gridSize;
-      const key = `${gridLat.toFixed(6)},${gridLng.toFixed(6)}`;
-      densityMap.set(key, (densityMap.get(key) || 0) + 1);
-    });
+    console.log('Fetching location density with filters:', { ...requestedWindow, precision, tiles: tiles?.length ?? 'all' });
+
+    // Aggregate into geohash cells in Postgres, then apply the privacy layer before anything leaves
+    const { cells: densityCells, suppressed } = await publishDensityCells(serviceClient, addNoise, precision, tiles, requestedWindow);
+
+    console.log(`Publishing ${densityCells.length} grid cells (${suppressed} suppressed below k-anonymity threshold)`);
 
     // Convert to GeoJSON format for Mapbox heatmap layer
-    const features = Array.from(densityMap.entries()).map(([key, count]) => {
-      const [lat, lng] = key.split(',').map(Number);
-      return {
-        type: 'Feature',
-        properties: {
-          density: count,
-          intensity: Math.min(count / 10, 1), // Normalize to 0-1 for styling
-        },
-        geometry: {
-          type: 'Point',
-          coordinates: [lng, lat], // GeoJSON uses [lng, lat] order
-        },
-      };
-    });
+    const features = densityCells.map(({ id, lat, lng, density, coarsenedTo }) => ({
+      type: 'Feature',
+      id,
+      properties: {
+        cell_id: id,
+        density,
+        intensity: Math.min(density / 10, 1), // Normalize to 0-1 for styling
+        coarsened: Boolean(coarsenedTo),
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: [lng, lat], // GeoJSON uses [lng, lat] order
+      },
+    }));
 
     const geojson = {
       type: 'FeatureCollection',
@@ -231,7 +433,7 @@ serve(async (req) => {
     };
 
     // Calculate statistics for UI display
-    const densityValues = Array.from(densityMap.values());
+    const densityValues = densityCells.map(cell => cell.density);
     const maxDensity = densityValues.length > 0 ? Math.max(...densityValues) : 0;
     const avgDensity = densityValues.length > 0 
       ? densityValues.reduce((a, b) => a + b, 0) / densityValues.length 
@@ -242,13 +444,18 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
+        precision,
+        tiles,
         geojson,
         stats: {
-          total_points: filteredLocations.length,
+          total_points: densityValues.reduce((a, b) => a + b, 0),
           grid_cells: features.length,
           max_density: maxDensity,
           avg_density: avgDensity,
+          suppressed_cells: suppressed,
+          coarsened_cells: densityCells.filter(c => c.coarsenedTo).length,
         },
+        privacy: getPrivacyMetadata(),
       }),
       {
         headers: { ...rateLimitHeaders, 'Content-Type': 'application/json' },
@@ -1,4 +1,22 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { findContainingNeighborhood } from '../_shared/geo.ts';
+import { buildArc, extractTrips, type TrackPoint } from './trajectory.ts';
+import {
+  createNoise,
+  getCoarserWindow,
+  getPrivacyMetadata,
+  getWindowEnd,
+  getWindowKey,
+  getWindowStart,
+  K_ANONYMITY_MIN_USERS,
+  MAX_COARSENING_STEPS,
+  MAX_CONTRIBUTION_PER_USER,
+  meetsKAnonymity,
+  parseTimeFilter,
+  type NoiseFn,
+  type TimeFilter,
+  type TimeWindow,
+} from '../_shared/privacy.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -76,42 +94,238 @@ setInterval(() => {
   }
 }, 60000);
 
-interface LocationPoint {
-  latitude: number;
-  longitude: number;
-  created_at: string;
-  user_id: string;
+interface Neighborhood {
+  id: string;
+  name: string;
+  boundary_points: unknown;
+  center_lat: number;
+  center_lng: number;
 }
 
+// Trips between one origin/destination neighborhood pair
 interface MovementPath {
-  from: [number, number];
-  to: [number, number];
+  origin: Neighborhood;
+  destination: Neighborhood;
+  // Trips per user on this flow - clipped to MAX_CONTRIBUTION_PER_USER when summed
+  userCounts: Map<string, number>;
+}
+
+interface PublishedPath {
+  origin: Neighborhood;
+  destination: Neighborhood;
   frequency: number;
-  users: string[];
+  uniqueUsers: number;
+  coarsenedTo?: TimeFilter;
+}
+
+// Server-side floor for min_frequency - the query parameter can only raise it
+const MIN_PUBLISHED_FREQUENCY = K_ANONYMITY_MIN_USERS;
+
+function getClippedFrequency(path: MovementPath): number {
+  let total = 0;
+  for (const count of path.userCounts.values()) {
+    total += Math.min(count, MAX_CONTRIBUTION_PER_USER);
+  }
+  return total;
+}
+
+// PostgREST caps every response (1000 rows by default), so points are read in pages
+const LOCATION_PAGE_SIZE = 1000;
+
+// Points kept per user and window (about two weeks of one-minute pings). Rows stream in
+// user by user and only the resulting trips are kept, so memory is bounded by one user's
+// track; beyond the cap the oldest points are dropped.
+const MAX_POINTS_PER_USER = 20_000;
+
+// A trip between two different known neighborhoods
+interface NeighborhoodTrip {
+  userId: string;
+  key: string;
+  origin: Neighborhood;
+  destination: Neighborhood;
+  departedAt: number;
+  arrivedAt: number;
+}
+
+// Segments one user's track into trips between stay points and keeps those that link two
+// different neighborhoods
+function collectTrips(userId: string, track: TrackPoint[], neighborhoods: Neighborhood[], trips: NeighborhoodTrip[]) {
+  for (const trip of extractTrips(track)) {
+    const origin = findContainingNeighborhood(trip.origin.lat, trip.origin.lng, neighborhoods);
+    const destination = findContainingNeighborhood(trip.destination.lat, trip.destination.lng, neighborhoods);
+    if (!origin || !destination || origin.id === destination.id) continue;
+
+    trips.push({
+      userId,
+      key: `${origin.id}->${destination.id}`,
+      origin,
+      destination,
+      departedAt: trip.departedAt,
+      arrivedAt: trip.arrivedAt,
+    });
+  }
 }
 
-// Calculate distance between two points in meters using Haversine formula
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+// Streams the user_locations rows in the window and turns each user's track into trips
+async function loadTrips(client: SupabaseClient, timeFilter: TimeFilter, neighborhoods: Neighborhood[]): Promise<NeighborhoodTrip[]> {
+  const windowStart = getWindowStart(timeFilter);
+  const windowEnd = getWindowEnd(timeFilter);
+  const trips: NeighborhoodTrip[] = [];
+  let rowCount = 0;
+  let userCount = 0;
+  let cappedUsers = 0;
+
+  let currentUser: string | null = null;
+  // Newest first while reading, so the cap keeps the most recent points
+  let track: TrackPoint[] = [];
+
+  const flushUser = () => {
+    if (currentUser && track.length > 0) {
+      userCount++;
+      if (track.length >= MAX_POINTS_PER_USER) cappedUsers++;
+      collectTrips(currentUser, track.reverse(), neighborhoods, trips);
+    }
+    track = [];
+  };
+
+  for (let from = 0; ; from += LOCATION_PAGE_SIZE) {
+    // id breaks ties so pages don't overlap or skip rows with the same timestamp
+    let query = client
+      .from('user_locations')
+      .select('latitude, longitude, created_at, user_id')
+      .not('user_id', 'is', null)
+      .order('user_id')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + LOCATION_PAGE_SIZE - 1);
+
+    if (windowStart) {
+      query = query.gte('created_at', windowStart.toISOString());
+    }
+    if (windowEnd) {
+      query = query.lt('created_at', windowEnd.toISOString());
+    }
+
+    const { data: locations, error } = await query;
+
+    if (error) {
+      console.error('Error fetching locations:', error);
+      throw error;
+    }
+
+    for (const location of locations || []) {
+      if (location.user_id !== currentUser) {
+        flushUser();
+        currentUser = location.user_id;
+      }
+      if (track.length >= MAX_POINTS_PER_USER) continue;
+
+      const lat = parseFloat(String(location.latitude));
+      const lng = parseFloat(String(location.longitude));
+      if (isNaN(lat) || isNaN(lng)) continue;
+
+      track.push({ lat, lng, time: new Date(location.created_at).getTime() });
+    }
 
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    rowCount += locations?.length || 0;
+    if (!locations || locations.length < LOCATION_PAGE_SIZE) break;
+  }
+  flushUser();
 
-  return R * c;
+  console.log(
+    `Read ${rowCount} location points for ${userCount} users (${timeFilter}, ${cappedUsers} capped) into ${trips.length} trips`
+  );
+  return trips;
 }
 
-// Snap coordinates to a grid to group nearby movements
-function snapToGrid(lat: number, lng: number, gridSize = 0.001): [number, number] {
-  return [
-    Math.round(lat / gridSize) * gridSize,
-    Math.round(lng / gridSize) * gridSize
-  ];
+// The trips of an already loaded window that fall inside a narrower one
+function clipTrips(trips: NeighborhoodTrip[], timeFilter: TimeFilter): NeighborhoodTrip[] {
+  const start = getWindowStart(timeFilter)?.getTime() ?? -Infinity;
+  const end = getWindowEnd(timeFilter)?.getTime() ?? Infinity;
+  return trips.filter((trip) => trip.departedAt >= start && trip.arrivedAt < end);
+}
+
+// Counts trips in an origin–destination matrix keyed by neighborhood pair
+function aggregateMovements(trips: NeighborhoodTrip[]): Map<string, MovementPath> {
+  const matrix = new Map<string, MovementPath>();
+
+  for (const trip of trips) {
+    if (!matrix.has(trip.key)) {
+      matrix.set(trip.key, { origin: trip.origin, destination: trip.destination, userCounts: new Map() });
+    }
+    const flow = matrix.get(trip.key)!;
+    flow.userCounts.set(trip.userId, (flow.userCounts.get(trip.userId) || 0) + 1);
+  }
+
+  console.log(`Counted ${trips.length} trips into ${matrix.size} origin–destination flows`);
+
+  return matrix;
+}
+
+// Applies k-anonymity, the frequency floor and noise. Paths too sparse in the requested
+// window are retried over wider windows (rate-scaled back down) before being suppressed.
+async function publishMovements(
+  client: SupabaseClient,
+  addNoise: NoiseFn,
+  timeFilter: TimeFilter,
+  minFrequency: number,
+  neighborhoods: Neighborhood[]
+): Promise<{ paths: PublishedPath[]; suppressed: number; uniqueUsers: number }> {
+  const published: PublishedPath[] = [];
+  const publishedUsers = new Set<string>();
+  let sparse = new Set<string>();
+
+  const publish = async (key: string, movement: MovementPath, window: TimeWindow, scale: number): Promise<boolean> => {
+    if (!meetsKAnonymity(movement.userCounts.size)) return false;
+    const windowKey = getWindowKey(window);
+    const frequency = Math.round(await addNoise(getClippedFrequency(movement), `path:${key}:${windowKey}`) / scale);
+    if (frequency < minFrequency) return false;
+    published.push({
+      origin: movement.origin,
+      destination: movement.destination,
+      frequency,
+      uniqueUsers: await addNoise(movement.userCounts.size, `path-users:${key}:${windowKey}`, 1),
+      coarsenedTo: window.timeFilter === timeFilter ? undefined : window.timeFilter,
+    });
+    movement.userCounts.forEach((_count, userId) => publishedUsers.add(userId));
+    return true;
+  };
+
+  const requestedWindow: TimeWindow = { timeFilter, hourOfDay: null, dayOfWeek: null };
+  for (const [key, movement] of aggregateMovements(await loadTrips(client, timeFilter, neighborhoods))) {
+    if (!(await publish(key, movement, requestedWindow, 1))) sparse.add(key);
+  }
+
+  // Coarser windows nest, so the widest one is loaded once and the steps before it are
+  // clipped from its trips instead of querying again
+  const coarsening: { window: TimeWindow; scale: number }[] = [];
+  let scale = 1;
+  for (let window = requestedWindow; coarsening.length < MAX_COARSENING_STEPS;) {
+    const coarser = getCoarserWindow(window);
+    if (!coarser) break;
+    window = coarser.window;
+    scale *= coarser.scale;
+    coarsening.push({ window, scale });
+  }
+
+  const widest = coarsening[coarsening.length - 1];
+  const widestTrips = sparse.size > 0 && widest ? await loadTrips(client, widest.window.timeFilter, neighborhoods) : null;
+
+  for (const { window, scale } of coarsening) {
+    if (!widestTrips || sparse.size === 0) break;
+
+    const widerTrips = window === widest.window ? widestTrips : clipTrips(widestTrips, window.timeFilter);
+    const widerMovements = aggregateMovements(widerTrips);
+    const stillSparse = new Set<string>();
+    for (const key of sparse) {
+      const movement = widerMovements.get(key);
+      if (!movement || !(await publish(key, movement, window, scale))) stillSparse.add(key);
+    }
+    sparse = stillSparse;
+  }
+
+  const uniqueUsers = await addNoise(publishedUsers.size, `users:${getWindowKey(requestedWindow)}`, 1);
+  return { paths: published, suppressed: sparse.size, uniqueUsers };
 }
 
 Deno.serve(async (req) => {
@@ -176,133 +390,65 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    console.log('Fetching user location data for movement analysis (all users)...');
-
-    // Parse query parameters for filtering
-    const url = new URL(req.url);
-    const timeFilter = url.searchParams.get('time_filter') || 'all';
-    const minFrequency = parseInt(url.searchParams.get('min_frequency') || '2');
-
-    // Build query with time filter using service client
-    let query = serviceClient
-      .from('user_locations')
-      .select('latitude, longitude, created_at, user_id')
-      .order('user_id')
-      .order('created_at');
-
-    // Apply time filtering
-    const now = new Date();
-    if (timeFilter === 'today') {
-      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      query = query.gte('created_at', startOfDay.toISOString());
-    } else if (timeFilter === 'this_week') {
-      const startOfWeek = new Date(now);
-      startOfWeek.setDate(now.getDate() - now.getDay());
-      startOfWeek.setHours(0, 0, 0, 0);
-      query = query.gte('created_at', startOfWeek.toISOString());
-    } else if (timeFilter === 'this_hour') {
-      const startOfHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours());
-      query = query.gte('created_at', startOfHour.toISOString());
-    }
-
-    const { data: locations, error } = await query;
-
-    if (error) {
-      console.error('Error fetching locations:', error);
-      throw error;
-    }
-
-    console.log(`Processing ${locations?.length || 0} location points from all users...`);
-
-    // Group locations by user and identify movements
-    const userPaths = new Map<string, LocationPoint[]>();
-    
-    for (const location of locations || []) {
-      const userId = location.user_id || 'anonymous';
-      if (!userPaths.has(userId)) {
-        userPaths.set(userId, []);
-      }
-      userPaths.get(userId)!.push({
-        latitude: parseFloat(String(location.latitude)),
-        longitude: parseFloat(String(location.longitude)),
-        created_at: location.created_at,
-        user_id: userId,
-      });
+    const noiseSecret = Deno.env.get('PRIVACY_NOISE_SECRET');
+    if (!noiseSecret) {
+      console.error('PRIVACY_NOISE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        {
+          headers: { ...rateLimitHeaders, 'Content-Type': 'application/json' },
+          status: 500,
+        }
+      );
     }
+    const addNoise = await createNoise(noiseSecret);
 
-    // Analyze movements between locations
-    const pathKey = (from: [number, number], to: [number, number]) => 
-      `${from[0]},${from[1]}->${to[0]},${to[1]}`;
-    
-    const movements = new Map<string, MovementPath>();
-
-    for (const [userId, userLocations] of userPaths) {
-      // Sort by timestamp
-      userLocations.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    console.log('Fetching user location data for movement analysis (all users)...');
 
-      for (let i = 0; i < userLocations.length - 1; i++) {
-        const current = userLocations[i];
-        const next = userLocations[i + 1];
+    // Parse query parameters for filtering - callers can raise min_frequency but never below the privacy floor
+    const url = new URL(req.url);
+    const timeFilter = parseTimeFilter(url.searchParams.get('time_filter'));
+    const requestedMinFrequency = parseInt(url.searchParams.get('min_frequency') || '2');
+    const minFrequency = Math.max(
+      isNaN(requestedMinFrequency) ? MIN_PUBLISHED_FREQUENCY : requestedMinFrequency,
+      MIN_PUBLISHED_FREQUENCY
+    );
 
-        // Skip invalid coordinates
-        if (isNaN(current.latitude) || isNaN(current.longitude) || 
-            isNaN(next.latitude) || isNaN(next.longitude)) {
-          continue;
-        }
+    const { data: neighborhoods, error: neighborhoodsError } = await serviceClient
+      .from('neighborhoods')
+      .select('id, name, boundary_points, center_lat, center_lng')
+      .eq('active', true);
 
-        // Calculate distance between points
-        const distance = calculateDistance(
-          current.latitude,
-          current.longitude,
-          next.latitude,
-          next.longitude
-        );
-
-        // Only consider significant movements (50m to 10km - filters noise and unrealistic jumps)
-        if (distance > 50 && distance < 10000) {
-          // Snap to grid for grouping
-          const fromSnapped = snapToGrid(current.latitude, current.longitude);
-          const toSnapped = snapToGrid(next.latitude, next.longitude);
-          
-          const key = pathKey(
-            [fromSnapped[1], fromSnapped[0]], // [lng, lat] for GeoJSON
-            [toSnapped[1], toSnapped[0]]
-          );
-
-          if (!movements.has(key)) {
-            movements.set(key, {
-              from: [fromSnapped[1], fromSnapped[0]],
-              to: [toSnapped[1], toSnapped[0]],
-              frequency: 0,
-              users: []
-            });
-          }
-
-          const movement = movements.get(key)!;
-          movement.frequency++;
-          if (!movement.users.includes(userId)) {
-            movement.users.push(userId);
-          }
-        }
-      }
-    }
+    if (neighborhoodsError) throw neighborhoodsError;
 
-    // Filter by minimum frequency
-    const filteredMovements = Array.from(movements.values())
-      .filter(m => m.frequency >= minFrequency);
+    const { paths: filteredMovements, suppressed, uniqueUsers } = await publishMovements(
+      serviceClient,
+      addNoise,
+      timeFilter,
+      minFrequency,
+      neighborhoods || []
+    );
 
-    console.log(`Found ${filteredMovements.length} movement paths with frequency >= ${minFrequency}`);
+    console.log(`Found ${filteredMovements.length} neighborhood flows with >= ${minFrequency} trips (${suppressed} suppressed)`);
 
-    // Convert to GeoJSON format
+    // Convert to GeoJSON arcs between neighborhood centers - frequency is the trip count
     const features = filteredMovements.map(movement => ({
       type: 'Feature',
       geometry: {
         type: 'LineString',
-        coordinates: [movement.from, movement.to]
+        coordinates: buildArc(
+          [Number(movement.origin.center_lng), Number(movement.origin.center_lat)],
+          [Number(movement.destination.center_lng), Number(movement.destination.center_lat)]
+        )
       },
       properties: {
+        origin_id: movement.origin.id,
+        origin_name: movement.origin.name,
+        destination_id: movement.destination.id,
+        destination_name: movement.destination.name,
         frequency: movement.frequency,
-        unique_users: movement.users.length,
+        unique_users: movement.uniqueUsers,
+        coarsened: Boolean(movement.coarsenedTo),
         weight: Math.min(movement.frequency / 2, 10) // Normalize weight for visualization
       }
     }));
@@ -316,17 +462,19 @@ Deno.serve(async (req) => {
     const stats = {
       total_paths: filteredMovements.length,
       total_movements: filteredMovements.reduce((sum, m) => sum + m.frequency, 0),
-      unique_users: new Set(filteredMovements.flatMap(m => m.users)).size,
+      unique_users: uniqueUsers,
       max_frequency: Math.max(...filteredMovements.map(m => m.frequency), 0),
       avg_frequency: filteredMovements.length > 0 
         ? filteredMovements.reduce((sum, m) => sum + m.frequency, 0) / filteredMovements.length 
-        : 0
+        : 0,
+      suppressed_paths: suppressed,
+      min_frequency: minFrequency,
     };
 
     console.log('Movement path statistics:', stats);
 
     return new Response(
-      JSON.stringify({ geojson, stats }),
+      JSON.stringify({ geojson, stats, privacy: getPrivacyMetadata() }),
       {
         headers: { ...rateLimitHeaders, 'Content-Type': 'application/json' },
         status: 200,
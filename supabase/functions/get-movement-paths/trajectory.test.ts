@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  MIN_DWELL_MS,
+  TRIP_GAP_MS,
+  buildArc,
+  detectStayPoints,
+  extractTrips,
+  splitOnTimeGaps,
+  type TrackPoint,
+} from "./trajectory.ts";
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2026, 2, 6, 18);
+
+// Two places about 2 km apart
+const home = { lat: 40.7128, lng: -74.006 };
+const bar = { lat: 40.7308, lng: -74.006 };
+
+// One ping a minute at a place for the given minutes, starting at offset
+const stay = (place: { lat: number; lng: number }, fromMinute: number, minutes: number): TrackPoint[] =>
+  Array.from({ length: minutes + 1 }, (_, i) => ({ ...place, time: start + (fromMinute + i) * MINUTE }));
+
+// Pings along the straight line between two places
+const travel = (from: { lat: number; lng: number }, to: { lat: number; lng: number }, fromMinute: number, minutes: number): TrackPoint[] =>
+  Array.from({ length: minutes - 1 }, (_, i) => {
+    const t = (i + 1) / minutes;
+    return { lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t, time: start + (fromMinute + i + 1) * MINUTE };
+  });
+
+describe("detectStayPoints", () => {
+  it("keeps places where the user dwelt long enough", () => {
+    const stays = detectStayPoints([...stay(home, 0, 20), ...travel(home, bar, 20, 10), ...stay(bar, 30, 30)]);
+
+    expect(stays).toHaveLength(2);
+    expect(stays[0]).toMatchObject({ arrivedAt: start, leftAt: start + 20 * MINUTE });
+    expect(stays[0].lat).toBeCloseTo(home.lat, 6);
+    expect(stays[1].lat).toBeCloseTo(bar.lat, 3);
+  });
+
+  it("ignores a stop shorter than the dwell time", () => {
+    const shortStop = MIN_DWELL_MS / MINUTE - 2;
+
+    expect(detectStayPoints(stay(home, 0, shortStop))).toEqual([]);
+  });
+});
+
+describe("splitOnTimeGaps", () => {
+  it("splits a long gap only when the user moved across it", () => {
+    const gapMinutes = TRIP_GAP_MS / MINUTE + 15;
+    const quietAtHome = [...stay(home, 0, 10), ...stay(home, 10 + gapMinutes, 10)];
+    const jumped = [...stay(home, 0, 10), ...stay(bar, 10 + gapMinutes, 10)];
+
+    expect(splitOnTimeGaps(quietAtHome)).toHaveLength(1);
+    expect(splitOnTimeGaps(jumped)).toHaveLength(2);
+  });
+});
+
+describe("extractTrips", () => {
+  it("turns consecutive stays into a trip", () => {
+    const trips = extractTrips([...stay(home, 0, 20), ...travel(home, bar, 20, 10), ...stay(bar, 30, 30)]);
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0].departedAt).toBe(start + 20 * MINUTE);
+    expect(trips[0].destination.lat).toBeCloseTo(bar.lat, 3);
+  });
+
+  it("does not invent a trip across a gap in the data", () => {
+    const gapMinutes = TRIP_GAP_MS / MINUTE + 15;
+
+    expect(extractTrips([...stay(home, 0, 20), ...stay(bar, 20 + gapMinutes, 20)])).toEqual([]);
+  });
+
+  it("treats GPS drift around one place as staying put", () => {
+    const drifted = { lat: home.lat + 0.002, lng: home.lng };
+
+    expect(extractTrips([...stay(home, 0, 20), ...stay(drifted, 21, 20)])).toEqual([]);
+  });
+});
+
+describe("buildArc", () => {
+  it("runs from origin to destination, bowed to the right of travel", () => {
+    const arc = buildArc([0, 0], [0, 1], 8);
+
+    expect(arc).toHaveLength(9);
+    expect(arc[0]).toEqual([0, 0]);
+    expect(arc[8]).toEqual([0, 1]);
+    expect(arc[4][0]).toBeGreaterThan(0);
+  });
+
+  it("keeps the two directions of a flow apart", () => {
+    const there = buildArc([0, 0], [0, 1], 8);
+    const back = buildArc([0, 1], [0, 0], 8);
+
+    expect(Math.sign(there[4][0])).not.toBe(Math.sign(back[4][0]));
+  });
+});
@@ -0,0 +1,132 @@
+// Trajectory pipeline for movement analysis:
+//   raw location pings → stay points (dwell within a radius) → trips between consecutive stays
+// Time gaps split a track only when the user also moved across the gap - a phone that
+// went quiet inside a bar is still one stay, but a jump across town is an unknown trip.
+
+import { calculateDistance } from '../_shared/geo.ts';
+
+// A stay is at least MIN_DWELL_MS spent within STAY_RADIUS_M of where it started
+export const STAY_RADIUS_M = 150;
+export const MIN_DWELL_MS = 10 * 60 * 1000;
+
+// Gaps longer than this with movement across them end the current track
+export const TRIP_GAP_MS = 45 * 60 * 1000;
+
+// Trips longer than this are almost certainly missing data rather than one journey
+export const MAX_TRIP_DURATION_MS = 3 * 60 * 60 * 1000;
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  time: number; // epoch ms
+}
+
+export interface StayPoint {
+  lat: number;
+  lng: number;
+  arrivedAt: number;
+  leftAt: number;
+}
+
+export interface Trip {
+  origin: StayPoint;
+  destination: StayPoint;
+  departedAt: number;
+  arrivedAt: number;
+}
+
+// Split a time-ordered track where the user moved across a long gap in pings
+export function splitOnTimeGaps(points: TrackPoint[]): TrackPoint[][] {
+  const tracks: TrackPoint[][] = [];
+  let current: TrackPoint[] = [];
+
+  for (const point of points) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      point.time - previous.time > TRIP_GAP_MS &&
+      calculateDistance(previous.lat, previous.lng, point.lat, point.lng) > STAY_RADIUS_M
+    ) {
+      tracks.push(current);
+      current = [];
+    }
+    current.push(point);
+  }
+
+  if (current.length > 0) tracks.push(current);
+  return tracks;
+}
+
+// Stay-point detection: grow a window from each anchor while points stay within the radius;
+// if the window spans at least the dwell time it becomes a stay at the window's centroid
+export function detectStayPoints(points: TrackPoint[]): StayPoint[] {
+  const stays: StayPoint[] = [];
+  let i = 0;
+
+  while (i < points.length) {
+    const anchor = points[i];
+    let j = i + 1;
+    while (j < points.length && calculateDistance(anchor.lat, anchor.lng, points[j].lat, points[j].lng) <= STAY_RADIUS_M) {
+      j++;
+    }
+
+    const last = points[j - 1];
+    if (last.time - anchor.time >= MIN_DWELL_MS) {
+      const window = points.slice(i, j);
+      stays.push({
+        lat: window.reduce((sum, p) => sum + p.lat, 0) / window.length,
+        lng: window.reduce((sum, p) => sum + p.lng, 0) / window.length,
+        arrivedAt: anchor.time,
+        leftAt: last.time,
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return stays;
+}
+
+// Trips are the legs between consecutive stays within one track
+export function extractTrips(points: TrackPoint[]): Trip[] {
+  const trips: Trip[] = [];
+
+  for (const track of splitOnTimeGaps(points)) {
+    const stays = detectStayPoints(track);
+    for (let k = 0; k < stays.length - 1; k++) {
+      const origin = stays[k];
+      const destination = stays[k + 1];
+      const duration = destination.arrivedAt - origin.leftAt;
+
+      // Consecutive stays that are really the same place (e.g. split by GPS drift) aren't trips
+      if (calculateDistance(origin.lat, origin.lng, destination.lat, destination.lng) <= STAY_RADIUS_M * 2) continue;
+      if (duration > MAX_TRIP_DURATION_MS) continue;
+
+      trips.push({ origin, destination, departedAt: origin.leftAt, arrivedAt: destination.arrivedAt });
+    }
+  }
+
+  return trips;
+}
+
+// Quadratic bezier between two [lng, lat] points, bowed to the right of travel so
+// A→B and B→A flows render as two separate arcs instead of overlapping
+export function buildArc(from: [number, number], to: [number, number], segments = 24): [number, number][] {
+  const [x1, y1] = from;
+  const [x2, y2] = to;
+  const curvature = 0.2;
+  const controlX = (x1 + x2) / 2 + (y2 - y1) * curvature;
+  const controlY = (y1 + y2) / 2 - (x2 - x1) * curvature;
+
+  const coordinates: [number, number][] = [];
+  for (let s = 0; s <= segments; s++) {
+    const t = s / segments;
+    const inv = 1 - t;
+    coordinates.push([
+      inv * inv * x1 + 2 * inv * t * controlX + t * t * x2,
+      inv * inv * y1 + 2 * inv * t * controlY + t * t * y2,
+    ]);
+  }
+  return coordinates;
+}
@@ -1,11 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { calculateDistance, findContainingNeighborhood } from '../_shared/geo.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Top 10 most popular venues in Charlotte, NC with verified Google Places addresses
+// Curated Charlotte venues served when the Places API key is missing or the API fails
 const CHARLOTTE_TOP_VENUES = [
   {
     id: "merchant-trade",
@@ -119,118 +121,299 @@ const CHARLOTTE_TOP_VENUES = [
   },
 ];
 
+// Google Text Search returns up to 20 results per page and at most 3 pages per query
+const PAGE_SIZE = 20;
+const DEFAULT_RADIUS_M = 10000;
+const MAX_RADIUS_M = 50000;
+
+// Fallback pages use an offset cursor; anything else is a Google next_page_token
+const FALLBACK_CURSOR_PREFIX = 'offset:';
+
+interface PlaceResult {
+  place_id: string;
+  name: string;
+  formatted_address?: string;
+  geometry?: { location: { lat: number; lng: number } };
+  types?: string[];
+  rating?: number;
+  user_ratings_total?: number;
+  opening_hours?: { open_now?: boolean };
+}
+
+// Place Details fills in what Text Search leaves out. Results are cached per place in the
+// function instance, so panning back over an area doesn't spend quota on the same places again.
+const DETAILS_FIELDS = 'formatted_phone_number,website,opening_hours';
+const DETAILS_TTL_MS = 6 * 60 * 60 * 1000;
+const DETAILS_CONCURRENCY = 5;
+const MAX_CACHED_DETAILS = 2000;
+
+interface PlaceDetails {
+  openingHours: string[];
+  website: string | null;
+  phone: string | null;
+}
+
+const detailsCache = new Map<string, { details: PlaceDetails; fetchedAt: number }>();
+
+async function fetchPlaceDetails(placeId: string, apiKey: string): Promise<PlaceDetails | null> {
+  try {
+    const detailsUrl = new URL('https://maps.googleapis.com/maps/api/place/details/json');
+    detailsUrl.searchParams.append('place_id', placeId);
+    detailsUrl.searchParams.append('fields', DETAILS_FIELDS);
+    detailsUrl.searchParams.append('key', apiKey);
+
+    const response = await fetch(detailsUrl.toString());
+    const data = await response.json();
+    if (data.status !== 'OK') {
+      console.warn(`Place Details for ${placeId} returned status:`, data.status);
+      return null;
+    }
+
+    const result = data.result || {};
+    return {
+      openingHours: result.opening_hours?.weekday_text || [],
+      website: result.website ?? null,
+      phone: result.formatted_phone_number ?? null,
+    };
+  } catch (error) {
+    console.warn(`Place Details for ${placeId} failed:`, error);
+    return null;
+  }
+}
+
+// Details for a page of places, a few requests at a time. Places whose lookup fails are
+// left out and returned without hours rather than failing the search.
+async function getPlaceDetails(placeIds: string[], apiKey: string): Promise<Map<string, PlaceDetails>> {
+  const found = new Map<string, PlaceDetails>();
+  const now = Date.now();
+  const missing: string[] = [];
+
+  for (const placeId of placeIds) {
+    const cached = detailsCache.get(placeId);
+    if (cached && now - cached.fetchedAt < DETAILS_TTL_MS) {
+      found.set(placeId, cached.details);
+    } else {
+      missing.push(placeId);
+    }
+  }
+
+  let next = 0;
+  await Promise.all(Array.from({ length: Math.min(DETAILS_CONCURRENCY, missing.length) }, async () => {
+    while (next < missing.length) {
+      const placeId = missing[next++];
+      const details = await fetchPlaceDetails(placeId, apiKey);
+      if (!details) continue;
+      found.set(placeId, details);
+      detailsCache.delete(placeId);
+      detailsCache.set(placeId, { details, fetchedAt: now });
+    }
+  }));
+
+  // Maps keep insertion order, so the first keys are the oldest entries
+  for (const placeId of detailsCache.keys()) {
+    if (detailsCache.size <= MAX_CACHED_DETAILS) break;
+    detailsCache.delete(placeId);
+  }
+
+  console.log(`Place Details: ${placeIds.length - missing.length} cached, ${missing.length} fetched`);
+  return found;
+}
+
+const CATEGORY_BY_TYPE: Record<string, string> = {
+  night_club: 'Nightclub',
+  bar: 'Bar',
+  restaurant: 'Restaurant',
+  cafe: 'Cafe',
+  bakery: 'Bakery',
+  meal_takeaway: 'Restaurant',
+};
+
+function getCategory(types: string[] = []): string {
+  for (const type of types) {
+    if (CATEGORY_BY_TYPE[type]) return CATEGORY_BY_TYPE[type];
+  }
+  return 'Venue';
+}
+
+// Rough 0-100 popularity from rating quality and review volume until live activity is known
+function estimateActivity(rating: number | null | undefined, totalRatings: number | null | undefined): number {
+  if (!rating) return 50;
+  const score = 40 + (rating - 3) * 15 + Math.log10((totalRatings || 0) + 1) * 8;
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+async function loadNeighborhoods(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('neighborhoods')
+    .select('id, name, boundary_points')
+    .eq('active', true);
+
+  if (error) {
+    console.error('Error loading neighborhoods:', error);
+    return [];
+  }
+  return data || [];
+}
+
+interface DiscoveredVenue {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  category: string;
+  neighborhoodId: string | null;
+}
+
+/**
+ * Resolve discovered venues to canonical venue rows (created on first sight).
+ * Linking is best-effort - search results are still returned if it fails.
+ */
+async function linkCanonicalVenues<T extends DiscoveredVenue>(supabase: SupabaseClient, venues: T[]) {
+  const venueIds = new Map<string, string>();
+
+  if (venues.length > 0) {
+    const { data, error } = await supabase.rpc('link_discovered_venues', {
+      _venues: venues.map((venue) => ({
+        external_id: venue.id,
+        name: venue.name,
+        address: venue.address ?? null,
+        lat: venue.lat,
+        lng: venue.lng,
+        category: venue.category,
+        neighborhood_id: venue.neighborhoodId,
+      })),
+    });
+
+    if (error) {
+      console.error('Error linking canonical venues:', error);
+    }
+    for (const row of (data as { external_id: string; venue_id: string }[] | null) || []) {
+      venueIds.set(row.external_id, row.venue_id);
+    }
+  }
+
+  return venues.map((venue) => ({ ...venue, canonicalVenueId: venueIds.get(venue.id) ?? null }));
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
   try {
-    const { location } = await req.json();
-    
+    const { location, radius, cursor } = await req.json();
+
+    if (
+      !location ||
+      typeof location.lat !== 'number' || location.lat < -90 || location.lat > 90 ||
+      typeof location.lng !== 'number' || location.lng < -180 || location.lng > 180
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'location must include lat (-90 to 90) and lng (-180 to 180)' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const searchRadius = typeof radius === 'number' && radius > 0 ? Math.min(radius, MAX_RADIUS_M) : DEFAULT_RADIUS_M;
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    const neighborhoods = await loadNeighborhoods(supabase);
+
+    // Neighborhood comes from the neighborhoods table polygons, not coordinate cutoffs
+    const withNeighborhood = <T extends { lat: number; lng: number }>(venue: T) => {
+      const neighborhood = findContainingNeighborhood(venue.lat, venue.lng, neighborhoods);
+      return { ...venue, neighborhood: neighborhood?.name ?? null, neighborhoodId: neighborhood?.id ?? null };
+    };
+
     const apiKey = Deno.env.get('GOOGLE_PLACES_API_KEY');
-    
-    // Charlotte coordinates
-    const charlotteLocation = location || { lat: 35.2271, lng: -80.8431 };
+    const isFallbackCursor = typeof cursor === 'string' && cursor.startsWith(FALLBACK_CURSOR_PREFIX);
 
-    console.log(`Fetching top 10 Charlotte venues...`);
+    console.log(`Searching venues within ${searchRadius}m of ${location.lat},${location.lng}${cursor ? ' (next page)' : ''}`);
 
-    // Try Google Places API first if key is available
-    if (apiKey) {
+    if (apiKey && !isFallbackCursor) {
       try {
-        const venues = [];
-        
-        for (const venue of CHARLOTTE_TOP_VENUES) {
-          // Use Text Search to find the specific venue for live data
-          const searchUrl = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json');
-          searchUrl.searchParams.append('query', `${venue.name} Charlotte NC`);
-          searchUrl.searchParams.append('location', `${charlotteLocation.lat},${charlotteLocation.lng}`);
-          searchUrl.searchParams.append('radius', '10000');
-          searchUrl.searchParams.append('key', apiKey);
-
-          const searchResponse = await fetch(searchUrl.toString());
-          const searchData = await searchResponse.json();
-
-          if (searchData.status === 'OK' && searchData.results?.length > 0) {
-            const place = searchData.results[0];
-            
-            // Get full place details
-            const detailsUrl = new URL('https://maps.googleapis.com/maps/api/place/details/json');
-            detailsUrl.searchParams.append('place_id', place.place_id);
-            detailsUrl.searchParams.append('fields', 'formatted_address,formatted_phone_number,website,opening_hours,geometry,rating,user_ratings_total');
-            detailsUrl.searchParams.append('key', apiKey);
-
-            const detailsResponse = await fetch(detailsUrl.toString());
-            const detailsData = await detailsResponse.json();
-            const details = detailsData.result || {};
-
-            venues.push({
+        const searchUrl = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json');
+        if (typeof cursor === 'string' && cursor) {
+          searchUrl.searchParams.append('pagetoken', cursor);
+        } else {
+          searchUrl.searchParams.append('query', 'bars restaurants nightlife');
+          searchUrl.searchParams.append('location', `${location.lat},${location.lng}`);
+          searchUrl.searchParams.append('radius', String(searchRadius));
+        }
+        searchUrl.searchParams.append('key', apiKey);
+
+        const searchResponse = await fetch(searchUrl.toString());
+        const searchData = await searchResponse.json();
+
+        if (searchData.status === 'OK' || searchData.status === 'ZERO_RESULTS') {
+          // Location is only a bias for Text Search - drop results well outside the requested area
+          const results: PlaceResult[] = (searchData.results || []).filter((place: PlaceResult) => {
+            const point = place.geometry?.location;
+            return !!point && calculateDistance(location.lat, location.lng, point.lat, point.lng) <= searchRadius * 1.5;
+          });
+          const details = await getPlaceDetails(results.map((place) => place.place_id), apiKey);
+
+          const venues = await linkCanonicalVenues(supabase, results
+            .map((place) => withNeighborhood({
               id: place.place_id,
               name: place.name,
-              lat: details.geometry?.location?.lat || venue.lat,
-              lng: details.geometry?.location?.lng || venue.lng,
-              address: details.formatted_address || venue.address,
-              category: venue.category,
-              googleRating: details.rating || place.rating || venue.googleRating,
-              googleTotalRatings: details.user_ratings_total || place.user_ratings_total || venue.googleTotalRatings,
+              lat: place.geometry!.location.lat,
+              lng: place.geometry!.location.lng,
+              address: place.formatted_address,
+              category: getCategory(place.types),
+              googleRating: place.rating ?? null,
+              googleTotalRatings: place.user_ratings_total ?? 0,
               isOpen: place.opening_hours?.open_now ?? null,
-              openingHours: details.opening_hours?.weekday_text || [],
-              website: details.website,
-              phone: details.formatted_phone_number,
-              activity: venue.activity,
-            });
-
-            console.log(`Found via API: ${place.name}`);
-            console.log(`  Coordinates: lat=${details.geometry?.location?.lat || venue.lat}, lng=${details.geometry?.location?.lng || venue.lng}`);
-            console.log(`  Address: ${details.formatted_address || venue.address}`);
-          } else {
-            // Use fallback data
-            venues.push({
-              ...venue,
-              isOpen: null,
-              openingHours: [],
-            });
-            console.log(`Using fallback for: ${venue.name}`);
-          }
-        }
+              openingHours: details.get(place.place_id)?.openingHours ?? [],
+              website: details.get(place.place_id)?.website ?? null,
+              phone: details.get(place.place_id)?.phone ?? null,
+              activity: estimateActivity(place.rating, place.user_ratings_total),
+            })));
 
-        if (venues.length > 0) {
-          console.log(`Returning ${venues.length} venues (API + fallback)`);
+          console.log(`Returning ${venues.length} venues from Places API`);
           return new Response(
-            JSON.stringify({ venues: venues.slice(0, 10), total: venues.length }),
+            JSON.stringify({ venues, total: venues.length, next_cursor: searchData.next_page_token ?? null }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
+
+        console.error('Places API returned status:', searchData.status, searchData.error_message);
       } catch (apiError) {
         console.error('Google Places API error:', apiError);
       }
     }
 
-    // Fallback: Return hardcoded Charlotte venues
-    console.log('Using fallback Charlotte venue data');
-    const fallbackVenues = CHARLOTTE_TOP_VENUES.map(venue => ({
+    // Fallback: curated venues inside the search area, paged by offset
+    const offset = isFallbackCursor ? parseInt(cursor.slice(FALLBACK_CURSOR_PREFIX.length), 10) || 0 : 0;
+    const nearby = CHARLOTTE_TOP_VENUES.filter(
+      (venue) => calculateDistance(location.lat, location.lng, venue.lat, venue.lng) <= searchRadius
+    );
+    const page = await linkCanonicalVenues(supabase, nearby.slice(offset, offset + PAGE_SIZE).map((venue) => withNeighborhood({
       ...venue,
       isOpen: null,
       openingHours: [],
-    }));
+    })));
+    const nextOffset = offset + PAGE_SIZE;
 
+    console.log(`Using fallback venue data: ${page.length} of ${nearby.length} in range`);
     return new Response(
-      JSON.stringify({ venues: fallbackVenues, total: fallbackVenues.length }),
+      JSON.stringify({
+        venues: page,
+        total: nearby.length,
+        next_cursor: nextOffset < nearby.length ? `${FALLBACK_CURSOR_PREFIX}${nextOffset}` : null,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
-
   } catch (error) {
     console.error('Error in search-google-places-venues:', error);
-    
-    // Even on error, return fallback data
-    const fallbackVenues = CHARLOTTE_TOP_VENUES.map(venue => ({
-      ...venue,
-      isOpen: null,
-      openingHours: [],
-    }));
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
     return new Response(
-      JSON.stringify({ venues: fallbackVenues, total: fallbackVenues.length }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
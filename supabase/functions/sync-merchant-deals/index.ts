@@ -1,71 +1,225 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+// Resolved through deno.json so the shared schema and this file use the same zod
+import { z } from "zod";
+import {
+  IDEMPOTENCY_HEADER,
+  SIGNATURE_HEADER,
+  sha256Hex,
+  verifyWebhookSignature,
+} from "../_shared/webhook-signature.ts";
+import { mapDealType } from "../_shared/deal-types.ts";
+import { MerchantDealSchema } from "../_shared/merchant-deal.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${SIGNATURE_HEADER}, ${IDEMPOTENCY_HEADER}`,
 };
 
-// Valid deal_type values in the consumer app database
-const VALID_DEAL_TYPES = ['event', 'special', 'offer'] as const;
-type ValidDealType = typeof VALID_DEAL_TYPES[number];
-
 // Zod schema for webhook payload validation
-const MerchantDealSchema = z.object({
-  id: z.string().uuid(),
-  merchant_id: z.string().max(200).optional(),
-  venue_id: z.string().min(1).max(500),
-  venue_name: z.string().min(1).max(500),
-  venue_address: z.string().max(1000).optional(),
-  title: z.string().min(1).max(500),
-  description: z.string().min(1).max(5000),
-  deal_type: z.string().min(1).max(100),
-  starts_at: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}/)),
-  expires_at: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}/)),
-  active_days: z.array(z.number().int().min(0).max(6)).optional(),
-  active: z.boolean(),
-  image_url: z.string().url().max(2000).optional().nullable(),
-  website_url: z.string().url().max(2000).optional().nullable(),
-  neighborhood_id: z.string().uuid().optional().nullable(),
-});
-
 const WebhookPayloadSchema = z.object({
   action: z.enum(['create', 'update', 'delete']),
   deal: MerchantDealSchema,
 });
 
-// Map incoming deal_type values to valid ones
-function mapDealType(incomingType: string): ValidDealType {
-  const normalized = incomingType.toLowerCase().trim();
-  
-  // Direct matches
-  if (VALID_DEAL_TYPES.includes(normalized as ValidDealType)) {
-    return normalized as ValidDealType;
+type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+// Outcome of begin_merchant_sync_event for this Idempotency-Key
+type SyncEventStart =
+  | { outcome: 'process'; event_id: string }
+  | { outcome: 'replay'; response_status: number; response: unknown }
+  | { outcome: 'in_progress' | 'mismatch' };
+
+interface SyncResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// How much of a rejected body is kept in the sync log
+const MAX_REJECTED_BODY_LENGTH = 4000;
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+// Logs a delivery that was turned away before processing, then answers it. Rejected rows get
+// a generated key so an unsigned request can't occupy a genuine Idempotency-Key.
+async function rejectDelivery(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  rawBody: string,
+  reason: string,
+  result: SyncResult
+): Promise<Response> {
+  const { error } = await supabase.from('merchant_sync_events').insert({
+    direction: 'inbound',
+    event_type: 'rejected',
+    idempotency_key: `rejected:${crypto.randomUUID()}`,
+    payload: {
+      idempotency_key: req.headers.get(IDEMPOTENCY_HEADER)?.slice(0, 200) ?? null,
+      body: rawBody.slice(0, MAX_REJECTED_BODY_LENGTH),
+    },
+    request_hash: await sha256Hex(rawBody),
+    status: 'rejected',
+    response_status: result.status,
+    response: result.body,
+    error: reason,
+    completed_at: new Date().toISOString(),
+  });
+  if (error) console.error('Error logging rejected delivery:', error);
+
+  return jsonResponse(result.body, result.status);
+}
+
+// The deals trigger links each deal to a canonical venue; record which merchant manages it
+async function claimVenueForMerchant(
+  supabase: ReturnType<typeof createClient>,
+  venueId: string | null,
+  merchantId: string | undefined
+) {
+  if (!venueId || !merchantId) return;
+
+  const { error } = await supabase
+    .from('venues')
+    .update({ merchant_id: merchantId })
+    .eq('id', venueId)
+    .is('merchant_id', null);
+
+  if (error) {
+    console.error('Error assigning venue merchant:', error);
   }
-  
-  // Map common variations
-  const mappings: Record<string, ValidDealType> = {
-    'deal': 'offer',
-    'deals': 'offer',
-    'discount': 'offer',
-    'promo': 'offer',
-    'promotion': 'offer',
-    'happy_hour': 'special',
-    'happyhour': 'special',
-    'happy hour': 'special',
-    'specials': 'special',
-    'events': 'event',
-    'show': 'event',
-    'concert': 'event',
-    'party': 'event',
-  };
-  
-  return mappings[normalized] || 'offer'; // Default to 'offer' if unknown
 }
 
-type MerchantDeal = z.infer<typeof MerchantDealSchema>;
-type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+// Applies one deal change. Outcomes the merchant should see (conflicts, unknown deals) come
+// back as results so they are logged and replayed like successes; exceptions are retryable.
+async function applyDealChange(
+  supabase: ReturnType<typeof createClient>,
+  { action, deal }: WebhookPayload
+): Promise<SyncResult> {
+  switch (action) {
+    case 'create': {
+      // Map and validate deal_type
+      const mappedDealType = mapDealType(deal.deal_type);
+      console.log(`Mapped deal_type "${deal.deal_type}" to "${mappedDealType}"`);
+
+      // Insert new deal from merchant portal
+      const { data, error } = await supabase
+        .from('deals')
+        .insert({
+          id: deal.id, // Use the same ID from JET Bridge for sync
+          venue_id: deal.venue_id,
+          venue_name: deal.venue_name,
+          venue_address: deal.venue_address,
+          title: deal.title,
+          description: deal.description,
+          deal_type: mappedDealType,
+          starts_at: deal.starts_at,
+          expires_at: deal.expires_at,
+          active_days: deal.active_days || [0, 1, 2, 3, 4, 5, 6],
+          active: deal.active,
+          image_url: deal.image_url,
+          website_url: deal.website_url,
+          neighborhood_id: deal.neighborhood_id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation: the ID is taken, including by a deal the merchant deleted
+        if (error.code === '23505') {
+          return { status: 409, body: { error: 'Deal already exists', deal_id: deal.id } };
+        }
+        console.error('Error creating deal:', error);
+        throw error;
+      }
+
+      await claimVenueForMerchant(supabase, data.canonical_venue_id, deal.merchant_id);
+      console.log('Deal created successfully:', data.id);
+      return { status: 200, body: { success: true, deal: data } };
+    }
+
+    case 'update': {
+      // Map and validate deal_type
+      const mappedDealType = mapDealType(deal.deal_type);
+      console.log(`Mapped deal_type "${deal.deal_type}" to "${mappedDealType}"`);
+
+      // Update existing deal; deleted deals stay deleted
+      const { data, error } = await supabase
+        .from('deals')
+        .update({
+          venue_id: deal.venue_id,
+          venue_name: deal.venue_name,
+          venue_address: deal.venue_address,
+          title: deal.title,
+          description: deal.description,
+          deal_type: mappedDealType,
+          starts_at: deal.starts_at,
+          expires_at: deal.expires_at,
+          active_days: deal.active_days,
+          active: deal.active,
+          image_url: deal.image_url,
+          website_url: deal.website_url,
+          neighborhood_id: deal.neighborhood_id,
+        })
+        .eq('id', deal.id)
+        .is('deleted_at', null)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating deal:', error);
+        throw error;
+      }
+
+      if (!data) {
+        const exists = await dealExists(supabase, deal.id);
+        return exists
+          ? { status: 409, body: { error: 'Deal has been deleted', deal_id: deal.id } }
+          : { status: 404, body: { error: 'Deal not found', deal_id: deal.id } };
+      }
+
+      await claimVenueForMerchant(supabase, data.canonical_venue_id, deal.merchant_id);
+      console.log('Deal updated successfully:', data.id);
+      return { status: 200, body: { success: true, deal: data } };
+    }
+
+    case 'delete': {
+      // Soft delete: redemptions, stats and the sync log keep pointing at the row
+      const { data, error } = await supabase
+        .from('deals')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', deal.id)
+        .is('deleted_at', null)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error deleting deal:', error);
+        throw error;
+      }
+
+      // Deleting twice is not an error
+      if (!data && !(await dealExists(supabase, deal.id))) {
+        return { status: 404, body: { error: 'Deal not found', deal_id: deal.id } };
+      }
+
+      console.log('Deal deleted successfully:', deal.id);
+      return { status: 200, body: { success: true, deleted: deal.id } };
+    }
+
+    default:
+      return { status: 400, body: { error: 'Invalid action' } };
+  }
+}
+
+async function dealExists(supabase: ReturnType<typeof createClient>, dealId: string): Promise<boolean> {
+  const { data, error } = await supabase.from('deals').select('id').eq('id', dealId).maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -74,16 +228,11 @@ serve(async (req) => {
   }
 
   try {
-    // Verify webhook secret
-    const webhookSecret = req.headers.get('x-webhook-secret');
-    const expectedSecret = Deno.env.get('JETBRIDGE_WEBHOOK_SECRET');
-
-    if (!webhookSecret || webhookSecret !== expectedSecret) {
-      console.error('Invalid or missing webhook secret');
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Inbound deal sync only; outbound webhooks and redemption checks are signed with their own secrets
+    const secret = Deno.env.get('JETBRIDGE_SYNC_SECRET');
+    if (!secret) {
+      console.error('JETBRIDGE_SYNC_SECRET not configured');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
     }
 
     // Initialize Supabase with service role for bypassing RLS
@@ -91,136 +240,102 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const rawPayload = await req.json();
-    
+    // The signature covers the exact bytes sent, so verify before parsing
+    const rawBody = await req.text();
+    const signatureCheck = await verifyWebhookSignature(req.headers.get(SIGNATURE_HEADER), rawBody, secret);
+    if (!signatureCheck.valid) {
+      console.error('Rejected webhook signature:', signatureCheck.reason);
+      return rejectDelivery(supabase, req, rawBody, `signature: ${signatureCheck.reason}`, {
+        status: 401,
+        body: { error: 'Unauthorized' },
+      });
+    }
+
+    const idempotencyKey = req.headers.get(IDEMPOTENCY_HEADER)?.trim();
+    if (!idempotencyKey || idempotencyKey.length > 200) {
+      return rejectDelivery(supabase, req, rawBody, 'missing or oversized Idempotency-Key', {
+        status: 400,
+        body: { error: 'Idempotency-Key header is required (max 200 characters)' },
+      });
+    }
+
+    let rawPayload: unknown;
+    try {
+      rawPayload = JSON.parse(rawBody);
+    } catch {
+      return rejectDelivery(supabase, req, rawBody, 'invalid JSON', {
+        status: 400,
+        body: { error: 'Invalid JSON' },
+      });
+    }
+
     // Validate webhook payload with zod
     const parseResult = WebhookPayloadSchema.safeParse(rawPayload);
     if (!parseResult.success) {
       console.error('Invalid webhook payload:', parseResult.error.errors);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid payload format', 
-          details: parseResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      const details = parseResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+      return rejectDelivery(supabase, req, rawBody, 'invalid payload', {
+        status: 400,
+        body: { error: 'Invalid payload format', details },
+      });
     }
-    
-    const payload = parseResult.data;
-    console.log(`Processing ${payload.action} for deal:`, payload.deal.id);
-
-    const { action, deal } = payload;
-
-    switch (action) {
-      case 'create': {
-        // Map and validate deal_type
-        const mappedDealType = mapDealType(deal.deal_type);
-        console.log(`Mapped deal_type "${deal.deal_type}" to "${mappedDealType}"`);
-        
-        // Insert new deal from merchant portal
-        const { data, error } = await supabase
-          .from('deals')
-          .insert({
-            id: deal.id, // Use the same ID from JET Bridge for sync
-            venue_id: deal.venue_id,
-            venue_name: deal.venue_name,
-            venue_address: deal.venue_address,
-            title: deal.title,
-            description: deal.description,
-            deal_type: mappedDealType,
-            starts_at: deal.starts_at,
-            expires_at: deal.expires_at,
-            active_days: deal.active_days || [0, 1, 2, 3, 4, 5, 6],
-            active: deal.active,
-            image_url: deal.image_url,
-            website_url: deal.website_url,
-            neighborhood_id: deal.neighborhood_id,
-          })
-          .select()
-          .single();
-
-        if (error) {
-          console.error('Error creating deal:', error);
-          throw error;
-        }
 
-        console.log('Deal created successfully:', data.id);
-        return new Response(
-          JSON.stringify({ success: true, deal: data }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    const payload = parseResult.data;
 
-      case 'update': {
-        // Map and validate deal_type
-        const mappedDealType = mapDealType(deal.deal_type);
-        console.log(`Mapped deal_type "${deal.deal_type}" to "${mappedDealType}"`);
-        
-        // Update existing deal
-        const { data, error } = await supabase
-          .from('deals')
-          .update({
-            venue_id: deal.venue_id,
-            venue_name: deal.venue_name,
-            venue_address: deal.venue_address,
-            title: deal.title,
-            description: deal.description,
-            deal_type: mappedDealType,
-            starts_at: deal.starts_at,
-            expires_at: deal.expires_at,
-            active_days: deal.active_days,
-            active: deal.active,
-            image_url: deal.image_url,
-            website_url: deal.website_url,
-            neighborhood_id: deal.neighborhood_id,
-          })
-          .eq('id', deal.id)
-          .select()
-          .single();
-
-        if (error) {
-          console.error('Error updating deal:', error);
-          throw error;
-        }
+    const { data: start, error: startError } = await supabase.rpc('begin_merchant_sync_event', {
+      _idempotency_key: idempotencyKey,
+      _event_type: `deal.${payload.action}`,
+      _merchant_id: payload.deal.merchant_id ?? null,
+      _deal_id: payload.deal.id,
+      _payload: rawPayload,
+      _request_hash: await sha256Hex(rawBody),
+    });
+    if (startError) throw startError;
 
-        console.log('Deal updated successfully:', data.id);
-        return new Response(
-          JSON.stringify({ success: true, deal: data }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    const event = start as SyncEventStart;
+    switch (event.outcome) {
+      case 'replay':
+        console.log('Replaying response for idempotency key:', idempotencyKey);
+        return jsonResponse(event.response, event.response_status, { 'Idempotent-Replayed': 'true' });
+      case 'in_progress':
+        return jsonResponse({ error: 'A delivery with this Idempotency-Key is still being processed' }, 409);
+      case 'mismatch':
+        return jsonResponse({ error: 'Idempotency-Key was already used with a different payload' }, 422);
+    }
 
-      case 'delete': {
-        // Soft delete by setting active to false, or hard delete
-        const { error } = await supabase
-          .from('deals')
-          .delete()
-          .eq('id', deal.id);
+    console.log(`Processing ${payload.action} for deal:`, payload.deal.id);
 
-        if (error) {
-          console.error('Error deleting deal:', error);
-          throw error;
-        }
+    try {
+      const result = await applyDealChange(supabase, payload);
 
-        console.log('Deal deleted successfully:', deal.id);
-        return new Response(
-          JSON.stringify({ success: true, deleted: deal.id }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+      const { error: logError } = await supabase
+        .from('merchant_sync_events')
+        .update({
+          status: 'processed',
+          response_status: result.status,
+          response: result.body,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', event.event_id);
+      if (logError) console.error('Error logging sync event:', logError);
 
-      default:
-        return new Response(
-          JSON.stringify({ error: 'Invalid action' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+      return jsonResponse(result.body, result.status);
+    } catch (error) {
+      // Left retryable: the same Idempotency-Key will be applied again
+      await supabase
+        .from('merchant_sync_events')
+        .update({
+          status: 'failed',
+          // Postgrest errors are plain objects with a message
+          error: (error as { message?: string })?.message ?? String(error),
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', event.event_id);
+      throw error;
     }
   } catch (error) {
     console.error('Webhook error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
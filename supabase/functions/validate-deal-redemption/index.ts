@@ -0,0 +1,145 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  normalizeRedemptionCode,
+  REDEMPTION_CODE_PATTERN,
+  verifyRedemptionToken,
+} from '../_shared/redemption.ts';
+import { SIGNATURE_HEADER, verifyWebhookSignature } from '../_shared/webhook-signature.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-signature',
+};
+
+// Either the typed code or the token from the QR
+const ValidateRequestSchema = z.object({
+  code: z.string().max(32).optional(),
+  token: z.string().max(256).optional(),
+  // Required when the merchant portal calls; redemptions are limited to its venues
+  merchant_id: z.string().min(1).max(200).optional(),
+}).refine((body) => Boolean(body.code) !== Boolean(body.token), {
+  message: 'Provide exactly one of code or token',
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('DEAL_REDEMPTION_SECRET');
+    if (!secret) {
+      console.error('DEAL_REDEMPTION_SECRET not configured');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Raw body, since a merchant portal request is signed over the exact bytes
+    const rawBody = await req.text();
+    let json: unknown;
+    try {
+      json = JSON.parse(rawBody);
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON' }, 400);
+    }
+
+    const parseResult = ValidateRequestSchema.safeParse(json);
+    if (!parseResult.success) {
+      return jsonResponse({ error: parseResult.error.errors.map((e) => e.message).join(', ') }, 400);
+    }
+    const body = parseResult.data;
+
+    // Merchant portal (JET Bridge) signing the request the same way as its deal sync, but with
+    // a secret kept for redemption checks, or an admin or venue owner (merchant role) in the
+    // app. The secret itself never travels in a header.
+    let redeemedBy: string | null = null;
+    let merchantId: string | null = null;
+    let ownerId: string | null = null;
+    const signatureHeader = req.headers.get(SIGNATURE_HEADER);
+
+    if (signatureHeader) {
+      const redemptionSecret = Deno.env.get('JETBRIDGE_REDEMPTION_SECRET');
+      if (!redemptionSecret) {
+        console.error('JETBRIDGE_REDEMPTION_SECRET not configured');
+        return jsonResponse({ error: 'Server configuration error' }, 500);
+      }
+      const check = await verifyWebhookSignature(signatureHeader, rawBody, redemptionSecret);
+      if (!check.valid) {
+        console.error('Rejected webhook signature:', check.reason);
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+      if (!body.merchant_id) {
+        return jsonResponse({ error: 'merchant_id is required' }, 400);
+      }
+      merchantId = body.merchant_id;
+    } else {
+      const authHeader = req.headers.get('Authorization');
+      const { data: { user }, error: userError } = await supabase.auth.getUser(authHeader?.replace('Bearer ', '') ?? '');
+      if (userError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin, error: roleError } = await supabase
+        .rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (roleError) throw roleError;
+
+      if (!isAdmin) {
+        const { data: isMerchant, error: merchantRoleError } = await supabase
+          .rpc('has_role', { _user_id: user.id, _role: 'merchant' });
+        if (merchantRoleError) throw merchantRoleError;
+        if (!isMerchant) {
+          return jsonResponse({ error: 'Forbidden' }, 403);
+        }
+        // Limited to deals at venues they own
+        ownerId = user.id;
+      }
+      redeemedBy = user.id;
+    }
+
+    let redemptionId: string | null = null;
+    let code: string | null = null;
+
+    if (body.token) {
+      // Forged or stale QR codes are turned away before the database is touched
+      const check = await verifyRedemptionToken(body.token.trim(), secret);
+      if (!check.valid) {
+        return jsonResponse({ status: check.reason === 'expired' ? 'expired' : 'invalid' });
+      }
+      redemptionId = check.redemptionId;
+    } else {
+      code = normalizeRedemptionCode(body.code ?? '');
+      if (!REDEMPTION_CODE_PATTERN.test(code)) {
+        return jsonResponse({ status: 'not_found' });
+      }
+    }
+
+    const { data, error } = await supabase.rpc('redeem_deal_redemption', {
+      _redemption_id: redemptionId,
+      _code: code,
+      _redeemed_by: redeemedBy,
+      _merchant_id: merchantId,
+      _owner_id: ownerId,
+    });
+    if (error) throw error;
+
+    console.log('Redemption validation:', data?.status, merchantId ? `merchant ${merchantId}` : `user ${redeemedBy}`);
+    return jsonResponse(data);
+  } catch (error) {
+    console.error('Error validating redemption:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
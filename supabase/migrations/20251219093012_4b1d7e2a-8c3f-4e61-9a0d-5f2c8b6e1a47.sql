@@ -0,0 +1,46 @@
+-- Server-side density aggregation for get-location-density
+-- Buckets user_locations into lat/lng grid cells inside Postgres so the edge
+-- function no longer loads every row into memory.
+
+-- Time-window and viewport filters both need to be index-backed
+CREATE INDEX IF NOT EXISTS idx_user_locations_created_at ON public.user_locations(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_locations_lat_lng ON public.user_locations(latitude, longitude);
+
+CREATE OR REPLACE FUNCTION public.get_location_density(
+  _grid_size numeric,
+  _min_lat numeric DEFAULT NULL,
+  _min_lng numeric DEFAULT NULL,
+  _max_lat numeric DEFAULT NULL,
+  _max_lng numeric DEFAULT NULL,
+  _since timestamp with time zone DEFAULT NULL,
+  _hour_of_day integer DEFAULT NULL,
+  _day_of_week integer DEFAULT NULL
+)
+RETURNS TABLE(cell_lat numeric, cell_lng numeric, density bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    FLOOR(ul.latitude / _grid_size) * _grid_size AS cell_lat,
+    FLOOR(ul.longitude / _grid_size) * _grid_size AS cell_lng,
+    COUNT(*) AS density
+  FROM public.user_locations ul
+  WHERE (_since IS NULL OR ul.created_at >= _since)
+    AND (_min_lat IS NULL OR ul.latitude >= _min_lat)
+    AND (_max_lat IS NULL OR ul.latitude <= _max_lat)
+    AND (_min_lng IS NULL OR ul.longitude >= _min_lng)
+    AND (_max_lng IS NULL OR ul.longitude <= _max_lng)
+    AND (_hour_of_day IS NULL OR EXTRACT(HOUR FROM ul.created_at AT TIME ZONE 'UTC') = _hour_of_day)
+    AND (_day_of_week IS NULL OR EXTRACT(DOW FROM ul.created_at AT TIME ZONE 'UTC') = _day_of_week)
+  GROUP BY 1, 2;
+$$;
+
+-- Aggregates span all users, so only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION public.get_location_density(numeric, numeric, numeric, numeric, numeric, timestamp with time zone, integer, integer) FROM public;
+REVOKE ALL ON FUNCTION public.get_location_density(numeric, numeric, numeric, numeric, numeric, timestamp with time zone, integer, integer) FROM anon;
+REVOKE ALL ON FUNCTION public.get_location_density(numeric, numeric, numeric, numeric, numeric, timestamp with time zone, integer, integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_location_density(numeric, numeric, numeric, numeric, numeric, timestamp with time zone, integer, integer) TO service_role;
+
+COMMENT ON FUNCTION public.get_location_density IS 'Aggregates user_locations into grid cells for the density heatmap. Optional viewport bounds, time window, hour-of-day and day-of-week filters. Service role only.';
@@ -0,0 +1,57 @@
+-- Multi-resolution density grid keyed by geohash
+-- Replaces the fixed lat/lng grid from get_location_density with hierarchical
+-- geohash cells so the client can request a resolution per zoom level and
+-- cache results per tile (a shorter geohash prefix).
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+DROP FUNCTION IF EXISTS public.get_location_density(numeric, numeric, numeric, numeric, numeric, timestamp with time zone, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_location_density_cells(
+  _precision integer,
+  _tiles text[] DEFAULT NULL,
+  _since timestamp with time zone DEFAULT NULL,
+  _hour_of_day integer DEFAULT NULL,
+  _day_of_week integer DEFAULT NULL
+)
+RETURNS TABLE(cell_id text, cell_lat double precision, cell_lng double precision, density bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH tile_bounds AS (
+    SELECT ST_Envelope(ST_GeomFromGeoHash(t)) AS geom
+    FROM unnest(_tiles) AS t
+  ),
+  points AS (
+    SELECT ST_GeoHash(ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326), _precision) AS cell_id
+    FROM public.user_locations ul
+    WHERE (_since IS NULL OR ul.created_at >= _since)
+      AND (_hour_of_day IS NULL OR EXTRACT(HOUR FROM ul.created_at AT TIME ZONE 'UTC') = _hour_of_day)
+      AND (_day_of_week IS NULL OR EXTRACT(DOW FROM ul.created_at AT TIME ZONE 'UTC') = _day_of_week)
+      AND (
+        _tiles IS NULL
+        OR EXISTS (
+          SELECT 1 FROM tile_bounds tb
+          WHERE ul.latitude >= ST_YMin(tb.geom) AND ul.latitude < ST_YMax(tb.geom)
+            AND ul.longitude >= ST_XMin(tb.geom) AND ul.longitude < ST_XMax(tb.geom)
+        )
+      )
+  )
+  SELECT
+    p.cell_id,
+    ST_Y(ST_PointFromGeoHash(p.cell_id)) AS cell_lat,
+    ST_X(ST_PointFromGeoHash(p.cell_id)) AS cell_lng,
+    COUNT(*) AS density
+  FROM points p
+  GROUP BY p.cell_id;
+$$;
+
+-- Aggregates span all users, so only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer) FROM public;
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer) FROM anon;
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer) TO service_role;
+
+COMMENT ON FUNCTION public.get_location_density_cells IS 'Aggregates user_locations into geohash cells of the given precision, optionally limited to a set of geohash tiles. Cell IDs are stable so clients can cache per tile. Service role only.';
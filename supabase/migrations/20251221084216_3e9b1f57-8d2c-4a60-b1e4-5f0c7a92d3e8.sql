@@ -0,0 +1,2 @@
+-- Let the client geofence tracker follow tracking preference changes made in Settings
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_preferences;
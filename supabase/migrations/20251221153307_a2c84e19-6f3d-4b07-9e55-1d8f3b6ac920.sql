@@ -0,0 +1,26 @@
+-- Geofence trigger rules for check-geofence
+-- Neighborhoods control when their own entry/exit/dwell alerts may fire; users can
+-- add a global cooldown and quiet hours on top. Quiet hours are local hours (0-23)
+-- evaluated in the device's timezone and may wrap past midnight (e.g. 22 -> 8).
+
+ALTER TABLE public.neighborhoods
+ADD COLUMN IF NOT EXISTS dwell_minutes integer DEFAULT 20 CHECK (dwell_minutes IS NULL OR dwell_minutes > 0),
+ADD COLUMN IF NOT EXISTS notification_cooldown_minutes integer NOT NULL DEFAULT 60 CHECK (notification_cooldown_minutes >= 0),
+ADD COLUMN IF NOT EXISTS reentry_suppression_minutes integer NOT NULL DEFAULT 30 CHECK (reentry_suppression_minutes >= 0),
+ADD COLUMN IF NOT EXISTS quiet_hours_start smallint CHECK (quiet_hours_start BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS quiet_hours_end smallint CHECK (quiet_hours_end BETWEEN 0 AND 23);
+
+COMMENT ON COLUMN public.neighborhoods.dwell_minutes IS 'Minutes a user must stay inside before a neighborhood_dwell alert. NULL disables dwell alerts.';
+COMMENT ON COLUMN public.neighborhoods.notification_cooldown_minutes IS 'Minimum minutes between geofence alerts for the same user in this neighborhood.';
+COMMENT ON COLUMN public.neighborhoods.reentry_suppression_minutes IS 'Entries within this many minutes of the user last being inside are treated as re-entries and do not alert.';
+
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS geofence_cooldown_minutes integer NOT NULL DEFAULT 15 CHECK (geofence_cooldown_minutes >= 0),
+ADD COLUMN IF NOT EXISTS quiet_hours_start smallint CHECK (quiet_hours_start BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS quiet_hours_end smallint CHECK (quiet_hours_end BETWEEN 0 AND 23);
+
+COMMENT ON COLUMN public.user_preferences.geofence_cooldown_minutes IS 'Minimum minutes between any two geofence alerts for this user, across all neighborhoods.';
+
+-- Cooldown and once-per-visit lookups filter on these
+CREATE INDEX IF NOT EXISTS idx_notification_logs_user_type_sent_at
+ON public.notification_logs (user_id, notification_type, sent_at DESC);
@@ -0,0 +1,406 @@
+-- Canonical venues
+-- Until now a venue only existed as free text: deals.venue_id/venue_name,
+-- venue_reviews.venue_id/venue_name and Google Places results. This adds a
+-- venues table that everything links to, plus aliases so name variants
+-- ("Nodabrew", "NoDa Brewing") and legacy text IDs resolve to one row.
+
+-- Lowercase, strip punctuation and filler words, and fold brewing/brewery to "brew",
+-- so "NoDa Brewing Co." and "Nodabrew" produce the same key
+CREATE OR REPLACE FUNCTION public.normalize_venue_name(_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(lower(coalesce(_name, '')), '[''’`]', '', 'g'),
+          '[^a-z0-9]+', ' ', 'g'
+        ),
+        '\m(the|and|co|company|llc|inc)\M', '', 'g'
+      ),
+      'brew(ing|ery|house)', 'brew', 'g'
+    ),
+    '[^a-z0-9]+', '', 'g'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_venue_address(_address text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT nullif(regexp_replace(lower(split_part(coalesce(_address, ''), ',', 1)), '[^a-z0-9]+', '', 'g'), '')
+$$;
+
+CREATE TABLE public.venues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  name_key TEXT GENERATED ALWAYS AS (public.normalize_venue_name(name)) STORED,
+  category TEXT,
+  address TEXT,
+  address_key TEXT GENERATED ALWAYS AS (public.normalize_venue_address(address)) STORED,
+  lat DOUBLE PRECISION CHECK (lat IS NULL OR lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION CHECK (lng IS NULL OR lng BETWEEN -180 AND 180),
+  google_place_id TEXT UNIQUE,
+  neighborhood_id UUID REFERENCES public.neighborhoods(id) ON DELETE SET NULL,
+  merchant_id TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((lat IS NULL) = (lng IS NULL))
+);
+
+COMMENT ON TABLE public.venues IS 'Canonical venue identity shared by deals, reviews and Places results';
+COMMENT ON COLUMN public.venues.google_place_id IS 'Linked Google Places place_id, when known';
+COMMENT ON COLUMN public.venues.merchant_id IS 'Merchant portal (JET Bridge) merchant that manages this venue';
+COMMENT ON COLUMN public.venues.owner_id IS 'App user who owns this venue, if claimed';
+
+CREATE INDEX idx_venues_name_key ON public.venues(name_key);
+CREATE INDEX idx_venues_address_key ON public.venues(address_key);
+CREATE INDEX idx_venues_neighborhood ON public.venues(neighborhood_id);
+CREATE INDEX idx_venues_merchant ON public.venues(merchant_id);
+CREATE INDEX idx_venues_owner ON public.venues(owner_id);
+
+-- Other names and external IDs that identify a venue
+CREATE TABLE public.venue_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  alias_type TEXT NOT NULL CHECK (alias_type IN ('name', 'external_id')),
+  value TEXT NOT NULL,
+  match_key TEXT GENERATED ALWAYS AS (
+    CASE WHEN alias_type = 'name' THEN public.normalize_venue_name(value) ELSE value END
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (alias_type, match_key)
+);
+
+COMMENT ON TABLE public.venue_aliases IS 'Name variants and legacy text IDs (deal/review venue_id) that resolve to a canonical venue';
+
+CREATE INDEX idx_venue_aliases_venue ON public.venue_aliases(venue_id);
+
+ALTER TABLE public.venues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.venue_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active venues are viewable by everyone"
+ON public.venues
+FOR SELECT
+USING (active = true);
+
+CREATE POLICY "Admins can manage venues"
+ON public.venues
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Owners can update their venues"
+ON public.venues
+FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Venue aliases are viewable by everyone"
+ON public.venue_aliases
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage venue aliases"
+ON public.venue_aliases
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_venues_updated_at
+  BEFORE UPDATE ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Find the canonical venue for an external ID + name, creating it if nothing matches.
+-- Match order: Google place ID, known external ID, known name alias, same name key,
+-- then same street address where one name extends the other ("Wooden Robot" / "Wooden Robot Brewery").
+-- Whatever identified the venue is recorded as an alias so later lookups hit directly.
+CREATE OR REPLACE FUNCTION public.resolve_venue(
+  _external_id text,
+  _name text,
+  _address text DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _lng double precision DEFAULT NULL,
+  _category text DEFAULT NULL,
+  _neighborhood_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _venue_id uuid;
+  _name_key text := public.normalize_venue_name(_name);
+  _address_key text := public.normalize_venue_address(_address);
+  -- Google place IDs start with ChIJ; anything else is a legacy free-text ID
+  _is_place_id boolean := coalesce(_external_id ~ '^ChIJ', false);
+  _has_point boolean := _lat IS NOT NULL AND _lng IS NOT NULL;
+BEGIN
+  IF _external_id IS NOT NULL AND _is_place_id THEN
+    SELECT id INTO _venue_id FROM public.venues WHERE google_place_id = _external_id;
+  END IF;
+
+  IF _venue_id IS NULL AND _external_id IS NOT NULL THEN
+    SELECT venue_id INTO _venue_id FROM public.venue_aliases
+    WHERE alias_type = 'external_id' AND match_key = _external_id;
+  END IF;
+
+  -- A place ID never joins a venue already linked to a different place (chain branches share names)
+  IF _venue_id IS NULL AND _name_key <> '' THEN
+    SELECT a.venue_id INTO _venue_id
+    FROM public.venue_aliases a
+    JOIN public.venues v ON v.id = a.venue_id
+    WHERE a.alias_type = 'name' AND a.match_key = _name_key
+      AND (v.google_place_id IS NULL OR NOT _is_place_id);
+  END IF;
+
+  IF _venue_id IS NULL AND _name_key <> '' THEN
+    -- Prefer the branch at the same address, then the closest one
+    SELECT id INTO _venue_id FROM public.venues
+    WHERE name_key = _name_key
+      AND (google_place_id IS NULL OR NOT _is_place_id)
+    ORDER BY
+      (address_key IS NOT DISTINCT FROM _address_key) DESC,
+      CASE WHEN _lat IS NULL OR lat IS NULL THEN 0 ELSE abs(lat - _lat) + abs(lng - _lng) END
+    LIMIT 1;
+  END IF;
+
+  IF _venue_id IS NULL AND _address_key IS NOT NULL AND _name_key <> '' THEN
+    SELECT id INTO _venue_id FROM public.venues
+    WHERE address_key = _address_key
+      AND (name_key LIKE _name_key || '%' OR _name_key LIKE name_key || '%')
+      AND (google_place_id IS NULL OR NOT _is_place_id)
+    LIMIT 1;
+  END IF;
+
+  IF _venue_id IS NULL THEN
+    INSERT INTO public.venues (name, address, lat, lng, category, neighborhood_id, google_place_id)
+    VALUES (
+      _name,
+      _address,
+      CASE WHEN _has_point THEN _lat END,
+      CASE WHEN _has_point THEN _lng END,
+      _category,
+      _neighborhood_id,
+      CASE WHEN _is_place_id THEN _external_id END
+    )
+    RETURNING id INTO _venue_id;
+  ELSE
+    -- Fill in whatever the matched venue was missing
+    UPDATE public.venues SET
+      google_place_id = coalesce(google_place_id, CASE WHEN _is_place_id THEN _external_id END),
+      address = coalesce(address, _address),
+      lat = CASE WHEN lat IS NULL AND _has_point THEN _lat ELSE lat END,
+      lng = CASE WHEN lat IS NULL AND _has_point THEN _lng ELSE lng END,
+      category = coalesce(category, _category),
+      neighborhood_id = coalesce(neighborhood_id, _neighborhood_id)
+    WHERE id = _venue_id;
+  END IF;
+
+  IF _external_id IS NOT NULL AND NOT _is_place_id THEN
+    INSERT INTO public.venue_aliases (venue_id, alias_type, value)
+    VALUES (_venue_id, 'external_id', _external_id)
+    ON CONFLICT (alias_type, match_key) DO NOTHING;
+  END IF;
+
+  IF _name_key <> '' THEN
+    INSERT INTO public.venue_aliases (venue_id, alias_type, value)
+    VALUES (_venue_id, 'name', _name)
+    ON CONFLICT (alias_type, match_key) DO NOTHING;
+  END IF;
+
+  RETURN _venue_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_venue(text, text, text, double precision, double precision, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_venue(text, text, text, double precision, double precision, text, uuid) TO service_role;
+
+-- Batch resolve for Places results: [{external_id, name, address, lat, lng, category, neighborhood_id}]
+CREATE OR REPLACE FUNCTION public.link_discovered_venues(_venues jsonb)
+RETURNS TABLE(external_id text, venue_id uuid)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    v->>'external_id',
+    public.resolve_venue(
+      v->>'external_id',
+      v->>'name',
+      v->>'address',
+      (v->>'lat')::double precision,
+      (v->>'lng')::double precision,
+      v->>'category',
+      (v->>'neighborhood_id')::uuid
+    )
+  FROM jsonb_array_elements(_venues) AS v
+  WHERE coalesce(v->>'name', '') <> '';
+$$;
+
+REVOKE ALL ON FUNCTION public.link_discovered_venues(jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.link_discovered_venues(jsonb) TO service_role;
+
+COMMENT ON FUNCTION public.link_discovered_venues IS 'Resolves a batch of discovered venues (Places or curated fallback) to canonical venue IDs. Service role only.';
+
+-- Deals and reviews reference the canonical venue; venue_id/venue_name stay as the submitted values
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS canonical_venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL;
+
+ALTER TABLE public.venue_reviews
+ADD COLUMN IF NOT EXISTS canonical_venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.deals.canonical_venue_id IS 'Canonical venue, resolved from venue_id/venue_name/venue_address on write';
+COMMENT ON COLUMN public.venue_reviews.canonical_venue_id IS 'Canonical venue, resolved from venue_id/venue_name on write';
+
+CREATE INDEX IF NOT EXISTS idx_deals_canonical_venue ON public.deals(canonical_venue_id);
+CREATE INDEX IF NOT EXISTS idx_venue_reviews_canonical_venue ON public.venue_reviews(canonical_venue_id);
+
+-- Every writer (admin form, merchant sync, review form) gets a canonical venue without
+-- having to know about venues. venue_reviews has no address column, hence the jsonb read.
+CREATE OR REPLACE FUNCTION public.assign_canonical_venue()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Resolve when nothing was given, or when the venue fields changed but the link wasn't set explicitly
+  IF NEW.canonical_venue_id IS NULL
+    OR (
+      TG_OP = 'UPDATE'
+      AND NEW.canonical_venue_id IS NOT DISTINCT FROM OLD.canonical_venue_id
+      AND (NEW.venue_id IS DISTINCT FROM OLD.venue_id OR NEW.venue_name IS DISTINCT FROM OLD.venue_name)
+    )
+  THEN
+    NEW.canonical_venue_id := public.resolve_venue(
+      NEW.venue_id,
+      NEW.venue_name,
+      to_jsonb(NEW)->>'venue_address'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_deals_canonical_venue
+  BEFORE INSERT OR UPDATE OF venue_id, venue_name, venue_address, canonical_venue_id ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_canonical_venue();
+
+CREATE TRIGGER assign_venue_reviews_canonical_venue
+  BEFORE INSERT OR UPDATE OF venue_id, venue_name, canonical_venue_id ON public.venue_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_canonical_venue();
+
+-- Backfill, oldest first so the earliest spelling becomes the canonical name
+DO $$
+DECLARE
+  _row record;
+BEGIN
+  FOR _row IN SELECT id, venue_id, venue_name, venue_address FROM public.deals WHERE canonical_venue_id IS NULL ORDER BY created_at LOOP
+    UPDATE public.deals
+    SET canonical_venue_id = public.resolve_venue(_row.venue_id, _row.venue_name, _row.venue_address)
+    WHERE id = _row.id;
+  END LOOP;
+
+  FOR _row IN SELECT id, venue_id, venue_name FROM public.venue_reviews WHERE canonical_venue_id IS NULL ORDER BY created_at LOOP
+    UPDATE public.venue_reviews
+    SET canonical_venue_id = public.resolve_venue(_row.venue_id, _row.venue_name)
+    WHERE id = _row.id;
+  END LOOP;
+END;
+$$;
+
+-- Backfilled venues have no coordinates yet; take the neighborhood from their latest deal
+UPDATE public.venues v
+SET neighborhood_id = d.neighborhood_id
+FROM (
+  SELECT DISTINCT ON (canonical_venue_id) canonical_venue_id, neighborhood_id
+  FROM public.deals
+  WHERE canonical_venue_id IS NOT NULL AND neighborhood_id IS NOT NULL
+  ORDER BY canonical_venue_id, created_at DESC
+) d
+WHERE v.id = d.canonical_venue_id AND v.neighborhood_id IS NULL;
+
+-- Merge a duplicate into the canonical venue: repoint deals and reviews, keep its names
+-- and IDs as aliases, then delete it
+CREATE OR REPLACE FUNCTION public.merge_venues(_source_id uuid, _target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.venues%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge venues';
+  END IF;
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a venue into itself';
+  END IF;
+
+  SELECT * INTO _source FROM public.venues WHERE id = _source_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _source_id;
+  END IF;
+
+  UPDATE public.deals SET canonical_venue_id = _target_id WHERE canonical_venue_id = _source_id;
+  UPDATE public.venue_reviews SET canonical_venue_id = _target_id WHERE canonical_venue_id = _source_id;
+
+  UPDATE public.venue_aliases a SET venue_id = _target_id
+  WHERE a.venue_id = _source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.venue_aliases t
+      WHERE t.venue_id = _target_id AND t.alias_type = a.alias_type AND t.match_key = a.match_key
+    );
+
+  DELETE FROM public.venues WHERE id = _source_id;
+
+  INSERT INTO public.venue_aliases (venue_id, alias_type, value)
+  VALUES (_target_id, 'name', _source.name)
+  ON CONFLICT (alias_type, match_key) DO NOTHING;
+
+  UPDATE public.venues SET
+    google_place_id = coalesce(google_place_id, _source.google_place_id),
+    address = coalesce(address, _source.address),
+    lat = CASE WHEN lat IS NULL THEN _source.lat ELSE lat END,
+    lng = CASE WHEN lat IS NULL THEN _source.lng ELSE lng END,
+    category = coalesce(category, _source.category),
+    neighborhood_id = coalesce(neighborhood_id, _source.neighborhood_id),
+    merchant_id = coalesce(merchant_id, _source.merchant_id),
+    owner_id = coalesce(owner_id, _source.owner_id)
+  WHERE id = _target_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_venues(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.merge_venues(uuid, uuid) TO authenticated;
+
+-- Expose the canonical venue on the public reviews view
+DROP VIEW IF EXISTS public.venue_reviews_public;
+CREATE VIEW public.venue_reviews_public WITH (security_invoker = true) AS
+SELECT
+  vr.id,
+  vr.rating,
+  vr.review_text,
+  vr.venue_id,
+  vr.venue_name,
+  vr.canonical_venue_id,
+  vr.created_at,
+  vr.updated_at
+FROM public.venue_reviews vr
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.venue_reviews_public FROM anon, public;
+GRANT SELECT ON public.venue_reviews_public TO authenticated;
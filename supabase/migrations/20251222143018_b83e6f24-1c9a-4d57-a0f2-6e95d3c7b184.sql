@@ -0,0 +1,243 @@
+-- Server-side venue activity scores
+-- Replaces the client-side "engagement boost" (deal/favorite/share counts fetched per
+-- client) with a score computed from live signals every few minutes:
+--   * distinct app users near the venue in the last 30 minutes (user_locations)
+--   * check-ins in the last hour
+--   * favorites and shares of the venue's deals in the last 7 days
+--   * the usual crowd for this hour of the week (4-week baseline)
+-- Clients read venue_activity_scores and get changes over realtime.
+
+CREATE TABLE public.venue_check_ins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_venue_check_ins_venue_created ON public.venue_check_ins(venue_id, created_at DESC);
+CREATE INDEX idx_venue_check_ins_user ON public.venue_check_ins(user_id);
+
+ALTER TABLE public.venue_check_ins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own check-ins"
+ON public.venue_check_ins
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Check-ins go through check_in_venue() so the user's position is verified
+CREATE OR REPLACE FUNCTION public.check_in_venue(_venue_id uuid, _lat double precision, _lng double precision)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _venue public.venues%ROWTYPE;
+  _check_in_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _venue FROM public.venues WHERE id = _venue_id AND active;
+  IF NOT FOUND OR _venue.lat IS NULL THEN
+    RAISE EXCEPTION 'Venue not found';
+  END IF;
+
+  IF ST_Distance(
+    ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography,
+    ST_SetSRID(ST_MakePoint(_venue.lng, _venue.lat), 4326)::geography
+  ) > 150 THEN
+    RAISE EXCEPTION 'You need to be at the venue to check in';
+  END IF;
+
+  -- One check-in per venue per hour; repeats return the existing one
+  SELECT id INTO _check_in_id
+  FROM public.venue_check_ins
+  WHERE user_id = _user_id AND venue_id = _venue_id AND created_at >= now() - interval '1 hour'
+  LIMIT 1;
+
+  IF _check_in_id IS NULL THEN
+    INSERT INTO public.venue_check_ins (user_id, venue_id)
+    VALUES (_user_id, _venue_id)
+    RETURNING id INTO _check_in_id;
+  END IF;
+
+  RETURN _check_in_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_in_venue(uuid, double precision, double precision) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.check_in_venue(uuid, double precision, double precision) TO authenticated;
+
+CREATE TABLE public.venue_activity_scores (
+  venue_id UUID PRIMARY KEY REFERENCES public.venues(id) ON DELETE CASCADE,
+  score SMALLINT NOT NULL CHECK (score BETWEEN 0 AND 100),
+  trend TEXT NOT NULL DEFAULT 'steady' CHECK (trend IN ('rising', 'falling', 'steady')),
+  confidence NUMERIC(3, 2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.venue_activity_scores IS 'Latest activity score per venue, written by compute_venue_activity_scores(). Raw signal counts are not stored so the public table cannot reveal who is where.';
+COMMENT ON COLUMN public.venue_activity_scores.trend IS 'Live crowd over the last 30 minutes compared with the 30 minutes before';
+COMMENT ON COLUMN public.venue_activity_scores.confidence IS '0-1, grows with the amount of live, historical and engagement data behind the score';
+
+ALTER TABLE public.venue_activity_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Venue activity scores are viewable by everyone"
+ON public.venue_activity_scores
+FOR SELECT
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.venue_activity_scores;
+
+CREATE OR REPLACE FUNCTION public.compute_venue_activity_scores()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  -- Same threshold as K_ANONYMITY_MIN_USERS in the edge functions' privacy layer:
+  -- live crowds smaller than this don't move the score
+  _k_min_users constant integer := 5;
+  _written integer;
+BEGIN
+  WITH venue_points AS (
+    SELECT
+      id,
+      lat,
+      lng,
+      ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography AS geog
+    FROM public.venues
+    WHERE active AND lat IS NOT NULL
+  ),
+  -- Bounding box first (uses the lat/lng index), exact distance second
+  presence AS (
+    SELECT
+      v.id AS venue_id,
+      COUNT(DISTINCT ul.user_id) FILTER (WHERE ul.created_at >= now() - interval '30 minutes') AS now_users,
+      COUNT(DISTINCT ul.user_id) FILTER (WHERE ul.created_at < now() - interval '30 minutes') AS prev_users
+    FROM venue_points v
+    JOIN public.user_locations ul
+      ON ul.created_at >= now() - interval '60 minutes'
+      AND ul.latitude BETWEEN (v.lat - 0.001)::numeric AND (v.lat + 0.001)::numeric
+      AND ul.longitude BETWEEN (v.lng - 0.0013)::numeric AND (v.lng + 0.0013)::numeric
+      AND ST_DWithin(ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326)::geography, v.geog, 75)
+    GROUP BY v.id
+  ),
+  check_ins AS (
+    SELECT
+      venue_id,
+      COUNT(DISTINCT user_id) FILTER (WHERE created_at >= now() - interval '60 minutes') AS now_users,
+      COUNT(DISTINCT user_id) FILTER (WHERE created_at < now() - interval '60 minutes') AS prev_users
+    FROM public.venue_check_ins
+    WHERE created_at >= now() - interval '2 hours'
+    GROUP BY venue_id
+  ),
+  -- Same weekday and hour over the previous 4 weeks. Older locations are rounded to
+  -- ~100m by the retention job, hence the wider radius.
+  baseline AS (
+    SELECT
+      v.id AS venue_id,
+      COUNT(DISTINCT ul.user_id) AS total_users,
+      COUNT(DISTINCT (ul.user_id, ul.created_at::date)) / 4.0 AS avg_users
+    FROM venue_points v
+    JOIN public.user_locations ul
+      ON ul.created_at >= now() - interval '28 days'
+      AND ul.created_at < date_trunc('day', now())
+      AND EXTRACT(DOW FROM ul.created_at) = EXTRACT(DOW FROM now())
+      AND EXTRACT(HOUR FROM ul.created_at) = EXTRACT(HOUR FROM now())
+      AND ul.latitude BETWEEN (v.lat - 0.0015)::numeric AND (v.lat + 0.0015)::numeric
+      AND ul.longitude BETWEEN (v.lng - 0.002)::numeric AND (v.lng + 0.002)::numeric
+      AND ST_DWithin(ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326)::geography, v.geog, 150)
+    GROUP BY v.id
+  ),
+  engagement AS (
+    SELECT d.canonical_venue_id AS venue_id, COUNT(*) AS actions
+    FROM public.deals d
+    JOIN (
+      SELECT deal_id FROM public.user_favorites WHERE created_at >= now() - interval '7 days'
+      UNION ALL
+      SELECT deal_id FROM public.deal_shares WHERE shared_at >= now() - interval '7 days'
+    ) e ON e.deal_id = d.id
+    WHERE d.canonical_venue_id IS NOT NULL
+    GROUP BY d.canonical_venue_id
+  ),
+  signals AS (
+    SELECT
+      v.id AS venue_id,
+      coalesce(p.now_users, 0) + coalesce(c.now_users, 0) AS crowd_now,
+      coalesce(p.prev_users, 0) + coalesce(c.prev_users, 0) AS crowd_prev,
+      CASE WHEN coalesce(b.total_users, 0) >= _k_min_users THEN b.avg_users ELSE 0 END AS baseline_users,
+      coalesce(e.actions, 0) AS actions
+    FROM venue_points v
+    LEFT JOIN presence p ON p.venue_id = v.id
+    LEFT JOIN check_ins c ON c.venue_id = v.id
+    LEFT JOIN baseline b ON b.venue_id = v.id
+    LEFT JOIN engagement e ON e.venue_id = v.id
+  ),
+  scored AS (
+    SELECT
+      venue_id,
+      crowd_now >= _k_min_users AS has_live,
+      -- Each term saturates: ~15 people (or 20 favorites/shares) is about two thirds of the way to 100
+      100 * (1 - exp(-crowd_now / 15.0)) AS crowd_score,
+      100 * (1 - exp(-baseline_users / 15.0)) AS baseline_score,
+      100 * (1 - exp(-actions / 20.0)) AS engagement_score,
+      crowd_now,
+      crowd_prev,
+      baseline_users,
+      actions
+    FROM signals
+  ),
+  results AS (
+    SELECT
+      venue_id,
+      -- Without a live crowd the score is what this hour usually looks like
+      round(
+        CASE WHEN has_live
+          THEN 0.6 * crowd_score + 0.25 * baseline_score + 0.15 * engagement_score
+          ELSE 0.75 * baseline_score + 0.25 * engagement_score
+        END
+      )::smallint AS score,
+      CASE
+        WHEN GREATEST(crowd_now, crowd_prev) < _k_min_users THEN 'steady'
+        WHEN crowd_now >= crowd_prev * 1.2 AND crowd_now - crowd_prev >= 2 THEN 'rising'
+        WHEN crowd_now <= crowd_prev * 0.8 AND crowd_prev - crowd_now >= 2 THEN 'falling'
+        ELSE 'steady'
+      END AS trend,
+      round(
+        (1 - exp(-((CASE WHEN has_live THEN crowd_now ELSE 0 END) + baseline_users + actions / 5.0) / 10.0))::numeric,
+        2
+      ) AS confidence
+    FROM scored
+  )
+  INSERT INTO public.venue_activity_scores (venue_id, score, trend, confidence, computed_at)
+  SELECT venue_id, score, trend, confidence, now()
+  FROM results
+  ON CONFLICT (venue_id) DO UPDATE SET
+    score = EXCLUDED.score,
+    trend = EXCLUDED.trend,
+    confidence = EXCLUDED.confidence,
+    computed_at = EXCLUDED.computed_at
+  -- Unchanged rows are skipped so realtime subscribers only hear about real changes
+  WHERE (venue_activity_scores.score, venue_activity_scores.trend, venue_activity_scores.confidence)
+    IS DISTINCT FROM (EXCLUDED.score, EXCLUDED.trend, EXCLUDED.confidence);
+
+  GET DIAGNOSTICS _written = ROW_COUNT;
+  RETURN _written;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.compute_venue_activity_scores() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_venue_activity_scores() TO service_role;
+
+COMMENT ON FUNCTION public.compute_venue_activity_scores IS 'Recomputes venue_activity_scores from presence, check-ins, engagement and hour-of-week baselines. Returns the number of venues whose score changed. Run by pg_cron every 5 minutes.';
+
+SELECT cron.schedule(
+  'compute-venue-activity-scores',
+  '*/5 * * * *',
+  $$SELECT public.compute_venue_activity_scores()$$
+);
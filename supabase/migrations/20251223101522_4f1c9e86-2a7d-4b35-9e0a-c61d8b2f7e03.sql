@@ -0,0 +1,64 @@
+-- Weekly presence profile for busyness forecasts
+-- Counts distinct user visits per local (day of week, hour) slot around a venue or
+-- inside a neighborhood over the retention window. get-busyness-forecast smooths
+-- these into a weekly seasonality curve and projects the next hours from it.
+
+CREATE OR REPLACE FUNCTION public.get_presence_profile(
+  _timezone text,
+  _neighborhood_id uuid DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _lng double precision DEFAULT NULL,
+  _radius_m double precision DEFAULT 150,
+  _since timestamp with time zone DEFAULT now() - interval '28 days'
+)
+RETURNS TABLE(day_of_week integer, hour_of_day integer, visits bigint, total_users bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH points AS (
+    SELECT
+      ul.user_id,
+      (ul.created_at AT TIME ZONE _timezone) AS local_time
+    FROM public.user_locations ul
+    WHERE ul.created_at >= _since
+      AND ul.user_id IS NOT NULL
+      AND (
+        (_neighborhood_id IS NOT NULL AND ul.current_neighborhood_id = _neighborhood_id)
+        OR (
+          _neighborhood_id IS NULL
+          AND _lat IS NOT NULL AND _lng IS NOT NULL
+          -- Bounding box first (uses the lat/lng index), exact distance second
+          AND ul.latitude BETWEEN (_lat - _radius_m / 111000.0)::numeric AND (_lat + _radius_m / 111000.0)::numeric
+          AND ul.longitude BETWEEN (_lng - _radius_m / (111000.0 * cos(radians(_lat))))::numeric
+                               AND (_lng + _radius_m / (111000.0 * cos(radians(_lat))))::numeric
+          AND ST_DWithin(
+            ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326)::geography,
+            ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography,
+            _radius_m
+          )
+        )
+      )
+  ),
+  -- One visit per user per local hour, so a user sending many pings counts once
+  visits AS (
+    SELECT DISTINCT user_id, date_trunc('hour', local_time) AS local_hour
+    FROM points
+  )
+  SELECT
+    EXTRACT(DOW FROM v.local_hour)::integer AS day_of_week,
+    EXTRACT(HOUR FROM v.local_hour)::integer AS hour_of_day,
+    COUNT(*) AS visits,
+    (SELECT COUNT(DISTINCT user_id) FROM points) AS total_users
+  FROM visits v
+  GROUP BY 1, 2;
+$$;
+
+-- Reads every user's history, so only the service role (edge functions) may call it
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone) FROM public;
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone) FROM anon;
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone) TO service_role;
+
+COMMENT ON FUNCTION public.get_presence_profile IS 'Distinct user visits per local weekday/hour slot for a neighborhood (by current_neighborhood_id) or a radius around a point. Service role only.';
@@ -0,0 +1,62 @@
+-- Hourly density frames for the heatmap time-lapse
+-- Same cells, clipping and distinct-user counts as get_location_density_cells, but bucketed
+-- by the hour each location was recorded so a whole day or week comes back in one call.
+-- get-location-density applies the privacy layer to every frame cell before publishing.
+
+CREATE OR REPLACE FUNCTION public.get_location_density_frames(
+  _precision integer,
+  _from timestamp with time zone,
+  _to timestamp with time zone,
+  _tiles text[] DEFAULT NULL,
+  _max_points_per_user integer DEFAULT 5
+)
+RETURNS TABLE(frame_start timestamp with time zone, cell_id text, cell_lat double precision, cell_lng double precision, density bigint, distinct_users bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH tile_bounds AS (
+    SELECT ST_Envelope(ST_GeomFromGeoHash(t)) AS geom
+    FROM unnest(_tiles) AS t
+  ),
+  points AS (
+    SELECT
+      ul.user_id,
+      date_trunc('hour', ul.created_at) AS frame_start,
+      ST_GeoHash(ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326), _precision) AS cell_id
+    FROM public.user_locations ul
+    WHERE ul.created_at >= _from
+      AND ul.created_at < _to
+      AND (
+        _tiles IS NULL
+        OR EXISTS (
+          SELECT 1 FROM tile_bounds tb
+          WHERE ul.latitude >= ST_YMin(tb.geom) AND ul.latitude < ST_YMax(tb.geom)
+            AND ul.longitude >= ST_XMin(tb.geom) AND ul.longitude < ST_XMax(tb.geom)
+        )
+      )
+  ),
+  per_user AS (
+    -- Bound how much any single user can move a cell's count within a frame
+    SELECT p.frame_start, p.cell_id, p.user_id, LEAST(COUNT(*), _max_points_per_user) AS clipped
+    FROM points p
+    GROUP BY p.frame_start, p.cell_id, p.user_id
+  )
+  SELECT
+    pu.frame_start,
+    pu.cell_id,
+    ST_Y(ST_PointFromGeoHash(pu.cell_id)) AS cell_lat,
+    ST_X(ST_PointFromGeoHash(pu.cell_id)) AS cell_lng,
+    SUM(pu.clipped)::bigint AS density,
+    COUNT(DISTINCT pu.user_id) AS distinct_users
+  FROM per_user pu
+  GROUP BY pu.frame_start, pu.cell_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_location_density_frames(integer, timestamp with time zone, timestamp with time zone, text[], integer) FROM public;
+REVOKE ALL ON FUNCTION public.get_location_density_frames(integer, timestamp with time zone, timestamp with time zone, text[], integer) FROM anon;
+REVOKE ALL ON FUNCTION public.get_location_density_frames(integer, timestamp with time zone, timestamp with time zone, text[], integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_location_density_frames(integer, timestamp with time zone, timestamp with time zone, text[], integer) TO service_role;
+
+COMMENT ON FUNCTION public.get_location_density_frames IS 'Per-hour geohash density cells between _from and _to with per-user clipped counts and distinct-user totals. Raw output - must pass through the privacy layer before publishing. Service role only.';
@@ -0,0 +1,171 @@
+-- Night-out itineraries
+-- A user's ordered list of venues and deals for an evening, saved with the planned arrival
+-- at each stop. The owner edits it; accepted connections can open it from a shared link
+-- and join, after which they see it alongside their own.
+
+CREATE TABLE public.itineraries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'Night out' CHECK (char_length(title) BETWEEN 1 AND 80),
+  start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  travel_mode TEXT NOT NULL DEFAULT 'walking' CHECK (travel_mode IN ('walking', 'cycling', 'driving')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_itineraries_owner_start ON public.itineraries(owner_id, start_at DESC);
+
+CREATE TABLE public.itinerary_stops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position >= 0),
+  kind TEXT NOT NULL CHECK (kind IN ('venue', 'deal')),
+  -- Venue stops may come from Places and have no venues row yet
+  venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+  deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  planned_arrival TIMESTAMP WITH TIME ZONE,
+  stay_minutes SMALLINT NOT NULL DEFAULT 60 CHECK (stay_minutes BETWEEN 0 AND 600),
+  UNIQUE (itinerary_id, position)
+);
+
+CREATE INDEX idx_itinerary_stops_itinerary ON public.itinerary_stops(itinerary_id);
+
+CREATE TABLE public.itinerary_members (
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (itinerary_id, user_id)
+);
+
+CREATE INDEX idx_itinerary_members_user ON public.itinerary_members(user_id);
+
+-- Policies on the three tables reference each other, so the checks live in definer
+-- functions to keep RLS from recursing
+CREATE OR REPLACE FUNCTION public.are_connected(_user_a uuid, _user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_connections
+    WHERE status = 'accepted'
+      AND ((user_id = _user_a AND friend_id = _user_b)
+        OR (user_id = _user_b AND friend_id = _user_a))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_itinerary(_itinerary_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.itineraries i
+    WHERE i.id = _itinerary_id
+      AND (
+        i.owner_id = _user_id
+        OR public.are_connected(i.owner_id, _user_id)
+        OR EXISTS (
+          SELECT 1 FROM public.itinerary_members m
+          WHERE m.itinerary_id = i.id AND m.user_id = _user_id
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.owns_itinerary(_itinerary_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.itineraries WHERE id = _itinerary_id AND owner_id = _user_id
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.are_connected(uuid, uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION public.can_view_itinerary(uuid, uuid) FROM public, anon;
+REVOKE ALL ON FUNCTION public.owns_itinerary(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.are_connected(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_itinerary(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.owns_itinerary(uuid, uuid) TO authenticated;
+
+ALTER TABLE public.itineraries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_stops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners, members and connections can view itineraries"
+ON public.itineraries
+FOR SELECT
+USING (public.can_view_itinerary(id, auth.uid()));
+
+CREATE POLICY "Users can create their own itineraries"
+ON public.itineraries
+FOR INSERT
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their itineraries"
+ON public.itineraries
+FOR UPDATE
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their itineraries"
+ON public.itineraries
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Itinerary viewers can view stops"
+ON public.itinerary_stops
+FOR SELECT
+USING (public.can_view_itinerary(itinerary_id, auth.uid()));
+
+CREATE POLICY "Owners can manage stops"
+ON public.itinerary_stops
+FOR ALL
+USING (public.owns_itinerary(itinerary_id, auth.uid()))
+WITH CHECK (public.owns_itinerary(itinerary_id, auth.uid()));
+
+CREATE POLICY "Itinerary viewers can view members"
+ON public.itinerary_members
+FOR SELECT
+USING (public.can_view_itinerary(itinerary_id, auth.uid()));
+
+-- Only the owner's accepted connections can join
+CREATE POLICY "Connections can join itineraries"
+ON public.itinerary_members
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.itineraries i
+    WHERE i.id = itinerary_id
+      AND i.owner_id <> auth.uid()
+      AND public.are_connected(i.owner_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Members can leave and owners can remove members"
+ON public.itinerary_members
+FOR DELETE
+USING (auth.uid() = user_id OR public.owns_itinerary(itinerary_id, auth.uid()));
+
+CREATE TRIGGER update_itineraries_updated_at
+  BEFORE UPDATE ON public.itineraries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Joined members follow edits to stops live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.itinerary_stops;
+
+COMMENT ON TABLE public.itineraries IS 'Night-out plans: an owner, a start time and a travel mode. Visible to the owner, joined members and the owner''s accepted connections.';
+COMMENT ON TABLE public.itinerary_stops IS 'Ordered stops of an itinerary with the planned arrival computed by the client planner.';
+COMMENT ON TABLE public.itinerary_members IS 'Connections of the owner who joined an itinerary.';
@@ -0,0 +1,65 @@
+-- Bounded density windows
+-- Adds an upper bound to get_location_density_cells so closed periods (last week)
+-- can be compared against the current one. Behaviour is unchanged when _until is NULL.
+
+DROP FUNCTION IF EXISTS public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_location_density_cells(
+  _precision integer,
+  _tiles text[] DEFAULT NULL,
+  _since timestamp with time zone DEFAULT NULL,
+  _hour_of_day integer DEFAULT NULL,
+  _day_of_week integer DEFAULT NULL,
+  _max_points_per_user integer DEFAULT 5,
+  _until timestamp with time zone DEFAULT NULL
+)
+RETURNS TABLE(cell_id text, cell_lat double precision, cell_lng double precision, density bigint, distinct_users bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH tile_bounds AS (
+    SELECT ST_Envelope(ST_GeomFromGeoHash(t)) AS geom
+    FROM unnest(_tiles) AS t
+  ),
+  points AS (
+    SELECT
+      ul.user_id,
+      ST_GeoHash(ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326), _precision) AS cell_id
+    FROM public.user_locations ul
+    WHERE (_since IS NULL OR ul.created_at >= _since)
+      AND (_until IS NULL OR ul.created_at < _until)
+      AND (_hour_of_day IS NULL OR EXTRACT(HOUR FROM ul.created_at AT TIME ZONE 'UTC') = _hour_of_day)
+      AND (_day_of_week IS NULL OR EXTRACT(DOW FROM ul.created_at AT TIME ZONE 'UTC') = _day_of_week)
+      AND (
+        _tiles IS NULL
+        OR EXISTS (
+          SELECT 1 FROM tile_bounds tb
+          WHERE ul.latitude >= ST_YMin(tb.geom) AND ul.latitude < ST_YMax(tb.geom)
+            AND ul.longitude >= ST_XMin(tb.geom) AND ul.longitude < ST_XMax(tb.geom)
+        )
+      )
+  ),
+  per_user AS (
+    -- Bound how much any single user can move a cell's count
+    SELECT p.cell_id, p.user_id, LEAST(COUNT(*), _max_points_per_user) AS clipped
+    FROM points p
+    GROUP BY p.cell_id, p.user_id
+  )
+  SELECT
+    pu.cell_id,
+    ST_Y(ST_PointFromGeoHash(pu.cell_id)) AS cell_lat,
+    ST_X(ST_PointFromGeoHash(pu.cell_id)) AS cell_lng,
+    SUM(pu.clipped)::bigint AS density,
+    COUNT(DISTINCT pu.user_id) AS distinct_users
+  FROM per_user pu
+  GROUP BY pu.cell_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer, integer, timestamp with time zone) FROM public;
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer, integer, timestamp with time zone) FROM anon;
+REVOKE ALL ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer, integer, timestamp with time zone) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_location_density_cells(integer, text[], timestamp with time zone, integer, integer, integer, timestamp with time zone) TO service_role;
+
+COMMENT ON FUNCTION public.get_location_density_cells IS 'Aggregates user_locations into geohash cells with per-user clipped counts and distinct-user totals, optionally bounded to [_since, _until). Output is raw and must pass through the privacy layer in supabase/functions/_shared/privacy.ts before publishing. Service role only.';
@@ -0,0 +1,18 @@
+-- Recurring deal schedules
+-- A deal can carry weekly time-of-day windows (e.g. 16:00-19:00 Mon-Fri) in its city's
+-- timezone plus dated exceptions for holidays. The shape is validated in full by
+-- supabase/functions/_shared/deal-schedule.ts, which is also where "live now" is decided;
+-- the check here only keeps obviously wrong values out. Deals without a schedule keep
+-- using active_days as whole days.
+
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS schedule jsonb CHECK (
+  schedule IS NULL OR (
+    jsonb_typeof(schedule) = 'object'
+    AND jsonb_typeof(schedule -> 'timezone') = 'string'
+    AND jsonb_typeof(schedule -> 'windows') = 'array'
+    AND (schedule -> 'exceptions' IS NULL OR jsonb_typeof(schedule -> 'exceptions') = 'array')
+  )
+);
+
+COMMENT ON COLUMN public.deals.schedule IS 'Weekly availability: {timezone, windows: [{days: [0-6], start: "HH:MM", end: "HH:MM"}], exceptions: [{date: "YYYY-MM-DD", windows: [{start, end}], label}]}. End at or before start runs past midnight. NULL = all day on active_days.';
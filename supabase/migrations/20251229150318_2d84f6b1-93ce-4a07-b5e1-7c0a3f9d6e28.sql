@@ -0,0 +1,175 @@
+-- Deal redemptions
+-- A user claims a live deal and gets a one-time code, shown as text and as a QR of a signed
+-- token, valid for a few minutes. The merchant enters or scans it and validate-deal-redemption
+-- marks it redeemed. Both steps go through edge functions (the token secret lives there), which
+-- call the definer functions below so limit checks and redemption are atomic.
+
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS redemption_limit_per_user INTEGER DEFAULT 1 CHECK (redemption_limit_per_user IS NULL OR redemption_limit_per_user > 0),
+ADD COLUMN IF NOT EXISTS redemption_limit INTEGER CHECK (redemption_limit IS NULL OR redemption_limit > 0);
+
+COMMENT ON COLUMN public.deals.redemption_limit_per_user IS 'Redemptions allowed per user. NULL = unlimited.';
+COMMENT ON COLUMN public.deals.redemption_limit IS 'Redemptions allowed in total; open claims hold a slot until they expire. NULL = unlimited.';
+
+CREATE TABLE public.deal_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the deal is deleted so merchant numbers don't change after the fact
+  deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+  -- Typed in by staff; the QR carries a signed token for the same row
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-HJ-NP-Z2-9]{8}$'),
+  status TEXT NOT NULL DEFAULT 'claimed' CHECK (status IN ('claimed', 'redeemed')),
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  -- Who validated: an admin in the app, or a merchant through the portal
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  merchant_id TEXT,
+  CHECK ((status = 'redeemed') = (redeemed_at IS NOT NULL))
+);
+
+CREATE INDEX idx_deal_redemptions_deal_status ON public.deal_redemptions(deal_id, status, expires_at);
+CREATE INDEX idx_deal_redemptions_user_deal ON public.deal_redemptions(user_id, deal_id);
+CREATE INDEX idx_deal_redemptions_venue_redeemed ON public.deal_redemptions(venue_id, redeemed_at DESC);
+
+ALTER TABLE public.deal_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update policies: rows are only written by the functions below
+CREATE POLICY "Users can view their own redemptions"
+ON public.deal_redemptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions"
+ON public.deal_redemptions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Returns {status: 'claimed', id, code, expires_at} or {status: 'not_found' | 'code_taken' |
+-- 'user_limit_reached' | 'deal_limit_reached'}. Whether the deal is live right now is
+-- decided by the caller with the shared schedule evaluator.
+CREATE OR REPLACE FUNCTION public.claim_deal_redemption(_user_id uuid, _deal_id uuid, _code text, _ttl_seconds integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deal public.deals%ROWTYPE;
+  _redemption public.deal_redemptions%ROWTYPE;
+  _count integer;
+BEGIN
+  -- Serializes claims per deal so two users can't both take the last slot
+  SELECT * INTO _deal FROM public.deals WHERE id = _deal_id AND active FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Reopening the deal shows the code already issued instead of a second one
+  SELECT * INTO _redemption
+  FROM public.deal_redemptions r
+  WHERE r.deal_id = _deal_id AND r.user_id = _user_id AND r.status = 'claimed' AND r.expires_at > now()
+  ORDER BY r.claimed_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'claimed', 'id', _redemption.id, 'code', _redemption.code, 'expires_at', _redemption.expires_at);
+  END IF;
+
+  IF _deal.redemption_limit_per_user IS NOT NULL THEN
+    SELECT count(*) INTO _count
+    FROM public.deal_redemptions r
+    WHERE r.deal_id = _deal_id AND r.user_id = _user_id AND r.status = 'redeemed';
+
+    IF _count >= _deal.redemption_limit_per_user THEN
+      RETURN jsonb_build_object('status', 'user_limit_reached');
+    END IF;
+  END IF;
+
+  IF _deal.redemption_limit IS NOT NULL THEN
+    SELECT count(*) INTO _count
+    FROM public.deal_redemptions r
+    WHERE r.deal_id = _deal_id AND (r.status = 'redeemed' OR r.expires_at > now());
+
+    IF _count >= _deal.redemption_limit THEN
+      RETURN jsonb_build_object('status', 'deal_limit_reached');
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.deal_redemptions (deal_id, user_id, venue_id, code, expires_at)
+    VALUES (_deal_id, _user_id, _deal.canonical_venue_id, _code, now() + make_interval(secs => _ttl_seconds))
+    RETURNING * INTO _redemption;
+  EXCEPTION WHEN unique_violation THEN
+    -- The caller retries with a fresh code
+    RETURN jsonb_build_object('status', 'code_taken');
+  END;
+
+  RETURN jsonb_build_object('status', 'claimed', 'id', _redemption.id, 'code', _redemption.code, 'expires_at', _redemption.expires_at);
+END;
+$$;
+
+-- Looks the claim up by id (from a scanned token) or by typed code and marks it redeemed.
+-- A merchant can only redeem deals at venues they manage. Returns {status: 'redeemed', ...}
+-- or {status: 'not_found' | 'expired' | 'already_redeemed' | 'wrong_merchant'}.
+CREATE OR REPLACE FUNCTION public.redeem_deal_redemption(_redemption_id uuid, _code text, _redeemed_by uuid, _merchant_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.deal_redemptions%ROWTYPE;
+  _deal public.deals%ROWTYPE;
+BEGIN
+  SELECT * INTO _redemption
+  FROM public.deal_redemptions r
+  WHERE (_redemption_id IS NOT NULL AND r.id = _redemption_id)
+     OR (_redemption_id IS NULL AND r.code = upper(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO _deal FROM public.deals WHERE id = _redemption.deal_id;
+
+  IF _merchant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.venues v WHERE v.id = _redemption.venue_id AND v.merchant_id = _merchant_id
+  ) THEN
+    RETURN jsonb_build_object('status', 'wrong_merchant');
+  END IF;
+
+  IF _redemption.status = 'redeemed' THEN
+    RETURN jsonb_build_object('status', 'already_redeemed', 'redeemed_at', _redemption.redeemed_at);
+  END IF;
+
+  IF _redemption.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  UPDATE public.deal_redemptions
+  SET status = 'redeemed', redeemed_at = now(), redeemed_by = _redeemed_by, merchant_id = _merchant_id
+  WHERE id = _redemption.id
+  RETURNING * INTO _redemption;
+
+  RETURN jsonb_build_object(
+    'status', 'redeemed',
+    'id', _redemption.id,
+    'code', _redemption.code,
+    'redeemed_at', _redemption.redeemed_at,
+    'deal', jsonb_build_object('id', _deal.id, 'title', _deal.title, 'venue_name', _deal.venue_name)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_deal_redemption(uuid, uuid, text, integer) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_deal_redemption(uuid, uuid, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text) TO service_role;
+
+-- The claiming user sees their code flip to redeemed; admins get it in the live feed
+ALTER PUBLICATION supabase_realtime ADD TABLE public.deal_redemptions;
+
+COMMENT ON TABLE public.deal_redemptions IS 'One-time deal claims and their redemption. A claim past expires_at that was never redeemed is expired.';
@@ -0,0 +1,3 @@
+-- Merchant role for venue owners using the merchant portal (/merchant).
+-- Added on its own: a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'merchant';
@@ -0,0 +1,309 @@
+-- Merchant portal
+-- A venue owner (venues.owner_id, assigned by an admin) who also has the merchant role
+-- manages the deals of their own venues from /merchant: creating and scheduling deals,
+-- uploading images and validating redemption codes. Performance numbers are only exposed
+-- in aggregate through get_merchant_deal_stats, never as per-user rows.
+
+CREATE OR REPLACE FUNCTION public.manages_venue(_venue_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _venue_id IS NOT NULL
+    AND public.has_role(_user_id, 'merchant')
+    AND EXISTS (
+      SELECT 1 FROM public.venues WHERE id = _venue_id AND owner_id = _user_id
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.manages_venue(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.manages_venue(uuid, uuid) TO authenticated;
+
+-- Deals are scoped by their canonical venue. The canonical-venue trigger runs before the
+-- WITH CHECK, so renaming a deal's venue to someone else's is rejected as well.
+CREATE POLICY "Merchants can view their venues' deals"
+ON public.deals
+FOR SELECT
+TO authenticated
+USING (public.manages_venue(canonical_venue_id, auth.uid()));
+
+CREATE POLICY "Merchants can insert deals for their venues"
+ON public.deals
+FOR INSERT
+TO authenticated
+WITH CHECK (public.manages_venue(canonical_venue_id, auth.uid()));
+
+CREATE POLICY "Merchants can update their venues' deals"
+ON public.deals
+FOR UPDATE
+TO authenticated
+USING (public.manages_venue(canonical_venue_id, auth.uid()))
+WITH CHECK (public.manages_venue(canonical_venue_id, auth.uid()));
+
+CREATE POLICY "Merchants can delete their venues' deals"
+ON public.deals
+FOR DELETE
+TO authenticated
+USING (public.manages_venue(canonical_venue_id, auth.uid()));
+
+-- Owners also see their venues while they are inactive
+CREATE POLICY "Owners can view their venues"
+ON public.venues
+FOR SELECT
+TO authenticated
+USING (auth.uid() = owner_id);
+
+-- Owners can edit their venue, but who owns it (and which portal merchant manages it) is
+-- decided by admins and the merchant sync only
+CREATE OR REPLACE FUNCTION public.protect_venue_ownership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.merchant_id IS DISTINCT FROM OLD.merchant_id)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin')
+  THEN
+    RAISE EXCEPTION 'Only admins can change venue ownership';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_venues_ownership
+  BEFORE UPDATE OF owner_id, merchant_id ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_venue_ownership();
+
+-- Makes the user at _email the owner of the venue and a merchant; an empty email clears the owner
+CREATE OR REPLACE FUNCTION public.assign_venue_owner(_venue_id uuid, _email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign venue owners';
+  END IF;
+
+  _email := NULLIF(trim(_email), '');
+
+  IF _email IS NOT NULL THEN
+    SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(_email);
+    IF _user_id IS NULL THEN
+      RAISE EXCEPTION 'No user with email %', _email;
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, 'merchant')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  UPDATE public.venues SET owner_id = _user_id WHERE id = _venue_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _venue_id;
+  END IF;
+
+  RETURN _user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assign_venue_owner(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.assign_venue_owner(uuid, text) TO authenticated;
+
+-- Deal detail opens, so merchants can see reach next to favorites, shares and redemptions
+CREATE TABLE public.deal_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  -- NULL for signed-out visitors
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_deal_views_deal_viewed ON public.deal_views(deal_id, viewed_at DESC);
+CREATE INDEX idx_deal_views_user_deal ON public.deal_views(user_id, deal_id, viewed_at DESC);
+
+-- No policies: rows are written by record_deal_view and read in aggregate only
+ALTER TABLE public.deal_views ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_deal_view(_deal_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+BEGIN
+  -- A signed-in user reopening the same deal within half an hour counts once
+  IF _user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.deal_views
+    WHERE user_id = _user_id AND deal_id = _deal_id AND viewed_at >= now() - interval '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.deal_views (deal_id, user_id)
+  SELECT _deal_id, _user_id
+  WHERE EXISTS (SELECT 1 FROM public.deals WHERE id = _deal_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_deal_view(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.record_deal_view(uuid) TO anon, authenticated;
+
+-- Daily views, favorites, shares, claims and redemptions for the caller's deals since
+-- _since, bucketed by local date in _timezone. Favorites count when added and still held.
+CREATE OR REPLACE FUNCTION public.get_merchant_deal_stats(_since timestamptz, _timezone text DEFAULT 'UTC')
+RETURNS TABLE(day date, deal_id uuid, views bigint, favorites bigint, shares bigint, claims bigint, redemptions bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH owned AS (
+    SELECT d.id FROM public.deals d
+    WHERE public.manages_venue(d.canonical_venue_id, auth.uid())
+  ),
+  events AS (
+    SELECT v.deal_id, v.viewed_at AS at, 'view' AS kind
+    FROM public.deal_views v JOIN owned o ON o.id = v.deal_id
+    WHERE v.viewed_at >= _since
+    UNION ALL
+    SELECT f.deal_id, f.created_at, 'favorite'
+    FROM public.user_favorites f JOIN owned o ON o.id = f.deal_id
+    WHERE f.created_at >= _since
+    UNION ALL
+    SELECT s.deal_id, s.shared_at, 'share'
+    FROM public.deal_shares s JOIN owned o ON o.id = s.deal_id
+    WHERE s.shared_at >= _since
+    UNION ALL
+    SELECT r.deal_id, r.claimed_at, 'claim'
+    FROM public.deal_redemptions r JOIN owned o ON o.id = r.deal_id
+    WHERE r.claimed_at >= _since
+    UNION ALL
+    SELECT r.deal_id, r.redeemed_at, 'redemption'
+    FROM public.deal_redemptions r JOIN owned o ON o.id = r.deal_id
+    WHERE r.status = 'redeemed' AND r.redeemed_at >= _since
+  )
+  SELECT
+    (e.at AT TIME ZONE _timezone)::date AS day,
+    e.deal_id,
+    count(*) FILTER (WHERE e.kind = 'view') AS views,
+    count(*) FILTER (WHERE e.kind = 'favorite') AS favorites,
+    count(*) FILTER (WHERE e.kind = 'share') AS shares,
+    count(*) FILTER (WHERE e.kind = 'claim') AS claims,
+    count(*) FILTER (WHERE e.kind = 'redemption') AS redemptions
+  FROM events e
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_merchant_deal_stats(timestamptz, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.get_merchant_deal_stats(timestamptz, text) TO authenticated;
+
+-- Merchants validate codes for their own venues in the portal, next to admins and the
+-- portal webhook (_merchant_id)
+DROP FUNCTION IF EXISTS public.redeem_deal_redemption(uuid, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.redeem_deal_redemption(
+  _redemption_id uuid,
+  _code text,
+  _redeemed_by uuid,
+  _merchant_id text,
+  _owner_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.deal_redemptions%ROWTYPE;
+  _deal public.deals%ROWTYPE;
+BEGIN
+  SELECT * INTO _redemption
+  FROM public.deal_redemptions r
+  WHERE (_redemption_id IS NOT NULL AND r.id = _redemption_id)
+     OR (_redemption_id IS NULL AND r.code = upper(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO _deal FROM public.deals WHERE id = _redemption.deal_id;
+
+  IF _merchant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.venues v WHERE v.id = _redemption.venue_id AND v.merchant_id = _merchant_id
+  ) THEN
+    RETURN jsonb_build_object('status', 'wrong_merchant');
+  END IF;
+
+  IF _owner_id IS NOT NULL AND NOT public.manages_venue(_redemption.venue_id, _owner_id) THEN
+    RETURN jsonb_build_object('status', 'wrong_merchant');
+  END IF;
+
+  IF _redemption.status = 'redeemed' THEN
+    RETURN jsonb_build_object('status', 'already_redeemed', 'redeemed_at', _redemption.redeemed_at);
+  END IF;
+
+  IF _redemption.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  UPDATE public.deal_redemptions
+  SET status = 'redeemed', redeemed_at = now(), redeemed_by = _redeemed_by, merchant_id = _merchant_id
+  WHERE id = _redemption.id
+  RETURNING * INTO _redemption;
+
+  RETURN jsonb_build_object(
+    'status', 'redeemed',
+    'id', _redemption.id,
+    'code', _redemption.code,
+    'redeemed_at', _redemption.redeemed_at,
+    'deal', jsonb_build_object('id', _deal.id, 'title', _deal.title, 'venue_name', _deal.venue_name)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) TO service_role;
+
+-- Merchants upload deal images into their own folder: merchants/<user id>/...
+CREATE POLICY "Merchants can upload deal images"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'deal-images'
+  AND public.has_role(auth.uid(), 'merchant')
+  AND (storage.foldername(name))[1] = 'merchants'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+CREATE POLICY "Merchants can update their deal images"
+ON storage.objects FOR UPDATE
+USING (
+  bucket_id = 'deal-images'
+  AND public.has_role(auth.uid(), 'merchant')
+  AND (storage.foldername(name))[1] = 'merchants'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+CREATE POLICY "Merchants can delete their deal images"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'deal-images'
+  AND public.has_role(auth.uid(), 'merchant')
+  AND (storage.foldername(name))[1] = 'merchants'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+COMMENT ON TABLE public.deal_views IS 'Deal detail opens (signed-in repeats within 30 minutes collapsed). Read in aggregate by get_merchant_deal_stats.';
+COMMENT ON FUNCTION public.manages_venue IS 'True when the user owns the venue and has the merchant role. Used by the merchant RLS policies.';
@@ -0,0 +1,399 @@
+-- Merchant sync, both directions
+-- Inbound: sync-merchant-deals verifies the HMAC signature and uses the Idempotency-Key
+-- header to log each delivery once in merchant_sync_events; a retried delivery gets the stored
+-- response back instead of being applied twice. Deletes from the merchant are soft.
+-- Outbound: redemptions, daily performance and moderation decisions on deals at merchant
+-- venues are queued in the same table and sent by deliver-merchant-webhooks with retries.
+
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved' CHECK (moderation_status IN ('approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS moderation_note TEXT CHECK (char_length(moderation_note) <= 500),
+ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.deals.deleted_at IS 'Set when the merchant deletes the deal. The row is kept for redemption history and the sync log.';
+COMMENT ON COLUMN public.deals.moderation_status IS 'Admin decision. Rejected deals are kept inactive and the merchant is told why (moderation_note).';
+
+-- Only admins (or the service role) moderate or undelete, and neither kind of deal can be
+-- switched back on by an update from the merchant
+CREATE OR REPLACE FUNCTION public.enforce_deal_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.moderation_status IS DISTINCT FROM OLD.moderation_status
+      OR NEW.moderation_note IS DISTINCT FROM OLD.moderation_note
+      OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin')
+  THEN
+    RAISE EXCEPTION 'Only admins can moderate deals';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+    NEW.moderated_at := now();
+  END IF;
+
+  IF NEW.moderation_status = 'rejected' OR NEW.deleted_at IS NOT NULL THEN
+    NEW.active := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_deals_moderation
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_deal_moderation();
+
+CREATE TABLE public.merchant_sync_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  -- Inbound: deal.create / deal.update / deal.delete. Outbound: deal.redeemed,
+  -- deal.performance, deal.moderated
+  event_type TEXT NOT NULL,
+  -- Inbound: the sender's Idempotency-Key header. Outbound: sent as Idempotency-Key so the
+  -- merchant system can drop our retries
+  idempotency_key TEXT NOT NULL CHECK (char_length(idempotency_key) BETWEEN 1 AND 200),
+  merchant_id TEXT,
+  -- No foreign key: the log outlives deals that admins remove
+  deal_id UUID,
+  payload JSONB NOT NULL,
+  -- SHA-256 of the raw inbound body; a reused key with a different body is refused
+  request_hash TEXT,
+  -- Inbound: processing -> processed | failed. Outbound: pending -> delivered | failed
+  status TEXT NOT NULL CHECK (status IN ('processing', 'processed', 'pending', 'delivered', 'failed')),
+  -- Inbound: what we answered, replayed for retries. Outbound: what the merchant answered
+  response_status INTEGER,
+  response JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (direction, idempotency_key)
+);
+
+CREATE INDEX idx_merchant_sync_events_deal ON public.merchant_sync_events(deal_id, created_at DESC);
+CREATE INDEX idx_merchant_sync_events_outbox ON public.merchant_sync_events(next_attempt_at)
+  WHERE direction = 'outbound' AND status = 'pending';
+
+CREATE TRIGGER update_merchant_sync_events_updated_at
+  BEFORE UPDATE ON public.merchant_sync_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.merchant_sync_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the service role and the definer functions below
+CREATE POLICY "Admins can view merchant sync events"
+ON public.merchant_sync_events
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Logs an inbound delivery under its idempotency key. Returns {outcome: 'process', event_id}
+-- when the caller should apply it, 'replay' with the stored response, 'in_progress' while
+-- another attempt is running, or 'mismatch' when the key was used for a different body.
+-- An attempt that failed, or whose worker stopped mid-way, may be retried.
+CREATE OR REPLACE FUNCTION public.begin_merchant_sync_event(
+  _idempotency_key text,
+  _event_type text,
+  _merchant_id text,
+  _deal_id uuid,
+  _payload jsonb,
+  _request_hash text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.merchant_sync_events%ROWTYPE;
+BEGIN
+  INSERT INTO public.merchant_sync_events (
+    direction, event_type, idempotency_key, merchant_id, deal_id, payload, request_hash, status, attempts
+  )
+  VALUES ('inbound', _event_type, _idempotency_key, _merchant_id, _deal_id, _payload, _request_hash, 'processing', 1)
+  ON CONFLICT (direction, idempotency_key) DO NOTHING
+  RETURNING * INTO _event;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('outcome', 'process', 'event_id', _event.id);
+  END IF;
+
+  SELECT * INTO _event
+  FROM public.merchant_sync_events
+  WHERE direction = 'inbound' AND idempotency_key = _idempotency_key
+  FOR UPDATE;
+
+  IF _event.request_hash IS DISTINCT FROM _request_hash THEN
+    RETURN jsonb_build_object('outcome', 'mismatch');
+  END IF;
+
+  IF _event.status = 'processed' THEN
+    RETURN jsonb_build_object(
+      'outcome', 'replay',
+      'response_status', _event.response_status,
+      'response', _event.response
+    );
+  END IF;
+
+  IF _event.status = 'processing' AND _event.updated_at > now() - interval '2 minutes' THEN
+    RETURN jsonb_build_object('outcome', 'in_progress');
+  END IF;
+
+  UPDATE public.merchant_sync_events
+  SET status = 'processing', attempts = attempts + 1, error = NULL, completed_at = NULL
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object('outcome', 'process', 'event_id', _event.id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.begin_merchant_sync_event(text, text, text, uuid, jsonb, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_merchant_sync_event(text, text, text, uuid, jsonb, text) TO service_role;
+
+-- Queues an outbound webhook for a deal at a venue the merchant system manages; other deals
+-- are skipped. A repeated _idempotency_key is ignored, so periodic jobs can safely rerun.
+CREATE OR REPLACE FUNCTION public.enqueue_merchant_webhook(
+  _deal_id uuid,
+  _event_type text,
+  _data jsonb,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _merchant_id text;
+  _event_id uuid := gen_random_uuid();
+  _created_at timestamptz := now();
+BEGIN
+  SELECT v.merchant_id INTO _merchant_id
+  FROM public.deals d
+  JOIN public.venues v ON v.id = d.canonical_venue_id
+  WHERE d.id = _deal_id;
+
+  IF _merchant_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.merchant_sync_events (
+    id, direction, event_type, idempotency_key, merchant_id, deal_id, payload, status, next_attempt_at, created_at
+  )
+  VALUES (
+    _event_id,
+    'outbound',
+    _event_type,
+    COALESCE(_idempotency_key, _event_id::text),
+    _merchant_id,
+    _deal_id,
+    jsonb_build_object(
+      'id', _event_id,
+      'type', _event_type,
+      'created_at', _created_at,
+      'merchant_id', _merchant_id,
+      'data', _data
+    ),
+    'pending',
+    _created_at,
+    _created_at
+  )
+  ON CONFLICT (direction, idempotency_key) DO NOTHING;
+
+  RETURN _event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_merchant_webhook(uuid, text, jsonb, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_merchant_webhook(uuid, text, jsonb, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.notify_merchant_of_redemption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deal_id IS NOT NULL THEN
+    PERFORM public.enqueue_merchant_webhook(
+      NEW.deal_id,
+      'deal.redeemed',
+      jsonb_build_object(
+        'deal_id', NEW.deal_id,
+        'redemption_id', NEW.id,
+        'redeemed_at', NEW.redeemed_at,
+        'validated_by', CASE WHEN NEW.merchant_id IS NOT NULL THEN 'merchant' ELSE 'app' END
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_merchant_of_deal_redemption
+  AFTER UPDATE OF status ON public.deal_redemptions
+  FOR EACH ROW
+  WHEN (NEW.status = 'redeemed' AND OLD.status IS DISTINCT FROM 'redeemed')
+  EXECUTE FUNCTION public.notify_merchant_of_redemption();
+
+CREATE OR REPLACE FUNCTION public.notify_merchant_of_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_merchant_webhook(
+    NEW.id,
+    'deal.moderated',
+    jsonb_build_object(
+      'deal_id', NEW.id,
+      'decision', NEW.moderation_status,
+      'note', NEW.moderation_note,
+      'moderated_at', NEW.moderated_at
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_merchant_of_deal_moderation
+  AFTER UPDATE OF moderation_status ON public.deals
+  FOR EACH ROW
+  WHEN (NEW.moderation_status IS DISTINCT FROM OLD.moderation_status)
+  EXECUTE FUNCTION public.notify_merchant_of_moderation();
+
+-- One deal.performance event per merchant deal with any activity on _day (UTC). Returns the
+-- number of events queued.
+CREATE OR REPLACE FUNCTION public.enqueue_merchant_performance_events(_day date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from timestamptz := _day::timestamp AT TIME ZONE 'UTC';
+  _to timestamptz := (_day + 1)::timestamp AT TIME ZONE 'UTC';
+  _row record;
+  _queued integer := 0;
+BEGIN
+  FOR _row IN
+    WITH synced AS (
+      SELECT d.id FROM public.deals d
+      JOIN public.venues v ON v.id = d.canonical_venue_id
+      WHERE v.merchant_id IS NOT NULL
+    ),
+    events AS (
+      SELECT v.deal_id, 'view' AS kind
+      FROM public.deal_views v JOIN synced s ON s.id = v.deal_id
+      WHERE v.viewed_at >= _from AND v.viewed_at < _to
+      UNION ALL
+      SELECT f.deal_id, 'favorite'
+      FROM public.user_favorites f JOIN synced s ON s.id = f.deal_id
+      WHERE f.created_at >= _from AND f.created_at < _to
+      UNION ALL
+      SELECT sh.deal_id, 'share'
+      FROM public.deal_shares sh JOIN synced s ON s.id = sh.deal_id
+      WHERE sh.shared_at >= _from AND sh.shared_at < _to
+      UNION ALL
+      SELECT r.deal_id, 'claim'
+      FROM public.deal_redemptions r JOIN synced s ON s.id = r.deal_id
+      WHERE r.claimed_at >= _from AND r.claimed_at < _to
+      UNION ALL
+      SELECT r.deal_id, 'redemption'
+      FROM public.deal_redemptions r JOIN synced s ON s.id = r.deal_id
+      WHERE r.status = 'redeemed' AND r.redeemed_at >= _from AND r.redeemed_at < _to
+    )
+    SELECT
+      e.deal_id,
+      count(*) FILTER (WHERE e.kind = 'view') AS views,
+      count(*) FILTER (WHERE e.kind = 'favorite') AS favorites,
+      count(*) FILTER (WHERE e.kind = 'share') AS shares,
+      count(*) FILTER (WHERE e.kind = 'claim') AS claims,
+      count(*) FILTER (WHERE e.kind = 'redemption') AS redemptions
+    FROM events e
+    GROUP BY e.deal_id
+  LOOP
+    PERFORM public.enqueue_merchant_webhook(
+      _row.deal_id,
+      'deal.performance',
+      jsonb_build_object(
+        'deal_id', _row.deal_id,
+        'date', _day,
+        'views', _row.views,
+        'favorites', _row.favorites,
+        'shares', _row.shares,
+        'claims', _row.claims,
+        'redemptions', _row.redemptions
+      ),
+      format('deal.performance:%s:%s', _row.deal_id, _day)
+    );
+    _queued := _queued + 1;
+  END LOOP;
+
+  RETURN _queued;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_merchant_performance_events(date) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_merchant_performance_events(date) TO service_role;
+
+-- Hands out due outbound events to one delivery run. Pushing next_attempt_at forward acts as
+-- a lease, so an overlapping run skips them; the caller sets the real outcome afterwards.
+CREATE OR REPLACE FUNCTION public.claim_merchant_webhook_deliveries(_limit integer DEFAULT 50)
+RETURNS SETOF public.merchant_sync_events
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.merchant_sync_events e
+  SET attempts = e.attempts + 1, next_attempt_at = now() + interval '5 minutes'
+  WHERE e.id IN (
+    SELECT id FROM public.merchant_sync_events
+    WHERE direction = 'outbound' AND status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_merchant_webhook_deliveries(integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_merchant_webhook_deliveries(integer) TO service_role;
+
+COMMENT ON TABLE public.merchant_sync_events IS 'Audit log of merchant sync deliveries: inbound deal changes keyed by Idempotency-Key, and the outbox of webhooks sent back to the merchant system.';
+
+-- Yesterday's numbers go out shortly after midnight UTC
+SELECT cron.schedule(
+  'enqueue-merchant-performance-events',
+  '10 0 * * *',
+  $$SELECT public.enqueue_merchant_performance_events(((now() AT TIME ZONE 'UTC')::date - 1))$$
+);
+
+SELECT cron.schedule(
+  'deliver-merchant-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url', true) || '/functions/v1/deliver-merchant-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.merchant_webhooks_hook_secret', true)
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.merchant_sync_events
+    WHERE direction = 'outbound' AND status = 'pending' AND next_attempt_at <= now()
+  )
+  $$
+);
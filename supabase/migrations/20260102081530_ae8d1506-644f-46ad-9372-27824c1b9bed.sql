@@ -0,0 +1,160 @@
+-- Venue lookup without side effects, for the admin bulk deal import preview
+-- resolve_venue both finds and creates venues. The matching half moves to find_venue so the
+-- import can show which rows link to an existing venue before anything is written; the
+-- deals trigger still calls resolve_venue when the batch is committed.
+
+CREATE OR REPLACE FUNCTION public.find_venue(
+  _external_id text,
+  _name text,
+  _address text DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _lng double precision DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _venue_id uuid;
+  _name_key text := public.normalize_venue_name(_name);
+  _address_key text := public.normalize_venue_address(_address);
+  -- Google place IDs start with ChIJ; anything else is a legacy free-text ID
+  _is_place_id boolean := coalesce(_external_id ~ '^ChIJ', false);
+BEGIN
+  IF _external_id IS NOT NULL AND _is_place_id THEN
+    SELECT id INTO _venue_id FROM public.venues WHERE google_place_id = _external_id;
+  END IF;
+
+  IF _venue_id IS NULL AND _external_id IS NOT NULL THEN
+    SELECT venue_id INTO _venue_id FROM public.venue_aliases
+    WHERE alias_type = 'external_id' AND match_key = _external_id;
+  END IF;
+
+  -- A place ID never joins a venue already linked to a different place (chain branches share names)
+  IF _venue_id IS NULL AND _name_key <> '' THEN
+    SELECT a.venue_id INTO _venue_id
+    FROM public.venue_aliases a
+    JOIN public.venues v ON v.id = a.venue_id
+    WHERE a.alias_type = 'name' AND a.match_key = _name_key
+      AND (v.google_place_id IS NULL OR NOT _is_place_id);
+  END IF;
+
+  IF _venue_id IS NULL AND _name_key <> '' THEN
+    -- Prefer the branch at the same address, then the closest one
+    SELECT id INTO _venue_id FROM public.venues
+    WHERE name_key = _name_key
+      AND (google_place_id IS NULL OR NOT _is_place_id)
+    ORDER BY
+      (address_key IS NOT DISTINCT FROM _address_key) DESC,
+      CASE WHEN _lat IS NULL OR lat IS NULL THEN 0 ELSE abs(lat - _lat) + abs(lng - _lng) END
+    LIMIT 1;
+  END IF;
+
+  IF _venue_id IS NULL AND _address_key IS NOT NULL AND _name_key <> '' THEN
+    SELECT id INTO _venue_id FROM public.venues
+    WHERE address_key = _address_key
+      AND (name_key LIKE _name_key || '%' OR _name_key LIKE name_key || '%')
+      AND (google_place_id IS NULL OR NOT _is_place_id)
+    LIMIT 1;
+  END IF;
+
+  RETURN _venue_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_venue(text, text, text, double precision, double precision) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_venue(text, text, text, double precision, double precision) TO service_role;
+
+-- Find the canonical venue for an external ID + name, creating it if nothing matches.
+-- Matching is find_venue's. Whatever identified the venue is recorded as an alias so later
+-- lookups hit directly.
+CREATE OR REPLACE FUNCTION public.resolve_venue(
+  _external_id text,
+  _name text,
+  _address text DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _lng double precision DEFAULT NULL,
+  _category text DEFAULT NULL,
+  _neighborhood_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _venue_id uuid := public.find_venue(_external_id, _name, _address, _lat, _lng);
+  _name_key text := public.normalize_venue_name(_name);
+  _is_place_id boolean := coalesce(_external_id ~ '^ChIJ', false);
+  _has_point boolean := _lat IS NOT NULL AND _lng IS NOT NULL;
+BEGIN
+  IF _venue_id IS NULL THEN
+    INSERT INTO public.venues (name, address, lat, lng, category, neighborhood_id, google_place_id)
+    VALUES (
+      _name,
+      _address,
+      CASE WHEN _has_point THEN _lat END,
+      CASE WHEN _has_point THEN _lng END,
+      _category,
+      _neighborhood_id,
+      CASE WHEN _is_place_id THEN _external_id END
+    )
+    RETURNING id INTO _venue_id;
+  ELSE
+    -- Fill in whatever the matched venue was missing
+    UPDATE public.venues SET
+      google_place_id = coalesce(google_place_id, CASE WHEN _is_place_id THEN _external_id END),
+      address = coalesce(address, _address),
+      lat = CASE WHEN lat IS NULL AND _has_point THEN _lat ELSE lat END,
+      lng = CASE WHEN lat IS NULL AND _has_point THEN _lng ELSE lng END,
+      category = coalesce(category, _category),
+      neighborhood_id = coalesce(neighborhood_id, _neighborhood_id)
+    WHERE id = _venue_id;
+  END IF;
+
+  IF _external_id IS NOT NULL AND NOT _is_place_id THEN
+    INSERT INTO public.venue_aliases (venue_id, alias_type, value)
+    VALUES (_venue_id, 'external_id', _external_id)
+    ON CONFLICT (alias_type, match_key) DO NOTHING;
+  END IF;
+
+  IF _name_key <> '' THEN
+    INSERT INTO public.venue_aliases (venue_id, alias_type, value)
+    VALUES (_venue_id, 'name', _name)
+    ON CONFLICT (alias_type, match_key) DO NOTHING;
+  END IF;
+
+  RETURN _venue_id;
+END;
+$$;
+
+-- Batch lookup for the import preview: [{external_id, name, address}] -> one row per input,
+-- in input order (idx from 0), with the matched venue or NULLs when a new one would be created
+CREATE OR REPLACE FUNCTION public.match_venues(_venues jsonb)
+RETURNS TABLE(idx integer, venue_id uuid, name text, address text, google_place_id text, neighborhood_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can match venues';
+  END IF;
+
+  RETURN QUERY
+  SELECT (e.ordinality - 1)::integer, v.id, v.name, v.address, v.google_place_id, v.neighborhood_id
+  FROM jsonb_array_elements(_venues) WITH ORDINALITY AS e(item, ordinality)
+  LEFT JOIN public.venues v ON v.id = public.find_venue(
+    nullif(e.item->>'external_id', ''),
+    e.item->>'name',
+    nullif(e.item->>'address', '')
+  )
+  ORDER BY e.ordinality;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_venues(jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.match_venues(jsonb) TO authenticated;
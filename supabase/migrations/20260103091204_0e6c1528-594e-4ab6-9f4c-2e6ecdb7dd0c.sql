@@ -0,0 +1,43 @@
+-- Reviews only look venues up
+-- assign_canonical_venue calls resolve_venue, which creates venues, records aliases and fills
+-- in a missing google_place_id. That suits deal writers (admins, merchants, the sync), but on
+-- venue_reviews it let any signed-in reviewer change shared venue data with the venue_id and
+-- venue_name they posted. Reviews now link through find_venue, which never writes, and stay
+-- unlinked when nothing matches. Only admins may set the link themselves.
+
+CREATE OR REPLACE FUNCTION public.assign_review_canonical_venue()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND (
+      (TG_OP = 'INSERT' AND NEW.canonical_venue_id IS NOT NULL)
+      OR (TG_OP = 'UPDATE' AND NEW.canonical_venue_id IS DISTINCT FROM OLD.canonical_venue_id)
+    )
+  THEN
+    RAISE EXCEPTION 'Only admins can link reviews to venues';
+  END IF;
+
+  IF NEW.canonical_venue_id IS NULL
+    OR (
+      TG_OP = 'UPDATE'
+      AND NEW.canonical_venue_id IS NOT DISTINCT FROM OLD.canonical_venue_id
+      AND (NEW.venue_id IS DISTINCT FROM OLD.venue_id OR NEW.venue_name IS DISTINCT FROM OLD.venue_name)
+    )
+  THEN
+    NEW.canonical_venue_id := public.find_venue(nullif(NEW.venue_id, ''), NEW.venue_name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_venue_reviews_canonical_venue ON public.venue_reviews;
+
+CREATE TRIGGER assign_venue_reviews_canonical_venue
+  BEFORE INSERT OR UPDATE OF venue_id, venue_name, canonical_venue_id ON public.venue_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_review_canonical_venue();
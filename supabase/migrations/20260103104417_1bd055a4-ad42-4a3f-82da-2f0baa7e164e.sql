@@ -0,0 +1,49 @@
+-- Merchant deletes are soft
+-- Deleting from the merchant portal removed the row, which cascaded away its deal_views and
+-- unlinked its redemptions, so the merchant lost the history soft deletes exist to keep.
+-- Venue owners now set deleted_at instead (once; undeleting stays with admins), and can no
+-- longer delete deal rows at all.
+
+DROP POLICY IF EXISTS "Merchants can delete their venues' deals" ON public.deals;
+
+CREATE OR REPLACE FUNCTION public.enforce_deal_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_client boolean := auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND _is_client
+    AND (NEW.moderation_status IS DISTINCT FROM OLD.moderation_status
+      OR NEW.moderation_note IS DISTINCT FROM OLD.moderation_note)
+  THEN
+    RAISE EXCEPTION 'Only admins can moderate deals';
+  END IF;
+
+  -- The venue's owner may delete its deal; nobody but an admin brings one back
+  IF TG_OP = 'UPDATE'
+    AND _is_client
+    AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT (
+      OLD.deleted_at IS NULL
+      AND NEW.deleted_at IS NOT NULL
+      AND public.manages_venue(OLD.canonical_venue_id, auth.uid())
+    )
+  THEN
+    RAISE EXCEPTION 'Only admins can restore deleted deals';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+    NEW.moderated_at := now();
+  END IF;
+
+  IF NEW.moderation_status = 'rejected' OR NEW.deleted_at IS NOT NULL THEN
+    NEW.active := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
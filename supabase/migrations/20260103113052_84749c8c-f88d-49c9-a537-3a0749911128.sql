@@ -0,0 +1,68 @@
+-- Itineraries are private until shared
+-- Every itinerary used to be readable by all of the owner's accepted connections, which told
+-- them where and when the owner would be without the owner ever sharing it. Connections now
+-- only see (and can join) itineraries the owner has shared. are_connected is gone as well:
+-- granted to authenticated, it let anyone test whether two users were connected, which
+-- user_connections RLS otherwise hides. The check is inlined in the definer functions.
+
+ALTER TABLE public.itineraries
+ADD COLUMN IF NOT EXISTS shared BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.itineraries.shared IS 'Set when the owner shares the plan. Only then can the owner''s accepted connections open and join it.';
+
+-- Shared, and the caller is one of the owner's accepted connections. Always the caller, so
+-- it can't be used to ask about other users' connections either.
+CREATE OR REPLACE FUNCTION public.can_join_itinerary(_itinerary_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.itineraries i
+    JOIN public.user_connections c
+      ON c.status = 'accepted'
+      AND ((c.user_id = i.owner_id AND c.friend_id = auth.uid())
+        OR (c.user_id = auth.uid() AND c.friend_id = i.owner_id))
+    WHERE i.id = _itinerary_id
+      AND i.shared
+      AND i.owner_id <> auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_itinerary(_itinerary_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.itineraries i
+    WHERE i.id = _itinerary_id
+      AND (
+        i.owner_id = _user_id
+        OR EXISTS (
+          SELECT 1 FROM public.itinerary_members m
+          WHERE m.itinerary_id = i.id AND m.user_id = _user_id
+        )
+        OR (_user_id = auth.uid() AND public.can_join_itinerary(i.id))
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_join_itinerary(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_join_itinerary(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Connections can join itineraries" ON public.itinerary_members;
+
+CREATE POLICY "Connections can join shared itineraries"
+ON public.itinerary_members
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_join_itinerary(itinerary_id));
+
+DROP FUNCTION IF EXISTS public.are_connected(uuid, uuid);
+
+COMMENT ON TABLE public.itineraries IS 'Night-out plans: an owner, a start time and a travel mode. Visible to the owner and joined members, and to the owner''s accepted connections once shared.';
@@ -0,0 +1,83 @@
+-- Saving an itinerary in one transaction
+-- The client used to upsert the itinerary, delete its stops and insert the new ones in three
+-- requests: a failed insert left the saved plan with no stops, and members got a realtime
+-- reload for every stop row. save_itinerary does all of it at once, and members now follow
+-- the itinerary row itself, which each save touches exactly once.
+-- Stops also keep the venue's opening hours, so a reloaded or joined plan is planned against
+-- the same hours as the organizer's.
+
+ALTER TABLE public.itinerary_stops
+ADD COLUMN IF NOT EXISTS opening_hours TEXT[];
+
+COMMENT ON COLUMN public.itinerary_stops.opening_hours IS 'Google-style weekday descriptions of the venue''s hours when the stop was saved. NULL when unknown.';
+
+-- _stops: [{kind, venue_id, deal_id, name, lat, lng, planned_arrival, stay_minutes, opening_hours}]
+-- in visiting order. Runs as the caller, so the owner policies still decide what can be written.
+CREATE OR REPLACE FUNCTION public.save_itinerary(
+  _title text,
+  _start_at timestamptz,
+  _travel_mode text,
+  _shared boolean,
+  _stops jsonb,
+  _id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _itinerary_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(_stops) <> 'array' OR jsonb_array_length(_stops) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'An itinerary has between 1 and 10 stops';
+  END IF;
+
+  INSERT INTO public.itineraries (id, owner_id, title, start_at, travel_mode, shared)
+  VALUES (coalesce(_id, gen_random_uuid()), auth.uid(), _title, _start_at, _travel_mode, _shared)
+  ON CONFLICT (id) DO UPDATE SET
+    title = EXCLUDED.title,
+    start_at = EXCLUDED.start_at,
+    travel_mode = EXCLUDED.travel_mode,
+    shared = EXCLUDED.shared
+  WHERE public.itineraries.owner_id = auth.uid()
+  RETURNING id INTO _itinerary_id;
+
+  IF _itinerary_id IS NULL THEN
+    RAISE EXCEPTION 'Only the owner can change this itinerary';
+  END IF;
+
+  DELETE FROM public.itinerary_stops WHERE itinerary_id = _itinerary_id;
+
+  INSERT INTO public.itinerary_stops (
+    itinerary_id, position, kind, venue_id, deal_id, name, lat, lng, planned_arrival, stay_minutes, opening_hours
+  )
+  SELECT
+    _itinerary_id,
+    (s.ordinality - 1)::smallint,
+    s.item->>'kind',
+    (s.item->>'venue_id')::uuid,
+    (s.item->>'deal_id')::uuid,
+    s.item->>'name',
+    (s.item->>'lat')::double precision,
+    (s.item->>'lng')::double precision,
+    (s.item->>'planned_arrival')::timestamptz,
+    coalesce((s.item->>'stay_minutes')::smallint, 60),
+    CASE WHEN jsonb_typeof(s.item->'opening_hours') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(s.item->'opening_hours'))
+    END
+  FROM jsonb_array_elements(_stops) WITH ORDINALITY AS s(item, ordinality);
+
+  RETURN _itinerary_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_itinerary(text, timestamptz, text, boolean, jsonb, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.save_itinerary(text, timestamptz, text, boolean, jsonb, uuid) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.itinerary_stops;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.itineraries;
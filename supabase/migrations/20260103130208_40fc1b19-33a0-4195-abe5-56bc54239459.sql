@@ -0,0 +1,36 @@
+-- Merchant deals carry their venue's details
+-- The merchant policies check canonical_venue_id only, so a merchant could link a deal to
+-- their own venue while giving it another venue's name, ID and address, and the app would
+-- show it as that venue's deal. For anyone but an admin or the service role, the venue
+-- fields are now copied from the linked venue.
+
+CREATE OR REPLACE FUNCTION public.apply_deal_venue_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _venue record;
+BEGIN
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') OR NEW.canonical_venue_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, name, address, google_place_id INTO _venue
+  FROM public.venues WHERE id = NEW.canonical_venue_id;
+
+  IF FOUND THEN
+    NEW.venue_name := _venue.name;
+    NEW.venue_address := _venue.address;
+    NEW.venue_id := coalesce(_venue.google_place_id, _venue.id::text);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after assign_deals_canonical_venue, once the link is settled
+CREATE TRIGGER set_deals_venue_fields
+  BEFORE INSERT OR UPDATE OF venue_id, venue_name, venue_address, canonical_venue_id ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_deal_venue_fields();
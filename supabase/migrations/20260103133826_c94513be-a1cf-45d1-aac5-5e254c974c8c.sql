@@ -0,0 +1,73 @@
+-- Redemption re-checks the deal
+-- A code stays valid for its TTL after being claimed. Until now that held even when the deal
+-- was deactivated, rejected by moderation or deleted in the meantime; such codes now come
+-- back as not_live.
+
+CREATE OR REPLACE FUNCTION public.redeem_deal_redemption(
+  _redemption_id uuid,
+  _code text,
+  _redeemed_by uuid,
+  _merchant_id text,
+  _owner_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.deal_redemptions%ROWTYPE;
+  _deal public.deals%ROWTYPE;
+BEGIN
+  SELECT * INTO _redemption
+  FROM public.deal_redemptions r
+  WHERE (_redemption_id IS NOT NULL AND r.id = _redemption_id)
+     OR (_redemption_id IS NULL AND r.code = upper(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO _deal FROM public.deals WHERE id = _redemption.deal_id;
+
+  IF _merchant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.venues v WHERE v.id = _redemption.venue_id AND v.merchant_id = _merchant_id
+  ) THEN
+    RETURN jsonb_build_object('status', 'wrong_merchant');
+  END IF;
+
+  IF _owner_id IS NOT NULL AND NOT public.manages_venue(_redemption.venue_id, _owner_id) THEN
+    RETURN jsonb_build_object('status', 'wrong_merchant');
+  END IF;
+
+  IF _redemption.status = 'redeemed' THEN
+    RETURN jsonb_build_object('status', 'already_redeemed', 'redeemed_at', _redemption.redeemed_at);
+  END IF;
+
+  IF _redemption.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  -- A code claimed earlier doesn't outlive the deal being switched off, rejected or deleted
+  IF _deal.id IS NULL OR NOT _deal.active OR _deal.deleted_at IS NOT NULL OR _deal.moderation_status = 'rejected' THEN
+    RETURN jsonb_build_object('status', 'not_live');
+  END IF;
+
+  UPDATE public.deal_redemptions
+  SET status = 'redeemed', redeemed_at = now(), redeemed_by = _redeemed_by, merchant_id = _merchant_id
+  WHERE id = _redemption.id
+  RETURNING * INTO _redemption;
+
+  RETURN jsonb_build_object(
+    'status', 'redeemed',
+    'id', _redemption.id,
+    'code', _redemption.code,
+    'redeemed_at', _redemption.redeemed_at,
+    'deal', jsonb_build_object('id', _deal.id, 'title', _deal.title, 'venue_name', _deal.venue_name)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) TO service_role;
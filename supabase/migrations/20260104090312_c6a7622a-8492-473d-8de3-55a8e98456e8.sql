@@ -0,0 +1,74 @@
+-- Busyness forecast: per-slot user counts and contribution clipping, so the edge function can
+-- suppress slots too few people were in and add noise calibrated to one user's contribution.
+-- The return type changes, so the function is dropped and recreated.
+DROP FUNCTION IF EXISTS public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone);
+
+CREATE OR REPLACE FUNCTION public.get_presence_profile(
+  _timezone text,
+  _neighborhood_id uuid DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _lng double precision DEFAULT NULL,
+  _radius_m double precision DEFAULT 150,
+  _since timestamp with time zone DEFAULT now() - interval '28 days',
+  _max_visits_per_user integer DEFAULT 5
+)
+RETURNS TABLE(day_of_week integer, hour_of_day integer, visits bigint, users bigint, total_users bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH points AS (
+    SELECT
+      ul.user_id,
+      (ul.created_at AT TIME ZONE _timezone) AS local_time
+    FROM public.user_locations ul
+    WHERE ul.created_at >= _since
+      AND ul.user_id IS NOT NULL
+      AND (
+        (_neighborhood_id IS NOT NULL AND ul.current_neighborhood_id = _neighborhood_id)
+        OR (
+          _neighborhood_id IS NULL
+          AND _lat IS NOT NULL AND _lng IS NOT NULL
+          -- Bounding box first (uses the lat/lng index), exact distance second
+          AND ul.latitude BETWEEN (_lat - _radius_m / 111000.0)::numeric AND (_lat + _radius_m / 111000.0)::numeric
+          AND ul.longitude BETWEEN (_lng - _radius_m / (111000.0 * cos(radians(_lat))))::numeric
+                               AND (_lng + _radius_m / (111000.0 * cos(radians(_lat))))::numeric
+          AND ST_DWithin(
+            ST_SetSRID(ST_MakePoint(ul.longitude, ul.latitude), 4326)::geography,
+            ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography,
+            _radius_m
+          )
+        )
+      )
+  ),
+  -- One visit per user per local hour, so a user sending many pings counts once
+  visits AS (
+    SELECT DISTINCT user_id, date_trunc('hour', local_time) AS local_hour
+    FROM points
+  ),
+  -- Each user's visits per weekly slot, clipped so a regular can't dominate a slot
+  user_slots AS (
+    SELECT
+      EXTRACT(DOW FROM v.local_hour)::integer AS day_of_week,
+      EXTRACT(HOUR FROM v.local_hour)::integer AS hour_of_day,
+      v.user_id,
+      LEAST(COUNT(*), _max_visits_per_user) AS clipped
+    FROM visits v
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    us.day_of_week,
+    us.hour_of_day,
+    SUM(us.clipped)::bigint AS visits,
+    COUNT(*) AS users,
+    (SELECT COUNT(DISTINCT user_id) FROM points) AS total_users
+  FROM user_slots us
+  GROUP BY 1, 2;
+$$;
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone, integer) FROM public;
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone, integer) FROM anon;
+REVOKE ALL ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone, integer) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_presence_profile(text, uuid, double precision, double precision, double precision, timestamp with time zone, integer) TO service_role;
+
+COMMENT ON FUNCTION public.get_presence_profile IS 'Clipped user visits and distinct users per local weekday/hour slot for a neighborhood (by current_neighborhood_id) or a radius around a point. Service role only.';
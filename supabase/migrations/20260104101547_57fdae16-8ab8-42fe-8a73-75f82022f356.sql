@@ -0,0 +1,69 @@
+-- Redemption no longer tells merchants whether another venue's code exists
+-- A code belonging to a different venue used to come back as wrong_merchant, so a merchant
+-- could probe arbitrary codes for existence. It now gets the same not_found as a code that
+-- was never issued.
+
+CREATE OR REPLACE FUNCTION public.redeem_deal_redemption(
+  _redemption_id uuid,
+  _code text,
+  _redeemed_by uuid,
+  _merchant_id text,
+  _owner_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.deal_redemptions%ROWTYPE;
+  _deal public.deals%ROWTYPE;
+BEGIN
+  SELECT * INTO _redemption
+  FROM public.deal_redemptions r
+  WHERE (_redemption_id IS NOT NULL AND r.id = _redemption_id)
+     OR (_redemption_id IS NULL AND r.code = upper(_code))
+  FOR UPDATE;
+
+  -- Another venue's code answers exactly like a missing one
+  IF NOT FOUND
+    OR (_merchant_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.venues v WHERE v.id = _redemption.venue_id AND v.merchant_id = _merchant_id
+    ))
+    OR (_owner_id IS NOT NULL AND NOT public.manages_venue(_redemption.venue_id, _owner_id))
+  THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO _deal FROM public.deals WHERE id = _redemption.deal_id;
+
+  IF _redemption.status = 'redeemed' THEN
+    RETURN jsonb_build_object('status', 'already_redeemed', 'redeemed_at', _redemption.redeemed_at);
+  END IF;
+
+  IF _redemption.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  -- A code claimed earlier doesn't outlive the deal being switched off, rejected or deleted
+  IF _deal.id IS NULL OR NOT _deal.active OR _deal.deleted_at IS NOT NULL OR _deal.moderation_status = 'rejected' THEN
+    RETURN jsonb_build_object('status', 'not_live');
+  END IF;
+
+  UPDATE public.deal_redemptions
+  SET status = 'redeemed', redeemed_at = now(), redeemed_by = _redeemed_by, merchant_id = _merchant_id
+  WHERE id = _redemption.id
+  RETURNING * INTO _redemption;
+
+  RETURN jsonb_build_object(
+    'status', 'redeemed',
+    'id', _redemption.id,
+    'code', _redemption.code,
+    'redeemed_at', _redemption.redeemed_at,
+    'deal', jsonb_build_object('id', _deal.id, 'title', _deal.title, 'venue_name', _deal.venue_name)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_deal_redemption(uuid, text, uuid, text, uuid) TO service_role;
@@ -0,0 +1,10 @@
+-- Inbound merchant deliveries that are turned away are logged too
+-- sync-merchant-deals records a bad signature, a missing Idempotency-Key or an invalid payload
+-- as a 'rejected' row. These rows sit under their own generated key ('rejected:<uuid>'), so a
+-- forged request can never take the key of a genuine delivery; the sender's key and the start
+-- of the body are kept in payload.
+
+ALTER TABLE public.merchant_sync_events
+DROP CONSTRAINT merchant_sync_events_status_check,
+ADD CONSTRAINT merchant_sync_events_status_check
+  CHECK (status IN ('processing', 'processed', 'pending', 'delivered', 'failed', 'rejected'));